@@ -33,15 +33,61 @@ document.addEventListener("DOMContentLoaded", function () {
   setupTabButtons(loggedOutMenu);
   setupTabButtons(loggedInMenu);
   
-  // Check if user is already logged in (from localStorage)
-  const userData = JSON.parse(localStorage.getItem("foundryApiUser"));
-  if (userData) {
-    // First show dashboard with cached data and switch to logged-in menu
-    showDashboard(userData);
-    switchToLoggedInMenu();
-    
-    // Then fetch fresh data
-    fetchUserData(userData.apiKey);
+  // The access token is only kept in memory, the refresh token is an httpOnly cookie
+  let accessToken = null;
+
+  // Get a new access token from the refresh cookie
+  async function refreshSession() {
+    try {
+      const response = await fetch("/auth/refresh", { method: "POST", credentials: "same-origin" });
+      if (!response.ok) {
+        accessToken = null;
+        return false;
+      }
+      const data = await response.json();
+      accessToken = data.accessToken;
+      return true;
+    } catch (error) {
+      console.error("Failed to refresh session:", error);
+      return false;
+    }
+  }
+
+  // Fetch an account endpoint with the access token, refreshing it once if it has expired
+  async function authFetch(url, options = {}) {
+    const send = () => fetch(url, {
+      ...options,
+      headers: { ...(options.headers || {}), Authorization: `Bearer ${accessToken}` },
+    });
+
+    let response = await send();
+    if (response.status === 401 && await refreshSession()) {
+      response = await send();
+    }
+    return response;
+  }
+
+  // Check if this is a password reset link
+  const resetToken = new URLSearchParams(window.location.search).get("resetToken");
+  if (resetToken) {
+    showResetPassword(resetToken);
+  } else {
+    // Check if user is already logged in (from localStorage)
+    const userData = JSON.parse(localStorage.getItem("foundryApiUser"));
+    if (userData) {
+      // First show dashboard with cached data and switch to logged-in menu
+      showDashboard(userData);
+      switchToLoggedInMenu();
+      
+      // Then resume the session and fetch fresh data
+      refreshSession().then((signedIn) => {
+        if (signedIn) {
+          fetchUserData();
+        } else {
+          signOut();
+        }
+      });
+    }
   }
   
   // Function to switch to logged-in menu
@@ -57,26 +103,21 @@ document.addEventListener("DOMContentLoaded", function () {
   }
   
   // Function to fetch fresh user data
-  async function fetchUserData(apiKey) {
+  async function fetchUserData() {
     try {
-      const response = await fetch("/user-data", {
-        method: "GET",
-        headers: {
-          "x-api-key": apiKey,
-        },
-      });
+      const response = await authFetch("/user-data", { method: "GET" });
 
       if (response.ok) {
         const freshData = await response.json();
+        // The server only stores a hash of the key, keep the one we have
+        const cachedData = JSON.parse(localStorage.getItem("foundryApiUser"));
+        if (cachedData && cachedData.email === freshData.email && cachedData.apiKey) {
+          freshData.apiKey = cachedData.apiKey;
+        }
 
         // Fetch subscription status separately
         try {
-          const subResponse = await fetch("/api/subscriptions/status", {
-            method: "GET",
-            headers: {
-              "x-api-key": apiKey,
-            },
-          });
+          const subResponse = await authFetch("/api/subscriptions/status", { method: "GET" });
           
           if (subResponse.ok) {
             const subData = await subResponse.json();
@@ -92,6 +133,8 @@ document.addEventListener("DOMContentLoaded", function () {
 
         // Update dashboard with fresh data
         updateDashboardData(freshData);
+      } else if (response.status === 401) {
+        signOut();
       }
     } catch (error) {
       console.error("Failed to fetch fresh user data:", error);
@@ -101,7 +144,8 @@ document.addEventListener("DOMContentLoaded", function () {
   // Function to update dashboard data
   function updateDashboardData(userData) {
     document.getElementById("user-email").textContent = userData.email;
-    document.getElementById("user-api-key").textContent = userData.apiKey;
+    document.getElementById("user-api-key").textContent = userData.apiKey ||
+      `${userData.apiKeyPrefix || ""}... (hidden, regenerate to get a new key)`;
     
     // Update rate limits display
     if (userData.limits) {
@@ -111,11 +155,13 @@ document.addEventListener("DOMContentLoaded", function () {
         const dailyLimit = userData.limits.dailyLimit;
         const monthlyLimit = userData.limits.monthlyLimit;
         
+        const planName = userData.plan ? userData.plan.name : "free";
+        
         rateLimitsEl.innerHTML = `
-          <strong>⚠️ Rate Limits:</strong> All users are limited to ${dailyLimit.toLocaleString()} requests per day. 
+          <strong>⚠️ Rate Limits:</strong> Your ${planName} plan is limited to ${dailyLimit.toLocaleString()} requests per day. 
           ${isUnlimited ? 
-            'You have unlimited monthly access with your subscription.' : 
-            `Free accounts are limited to ${monthlyLimit} requests per month. Subscribe for unlimited monthly access.`
+            'You have unlimited monthly access with your plan.' : 
+            `It is limited to ${monthlyLimit.toLocaleString()} requests per month. Subscribe for more monthly access.`
           }
         `;
       }
@@ -130,7 +176,7 @@ document.addEventListener("DOMContentLoaded", function () {
     const requestsThisMonth = userData.requestsThisMonth || 0;
     const limits = userData.limits || {};
     
-    if (status !== 'active') {
+    if (!limits.unlimitedMonthly) {
       document.getElementById("user-requests").textContent =
         `Monthly: ${requestsThisMonth} / ${limits.monthlyLimit || 100}, Daily: ${requestsToday} / ${limits.dailyLimit || 1000}`;
     } else {
@@ -161,6 +207,9 @@ document.addEventListener("DOMContentLoaded", function () {
       if (response.ok) {
         messageEl.textContent = "Account created successfully!";
         messageEl.className = "message success";
+        accessToken = data.accessToken;
+        delete data.accessToken;
+        delete data.expiresIn;
 
         // Save user data, show dashboard, and switch to logged-in menu
         localStorage.setItem("foundryApiUser", JSON.stringify(data));
@@ -199,11 +248,21 @@ document.addEventListener("DOMContentLoaded", function () {
       if (response.ok) {
         messageEl.textContent = "Login successful!";
         messageEl.className = "message success";
+        accessToken = data.accessToken;
+        delete data.accessToken;
+        delete data.expiresIn;
+
+        // Login does not return the API key, reuse it if this browser still knows it
+        const previousUser = JSON.parse(localStorage.getItem("foundryApiUser"));
+        if (previousUser && previousUser.email === data.email && previousUser.apiKey) {
+          data.apiKey = previousUser.apiKey;
+        }
 
         // Save user data, show dashboard, and switch to logged-in menu
         localStorage.setItem("foundryApiUser", JSON.stringify(data));
         showDashboard(data);
         switchToLoggedInMenu();
+        fetchUserData();
       } else {
         messageEl.textContent = data.error || "Invalid credentials.";
         messageEl.className = "message error";
@@ -217,7 +276,40 @@ document.addEventListener("DOMContentLoaded", function () {
 
   // Handle logout
   const logoutBtn = document.getElementById("logout-btn");
-  logoutBtn.addEventListener("click", () => {
+  logoutBtn.addEventListener("click", async () => {
+    try {
+      await fetch("/auth/logout", { method: "POST", credentials: "same-origin" });
+    } catch (error) {
+      console.error("Failed to end session:", error);
+    }
+    signOut();
+  });
+
+  // End every session of this account, in all browsers
+  const logoutAllBtn = document.getElementById("logout-all-btn");
+  logoutAllBtn.addEventListener("click", async () => {
+    if (!confirm("Sign out of every browser signed in to this account?")) {
+      return;
+    }
+
+    try {
+      const response = await authFetch("/auth/logout-all", { method: "POST" });
+      if (!response.ok && response.status !== 401) {
+        const data = await response.json().catch(() => ({}));
+        alert(data.error || "Failed to sign out everywhere");
+        return;
+      }
+    } catch (error) {
+      console.error("Failed to sign out everywhere:", error);
+      alert("An error occurred. Please try again.");
+      return;
+    }
+    signOut();
+  });
+
+  // Forget the session and show the sign up tab
+  function signOut() {
+    accessToken = null;
     localStorage.removeItem("foundryApiUser");
     
     // Switch to logged-out menu
@@ -236,6 +328,116 @@ document.addEventListener("DOMContentLoaded", function () {
     document.getElementById("login-form").reset();
     document.getElementById("signup-message").textContent = "";
     document.getElementById("login-message").textContent = "";
+  }
+
+  // Change the password, which signs out every other session
+  const changePasswordForm = document.getElementById("change-password-form");
+  changePasswordForm.addEventListener("submit", async (e) => {
+    e.preventDefault();
+    const currentPassword = document.getElementById("current-password").value;
+    const newPassword = document.getElementById("new-password").value;
+    const messageEl = document.getElementById("change-password-message");
+
+    try {
+      const response = await authFetch("/auth/change-password", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ currentPassword, newPassword }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        accessToken = data.accessToken;
+        changePasswordForm.reset();
+        messageEl.textContent = "Password changed. Other sessions have been signed out.";
+        messageEl.className = "message success";
+      } else {
+        messageEl.textContent = data.error || "Failed to change password.";
+        messageEl.className = "message error";
+      }
+    } catch (error) {
+      messageEl.textContent = "An error occurred. Please try again.";
+      messageEl.className = "message error";
+      console.error(error);
+    }
+  });
+
+  // Show the reset password tab, with the new password form if we have a reset token
+  function showResetPassword(token) {
+    document.querySelectorAll(".tab-content").forEach((content) => content.classList.remove("active"));
+    loggedOutMenu.querySelectorAll(".tab-button").forEach((btn) => btn.classList.remove("active"));
+    document.getElementById("reset-password").classList.add("active");
+    document.getElementById("forgot-password-form").style.display = token ? "none" : "block";
+    document.getElementById("reset-password-form").style.display = token ? "block" : "none";
+  }
+
+  document.getElementById("forgot-password-link").addEventListener("click", (e) => {
+    e.preventDefault();
+    showResetPassword(null);
+  });
+
+  // Request a password reset link
+  const forgotPasswordForm = document.getElementById("forgot-password-form");
+  forgotPasswordForm.addEventListener("submit", async (e) => {
+    e.preventDefault();
+    const email = document.getElementById("forgot-email").value;
+    const messageEl = document.getElementById("reset-message");
+
+    try {
+      const response = await fetch("/auth/forgot-password", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ email }),
+      });
+
+      const data = await response.json();
+      messageEl.textContent = response.ok ? data.message : (data.error || "Failed to request a reset link.");
+      messageEl.className = response.ok ? "message success" : "message error";
+    } catch (error) {
+      messageEl.textContent = "An error occurred. Please try again.";
+      messageEl.className = "message error";
+      console.error(error);
+    }
+  });
+
+  // Set a new password from a reset link
+  const resetPasswordForm = document.getElementById("reset-password-form");
+  resetPasswordForm.addEventListener("submit", async (e) => {
+    e.preventDefault();
+    const newPassword = document.getElementById("reset-new-password").value;
+    const messageEl = document.getElementById("reset-message");
+
+    try {
+      const response = await fetch("/auth/reset-password", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ token: resetToken, newPassword }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        localStorage.removeItem("foundryApiUser");
+        window.history.replaceState({}, "", window.location.pathname);
+        resetPasswordForm.style.display = "none";
+        messageEl.textContent = "Password updated. You can now sign in.";
+        messageEl.className = "message success";
+      } else {
+        messageEl.textContent = data.error || "Failed to reset password.";
+        messageEl.className = "message error";
+      }
+    } catch (error) {
+      messageEl.textContent = "An error occurred. Please try again.";
+      messageEl.className = "message error";
+      console.error(error);
+    }
   });
 
   // Copy API key to clipboard
@@ -254,37 +456,17 @@ document.addEventListener("DOMContentLoaded", function () {
   // Regenerate API key
   const regenApiKeyBtn = document.getElementById("regen-api-key");
   regenApiKeyBtn.addEventListener("click", async () => {
-    if (!confirm("Are you sure you want to regenerate your API key? This will invalidate your current key and you'll need to update any applications using it.")) {
+    if (!confirm("Are you sure you want to regenerate your API key? Your current key will stop working after a grace period and you'll need to update any applications using it.")) {
       return;
     }
 
-    // Get user data from localStorage for email
-    const userData = JSON.parse(localStorage.getItem("foundryApiUser"));
-    if (!userData || !userData.email) {
-      alert("Please log in again to regenerate your API key.");
-      return;
-    }
-
-    // Prompt for password
-    const password = prompt("Please enter your password to confirm:");
-    if (!password) {
-      return;
-    }
+    const userData = JSON.parse(localStorage.getItem("foundryApiUser")) || {};
 
     try {
       regenApiKeyBtn.disabled = true;
       regenApiKeyBtn.textContent = "Regenerating...";
 
-      const response = await fetch("/regenerate-key", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          email: userData.email,
-          password: password
-        }),
-      });
+      const response = await authFetch("/regenerate-key", { method: "POST" });
 
       const data = await response.json();
 
@@ -302,7 +484,8 @@ document.addEventListener("DOMContentLoaded", function () {
           regenApiKeyBtn.textContent = "Regenerate";
         }, 2000);
         
-        alert("API key regenerated successfully! Please update any applications using the old key.");
+        const graceUntil = data.previousKeyExpiresAt ? ` before ${new Date(data.previousKeyExpiresAt).toLocaleString()}` : "";
+        alert(`API key regenerated successfully! Please update any applications using the old key${graceUntil}. This is the only time the new key is shown.`);
       } else {
         alert(data.error || "Failed to regenerate API key");
       }
@@ -346,16 +529,15 @@ document.addEventListener("DOMContentLoaded", function () {
         const userData = JSON.parse(localStorage.getItem("foundryApiUser"));
         console.log("User data from localStorage:", userData);
         
-        if (!userData || !userData.apiKey) {
+        if (!userData) {
           alert("Please log in first");
           return;
         }
         
-        const response = await fetch("/api/subscriptions/create-checkout-session", {
+        const response = await authFetch("/api/subscriptions/create-checkout-session", {
           method: "POST",
           headers: {
-            "Content-Type": "application/json",
-            "x-api-key": userData.apiKey
+            "Content-Type": "application/json"
           }
         });
         
@@ -379,17 +561,16 @@ document.addEventListener("DOMContentLoaded", function () {
   if (manageSubscriptionBtn) {
     manageSubscriptionBtn.addEventListener("click", async () => {
       const userData = JSON.parse(localStorage.getItem("foundryApiUser"));
-      if (!userData || !userData.apiKey) {
+      if (!userData) {
         alert("Please log in first");
         return;
       }
       
       try {
-        const response = await fetch("/api/subscriptions/create-portal-session", {
+        const response = await authFetch("/api/subscriptions/create-portal-session", {
           method: "POST",
           headers: {
-            "Content-Type": "application/json",
-            "x-api-key": userData.apiKey
+            "Content-Type": "application/json"
           }
         });
         
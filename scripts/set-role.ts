@@ -0,0 +1,47 @@
+// Script to give a user a role, e.g. to make them an admin
+// Usage: npm run set-role -- <email> <user|admin>
+import { User } from '../src/models/user';
+import { log } from '../src/utils/logger';
+import { sequelize } from '../src/sequelize';
+import { config } from 'dotenv';
+
+// Load environment variables
+config();
+
+const ROLES = ['user', 'admin'];
+
+async function main() {
+  const [email, role] = process.argv.slice(2);
+  if (!email || !ROLES.includes(role)) {
+    log.error(`Usage: npm run set-role -- <email> <${ROLES.join('|')}>`);
+    process.exit(1);
+  }
+
+  try {
+    // Initialize database connection
+    await sequelize.sync();
+    log.info('Database connection established');
+
+    const user = await User.findOne({ where: { email } });
+    if (!user) {
+      log.error(`User not found: ${email}`);
+      process.exit(1);
+    }
+
+    await user.update({ role });
+    log.info(`${email} now has the ${role} role`);
+  } catch (error) {
+    log.error(`Error setting role: ${error}`);
+    process.exit(1);
+  } finally {
+    // Close database connection if it's a real Sequelize instance
+    if ('close' in sequelize && typeof sequelize.close === 'function') {
+      await sequelize.close();
+      log.info('Database connection closed');
+    }
+  }
+
+  process.exit(0);
+}
+
+main();
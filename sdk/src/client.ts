@@ -0,0 +1,521 @@
+import {
+  ActorDetailsParams, AddToEncounterParams, ApiKeyInfo, AttributeChangeParams, BatchParams, BatchResponse,
+  CallOptions, ChatMessageParams, ChatMessagesParams, ClientCapabilities, ClientsResponse, CreateApiKeyParams, CreateEntityParams,
+  CreateFolderParams, CreateWebhookParams, DeleteFolderParams, DownloadFileParams, DownloadedFile,
+  EncounterParams, EntityTarget, FileSystemParams, FoundryRelayClientOptions, GetEntityParams,
+  GetUsageParams, GiveItemParams, HttpMethod, Job, ModifyExperienceParams, ModifyItemChargesParams, RelayResponse,
+  RemoveFromEncounterParams, RemoveItemParams, RollParams, RollsParams, SearchParams, SelectParams,
+  SheetParams, StartEncounterParams, StructureParams, UpdateEntityParams, UploadFileParams,
+  UpdateApiKeyParams, UsageReport, UseAbilityParams, WaitForJobOptions, WebhookSubscription
+} from './types';
+import { RelayClientReconnectingError, RelayError, RelayRateLimitError, RelayTimeoutError } from './errors';
+
+interface RequestSpec {
+  method: HttpMethod;
+  path: string;
+  query?: Record<string, unknown>;
+  body?: unknown;
+  rawBody?: Uint8Array | ArrayBuffer | Blob;
+  contentType?: string;
+  /** Set to false for account-level endpoints that do not target a Foundry client */
+  withClientId?: boolean;
+  options?: CallOptions;
+}
+
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 1000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function createIdempotencyKey(): string {
+  const webCrypto = (globalThis as any).crypto;
+  if (webCrypto?.randomUUID) {
+    return webCrypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}-${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * Typed client for the Foundry REST API relay.
+ *
+ * Every method maps to one relay endpoint. Calls that target a Foundry world use the
+ * clientId passed in the call options, falling back to the one given to the constructor.
+ * POST, PUT and DELETE calls send an Idempotency-Key so automatic retries are not applied twice.
+ * Binary uploads do not, and are not retried after a timeout.
+ */
+export class FoundryRelayClient {
+  private readonly baseUrl: string;
+  private readonly apiKey: string;
+  private readonly clientId?: string;
+  private readonly retries: number;
+  private readonly retryDelayMs: number;
+  private readonly headers: Record<string, string>;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(options: FoundryRelayClientOptions) {
+    if (!options.apiKey) {
+      throw new Error('An API key is required');
+    }
+    if (!options.baseUrl) {
+      throw new Error('A relay baseUrl is required');
+    }
+
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.apiKey = options.apiKey;
+    this.clientId = options.clientId;
+    this.retries = options.retries ?? DEFAULT_RETRIES;
+    this.retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+    this.headers = options.headers || {};
+    this.fetchImpl = options.fetch || globalThis.fetch;
+
+    if (!this.fetchImpl) {
+      throw new Error('No fetch implementation available, pass one in the fetch option');
+    }
+  }
+
+  // --- Clients ---
+
+  /** List the Foundry clients connected with this API key */
+  getClients(options?: CallOptions): Promise<ClientsResponse> {
+    return this.call({ method: 'GET', path: '/clients', withClientId: false, options });
+  }
+
+  /** Get the system, active modules and supported request types of a connected world */
+  getClientCapabilities(clientId?: string, options?: CallOptions): Promise<ClientCapabilities> {
+    const id = clientId || options?.clientId || this.clientId;
+    if (!id) {
+      throw new Error('A clientId is required for GET /clients/:id/capabilities');
+    }
+    return this.call({ method: 'GET', path: `/clients/${encodeURIComponent(id)}/capabilities`, withClientId: false, options });
+  }
+
+  // --- Search and structure ---
+
+  search(params: SearchParams, options?: CallOptions): Promise<RelayResponse> {
+    return this.call({ method: 'GET', path: '/search', query: { ...params }, options });
+  }
+
+  getStructure(params: StructureParams = {}, options?: CallOptions): Promise<RelayResponse> {
+    return this.call({ method: 'GET', path: '/structure', query: { ...params }, options });
+  }
+
+  getFolder(name: string, options?: CallOptions): Promise<RelayResponse> {
+    return this.call({ method: 'GET', path: '/get-folder', query: { name }, options });
+  }
+
+  createFolder(params: CreateFolderParams, options?: CallOptions): Promise<RelayResponse> {
+    return this.call({ method: 'POST', path: '/create-folder', body: params, options });
+  }
+
+  deleteFolder(params: DeleteFolderParams, options?: CallOptions): Promise<RelayResponse> {
+    return this.call({ method: 'DELETE', path: '/delete-folder', query: { ...params }, options });
+  }
+
+  // --- Entities ---
+
+  getEntity(params: GetEntityParams, options?: CallOptions): Promise<RelayResponse> {
+    return this.call({ method: 'GET', path: '/get', query: { ...params }, options });
+  }
+
+  createEntity(params: CreateEntityParams, options?: CallOptions): Promise<RelayResponse> {
+    return this.call({ method: 'POST', path: '/create', body: params, options });
+  }
+
+  updateEntity(params: UpdateEntityParams, options?: CallOptions): Promise<RelayResponse> {
+    const { data, ...target } = params;
+    return this.call({ method: 'PUT', path: '/update', query: target, body: { data }, options });
+  }
+
+  deleteEntity(params: EntityTarget, options?: CallOptions): Promise<RelayResponse> {
+    return this.call({ method: 'DELETE', path: '/delete', query: { ...params }, options });
+  }
+
+  giveItem(params: GiveItemParams, options?: CallOptions): Promise<RelayResponse> {
+    return this.call({ method: 'POST', path: '/give', body: params, options });
+  }
+
+  removeItem(params: RemoveItemParams, options?: CallOptions): Promise<RelayResponse> {
+    return this.call({ method: 'POST', path: '/remove', body: params, options });
+  }
+
+  decreaseAttribute(params: AttributeChangeParams, options?: CallOptions): Promise<RelayResponse> {
+    const { attribute, amount, ...target } = params;
+    return this.call({ method: 'POST', path: '/decrease', query: target, body: { attribute, amount }, options });
+  }
+
+  increaseAttribute(params: AttributeChangeParams, options?: CallOptions): Promise<RelayResponse> {
+    const { attribute, amount, ...target } = params;
+    return this.call({ method: 'POST', path: '/increase', query: target, body: { attribute, amount }, options });
+  }
+
+  kill(params: EntityTarget, options?: CallOptions): Promise<RelayResponse> {
+    return this.call({ method: 'POST', path: '/kill', query: { ...params }, options });
+  }
+
+  /** Get an actor or item sheet as HTML */
+  getSheetHtml(params: SheetParams, options?: CallOptions): Promise<string> {
+    return this.send({ method: 'GET', path: '/sheet', query: { ...params, format: 'html' }, options })
+      .then(response => response.text());
+  }
+
+  /** Get an actor or item sheet as HTML and CSS wrapped in JSON */
+  getSheet(params: SheetParams, options?: CallOptions): Promise<RelayResponse> {
+    return this.call({ method: 'GET', path: '/sheet', query: { ...params, format: 'json' }, options });
+  }
+
+  // --- Rolls and chat ---
+
+  getRolls(params: RollsParams = {}, options?: CallOptions): Promise<RelayResponse> {
+    return this.call({ method: 'GET', path: '/rolls', query: { ...params }, options });
+  }
+
+  getLastRoll(options?: CallOptions): Promise<RelayResponse> {
+    return this.call({ method: 'GET', path: '/lastroll', options });
+  }
+
+  roll(params: RollParams, options?: CallOptions): Promise<RelayResponse> {
+    return this.call({ method: 'POST', path: '/roll', body: params, options });
+  }
+
+  sendChatMessage(params: ChatMessageParams, options?: CallOptions): Promise<RelayResponse> {
+    return this.call({ method: 'POST', path: '/chat', body: params, options });
+  }
+
+  getChatMessages(params: ChatMessagesParams = {}, options?: CallOptions): Promise<RelayResponse> {
+    return this.call({ method: 'GET', path: '/messages', query: { ...params }, options });
+  }
+
+  // --- Macros ---
+
+  getMacros(options?: CallOptions): Promise<RelayResponse> {
+    return this.call({ method: 'GET', path: '/macros', options });
+  }
+
+  executeMacro(uuid: string, args?: Record<string, any>, options?: CallOptions): Promise<RelayResponse> {
+    return this.call({
+      method: 'POST',
+      path: `/macro/${encodeURIComponent(uuid)}/execute`,
+      body: args ? { args } : {},
+      options
+    });
+  }
+
+  // --- Encounters ---
+
+  getEncounters(options?: CallOptions): Promise<RelayResponse> {
+    return this.call({ method: 'GET', path: '/encounters', options });
+  }
+
+  startEncounter(params: StartEncounterParams = {}, options?: CallOptions): Promise<RelayResponse> {
+    return this.call({ method: 'POST', path: '/start-encounter', body: params, options });
+  }
+
+  nextTurn(params: EncounterParams = {}, options?: CallOptions): Promise<RelayResponse> {
+    return this.call({ method: 'POST', path: '/next-turn', body: params, options });
+  }
+
+  nextRound(params: EncounterParams = {}, options?: CallOptions): Promise<RelayResponse> {
+    return this.call({ method: 'POST', path: '/next-round', body: params, options });
+  }
+
+  lastTurn(params: EncounterParams = {}, options?: CallOptions): Promise<RelayResponse> {
+    return this.call({ method: 'POST', path: '/last-turn', body: params, options });
+  }
+
+  lastRound(params: EncounterParams = {}, options?: CallOptions): Promise<RelayResponse> {
+    return this.call({ method: 'POST', path: '/last-round', body: params, options });
+  }
+
+  endEncounter(params: EncounterParams = {}, options?: CallOptions): Promise<RelayResponse> {
+    return this.call({ method: 'POST', path: '/end-encounter', body: params, options });
+  }
+
+  addToEncounter(params: AddToEncounterParams, options?: CallOptions): Promise<RelayResponse> {
+    return this.call({ method: 'POST', path: '/add-to-encounter', body: params, options });
+  }
+
+  removeFromEncounter(params: RemoveFromEncounterParams, options?: CallOptions): Promise<RelayResponse> {
+    return this.call({ method: 'POST', path: '/remove-from-encounter', body: params, options });
+  }
+
+  // --- Utility ---
+
+  select(params: SelectParams, options?: CallOptions): Promise<RelayResponse> {
+    return this.call({ method: 'POST', path: '/select', body: params, options });
+  }
+
+  getSelected(options?: CallOptions): Promise<RelayResponse> {
+    return this.call({ method: 'GET', path: '/selected', options });
+  }
+
+  executeJs(script: string, options?: CallOptions): Promise<RelayResponse> {
+    return this.call({ method: 'POST', path: '/execute-js', body: { script }, options });
+  }
+
+  // --- D&D 5e ---
+
+  getActorDetails(params: ActorDetailsParams, options?: CallOptions): Promise<RelayResponse> {
+    return this.call({ method: 'GET', path: '/get-actor-details', query: { ...params }, options });
+  }
+
+  modifyItemCharges(params: ModifyItemChargesParams, options?: CallOptions): Promise<RelayResponse> {
+    return this.call({ method: 'POST', path: '/modify-item-charges', body: params, options });
+  }
+
+  useAbility(params: UseAbilityParams, options?: CallOptions): Promise<RelayResponse> {
+    return this.call({ method: 'POST', path: '/use-ability', body: params, options });
+  }
+
+  useFeature(params: UseAbilityParams, options?: CallOptions): Promise<RelayResponse> {
+    return this.call({ method: 'POST', path: '/use-feature', body: params, options });
+  }
+
+  useSpell(params: UseAbilityParams, options?: CallOptions): Promise<RelayResponse> {
+    return this.call({ method: 'POST', path: '/use-spell', body: params, options });
+  }
+
+  useItem(params: UseAbilityParams, options?: CallOptions): Promise<RelayResponse> {
+    return this.call({ method: 'POST', path: '/use-item', body: params, options });
+  }
+
+  modifyExperience(params: ModifyExperienceParams, options?: CallOptions): Promise<RelayResponse> {
+    return this.call({ method: 'POST', path: '/modify-experience', body: params, options });
+  }
+
+  // --- File system ---
+
+  getFileSystem(params: FileSystemParams = {}, options?: CallOptions): Promise<RelayResponse> {
+    return this.call({ method: 'GET', path: '/file-system', query: { ...params }, options });
+  }
+
+  /** Upload binary data to the Foundry file system */
+  uploadFile(params: UploadFileParams, options?: CallOptions): Promise<RelayResponse> {
+    const { data, ...query } = params;
+    return this.call({
+      method: 'POST',
+      path: '/upload',
+      query,
+      rawBody: data,
+      contentType: 'application/octet-stream',
+      options
+    });
+  }
+
+  /** Download a file from the Foundry file system as raw bytes */
+  async downloadFile(params: DownloadFileParams, options?: CallOptions): Promise<DownloadedFile> {
+    const response = await this.send({
+      method: 'GET',
+      path: '/download',
+      query: { ...params, format: 'binary' },
+      options
+    });
+
+    const disposition = response.headers.get('content-disposition') || '';
+    const filename = disposition.match(/filename="?([^";]+)"?/)?.[1];
+
+    return {
+      data: new Uint8Array(await response.arrayBuffer()),
+      mimeType: response.headers.get('content-type') || 'application/octet-stream',
+      filename
+    };
+  }
+
+  // --- Batch ---
+
+  /** Run several relay operations against the same Foundry client in one call */
+  batch(params: BatchParams, options?: CallOptions): Promise<BatchResponse> {
+    return this.call({ method: 'POST', path: '/batch', body: params, options });
+  }
+
+  // --- Jobs ---
+
+  /** Get the status of a job started with `async: true` */
+  getJob(jobId: string, options?: CallOptions): Promise<Job> {
+    return this.call({ method: 'GET', path: `/jobs/${encodeURIComponent(jobId)}`, withClientId: false, options });
+  }
+
+  /**
+   * Poll a job until it completes. Resolves with the job's result and throws a
+   * RelayError with the job's status code if it failed.
+   */
+  async waitForJob(jobId: string, options: WaitForJobOptions = {}): Promise<RelayResponse> {
+    const intervalMs = options.intervalMs ?? 1000;
+    const startedAt = Date.now();
+
+    for (;;) {
+      const job = await this.getJob(jobId, { signal: options.signal });
+      if (job.status === 'completed') {
+        return job.result ?? {};
+      }
+      if (job.status === 'failed') {
+        const body = job.result ?? { error: job.error };
+        if (job.statusCode === 503) {
+          throw new RelayClientReconnectingError(job.statusCode, body);
+        }
+        throw job.statusCode === 408 || job.statusCode === 504
+          ? new RelayTimeoutError(job.statusCode, body)
+          : new RelayError(job.statusCode ?? 500, body);
+      }
+      if (options.timeoutMs !== undefined && Date.now() - startedAt + intervalMs > options.timeoutMs) {
+        throw new Error(`Job ${jobId} did not finish within ${options.timeoutMs}ms`);
+      }
+      await sleep(intervalMs);
+    }
+  }
+
+  // --- Webhooks ---
+
+  createWebhookSubscription(params: CreateWebhookParams, options?: CallOptions): Promise<WebhookSubscription> {
+    return this.call({ method: 'POST', path: '/webhooks/subscriptions', body: params, withClientId: false, options });
+  }
+
+  listWebhookSubscriptions(options?: CallOptions): Promise<{ total: number; subscriptions: WebhookSubscription[] }> {
+    return this.call({ method: 'GET', path: '/webhooks/subscriptions', withClientId: false, options });
+  }
+
+  deleteWebhookSubscription(id: number, options?: CallOptions): Promise<{ success: boolean; id: number }> {
+    return this.call({ method: 'DELETE', path: `/webhooks/subscriptions/${id}`, withClientId: false, options });
+  }
+
+  // --- API keys ---
+
+  /** Create an additional API key. Requires the account's primary key; the new key is only returned here. */
+  createApiKey(params: CreateApiKeyParams, options?: CallOptions): Promise<ApiKeyInfo> {
+    return this.call({ method: 'POST', path: '/api-keys', body: params, withClientId: false, options });
+  }
+
+  listApiKeys(options?: CallOptions): Promise<{ total: number; apiKeys: ApiKeyInfo[] }> {
+    return this.call({ method: 'GET', path: '/api-keys', withClientId: false, options });
+  }
+
+  updateApiKey(id: number, params: UpdateApiKeyParams, options?: CallOptions): Promise<ApiKeyInfo> {
+    return this.call({ method: 'PUT', path: `/api-keys/${id}`, body: params, withClientId: false, options });
+  }
+
+  deleteApiKey(id: number, options?: CallOptions): Promise<{ success: boolean; id: number }> {
+    return this.call({ method: 'DELETE', path: `/api-keys/${id}`, withClientId: false, options });
+  }
+
+  // --- Usage ---
+
+  /** Get the account's usage history. Requires the account's primary key. */
+  getUsage(params: GetUsageParams = {}, options?: CallOptions): Promise<UsageReport> {
+    return this.call({ method: 'GET', path: '/usage', query: { ...params }, withClientId: false, options });
+  }
+
+  // --- Transport ---
+
+  private async call<T>(spec: RequestSpec): Promise<T> {
+    const response = await this.send(spec);
+    return response.json() as Promise<T>;
+  }
+
+  /**
+   * Send a request, retrying when the Foundry client times out or reconnects, or a per-second rate limit is hit.
+   * Resolves with the response for any 2xx status and throws a RelayError otherwise.
+   */
+  private async send(spec: RequestSpec): Promise<Response> {
+    const url = this.buildUrl(spec);
+    const headers: Record<string, string> = { ...this.headers, 'x-api-key': this.apiKey };
+    let body: any;
+
+    if (spec.rawBody !== undefined) {
+      headers['Content-Type'] = spec.contentType || 'application/octet-stream';
+      body = spec.rawBody;
+    } else if (spec.body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+      body = JSON.stringify(spec.body);
+    }
+
+    // The relay refuses Idempotency-Key on binary uploads, it cannot compare their contents
+    if (spec.method !== 'GET' && spec.rawBody === undefined) {
+      headers['Idempotency-Key'] = spec.options?.idempotencyKey || createIdempotencyKey();
+    }
+    // Calls that change something are only retried after a timeout when a retry cannot apply them twice
+    const retryTimeouts = spec.method === 'GET' || headers['Idempotency-Key'] !== undefined;
+
+    const retries = spec.options?.retries ?? this.retries;
+
+    for (let attempt = 0; ; attempt++) {
+      const response = await this.fetchImpl(url, {
+        method: spec.method,
+        headers,
+        body,
+        signal: spec.options?.signal
+      });
+
+      if (response.ok) {
+        return response;
+      }
+
+      const errorBody = await this.readErrorBody(response);
+      const isTimeout = response.status === 408 || response.status === 504;
+      // 409: the original request with this Idempotency-Key is still waiting for Foundry
+      const isPending = response.status === 409 && headers['Idempotency-Key'] !== undefined;
+      // 503 for a request: the Foundry client is reconnecting, the request is held again on retry
+      const isInterrupted = response.status === 503 && errorBody?.interrupted === true;
+      const isReconnecting = response.status === 503 && typeof errorBody?.requestId === 'string' && !isInterrupted;
+      // Interrupted requests may have run before the client reconnected, only reads are repeated
+      const retryInterrupted = isInterrupted && spec.method === 'GET';
+
+      if (((isTimeout && retryTimeouts) || isPending || isReconnecting || retryInterrupted) && attempt < retries) {
+        await sleep(this.retryDelayMs * Math.pow(2, attempt));
+        continue;
+      }
+      // Per-second rate limits say how long to wait, quotas do not
+      const isThrottled = response.status === 429 && typeof errorBody?.retryAfter === 'number' && errorBody?.scope !== undefined;
+      if (isThrottled && attempt < retries) {
+        await sleep(errorBody.retryAfter * 1000);
+        continue;
+      }
+
+      if (isTimeout || isPending) {
+        throw new RelayTimeoutError(response.status, errorBody);
+      }
+      if (response.status === 429) {
+        throw new RelayRateLimitError(response.status, errorBody);
+      }
+      if (isReconnecting) {
+        throw new RelayClientReconnectingError(response.status, errorBody);
+      }
+      throw new RelayError(response.status, errorBody);
+    }
+  }
+
+  private buildUrl(spec: RequestSpec): string {
+    const url = new URL(`${this.baseUrl}${spec.path}`);
+    const query: Record<string, unknown> = { ...(spec.query || {}) };
+
+    if (spec.withClientId !== false) {
+      const clientId = spec.options?.clientId || this.clientId;
+      if (!clientId) {
+        throw new Error(`A clientId is required for ${spec.method} ${spec.path}`);
+      }
+      query.clientId = clientId;
+    }
+
+    if (spec.options?.async) {
+      query.async = true;
+      query.callbackUrl = spec.options.callbackUrl;
+    }
+
+    for (const [key, value] of Object.entries(query)) {
+      if (value === undefined || value === null) continue;
+      // Arrays and objects in the query string are parsed as JSON by the relay
+      url.searchParams.set(key, typeof value === 'object' ? JSON.stringify(value) : String(value));
+    }
+
+    return url.toString();
+  }
+
+  private async readErrorBody(response: Response): Promise<any> {
+    const text = await response.text().catch(() => '');
+    try {
+      return text ? JSON.parse(text) : null;
+    } catch {
+      return { error: text };
+    }
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Error returned by the relay for a non-2xx response.
+ * The parsed response body is kept on `body`.
+ */
+export class RelayError extends Error {
+  readonly status: number;
+  readonly body: any;
+  /** Validation error code, set on 400 responses */
+  readonly code?: string;
+  /** The invalid or missing parameter, set on 400 responses */
+  readonly field?: string | null;
+
+  constructor(status: number, body: any, message?: string) {
+    super(message || (body && typeof body === 'object' && body.error) || `Relay request failed with status ${status}`);
+    this.name = 'RelayError';
+    this.status = status;
+    this.body = body;
+    this.code = body?.code;
+    this.field = body?.field;
+  }
+}
+
+/**
+ * The Foundry client did not answer in time (408 or 504), or a retried request
+ * is still waiting for the original call's result (409).
+ * Requests are retried automatically before this is thrown.
+ */
+export class RelayTimeoutError extends RelayError {
+  constructor(status: number, body: any) {
+    super(status, body);
+    this.name = 'RelayTimeoutError';
+  }
+}
+
+/**
+ * The Foundry client is reconnecting and did not answer in time (503). The request was not
+ * sent to the client afterwards, so it can be retried once the client is back.
+ * Requests are retried automatically before this is thrown.
+ */
+export class RelayClientReconnectingError extends RelayError {
+  /** Seconds the relay keeps waiting for the client to reconnect */
+  readonly retryAfter?: number;
+
+  constructor(status: number, body: any) {
+    super(status, body);
+    this.name = 'RelayClientReconnectingError';
+    this.retryAfter = body?.retryAfter;
+  }
+}
+
+/**
+ * A daily or monthly request limit or a per-second rate limit has been reached (429).
+ * Per-second limits are retried automatically before this is thrown.
+ */
+export class RelayRateLimitError extends RelayError {
+  /** The limit that was hit, when the relay reports it */
+  readonly limit?: number;
+  /** When the limit resets, when the relay reports it */
+  readonly resetsAt?: Date;
+  /** Seconds to wait before retrying, for per-second rate limits */
+  readonly retryAfter?: number;
+  /** Whether the per-second limit of the API key or of the Foundry client was hit */
+  readonly scope?: 'apiKey' | 'client';
+
+  constructor(status: number, body: any) {
+    super(status, body);
+    this.name = 'RelayRateLimitError';
+    this.limit = body?.dailyLimit ?? body?.limit;
+    this.resetsAt = body?.resetsAt ? new Date(body.resetsAt) : undefined;
+    this.retryAfter = body?.retryAfter;
+    this.scope = body?.scope;
+  }
+}
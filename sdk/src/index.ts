@@ -0,0 +1,3 @@
+export { FoundryRelayClient } from './client';
+export { RelayError, RelayTimeoutError, RelayRateLimitError, RelayClientReconnectingError } from './errors';
+export * from './types';
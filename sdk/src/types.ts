@@ -0,0 +1,454 @@
+/**
+ * Request types the relay forwards to a connected Foundry client.
+ * Mirrors PENDING_REQUEST_TYPES in the relay server (src/routes/shared.ts).
+ */
+export const RELAY_REQUEST_TYPES = [
+  'search', 'entity', 'structure', 'contents', 'create', 'update', 'delete',
+  'rolls', 'last-roll', 'roll', 'get-sheet', 'macro-execute', 'macros',
+  'encounters', 'start-encounter', 'next-turn', 'next-round', 'last-turn', 'last-round',
+  'end-encounter', 'add-to-encounter', 'remove-from-encounter', 'kill', 'decrease', 'increase', 'give', 'remove', 'execute-js',
+  'select', 'selected', 'file-system', 'upload-file', 'download-file',
+  'get-actor-details', 'modify-item-charges', 'use-ability', 'use-feature', 'use-spell', 'use-item', 'modify-experience', 'add-item', 'remove-item',
+  'get-folder', 'create-folder', 'delete-folder', 'chat-messages', 'chat'
+] as const;
+
+export type RelayRequestType = typeof RELAY_REQUEST_TYPES[number];
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+export interface FoundryRelayClientOptions {
+  /** API key sent as the x-api-key header */
+  apiKey: string;
+  /** Relay server URL, e.g. http://localhost:3010 */
+  baseUrl: string;
+  /** Default Foundry client ID used when a call does not pass one */
+  clientId?: string;
+  /** Times a request is retried after the Foundry client times out (default 2) */
+  retries?: number;
+  /** Delay before the first retry in milliseconds, doubled on each further retry (default 1000) */
+  retryDelayMs?: number;
+  /** Extra headers sent with every request */
+  headers?: Record<string, string>;
+  /** fetch implementation, defaults to the global fetch (Node 18+ and browsers) */
+  fetch?: typeof fetch;
+}
+
+/** Options accepted by every call that targets a Foundry client */
+export interface CallOptions {
+  /** Overrides the default client ID for this call */
+  clientId?: string;
+  /** Overrides the retry count for this call */
+  retries?: number;
+  /** Idempotency-Key for POST, PUT and DELETE calls, generated when not given. Not sent for binary uploads */
+  idempotencyKey?: string;
+  /** Run the call as a relay job: the call resolves with a JobAccepted body instead of the result */
+  async?: boolean;
+  /** URL the finished job is POSTed to, requires async */
+  callbackUrl?: string;
+  signal?: AbortSignal;
+}
+
+/** Any relay response: the shape depends on what the Foundry module returns */
+export interface RelayResponse {
+  requestId?: string;
+  clientId?: string;
+  [key: string]: any;
+}
+
+export interface ConnectedClient {
+  id: string;
+  instanceId?: string;
+  lastSeen: number;
+  connectedSince: number;
+  worldId?: string;
+  worldTitle?: string;
+  foundryVersion?: string;
+  systemId?: string;
+  systemTitle?: string;
+  systemVersion?: string;
+  customName?: string;
+}
+
+export interface ClientsResponse {
+  total: number;
+  clients: ConnectedClient[];
+}
+
+export interface WorldPackage {
+  id: string;
+  title?: string;
+  version?: string;
+}
+
+export interface ClientCapabilities {
+  clientId: string;
+  system: WorldPackage | null;
+  /** Active modules, empty if the Foundry module did not report them */
+  modules: WorldPackage[];
+  /** Request types the Foundry module handles, null if it did not report them */
+  requestTypes: string[] | null;
+  reportedAt: string | null;
+}
+
+// Target an entity by UUID or by the currently selected token
+export interface EntityTarget {
+  uuid?: string;
+  selected?: boolean;
+}
+
+export interface SearchParams {
+  query: string;
+  filter?: string;
+}
+
+export interface StructureParams {
+  includeEntityData?: boolean;
+  path?: string;
+  recursive?: boolean;
+  recursiveDepth?: number;
+  types?: string;
+}
+
+export type FolderType =
+  'Scene' | 'Actor' | 'Item' | 'JournalEntry' | 'RollTable' | 'Cards' | 'Macro' | 'Playlist' | 'Adventure' | 'Compendium';
+
+export interface CreateFolderParams {
+  name: string;
+  folderType: FolderType;
+  parentFolderId?: string;
+}
+
+export interface DeleteFolderParams {
+  folderId: string;
+  deleteAll?: boolean;
+}
+
+export interface GetEntityParams extends EntityTarget {
+  actor?: boolean;
+}
+
+export interface CreateEntityParams {
+  entityType: string;
+  data: Record<string, any>;
+  folder?: string;
+}
+
+export interface UpdateEntityParams extends EntityTarget {
+  actor?: boolean;
+  data: Record<string, any>;
+}
+
+export interface GiveItemParams {
+  fromUuid?: string;
+  toUuid?: string;
+  selected?: boolean;
+  itemUuid?: string;
+  itemName?: string;
+  quantity?: number;
+}
+
+export interface RemoveItemParams {
+  actorUuid?: string;
+  selected?: boolean;
+  itemUuid?: string;
+  itemName?: string;
+  quantity?: number;
+}
+
+export interface AttributeChangeParams extends EntityTarget {
+  attribute: string;
+  amount: number;
+}
+
+export interface RollsParams {
+  limit?: number;
+  clear?: boolean;
+  refresh?: boolean;
+}
+
+export interface RollParams {
+  formula: string;
+  flavor?: string;
+  createChatMessage?: boolean;
+  speaker?: string;
+  whisper?: string[];
+}
+
+export interface ChatMessageParams {
+  message: {
+    message: string;
+    speaker: string;
+    type: string;
+    timestamp?: number;
+    whisper?: boolean;
+    blind?: boolean;
+    roll?: Record<string, any>;
+  };
+}
+
+export interface ChatMessagesParams {
+  limit?: number;
+  sort?: string;
+  order?: 'asc' | 'desc';
+  user?: string;
+  type?: string;
+  refresh?: boolean;
+}
+
+export interface SheetParams extends EntityTarget {
+  actor?: boolean;
+  scale?: number;
+  tab?: number;
+  darkMode?: boolean;
+}
+
+export interface StartEncounterParams {
+  tokens?: string[];
+  startWithSelected?: boolean;
+  startWithPlayers?: boolean;
+  rollNPC?: boolean;
+  rollAll?: boolean;
+  name?: string;
+}
+
+export interface EncounterParams {
+  encounter?: string;
+}
+
+export interface AddToEncounterParams extends EncounterParams {
+  selected?: boolean;
+  uuids?: string[];
+  rollInitiative?: boolean;
+}
+
+export interface RemoveFromEncounterParams extends EncounterParams {
+  selected?: boolean;
+  uuids?: string[];
+}
+
+export interface SelectParams {
+  uuids?: string[];
+  name?: string;
+  data?: Record<string, any>;
+  overwrite?: boolean;
+  all?: boolean;
+}
+
+export interface FileSystemParams {
+  path?: string;
+  source?: string;
+  recursive?: boolean;
+}
+
+export interface UploadFileParams {
+  /** Directory to upload to */
+  path: string;
+  filename: string;
+  data: Uint8Array | ArrayBuffer | Blob;
+  source?: string;
+  mimeType?: string;
+  overwrite?: boolean;
+}
+
+export interface DownloadFileParams {
+  /** Full path to the file */
+  path: string;
+  source?: string;
+}
+
+export interface DownloadedFile {
+  data: Uint8Array;
+  mimeType: string;
+  filename?: string;
+}
+
+export interface ActorDetailsParams {
+  actorUuid: string;
+  details: string[];
+}
+
+export interface ModifyItemChargesParams {
+  actorUuid: string;
+  amount: number;
+  itemUuid?: string;
+  itemName?: string;
+}
+
+export interface UseAbilityParams {
+  actorUuid: string;
+  abilityUuid?: string;
+  abilityName?: string;
+  targetUuid?: string;
+  targetName?: string;
+}
+
+export interface ModifyExperienceParams {
+  amount: number;
+  actorUuid?: string;
+  selected?: boolean;
+}
+
+export interface BatchRequestItem {
+  method: HttpMethod;
+  path: string;
+  query?: Record<string, any>;
+  body?: any;
+}
+
+export interface BatchParams {
+  requests: BatchRequestItem[];
+  sequential?: boolean;
+  stopOnError?: boolean;
+}
+
+export interface BatchResponse {
+  clientId: string;
+  total: number;
+  succeeded: number;
+  failed: number;
+  skipped: number;
+  results: {
+    index: number;
+    method: string;
+    path: string;
+    status: number | null;
+    body?: any;
+    skipped?: boolean;
+  }[];
+}
+
+export type WorldEventType = 'chat' | 'roll' | 'combat-turn' | 'actor-update' | 'document-update';
+
+export interface WebhookSubscription {
+  id: number;
+  url: string;
+  events: WorldEventType[];
+  clientId: string | null;
+  active: boolean;
+  consecutiveFailures: number;
+  lastStatus: number | null;
+  lastError: string | null;
+  lastDeliveryAt: string | null;
+  disabledAt: string | null;
+  createdAt: string;
+  /** Only returned when the subscription is created */
+  secret?: string;
+}
+
+export interface CreateWebhookParams {
+  url: string;
+  events: WorldEventType[];
+  clientId?: string;
+}
+
+export type ApiKeyScope = 'read' | 'write' | 'roll' | 'execute-js' | 'files' | 'session';
+
+export interface ApiKeyInfo {
+  id: number;
+  name: string;
+  /** First and last characters of the key */
+  keyPreview: string;
+  scopes: ApiKeyScope[];
+  clientIds: string[] | null;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  createdAt: string;
+  /** Only returned when the key is created */
+  key?: string;
+}
+
+export interface CreateApiKeyParams {
+  name: string;
+  scopes: ApiKeyScope[];
+  /** Only allow requests to these Foundry clients */
+  clientIds?: string[];
+  /** ISO 8601 date after which the key stops working */
+  expiresAt?: string;
+}
+
+export interface UpdateApiKeyParams {
+  name?: string;
+  scopes?: ApiKeyScope[];
+  /** null removes the restriction */
+  clientIds?: string[] | null;
+  /** null removes the expiry */
+  expiresAt?: string | null;
+}
+
+export type UsageGroupBy = 'day' | 'endpoint' | 'client' | 'apiKey';
+
+export interface GetUsageParams {
+  /** First day to include (YYYY-MM-DD), defaults to 29 days before `to` */
+  from?: string;
+  /** Last day to include (YYYY-MM-DD), defaults to today (UTC) */
+  to?: string;
+  groupBy?: UsageGroupBy;
+  /** Only include requests to this Foundry client */
+  clientId?: string;
+}
+
+export interface UsageStats {
+  requests: number;
+  /** Requests counted towards the quota, including each `/batch` sub-request */
+  quotaUsed: number;
+  /** Responses with a status code of 400 or above */
+  errors: number;
+  averageLatencyMs: number;
+  maxLatencyMs: number;
+  statusCodes: Record<string, number>;
+}
+
+export interface UsageGroup extends UsageStats {
+  /** Day, endpoint, client id or API key id (null for the primary key), depending on groupBy */
+  key: string | number | null;
+  /** Name of the API key when grouping by apiKey */
+  name?: string;
+}
+
+export interface UsageReport {
+  from: string;
+  to: string;
+  groupBy: UsageGroupBy;
+  clientId?: string;
+  totals: UsageStats;
+  groups: UsageGroup[];
+}
+
+export type JobStatus = 'pending' | 'completed' | 'failed';
+
+/** Returned by a call made with `async: true` */
+export interface JobAccepted {
+  jobId: string;
+  status: JobStatus;
+  type: RelayRequestType;
+  clientId: string;
+  statusUrl: string;
+  callbackUrl?: string;
+  /** Secret the callback is signed with, only returned here */
+  callbackSecret?: string;
+}
+
+export interface Job {
+  id: string;
+  type: RelayRequestType;
+  clientId: string;
+  requestId: string;
+  status: JobStatus;
+  /** Status code the endpoint would have responded with */
+  statusCode?: number;
+  /** Body the endpoint would have responded with */
+  result?: RelayResponse;
+  error?: string;
+  callbackUrl?: string;
+  createdAt: number;
+  completedAt?: number;
+  durationMs?: number;
+}
+
+export interface WaitForJobOptions {
+  /** Delay between polls in milliseconds (default 1000) */
+  intervalMs?: number;
+  /** Give up after this many milliseconds (default: wait until the relay fails the job) */
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
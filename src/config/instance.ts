@@ -0,0 +1,6 @@
+/**
+ * Identifies this relay instance in Redis so requests for a Foundry client can be routed
+ * to the instance holding its WebSocket. Set INSTANCE_ID to a unique value per replica
+ * outside Fly.io (e.g. the container or pod name).
+ */
+export const INSTANCE_ID = process.env.INSTANCE_ID || process.env.FLY_ALLOC_ID || 'local';
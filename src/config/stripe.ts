@@ -8,9 +8,23 @@ const isStripeDisabled = isMemoryStore || isSQLiteStore;
 
 // Initialize Stripe conditionally
 let stripe: any;
-const SUBSCRIPTION_PRICES = {
-  monthly: process.env.STRIPE_PRICE_ID || '' // Your Stripe price ID for monthly subscription
-};
+// Stripe price ID of each paid plan. STRIPE_PRICE_ID is the 'pro' plan's monthly price and
+// STRIPE_PLAN_PRICES adds other plans as comma-separated plan:priceId pairs, e.g. "team:price_123"
+const SUBSCRIPTION_PRICES: Record<string, string> = { pro: process.env.STRIPE_PRICE_ID || '' };
+for (const pair of (process.env.STRIPE_PLAN_PRICES || '').split(',')) {
+  const [plan, priceId] = pair.split(':').map(part => part.trim());
+  if (plan && priceId) {
+    SUBSCRIPTION_PRICES[plan] = priceId;
+  }
+}
+
+/**
+ * The plan a Stripe price belongs to, or null if it is not one of SUBSCRIPTION_PRICES.
+ */
+function planForPrice(priceId: string | null | undefined): string | null {
+  if (!priceId) return null;
+  return Object.keys(SUBSCRIPTION_PRICES).find(plan => SUBSCRIPTION_PRICES[plan] === priceId) || null;
+}
 
 if (isStripeDisabled) {
   log.info('Stripe disabled in local/memory mode');
@@ -39,4 +53,4 @@ if (isStripeDisabled) {
   }
 }
 
-export { stripe, SUBSCRIPTION_PRICES, isStripeDisabled };
\ No newline at end of file
+export { stripe, SUBSCRIPTION_PRICES, planForPrice, isStripeDisabled };
\ No newline at end of file
@@ -0,0 +1,180 @@
+import crypto from 'crypto';
+import { Request, Response } from 'express';
+import { User } from '../models/user';
+import { RefreshToken } from '../models/refreshToken';
+import { signJwt, verifyJwt } from '../utils/jwt';
+import { setRecord, takeRecord } from '../utils/expiringStore';
+import { log } from '../utils/logger';
+
+// Lifetime of the access tokens the dashboard sends as a Bearer token
+const ACCESS_TOKEN_TTL_SECONDS = parseInt(process.env.ACCESS_TOKEN_TTL_SECONDS || '900', 10);
+// Lifetime of a refresh token, renewed every time it is used
+const REFRESH_TOKEN_TTL_SECONDS = parseInt(process.env.REFRESH_TOKEN_TTL_SECONDS || '2592000', 10);
+// How long a password reset link stays valid
+const PASSWORD_RESET_TTL_SECONDS = parseInt(process.env.PASSWORD_RESET_TTL_SECONDS || '3600', 10);
+
+export const REFRESH_COOKIE_NAME = 'relay_refresh';
+// The cookie is only sent to the endpoints that use it
+const REFRESH_COOKIE_PATH = '/auth';
+
+const JWT_SECRET = process.env.JWT_SECRET || crypto.randomBytes(32).toString('hex');
+if (!process.env.JWT_SECRET) {
+  log.warn('JWT_SECRET is not set - using a random secret, dashboard sessions end on restart and are not shared between instances');
+}
+
+export interface IssuedSession {
+  accessToken: string;
+  expiresIn: number;
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function readCookie(req: Request, name: string): string | null {
+  for (const part of (req.headers.cookie || '').split(';')) {
+    const index = part.indexOf('=');
+    if (index > 0 && part.slice(0, index).trim() === name) {
+      return decodeURIComponent(part.slice(index + 1).trim());
+    }
+  }
+  return null;
+}
+
+function userValue(user: any, key: string): any {
+  return user.getDataValue ? user.getDataValue(key) : user[key];
+}
+
+/**
+ * Dashboard sessions: short-lived JWT access tokens and rotating refresh tokens kept
+ * in an httpOnly cookie. Incrementing a user's tokenVersion ends all their sessions.
+ */
+export class AccountSessions {
+  /**
+   * Start a session for a user who just proved their identity.
+   */
+  static async issue(user: any, res: Response): Promise<IssuedSession> {
+    const userId = userValue(user, 'id');
+    await RefreshToken.pruneExpired(userId);
+    await this.setRefreshToken(userId, crypto.randomUUID(), res);
+    return this.accessTokenFor(user);
+  }
+
+  /**
+   * Replace the refresh token in the request's cookie and issue a new access token.
+   * A token that was already replaced ends its whole family of tokens.
+   */
+  static async refresh(req: Request, res: Response): Promise<{ user: any; session: IssuedSession } | null> {
+    const token = readCookie(req, REFRESH_COOKIE_NAME);
+    if (!token) return null;
+
+    const record = await RefreshToken.findOne({ where: { tokenHash: hashToken(token) } });
+    if (!record) return null;
+
+    if (record.getDataValue('revokedAt')) {
+      return this.endReusedFamily(record);
+    }
+    if (new Date(record.getDataValue('expiresAt')).getTime() <= Date.now()) {
+      return null;
+    }
+
+    const user = await User.findOne({ where: { id: record.getDataValue('userId') } });
+    if (!user) return null;
+
+    // Only the refresh that revokes the token continues, a concurrent use of it is a reuse
+    if (await RefreshToken.revokeWhere({ id: record.getDataValue('id') }) === 0) {
+      return this.endReusedFamily(record);
+    }
+    await this.setRefreshToken(userValue(user, 'id'), record.getDataValue('familyId'), res);
+    return { user, session: this.accessTokenFor(user) };
+  }
+
+  /**
+   * End the session of the request's refresh cookie.
+   */
+  static async revoke(req: Request, res: Response): Promise<void> {
+    const token = readCookie(req, REFRESH_COOKIE_NAME);
+    if (token) {
+      const record = await RefreshToken.findOne({ where: { tokenHash: hashToken(token) } });
+      if (record) {
+        await RefreshToken.revokeWhere({ familyId: record.getDataValue('familyId') });
+      }
+    }
+    this.clearCookie(res);
+  }
+
+  /**
+   * End every session of a user, including access tokens that have not expired yet.
+   */
+  static async revokeAll(user: any): Promise<void> {
+    await user.update({ tokenVersion: (userValue(user, 'tokenVersion') || 0) + 1 });
+    await RefreshToken.revokeWhere({ userId: userValue(user, 'id') });
+  }
+
+  /**
+   * The user an access token belongs to, or null if it is invalid, expired or revoked.
+   */
+  static async verifyAccessToken(token: string): Promise<any> {
+    const claims = verifyJwt(token, JWT_SECRET);
+    if (!claims || claims.type !== 'access') return null;
+
+    const user = await User.findOne({ where: { id: claims.sub } });
+    if (!user || (userValue(user, 'tokenVersion') || 0) !== claims.ver) return null;
+    return user;
+  }
+
+  static clearCookie(res: Response): void {
+    res.clearCookie(REFRESH_COOKIE_NAME, { path: REFRESH_COOKIE_PATH });
+  }
+
+  /**
+   * Create a single-use password reset token for a user.
+   */
+  static async createPasswordResetToken(user: any): Promise<{ token: string; expiresAt: Date }> {
+    const token = crypto.randomBytes(32).toString('hex');
+    await setRecord(`password-reset:${hashToken(token)}`, { userId: userValue(user, 'id') }, PASSWORD_RESET_TTL_SECONDS);
+    return { token, expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_SECONDS * 1000) };
+  }
+
+  /**
+   * The user a password reset token was created for. The token cannot be used again.
+   */
+  static async consumePasswordResetToken(token: string): Promise<any> {
+    const record = await takeRecord<{ userId: number }>(`password-reset:${hashToken(token)}`);
+    if (!record) return null;
+
+    return User.findOne({ where: { id: record.userId } });
+  }
+
+  private static accessTokenFor(user: any): IssuedSession {
+    const accessToken = signJwt(
+      { sub: userValue(user, 'id'), ver: userValue(user, 'tokenVersion') || 0, type: 'access' },
+      JWT_SECRET,
+      ACCESS_TOKEN_TTL_SECONDS
+    );
+    return { accessToken, expiresIn: ACCESS_TOKEN_TTL_SECONDS };
+  }
+
+  /**
+   * Revoke every token of the family of a refresh token that was presented again.
+   */
+  private static async endReusedFamily(record: any): Promise<null> {
+    log.warn(`Refresh token reuse detected for user ${record.getDataValue('userId')}, revoking its session`);
+    await RefreshToken.revokeWhere({ familyId: record.getDataValue('familyId') });
+    return null;
+  }
+
+  private static async setRefreshToken(userId: number, familyId: string, res: Response): Promise<void> {
+    const token = crypto.randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000);
+    await RefreshToken.create({ userId, tokenHash: hashToken(token), familyId, expiresAt });
+
+    res.cookie(REFRESH_COOKIE_NAME, token, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'strict',
+      path: REFRESH_COOKIE_PATH,
+      expires: expiresAt
+    });
+  }
+}
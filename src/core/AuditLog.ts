@@ -0,0 +1,95 @@
+import { Request, Response } from 'express';
+import { AuditEntry } from '../models/auditEntry';
+import { log } from '../utils/logger';
+
+// Days of audit entries to keep
+const AUDIT_LOG_RETENTION_DAYS = parseInt(process.env.AUDIT_LOG_RETENTION_DAYS || '90', 10);
+
+// Parameters that name the document a request changes, in order of preference
+const TARGET_PARAMS = ['uuid', 'actorUuid', 'targetUuid', 'toUuid', 'itemUuid', 'abilityUuid', 'fromUuid', 'folderId'];
+// Payload fields whose values are never stored
+const SECRET_FIELD = /password|secret|token|apikey|api-key|authorization/i;
+const MAX_STRING_LENGTH = 1000;
+const MAX_ARRAY_ITEMS = 50;
+const MAX_DEPTH = 5;
+
+const MUTATING_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+/**
+ * Copy a payload for storage: secrets are redacted, and long strings (such as base64
+ * file contents), long arrays and deep objects are truncated.
+ */
+function sanitizePayload(value: any, depth = 0): any {
+  if (typeof value === 'string') {
+    return value.length > MAX_STRING_LENGTH ? `${value.slice(0, MAX_STRING_LENGTH)}... (${value.length} characters)` : value;
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (Buffer.isBuffer(value)) {
+    return `(${value.length} bytes)`;
+  }
+  if (depth >= MAX_DEPTH) {
+    return '(truncated)';
+  }
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_ARRAY_ITEMS).map(item => sanitizePayload(item, depth + 1));
+    return value.length > MAX_ARRAY_ITEMS ? [...items, `(${value.length - MAX_ARRAY_ITEMS} more)`] : items;
+  }
+
+  const copy: Record<string, any> = {};
+  for (const [key, field] of Object.entries(value)) {
+    copy[key] = SECRET_FIELD.test(key) ? '[redacted]' : sanitizePayload(field, depth + 1);
+  }
+  return copy;
+}
+
+/**
+ * Audit trail of requests that change Foundry worlds: which account, API key and client
+ * made them, what they targeted and how they ended. Reads are not recorded.
+ */
+export class AuditLog {
+  static isMutating(method: string): boolean {
+    return MUTATING_METHODS.includes(method.toUpperCase());
+  }
+
+  /**
+   * Record a request once its response is sent. Async job requests are recorded with
+   * their 202 status and job id, the job's result is available from GET /jobs/:id.
+   */
+  static track(req: Request, res: Response, type: string, params: Record<string, any>, jobId?: string): void {
+    if (!req.user || !this.isMutating(req.method)) return;
+
+    const startedAt = Date.now();
+    const { clientId, ...payload } = params;
+    const targetParam = TARGET_PARAMS.find(name => typeof params[name] === 'string' && params[name]);
+
+    res.on('finish', () => {
+      AuditEntry.create({
+        userId: req.user.getDataValue ? req.user.getDataValue('id') : req.user.id,
+        apiKeyId: req.apiKeyScope?.id ?? null,
+        clientId,
+        type,
+        method: req.method.toUpperCase(),
+        path: `${req.baseUrl}${req.path}`,
+        targetUuid: targetParam ? params[targetParam] : null,
+        payload: sanitizePayload(payload),
+        statusCode: res.statusCode,
+        durationMs: Date.now() - startedAt,
+        jobId: jobId || null
+      }).catch((error: unknown) => {
+        log.error(`Failed to record audit entry for ${type} request to client ${clientId}: ${error}`);
+      });
+    });
+  }
+
+  /**
+   * Delete entries older than AUDIT_LOG_RETENTION_DAYS.
+   */
+  static async prune(): Promise<number> {
+    const cutoff = new Date(Date.now() - AUDIT_LOG_RETENTION_DAYS * 86400000);
+    const deleted = await AuditEntry.pruneBefore(cutoff);
+    log.info(`Pruned ${deleted} audit entr${deleted === 1 ? 'y' : 'ies'} from before ${cutoff.toISOString()}`);
+    return deleted;
+  }
+}
@@ -0,0 +1,115 @@
+import { Response } from 'express';
+import { SecurityEvent } from '../models/securityEvent';
+import { deleteRecord, getRecord, incrementRecord, setRecord } from '../utils/expiringStore';
+import { log } from '../utils/logger';
+
+// Attempts allowed per IP, email or key on an auth route within AUTH_RATE_LIMIT_WINDOW_SECONDS
+const AUTH_RATE_LIMIT_MAX_ATTEMPTS = parseInt(process.env.AUTH_RATE_LIMIT_MAX_ATTEMPTS || '20', 10);
+const AUTH_RATE_LIMIT_WINDOW_SECONDS = parseInt(process.env.AUTH_RATE_LIMIT_WINDOW_SECONDS || '60', 10);
+// Failed attempts within AUTH_FAILURE_WINDOW_SECONDS that lock out an IP, email or key
+const AUTH_LOCKOUT_THRESHOLD = parseInt(process.env.AUTH_LOCKOUT_THRESHOLD || '5', 10);
+const AUTH_FAILURE_WINDOW_SECONDS = parseInt(process.env.AUTH_FAILURE_WINDOW_SECONDS || '900', 10);
+// The first lockout lasts AUTH_LOCKOUT_BASE_SECONDS, and each further one within a day twice as long
+const AUTH_LOCKOUT_BASE_SECONDS = parseInt(process.env.AUTH_LOCKOUT_BASE_SECONDS || '60', 10);
+const AUTH_LOCKOUT_MAX_SECONDS = parseInt(process.env.AUTH_LOCKOUT_MAX_SECONDS || '86400', 10);
+// How long earlier lockouts count towards the next lockout's length
+const LOCKOUT_HISTORY_SECONDS = 86400;
+
+export interface ThrottleBlock {
+  reason: 'rate_limited' | 'locked_out';
+  retryAfter: number;
+}
+
+interface Lockout {
+  until: number;
+  route: string;
+}
+
+/**
+ * Throttles authentication attempts. Attempts are counted per subject - an IP ("ip:<address>"),
+ * email ("email:<address>") or API key prefix ("key:<prefix>") - and subjects with repeated
+ * failures are locked out for exponentially longer periods. Counters live in the expiring store,
+ * so they are shared between instances when Redis is configured.
+ */
+export class AuthThrottle {
+  /**
+   * Count an attempt on a route. Returns why it must be rejected, or null if it may proceed.
+   */
+  static async check(route: string, subjects: string[]): Promise<ThrottleBlock | null> {
+    const lockout = await this.lockout(subjects);
+    if (lockout) return lockout;
+
+    for (const subject of subjects) {
+      const attempts = await incrementRecord(`auth-throttle:attempts:${route}:${subject}`, AUTH_RATE_LIMIT_WINDOW_SECONDS);
+      if (attempts > AUTH_RATE_LIMIT_MAX_ATTEMPTS) {
+        return { reason: 'rate_limited', retryAfter: AUTH_RATE_LIMIT_WINDOW_SECONDS };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * The lockout of the first locked out subject, if any.
+   */
+  static async lockout(subjects: string[]): Promise<ThrottleBlock | null> {
+    for (const subject of subjects) {
+      const lockout = await getRecord<Lockout>(`auth-throttle:lock:${subject}`);
+      if (lockout && lockout.until > Date.now()) {
+        return { reason: 'locked_out', retryAfter: Math.ceil((lockout.until - Date.now()) / 1000) };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Count a failed attempt, locking out every subject that reached the threshold.
+   */
+  static async recordFailure(route: string, subjects: string[]): Promise<void> {
+    const ip = subjects.find(subject => subject.startsWith('ip:'))?.slice(3) || null;
+
+    for (const subject of subjects) {
+      const failuresKey = `auth-throttle:failures:${subject}`;
+      const failures = await incrementRecord(failuresKey, AUTH_FAILURE_WINDOW_SECONDS);
+      if (failures < AUTH_LOCKOUT_THRESHOLD) continue;
+
+      const lockouts = await incrementRecord(`auth-throttle:lockouts:${subject}`, LOCKOUT_HISTORY_SECONDS);
+      const seconds = Math.min(AUTH_LOCKOUT_BASE_SECONDS * Math.pow(2, lockouts - 1), AUTH_LOCKOUT_MAX_SECONDS);
+      await setRecord<Lockout>(`auth-throttle:lock:${subject}`, { until: Date.now() + seconds * 1000, route }, seconds);
+      await deleteRecord(failuresKey);
+
+      log.warn(`Locked out ${subject} for ${seconds}s after ${failures} failed attempts on ${route}`);
+      SecurityEvent.create({
+        type: 'auth.lockout',
+        route,
+        ip,
+        identifier: subject,
+        details: { failures, lockoutSeconds: seconds, lockoutCount: lockouts }
+      }).catch((error: unknown) => {
+        log.error(`Failed to record lockout of ${subject}: ${error}`);
+      });
+    }
+  }
+
+  /**
+   * Forget the failed attempts of subjects that just authenticated. IPs keep their count,
+   * so signing in to one account does not reset guesses against others.
+   */
+  static async recordSuccess(subjects: string[]): Promise<void> {
+    for (const subject of subjects) {
+      if (!subject.startsWith('ip:')) {
+        await deleteRecord(`auth-throttle:failures:${subject}`);
+      }
+    }
+  }
+
+  static sendBlocked(res: Response, block: ThrottleBlock): void {
+    res.setHeader('Retry-After', block.retryAfter.toString());
+    res.status(429).json({
+      error: block.reason === 'locked_out'
+        ? 'Too many failed attempts, temporarily locked out'
+        : 'Too many attempts',
+      message: `Please try again in ${block.retryAfter} seconds.`,
+      retryAfter: block.retryAfter
+    });
+  }
+}
@@ -1,8 +1,48 @@
+import crypto from "crypto";
 import { log } from "../utils/logger";
 import { WebSocket } from "ws";
 import { ClientManager } from "./ClientManager";
+import { ClientRegistry } from "./ClientRegistry";
+import { FileTransfers } from "./FileTransfers";
+import { WSCloseCodes } from "../lib/constants";
+import {
+  CAPABILITIES_MESSAGE, Envelope, LEGACY_PROTOCOL_VERSION, REDELIVERY_CAPABILITY, REQUEST_INTERRUPTED_MESSAGE, RelayMessage,
+  WorldCapabilities, errorMessage, fromEnvelope, fromLegacyMessage, mergeWorldCapabilities, toEnvelope, validateEnvelope,
+  validateWorldCapabilities
+} from "../lib/protocol";
 
-export class Client {
+/**
+ * What a client declared in its handshake. Legacy clients do not handshake.
+ */
+export interface ClientProtocol {
+  version: number;
+  moduleVersion: string | null;
+  capabilities: string[];
+}
+
+const LEGACY_PROTOCOL: ClientProtocol = { version: LEGACY_PROTOCOL_VERSION, moduleVersion: null, capabilities: [] };
+
+// Requests held for a client while it reconnects, more are refused
+const MAX_HELD_REQUESTS = 100;
+// Unanswered requests older than this are not redelivered when a client resumes
+const MAX_REDELIVERY_AGE_MS = 120000;
+
+function newResumeToken(): string {
+  return crypto.randomBytes(24).toString("base64url");
+}
+
+/**
+ * A Foundry client the relay can send messages to, connected to this instance or to another one.
+ */
+export interface ClientHandle {
+  getId(): string;
+  /** Account key the client connected for, shared by every client of the account */
+  getApiKey(): string;
+  send(data: unknown): boolean;
+  isAlive(): boolean;
+}
+
+export class Client implements ClientHandle {
   private ws: WebSocket;
   private id: string;
   private apiKey: string;
@@ -16,6 +56,16 @@ export class Client {
   private systemTitle: string | null;
   private systemVersion: string | null;
   private customName: string | null;
+  private protocol: ClientProtocol;
+  private capabilities: WorldCapabilities;
+  /** Lets the module resume its session after reconnecting, null for legacy modules */
+  private resumeToken: string | null;
+  /** When the session of a client that disconnected expires, null while connected */
+  private reconnectingUntil: number | null = null;
+  /** Requests made while the client is reconnecting, sent once it resumes */
+  private held: RelayMessage[] = [];
+  /** Requests sent to the client that it has not answered yet, by request ID */
+  private inflight = new Map<string, { message: RelayMessage; sentAt: number }>();
 
   constructor(
     ws: WebSocket, 
@@ -27,7 +77,8 @@ export class Client {
     systemId: string | null = null,
     systemTitle: string | null = null,
     systemVersion: string | null = null,
-    customName: string | null = null
+    customName: string | null = null,
+    protocol: ClientProtocol = LEGACY_PROTOCOL
   ) {
     this.ws = ws;
     this.id = id;
@@ -42,21 +93,34 @@ export class Client {
     this.systemTitle = systemTitle;
     this.systemVersion = systemVersion;
     this.customName = customName;
-    this.setupHandlers();
+    this.protocol = protocol;
+    // Until the module reports its capabilities only the system from the URL is known
+    this.capabilities = {
+      system: systemId ? { id: systemId, title: systemTitle || undefined, version: systemVersion || undefined } : null,
+      modules: [],
+      requestTypes: null,
+      reportedAt: null
+    };
+    // Legacy modules never receive a welcome message, so they cannot resume
+    this.resumeToken = protocol.version === LEGACY_PROTOCOL_VERSION ? null : newResumeToken();
+    this.setupHandlers(ws);
   }
 
-  private setupHandlers(): void {
-    this.ws.on("message", (data: Buffer) => {
-      try {
-        const message = JSON.parse(data.toString());
-        log.info(`Received message from client ${this.id}: ${message.type}`);
-        this.handleMessage(data);
-      } catch (error) {
-        log.error(`Error processing WebSocket message: ${error}`);
+  private setupHandlers(ws: WebSocket): void {
+    ws.on("message", (data: Buffer, isBinary: boolean) => {
+      if (ws !== this.ws) return;
+      // Binary frames carry the chunks of file transfers
+      if (isBinary) {
+        this.updateLastSeen();
+        FileTransfers.handleChunk(this, data);
+        return;
       }
+      this.handleMessage(data);
     });
 
-    this.ws.on("close", () => {
+    ws.on("close", () => {
+      // The socket a resumed session replaced
+      if (ws !== this.ws) return;
       this.connected = false;
       this.handleClose();
     });
@@ -65,7 +129,7 @@ export class Client {
   private ping(): void {
     if (this.isAlive()) {
       try {
-        this.ws.send(JSON.stringify({ type: "ping" }));
+        this.ws.send(this.encode({ type: "ping" }));
       } catch (err) {
         // Connection might be dead
         this.connected = false;
@@ -74,8 +138,23 @@ export class Client {
   }
 
   private handleMessage(data: Buffer): void {
+    let parsed: unknown;
     try {
-      const message = JSON.parse(data.toString());
+      parsed = JSON.parse(data.toString());
+    } catch (error) {
+      log.error(`Error parsing WebSocket message from client ${this.id}: ${error}`);
+      this.sendError("invalid-json", "Message is not valid JSON");
+      return;
+    }
+
+    const message = this.decode(parsed);
+    if (!message) return;
+    if (message.requestId) {
+      this.inflight.delete(message.requestId);
+    }
+
+    try {
+      log.info(`Received message from client ${this.id}: ${message.type}`);
       this.updateLastSeen();
 
       // Handle ping messages directly without broadcasting
@@ -83,6 +162,20 @@ export class Client {
         this.send({ type: "pong" });
         return;
       }
+
+      if (message.type === REQUEST_INTERRUPTED_MESSAGE) {
+        this.sendError("invalid-message", `${REQUEST_INTERRUPTED_MESSAGE} messages are only sent by the relay`, message.requestId);
+        return;
+      }
+
+      if (message.type === CAPABILITIES_MESSAGE) {
+        const problem = this.reportCapabilities(message);
+        if (problem) {
+          log.warn(`Invalid capabilities from client ${this.id}: ${problem}`);
+          this.sendError("invalid-message", problem, message.requestId);
+        }
+        return;
+      }
       
       // For all other messages 
       ClientManager.handleIncomingMessage(this.id, message);
@@ -92,16 +185,85 @@ export class Client {
     }
   }
 
+  /**
+   * Bring a parsed message into the internal shape, or answer it with an error and
+   * return null if it does not follow the client's protocol.
+   */
+  private decode(parsed: unknown): RelayMessage | null {
+    if (this.protocol.version === LEGACY_PROTOCOL_VERSION) {
+      if (typeof parsed !== "object" || parsed === null || typeof (parsed as any).type !== "string") {
+        log.warn(`Ignoring message without a type from client ${this.id}`);
+        return null;
+      }
+      return fromLegacyMessage(parsed as Record<string, any>);
+    }
+
+    const problem = validateEnvelope(parsed);
+    if (problem) {
+      log.warn(`Invalid message from client ${this.id}: ${problem}`);
+      this.sendError("invalid-message", problem, (parsed as any)?.requestId);
+      return null;
+    }
+    return fromEnvelope(parsed as Envelope);
+  }
+
+  /**
+   * Serialize an internal message for the client's protocol version.
+   */
+  private encode(message: RelayMessage): string {
+    if (this.protocol.version === LEGACY_PROTOCOL_VERSION) {
+      return JSON.stringify(message);
+    }
+
+    const envelope = toEnvelope(message, this.protocol.version);
+    const problem = validateEnvelope(envelope);
+    if (problem) {
+      throw new Error(`Invalid ${message.type} message: ${problem}`);
+    }
+    return JSON.stringify(envelope);
+  }
+
+  private sendError(code: string, message: string, requestId?: string): void {
+    if (this.protocol.version === LEGACY_PROTOCOL_VERSION || !this.isAlive()) return;
+    try {
+      this.ws.send(JSON.stringify(errorMessage(code, message, typeof requestId === "string" ? requestId : undefined)));
+    } catch (error) {
+      log.error("Error sending message", { error, clientId: this.id });
+    }
+  }
+
   private handleClose(): void {
+    // A new connection for the same client ID already took this client's place
+    if (!ClientManager.isCurrent(this)) return;
     log.info("Client disconnected", { clientId: this.id });
-    ClientManager.removeClient(this.id);
+    FileTransfers.abortClient(this.id);
+    // Modules that can resume get a grace period to reconnect
+    if (this.resumeToken) {
+      ClientManager.suspendClient(this);
+    } else {
+      ClientManager.removeClient(this.id);
+    }
   }
 
   public send(data: unknown): boolean {
+    const request = typeof data === 'object' && data !== null && typeof (data as RelayMessage).requestId === 'string'
+      ? data as RelayMessage
+      : null;
+
+    // Requests wait for the client to resume, other messages and file transfers are dropped
+    if (this.reconnectingUntil !== null) {
+      if (!request || request.transfer || this.held.length >= MAX_HELD_REQUESTS) return false;
+      this.held.push(request);
+      return true;
+    }
     if (!this.isAlive()) return false;
     
     try {
-      this.ws.send(typeof data === 'string' ? data : JSON.stringify(data));
+      // Strings are sent as they are, they were already serialized for the client
+      this.ws.send(typeof data === 'string' ? data : this.encode(data as RelayMessage));
+      if (request) {
+        this.trackRequest(request);
+      }
       return true;
     } catch (error) {
       log.error("Error sending message", { error, clientId: this.id });
@@ -110,6 +272,136 @@ export class Client {
     }
   }
 
+  /**
+   * Send a binary frame. Resolves once it is written to the socket, so callers sending
+   * many frames do not queue more than the connection can take.
+   */
+  public sendBinary(frame: Buffer): Promise<boolean> {
+    if (!this.isAlive()) return Promise.resolve(false);
+
+    return new Promise(resolve => {
+      // File contents are mostly compressed formats already
+      this.ws.send(frame, { binary: true, compress: false }, error => {
+        if (error) {
+          log.error("Error sending binary frame", { error, clientId: this.id });
+          this.connected = false;
+        }
+        resolve(!error);
+      });
+    });
+  }
+
+  /**
+   * Remember a request until the client answers it, to redeliver it if the client resumes
+   * its session before that. Requests carrying a file transfer are not redelivered, the
+   * transfer ends with the connection.
+   */
+  private trackRequest(request: RelayMessage): void {
+    const cutoff = Date.now() - MAX_REDELIVERY_AGE_MS;
+    for (const [requestId, entry] of this.inflight) {
+      if (entry.sentAt > cutoff) break;
+      this.inflight.delete(requestId);
+    }
+    if (!request.transfer) {
+      this.inflight.set(request.requestId!, { message: request, sentAt: Date.now() });
+    }
+  }
+
+  /**
+   * Start the grace period of a client whose connection dropped. Requests are held until
+   * it resumes or the session expires.
+   */
+  public suspend(until: number): void {
+    this.connected = false;
+    this.reconnectingUntil = until;
+  }
+
+  /**
+   * Take over the connection of a client that resumed its session with the token of its
+   * last welcome message. The socket it replaces is closed if it is still open. Call
+   * deliverPending() once the welcome message was sent.
+   */
+  public resume(ws: WebSocket, protocol: ClientProtocol): void {
+    const stale = this.ws;
+    this.ws = ws;
+    this.protocol = protocol;
+    this.connected = true;
+    this.reconnectingUntil = null;
+    this.resumeToken = newResumeToken();
+    this.updateLastSeen();
+    this.setupHandlers(ws);
+
+    // Transfers of the old socket cannot continue on the new one
+    FileTransfers.abortClient(this.id);
+    if (stale.readyState === WebSocket.OPEN || stale.readyState === WebSocket.CONNECTING) {
+      stale.close(WSCloseCodes.SessionResumed, "Replaced by a resumed connection");
+    }
+  }
+
+  /**
+   * Send a resumed client the requests it may have missed: unanswered requests of its
+   * previous connection, marked as redelivered, then the requests held while it was away.
+   * Modules without the redelivery capability could run the unanswered requests twice,
+   * those requests are answered with 503 instead. Returns the number of requests sent.
+   */
+  public deliverPending(): number {
+    const unanswered = Array.from(this.inflight.values(), entry => entry.message);
+    const held = this.held;
+    this.inflight.clear();
+    this.held = [];
+
+    if (!this.protocol.capabilities.includes(REDELIVERY_CAPABILITY)) {
+      this.interrupt(unanswered);
+      return held.filter(message => this.send(message)).length;
+    }
+
+    const redelivered = unanswered.map(message => ({ ...message, redelivered: true }));
+    return [...redelivered, ...held].filter(message => this.send(message)).length;
+  }
+
+  /**
+   * Answer the unanswered and held requests of a client that is replaced by a new
+   * connection with 503. Call it while the client is still registered.
+   */
+  public interruptPending(): void {
+    const pending = [...Array.from(this.inflight.values(), entry => entry.message), ...this.held];
+    this.inflight.clear();
+    this.held = [];
+    this.interrupt(pending);
+  }
+
+  private interrupt(messages: RelayMessage[]): void {
+    for (const message of messages) {
+      ClientManager.handleIncomingMessage(this.id, { type: REQUEST_INTERRUPTED_MESSAGE, requestId: message.requestId });
+    }
+  }
+
+  /**
+   * Stop holding or redelivering a request, when its caller was told to retry it.
+   */
+  public withdrawRequest(requestId: string): void {
+    this.held = this.held.filter(message => message.requestId !== requestId);
+    this.inflight.delete(requestId);
+  }
+
+  /**
+   * Whether a token resumes this client's session.
+   */
+  public canResume(apiKey: string, token: string): boolean {
+    if (!this.resumeToken || apiKey !== this.apiKey) return false;
+    const expected = Buffer.from(this.resumeToken);
+    const given = Buffer.from(token);
+    return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+  }
+
+  public getResumeToken(): string | null {
+    return this.resumeToken;
+  }
+
+  public getReconnectingUntil(): number | null {
+    return this.reconnectingUntil;
+  }
+
   private broadcast(message: unknown): void {
     ClientManager.broadcastToGroup(this.id, message);
   }
@@ -150,6 +442,29 @@ export class Client {
     return this.customName;
   }
 
+  public getProtocol(): ClientProtocol {
+    return this.protocol;
+  }
+
+  public getCapabilities(): WorldCapabilities {
+    return this.capabilities;
+  }
+
+  /**
+   * Store the world capabilities of a hello or capabilities message and share them with
+   * the other instances. Returns what is wrong with them instead if they are invalid.
+   */
+  public reportCapabilities(payload: Record<string, any>): string | null {
+    const problem = validateWorldCapabilities(payload);
+    if (problem) return problem;
+
+    this.capabilities = mergeWorldCapabilities(this.capabilities, payload);
+    ClientRegistry.updateCapabilities(this).catch(error => {
+      log.error(`Failed to update capabilities of client ${this.id} in Redis: ${error}`);
+    });
+    return null;
+  }
+
   public updateLastSeen(): void {
     this.lastSeen = Date.now();
   }
@@ -158,6 +473,10 @@ export class Client {
     return this.lastSeen;
   }
 
+  public getConnectedSince(): number {
+    return this.connectedSince;
+  }
+
   public isAlive(): boolean {
     // Only check if the WebSocket connection is still open
     // This relies on the WebSocket protocol-level ping/pong mechanism to verify connection health
@@ -165,10 +484,12 @@ export class Client {
     return (this.connected && this.ws.readyState === WebSocket.OPEN);
   }
 
-  public disconnect(): void {
+  public disconnect(code?: number, reason?: string): void {
+    // Clients the relay disconnects do not get to resume
+    this.resumeToken = null;
     if (this.connected && this.ws.readyState === WebSocket.OPEN) {
       try {
-        this.ws.close();
+        this.ws.close(code, reason);
       } catch (error) {
         log.error("Error closing WebSocket", { error, clientId: this.id });
       }
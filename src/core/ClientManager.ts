@@ -1,23 +1,32 @@
 // src/core/ClientManager.ts
 import { WebSocket } from "ws";
 import { log } from "../utils/logger";
-import { Client } from "./Client";
+import { Client, ClientHandle, ClientProtocol } from "./Client";
+import { ClusterTransport, RemoteClient } from "./ClusterTransport";
+import { ClientRecord, ClientRegistry } from "./ClientRegistry";
 import { WSCloseCodes } from "../lib/constants";
-import { getRedisClient } from "../config/redis";
+import { INSTANCE_ID } from "../config/instance";
+import { WorldCapabilities } from "../lib/protocol";
 
-type MessageHandler = (client: Client, message: any) => void;
+type MessageHandler = (client: ClientHandle, message: any) => void;
 
-const INSTANCE_ID = process.env.FLY_ALLOC_ID || 'local';
-const CLIENT_EXPIRY = 60 * 60 * 2; // 2 hours expiry for Redis keys
-const isMemoryStore = process.env.DB_TYPE === 'memory';
+// How long a module that can resume its session has to reconnect before its requests fail
+const CLIENT_RESUME_GRACE_MS = parseInt(process.env.CLIENT_RESUME_GRACE_MS || '30000', 10);
+
+// How long an open connection can go without a pong or message before a new connection for its client ID replaces it
+const CLIENT_STALE_AFTER_MS = parseInt(process.env.CLIENT_STALE_AFTER_MS || '60000', 10);
 
 export class ClientManager {
   private static clients = new Map<string, Client>();
   private static tokenGroups = new Map<string, Set<string>>(); 
   private static messageHandlers = new Map<string, MessageHandler[]>();
+  private static resumeTimers = new Map<string, NodeJS.Timeout>();
 
   /**
-   * Add a new client to the manager
+   * Add a new client to the manager. A client whose ID is taken is rejected, unless it
+   * resumes the session of that client with its resume token, that client is reconnecting
+   * and the new one starts a fresh session, or both connect for the same account and that
+   * client's connection stopped answering.
    */
   static async addClient(
     ws: WebSocket, 
@@ -29,17 +38,39 @@ export class ClientManager {
     systemId: string | null = null,
     systemTitle: string | null = null,
     systemVersion: string | null = null,
-    customName: string | null = null
-  ): Promise<Client | null> {
-    // Check if client already exists
-    if (this.clients.has(id)) {
+    customName: string | null = null,
+    protocol?: ClientProtocol,
+    resumeToken: string | null = null
+  ): Promise<{ client: Client; resumed: boolean } | null> {
+    const existing = this.clients.get(id);
+    if (existing && resumeToken && protocol && existing.canResume(token, resumeToken)) {
+      this.clearResumeTimer(id);
+      existing.resume(ws, protocol);
+      ClientRegistry.register(existing).catch(error => {
+        log.error(`Failed to register resumed client in Redis: ${error}`);
+      });
+      log.info(`Client ${id} resumed its session for account ${token}`);
+      return { client: existing, resumed: true };
+    }
+
+    if (existing?.getReconnectingUntil()) {
+      log.info(`Client ${id} reconnected without resuming, ending its previous session`);
+      existing.interruptPending();
+      await this.removeClient(id);
+    } else if (existing?.getApiKey() === token && this.isStale(existing)) {
+      // Modules without a resume token reconnect before the relay notices that their old connection dropped
+      log.info(`Client ${id} reconnected for account ${token} while its previous connection stopped answering, replacing it`);
+      existing.interruptPending();
+      await this.removeClient(id);
+      existing.disconnect(WSCloseCodes.ConnectionReplaced, "Replaced by a new connection");
+    } else if (existing) {
       log.warn(`Client ${id} already exists, rejecting connection`);
       ws.close(WSCloseCodes.DuplicateConnection, "Client ID already connected");
       return null;
     }
 
     // Create new client
-    const client = new Client(ws, id, token, worldId, worldTitle, foundryVersion, systemId, systemTitle, systemVersion, customName);
+    const client = new Client(ws, id, token, worldId, worldTitle, foundryVersion, systemId, systemTitle, systemVersion, customName, protocol);
     this.clients.set(id, client);
 
     // Add client to token group
@@ -48,57 +79,89 @@ export class ClientManager {
     }
     this.tokenGroups.get(token)?.add(id);
     
-    // Store clientId->instanceId and apiKey->clientId mappings in Redis
+    // Make the client visible to every instance
     try {
-      const redis = getRedisClient();
-      
-      if (redis) {
-        // Store the mapping between API key (token) and this instance
-        await redis.set(`apikey:${token}:instance`, INSTANCE_ID, { EX: CLIENT_EXPIRY });
-        
-        // Store the client ID -> instance ID mapping
-        await redis.set(`client:${id}:instance`, INSTANCE_ID, { EX: CLIENT_EXPIRY });
-        
-        // Store client ID -> API key mapping for lookup
-        await redis.set(`client:${id}:apikey`, token, { EX: CLIENT_EXPIRY });
-
-        if (worldId) {
-            await redis.set(`client:${id}:worldId`, worldId, { EX: CLIENT_EXPIRY });
-        }
-        if (worldTitle) {
-            await redis.set(`client:${id}:worldTitle`, worldTitle, { EX: CLIENT_EXPIRY });
-        }
-        if (foundryVersion) {
-            await redis.set(`client:${id}:foundryVersion`, foundryVersion, { EX: CLIENT_EXPIRY });
-        }
-        if (systemId) {
-            await redis.set(`client:${id}:systemId`, systemId, { EX: CLIENT_EXPIRY });
-        }
-        if (systemTitle) {
-            await redis.set(`client:${id}:systemTitle`, systemTitle, { EX: CLIENT_EXPIRY });
-        }
-        if (systemVersion) {
-            await redis.set(`client:${id}:systemVersion`, systemVersion, { EX: CLIENT_EXPIRY });
-        }
-        if (customName) {
-            await redis.set(`client:${id}:customName`, customName, { EX: CLIENT_EXPIRY });
-        }
-        
-        // Add client ID to the list of clients for this token/API key
-        await redis.sAdd(`apikey:${token}:clients`, id);
-        await redis.expire(`apikey:${token}:clients`, CLIENT_EXPIRY);
-        
-        const tokenTrunicated = `${token.substring(0, 8)}...`;
-        log.info(`Client ${id} registered in Redis with token ${tokenTrunicated}`);
-      }
+      await ClientRegistry.register(client);
     } catch (error) {
       log.error(`Failed to register client in Redis: ${error}`);
       // Continue even if Redis fails - local operation will still work
     }
 
-    const tokenTrunicated = `${token.substring(0, 8)}...`;
-    log.info(`Client ${id} connected with token ${tokenTrunicated}`);
-    return client;
+    log.info(`Client ${id} connected for account ${token}`);
+    return { client, resumed: false };
+  }
+
+  /**
+   * Keep a client whose connection dropped for CLIENT_RESUME_GRACE_MS, holding its requests
+   * until it resumes its session. It is removed if it does not.
+   */
+  static suspendClient(client: Client): void {
+    const id = client.getId();
+    if (this.clients.get(id) !== client || CLIENT_RESUME_GRACE_MS <= 0) {
+      this.removeClient(id);
+      return;
+    }
+
+    client.suspend(Date.now() + CLIENT_RESUME_GRACE_MS);
+    ClientRegistry.updateSession(client).catch(error => {
+      log.error(`Failed to mark client ${id} as reconnecting in Redis: ${error}`);
+    });
+
+    this.clearResumeTimer(id);
+    const timer = setTimeout(() => {
+      this.resumeTimers.delete(id);
+      if (this.clients.get(id) === client && client.getReconnectingUntil()) {
+        log.info(`Client ${id} did not resume its session within ${CLIENT_RESUME_GRACE_MS}ms`);
+        this.removeClient(id);
+      }
+    }, CLIENT_RESUME_GRACE_MS);
+    timer.unref();
+    this.resumeTimers.set(id, timer);
+    log.info(`Client ${id} disconnected, holding its requests for ${CLIENT_RESUME_GRACE_MS}ms while it reconnects`);
+  }
+
+  /**
+   * Whether a client is still the one registered under its ID, and was not replaced by a new connection.
+   */
+  static isCurrent(client: Client): boolean {
+    return this.clients.get(client.getId()) === client;
+  }
+
+  /**
+   * Whether an open connection missed its heartbeats, so a new connection for its ID may replace it.
+   */
+  private static isStale(client: Client): boolean {
+    return !client.isAlive() || Date.now() - client.getLastSeen() > CLIENT_STALE_AFTER_MS;
+  }
+
+  private static clearResumeTimer(id: string): void {
+    clearTimeout(this.resumeTimers.get(id));
+    this.resumeTimers.delete(id);
+  }
+
+  /**
+   * Stop holding a request for a client that is reconnecting, on any instance, when its
+   * caller gives up on it. Returns when the client's session expires, or null if the client
+   * is not reconnecting. Only clients on this instance can withdraw the request.
+   */
+  static async withdrawRequest(id: string, requestId: string): Promise<number | null> {
+    const client = this.clients.get(id);
+    if (client) {
+      const until = client.getReconnectingUntil();
+      if (until) client.withdrawRequest(requestId);
+      return until;
+    }
+    if (!ClusterTransport.isEnabled()) {
+      return null;
+    }
+
+    try {
+      const until = (await ClientRegistry.get(id))?.reconnectingUntil || 0;
+      return until > Date.now() ? until : null;
+    } catch (error) {
+      log.error(`Error checking Redis for a reconnecting client: ${error}`);
+      return null;
+    }
   }
 
   /**
@@ -107,6 +170,7 @@ export class ClientManager {
   static async removeClient(id: string): Promise<void> {
     const client = this.clients.get(id);
     if (client) {
+      this.clearResumeTimer(id);
       const token = client.getApiKey();
       
       // Clean up local state
@@ -116,22 +180,9 @@ export class ClientManager {
         this.tokenGroups.delete(token);
       }
       
-      // Clean up Redis state
+      // Clean up the cluster registry
       try {
-        const redis = getRedisClient();
-        if (redis) {
-          // FIXED: Consistent key naming
-          await redis.del(`client:${id}:instance`);
-          await redis.del(`client:${id}:apikey`);
-          await redis.sRem(`apikey:${token}:clients`, id);
-          
-          // If this was the last client for this token, remove instance mapping
-          const remainingClients = await redis.sCard(`apikey:${token}:clients`);
-          if (remainingClients === 0) {
-            await redis.del(`apikey:${token}:instance`);
-            await redis.del(`apikey:${token}:clients`);
-          }
-        }
+        await ClientRegistry.unregister(client);
       } catch (error) {
         log.error(`Failed to clean up client in Redis: ${error}`);
         // Continue even if Redis fails
@@ -142,27 +193,26 @@ export class ClientManager {
   }
 
   /**
-   * Get a client by ID
+   * Get a client by ID. Clients connected to another instance are returned as a
+   * RemoteClient whose messages are routed through the cluster transport.
    */
-  static async getClient(id: string): Promise<Client | null> {
+  static async getClient(id: string): Promise<ClientHandle | null> {
     // First check local clients
     const client = this.clients.get(id);
     if (client) {
       return client;
     }
     
-    // If not found locally, check if this client should be on a different instance
+    // If not found locally, check if this client is connected to a different instance
+    if (!ClusterTransport.isEnabled()) {
+      return null;
+    }
+
     try {
-      const redis = getRedisClient();
-      if (redis) {
-        // FIXED: Consistent key naming
-        const instanceId = await redis.get(`client:${id}:instance`);
-        
-        if (instanceId && instanceId !== INSTANCE_ID) {
-          // This client exists but is connected to a different instance
-          log.info(`Client ${id} is connected to instance ${instanceId}, not to this instance ${INSTANCE_ID}`);
-          return null;
-        }
+      const record = await ClientRegistry.get(id);
+      if (record && record.instanceId !== INSTANCE_ID) {
+        log.info(`Client ${id} is connected to instance ${record.instanceId}, routing through the cluster transport`);
+        return new RemoteClient(id, record.apiKey, record.instanceId);
       }
     } catch (error) {
       log.error(`Error checking Redis for client: ${error}`);
@@ -171,17 +221,29 @@ export class ClientManager {
     return null;
   }
 
+  /**
+   * Get a client connected to this instance
+   */
+  static getLocalClient(id: string): Client | null {
+    return this.clients.get(id) || null;
+  }
+
+  /**
+   * Get all clients connected to this instance
+   */
+  static getLocalClients(): Client[] {
+    return Array.from(this.clients.values());
+  }
+
   /**
    * Get the instance ID for a client by ID
    */
   static async getClientInstance(id: string): Promise<string | null> {
+    if (this.clients.has(id)) {
+      return INSTANCE_ID;
+    }
     try {
-      const redis = getRedisClient();
-      if (redis) {
-        return await redis.get(`client:id:${id}:instance`);
-      } else {
-        return null;
-      }
+      return (await ClientRegistry.get(id))?.instanceId || null;
     } catch (error) {
       log.error(`Error getting client instance from Redis: ${error}`);
       return null;
@@ -189,103 +251,85 @@ export class ClientManager {
   }
 
   /**
-   * Get the instance ID for an API token
+   * Get the world capabilities of a client connected to any instance, or null if it is not connected
    */
-  static async getInstanceForToken(token: string): Promise<string | null> {
-    try {
-      const redis = getRedisClient();
-      if (redis) {
-        return await redis.get(`client:${token}:instance`);
-      } else {
-        return null;
-      }
-    } catch (error) {
-      log.error(`Error getting instance for token from Redis: ${error}`);
+  static async getCapabilities(id: string): Promise<WorldCapabilities | null> {
+    const client = this.clients.get(id);
+    if (client) {
+      return client.getCapabilities();
+    }
+    if (!ClusterTransport.isEnabled()) {
       return null;
     }
-  }
 
-  /**
-   * Get the instance ID for an API key
-   */
-  static async getInstanceForApiKey(apiKey: string): Promise<string | null> {
     try {
-      const redis = getRedisClient();
-      if (redis) {
-        // Directly look up the instance for this API key
-        return await redis.get(`apikey:${apiKey}:instance`);
-      }
-      return null;
+      return (await ClientRegistry.get(id))?.capabilities || null;
     } catch (error) {
-      log.error(`Error getting instance for API key from Redis: ${error}`);
+      log.error(`Error getting client capabilities from Redis: ${error}`);
       return null;
     }
   }
 
   /**
-   * Get all connected clients for an API key
+   * Get all connected clients for an API key, on this instance and on every other instance
    */
-  static async getConnectedClients(apiKey: string): Promise<string[]> {
+  static async getConnectedClients(apiKey: string): Promise<ClientRecord[]> {
     const localClients = Array.from(this.tokenGroups.get(apiKey) || [])
-      .filter(id => this.clients.has(id) && this.clients.get(id)!.isAlive())
-      .map(id => id); // Just return the client IDs
-    
-    // In a distributed setup, we'd need to query other instances
-    // For now, just return local clients
-    return localClients;
+      .map(id => this.clients.get(id))
+      .filter((client): client is Client => !!client && client.isAlive())
+      .map(client => ClientRegistry.recordFor(client));
+
+    if (!ClusterTransport.isEnabled()) {
+      return localClients;
+    }
+
+    try {
+      const records = await ClientRegistry.listForApiKey(apiKey);
+      // Local state is the most up to date for clients connected here
+      const remoteClients = records.filter(record => !this.clients.has(record.id) && !record.reconnectingUntil);
+      return [...localClients, ...remoteClients];
+    } catch (error) {
+      log.error(`Error listing clients from Redis: ${error}`);
+      return localClients;
+    }
   }
 
   /**
-   * Update client's last seen timestamp
+   * Update client's last seen timestamp, written to the registry on the next heartbeat
    */
   static updateClientLastSeen(id: string): void {
-    const client = this.clients.get(id);
-    if (client) {
-      client.updateLastSeen();
-      
-      // Also update expiry in Redis
-      try {
-        const redis = getRedisClient();
-        if (redis) {
-          const token = client.getApiKey();
-          
-          // FIXED: Refresh expiry for all Redis keys with consistent naming
-          redis.expire(`client:${id}:instance`, CLIENT_EXPIRY);
-          redis.expire(`client:${id}:apikey`, CLIENT_EXPIRY);
-          redis.expire(`apikey:${token}:clients`, CLIENT_EXPIRY);
-          redis.expire(`apikey:${token}:instance`, CLIENT_EXPIRY);
-        }
-      } catch (error) {
-        // Ignore Redis errors for heartbeat updates
-      }
-    }
+    this.clients.get(id)?.updateLastSeen();
   }
 
   /**
-   * Broadcast a message to all clients in the same token group
+   * Broadcast a message to all clients in the same token group, on every instance
    */
   static async broadcastToGroup(senderId: string, message: any): Promise<void> {
     const sender = this.clients.get(senderId);
     if (!sender) return;
 
     const token = sender.getApiKey();
-    
-    // Broadcast to local clients
+    this.deliverToGroup(token, senderId, message);
+
+    // Clients with the same token connected to other instances
+    ClusterTransport.broadcast(token, senderId, message);
+  }
+
+  /**
+   * Send a message to the local clients of a token group, except the sender
+   */
+  static deliverToGroup(token: string, senderId: string, message: any): void {
     const groupClients = this.tokenGroups.get(token);
-    if (groupClients) {
-      for (const clientId of groupClients) {
-        if (clientId !== senderId) {
-          const client = this.clients.get(clientId);
-          if (client && client.isAlive()) {
-            client.send(message);
-          }
+    if (!groupClients) return;
+
+    for (const clientId of groupClients) {
+      if (clientId !== senderId) {
+        const client = this.clients.get(clientId);
+        if (client && client.isAlive()) {
+          client.send(message);
         }
       }
     }
-    
-    // In a distributed setup with pub/sub, we'd publish to a Redis channel here
-    // For Fly.io private network, we'd need to implement a pub/sub system
-    // This is beyond the scope of this implementation
   }
 
   /**
@@ -314,25 +358,13 @@ export class ClientManager {
         client.send({ type: "pong" });
         return;
       }
+
+      // Replies to requests made through another instance go back to that instance
+      if (ClusterTransport.routeReply(client, message)) {
+        return;
+      }
       
-      // Handle other message types with registered handlers
-      if (message.type && this.messageHandlers.has(message.type)) {
-        for (const handler of this.messageHandlers.get(message.type)!) {
-          try {
-            handler(client, message);
-          } catch (handlerError) {
-            log.error('Error in message handler', {
-              clientId,
-              messageType: message.type,
-              requestId: message.requestId,
-              error: handlerError instanceof Error ? {
-                name: handlerError.name,
-                message: handlerError.message,
-                stack: handlerError.stack
-              } : String(handlerError)
-            });
-          }
-        }
+      if (this.dispatchMessage(client, message)) {
         return;
       }
 
@@ -352,6 +384,61 @@ export class ClientManager {
     }
   }
 
+  /**
+   * Run the registered handlers for a message from a local or remote client.
+   * Returns false if no handler is registered for the message type.
+   */
+  static dispatchMessage(client: ClientHandle, message: any): boolean {
+    if (!message?.type || !this.messageHandlers.has(message.type)) {
+      return false;
+    }
+
+    for (const handler of this.messageHandlers.get(message.type)!) {
+      try {
+        handler(client, message);
+      } catch (handlerError) {
+        log.error('Error in message handler', {
+          clientId: client.getId(),
+          messageType: message.type,
+          requestId: message.requestId,
+          error: handlerError instanceof Error ? {
+            name: handlerError.name,
+            message: handlerError.message,
+            stack: handlerError.stack
+          } : String(handlerError)
+        });
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Disconnect every Foundry client of an account, on this instance and on every other instance.
+   * Returns the number of clients that were connected.
+   */
+  static async disconnectClients(apiKey: string, code: number, reason: string): Promise<number> {
+    const connected = await this.getConnectedClients(apiKey);
+    this.disconnectLocalClients(apiKey, code, reason);
+    if (ClusterTransport.isEnabled()) {
+      ClusterTransport.disconnectAccount(apiKey, code, reason);
+    }
+    return connected.length;
+  }
+
+  /**
+   * Disconnect the Foundry clients of an account that are connected to this instance.
+   */
+  static disconnectLocalClients(apiKey: string, code: number, reason: string): void {
+    for (const id of Array.from(this.tokenGroups.get(apiKey) || [])) {
+      const client = this.clients.get(id);
+      if (!client) continue;
+
+      log.info(`Disconnecting client ${id}: ${reason}`);
+      client.disconnect(code, reason);
+      this.removeClient(id).catch(error => log.error(`Error removing client ${id}: ${error}`));
+    }
+  }
+
   /**
    * Clean up inactive clients
    */
@@ -360,7 +447,8 @@ export class ClientManager {
     
     // Check all clients - only use isAlive() which now incorporates the grace period
     for (const [id, client] of this.clients.entries()) {
-      if (!client.isAlive()) {
+      // Clients that are reconnecting are removed when their session expires
+      if (!client.isAlive() && !client.getReconnectingUntil()) {
         toRemove.push(id);
       }
     }
@@ -0,0 +1,308 @@
+// src/core/ClientRegistry.ts
+import { log } from "../utils/logger";
+import { getRedisClient } from "../config/redis";
+import { INSTANCE_ID } from "../config/instance";
+import { Client } from "./Client";
+import { WorldCapabilities } from "../lib/protocol";
+
+// How often this instance refreshes its client records
+const CLIENT_HEARTBEAT_INTERVAL_MS = parseInt(process.env.CLIENT_HEARTBEAT_INTERVAL_MS || '15000', 10);
+// Records not refreshed for this long expire, e.g. when their instance died
+const CLIENT_RECORD_TTL_SECONDS = parseInt(process.env.CLIENT_RECORD_TTL_SECONDS || '60', 10);
+
+const INSTANCES_KEY = 'relay:instances';
+
+/**
+ * A connected Foundry client as seen by every relay instance.
+ */
+export interface ClientRecord {
+  id: string;
+  apiKey: string;
+  instanceId: string;
+  lastSeen: number;
+  connectedSince: number;
+  worldId: string;
+  worldTitle: string;
+  foundryVersion: string;
+  systemId: string;
+  systemTitle: string;
+  systemVersion: string;
+  customName: string;
+  capabilities: WorldCapabilities | null;
+  /** When the session of a client that is reconnecting expires, 0 while it is connected */
+  reconnectingUntil: number;
+}
+
+function clientKey(id: string): string {
+  return `client:${id}`;
+}
+
+function apiKeyClientsKey(apiKey: string): string {
+  return `apikey:${apiKey}:clients`;
+}
+
+function instanceClientsKey(instanceId: string): string {
+  return `instance:${instanceId}:clients`;
+}
+
+function instanceAliveKey(instanceId: string): string {
+  return `instance:${instanceId}:alive`;
+}
+
+function parseCapabilities(value: string | undefined): WorldCapabilities | null {
+  if (!value) return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+function toHash(record: ClientRecord): Record<string, string> {
+  return Object.fromEntries(Object.entries(record).map(([key, value]) => [
+    key,
+    typeof value === 'object' ? JSON.stringify(value) : String(value)
+  ]));
+}
+
+function parseRecord(hash: Record<string, string>): ClientRecord | null {
+  if (!hash || !hash.id || !hash.instanceId) {
+    return null;
+  }
+  return {
+    id: hash.id,
+    apiKey: hash.apiKey || '',
+    instanceId: hash.instanceId,
+    lastSeen: parseInt(hash.lastSeen, 10) || 0,
+    connectedSince: parseInt(hash.connectedSince, 10) || 0,
+    worldId: hash.worldId || '',
+    worldTitle: hash.worldTitle || '',
+    foundryVersion: hash.foundryVersion || '',
+    systemId: hash.systemId || '',
+    systemTitle: hash.systemTitle || '',
+    systemVersion: hash.systemVersion || '',
+    customName: hash.customName || '',
+    capabilities: parseCapabilities(hash.capabilities),
+    reconnectingUntil: parseInt(hash.reconnectingUntil, 10) || 0
+  };
+}
+
+/**
+ * Cluster-wide registry of connected Foundry clients, kept in Redis.
+ *
+ * Each instance writes a record per client it holds and refreshes it on a heartbeat, so
+ * records of an instance that dies expire on their own. The reaper also removes a dead
+ * instance's clients from the per-API-key sets straight away.
+ * Without Redis the registry is disabled and ClientManager only knows its local clients.
+ */
+export class ClientRegistry {
+  private static heartbeatInterval: NodeJS.Timeout | null = null;
+  private static getLocalClients: () => Client[] = () => [];
+
+  /**
+   * Record describing a locally connected client
+   */
+  static recordFor(client: Client): ClientRecord {
+    return {
+      id: client.getId(),
+      apiKey: client.getApiKey(),
+      instanceId: INSTANCE_ID,
+      lastSeen: client.getLastSeen(),
+      connectedSince: client.getConnectedSince(),
+      worldId: client.getWorldId() || '',
+      worldTitle: client.getWorldTitle() || '',
+      foundryVersion: client.getFoundryVersion() || '',
+      systemId: client.getSystemId() || '',
+      systemTitle: client.getSystemTitle() || '',
+      systemVersion: client.getSystemVersion() || '',
+      customName: client.getCustomName() || '',
+      capabilities: client.getCapabilities(),
+      reconnectingUntil: client.getReconnectingUntil() || 0
+    };
+  }
+
+  /**
+   * Start the heartbeat that keeps this instance's records alive and reaps dead instances.
+   */
+  static start(getLocalClients: () => Client[]): void {
+    this.getLocalClients = getLocalClients;
+    if (this.heartbeatInterval) return;
+
+    this.heartbeat().catch(error => log.error(`Client registry heartbeat failed: ${error}`));
+    this.heartbeatInterval = setInterval(() => {
+      this.heartbeat()
+        .then(() => this.reapDeadInstances())
+        .catch(error => log.error(`Client registry heartbeat failed: ${error}`));
+    }, CLIENT_HEARTBEAT_INTERVAL_MS);
+    this.heartbeatInterval.unref();
+  }
+
+  /**
+   * Stop the heartbeat and remove this instance's clients so no requests are routed here.
+   */
+  static async stop(): Promise<void> {
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = null;
+    }
+
+    try {
+      for (const client of this.getLocalClients()) {
+        await this.unregister(client);
+      }
+      const redis = getRedisClient();
+      if (redis) {
+        await redis.del([instanceAliveKey(INSTANCE_ID), instanceClientsKey(INSTANCE_ID)]);
+        await redis.sRem(INSTANCES_KEY, INSTANCE_ID);
+      }
+    } catch (error) {
+      log.error(`Failed to remove clients from registry on shutdown: ${error}`);
+    }
+  }
+
+  static async register(client: Client): Promise<void> {
+    const redis = getRedisClient();
+    if (!redis) return;
+
+    const record = this.recordFor(client);
+    const id = record.id;
+
+    await redis.multi()
+      .hSet(clientKey(id), toHash(record))
+      .expire(clientKey(id), CLIENT_RECORD_TTL_SECONDS)
+      .sAdd(apiKeyClientsKey(record.apiKey), id)
+      .expire(apiKeyClientsKey(record.apiKey), CLIENT_RECORD_TTL_SECONDS)
+      .sAdd(instanceClientsKey(INSTANCE_ID), id)
+      .sAdd(INSTANCES_KEY, INSTANCE_ID)
+      .set(instanceAliveKey(INSTANCE_ID), Date.now().toString(), { EX: CLIENT_RECORD_TTL_SECONDS })
+      .exec();
+  }
+
+  /**
+   * Share the capabilities a client reported after it was registered.
+   */
+  static async updateCapabilities(client: Client): Promise<void> {
+    const redis = getRedisClient();
+    if (!redis) return;
+
+    const id = client.getId();
+    await redis.multi()
+      .hSet(clientKey(id), 'capabilities', JSON.stringify(client.getCapabilities()))
+      .expire(clientKey(id), CLIENT_RECORD_TTL_SECONDS)
+      .exec();
+  }
+
+  /**
+   * Share that a client is reconnecting, so other instances answer its timed-out requests with 503.
+   */
+  static async updateSession(client: Client): Promise<void> {
+    const redis = getRedisClient();
+    if (!redis) return;
+
+    const id = client.getId();
+    await redis.multi()
+      .hSet(clientKey(id), 'reconnectingUntil', String(client.getReconnectingUntil() || 0))
+      .expire(clientKey(id), CLIENT_RECORD_TTL_SECONDS)
+      .exec();
+  }
+
+  /**
+   * Remove a client's record, unless the client has since reconnected to another instance.
+   */
+  static async unregister(client: Client): Promise<void> {
+    const redis = getRedisClient();
+    if (!redis) return;
+
+    const id = client.getId();
+    await redis.sRem(instanceClientsKey(INSTANCE_ID), id);
+
+    const owner = await redis.hGet(clientKey(id), 'instanceId');
+    if (owner && owner !== INSTANCE_ID) {
+      return;
+    }
+
+    await redis.multi()
+      .del(clientKey(id))
+      .sRem(apiKeyClientsKey(client.getApiKey()), id)
+      .exec();
+  }
+
+  static async get(id: string): Promise<ClientRecord | null> {
+    const redis = getRedisClient();
+    if (!redis) return null;
+
+    return parseRecord(await redis.hGetAll(clientKey(id)));
+  }
+
+  /**
+   * All clients connected with an API key on any instance. Stale entries are removed.
+   */
+  static async listForApiKey(apiKey: string): Promise<ClientRecord[]> {
+    const redis = getRedisClient();
+    if (!redis) return [];
+
+    const ids = await redis.sMembers(apiKeyClientsKey(apiKey));
+    const records = await Promise.all(ids.map(async id => parseRecord(await redis.hGetAll(clientKey(id)))));
+
+    const stale = ids.filter((id, index) => !records[index] || records[index]!.apiKey !== apiKey);
+    if (stale.length > 0) {
+      await redis.sRem(apiKeyClientsKey(apiKey), stale);
+    }
+
+    return records.filter((record): record is ClientRecord => record !== null && record.apiKey === apiKey);
+  }
+
+  /**
+   * Refresh the records of every local client and this instance's liveness key.
+   */
+  private static async heartbeat(): Promise<void> {
+    const redis = getRedisClient();
+    if (!redis) return;
+
+    const multi = redis.multi()
+      .sAdd(INSTANCES_KEY, INSTANCE_ID)
+      .set(instanceAliveKey(INSTANCE_ID), Date.now().toString(), { EX: CLIENT_RECORD_TTL_SECONDS });
+
+    for (const client of this.getLocalClients()) {
+      if (!client.isAlive()) continue;
+      const id = client.getId();
+      multi
+        .hSet(clientKey(id), { instanceId: INSTANCE_ID, lastSeen: client.getLastSeen().toString() })
+        .expire(clientKey(id), CLIENT_RECORD_TTL_SECONDS)
+        .sAdd(apiKeyClientsKey(client.getApiKey()), id)
+        .expire(apiKeyClientsKey(client.getApiKey()), CLIENT_RECORD_TTL_SECONDS)
+        .sAdd(instanceClientsKey(INSTANCE_ID), id);
+    }
+
+    await multi.exec();
+  }
+
+  /**
+   * Remove the clients of instances that stopped sending heartbeats.
+   */
+  private static async reapDeadInstances(): Promise<void> {
+    const redis = getRedisClient();
+    if (!redis) return;
+
+    for (const instanceId of await redis.sMembers(INSTANCES_KEY)) {
+      if (instanceId === INSTANCE_ID || await redis.exists(instanceAliveKey(instanceId))) {
+        continue;
+      }
+
+      const ids = await redis.sMembers(instanceClientsKey(instanceId));
+      for (const id of ids) {
+        const record = parseRecord(await redis.hGetAll(clientKey(id)));
+        if (record && record.instanceId === instanceId) {
+          await redis.multi()
+            .del(clientKey(id))
+            .sRem(apiKeyClientsKey(record.apiKey), id)
+            .exec();
+        }
+      }
+
+      await redis.del(instanceClientsKey(instanceId));
+      await redis.sRem(INSTANCES_KEY, instanceId);
+      log.info(`Reaped ${ids.length} client(s) of dead instance ${instanceId}`);
+    }
+  }
+}
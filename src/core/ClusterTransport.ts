@@ -0,0 +1,375 @@
+// src/core/ClusterTransport.ts
+import { RedisClientType } from "redis";
+import { log } from "../utils/logger";
+import { getRedisClient } from "../config/redis";
+import { INSTANCE_ID } from "../config/instance";
+import { ClientHandle } from "./Client";
+import { ClientManager } from "./ClientManager";
+import { WorldEvent, WorldEvents } from "./WorldEvents";
+
+// Messages for Foundry clients connected to an instance
+const REQUEST_CHANNEL_PREFIX = 'relay:requests:';
+// Responses from Foundry clients to requests that came from an instance
+const REPLY_CHANNEL_PREFIX = 'relay:replies:';
+// World events pushed by a Foundry client
+const EVENT_CHANNEL_PREFIX = 'relay:events:';
+// Messages broadcast to the token group of a Foundry client
+const BROADCAST_CHANNEL = 'relay:broadcast';
+// Accounts whose Foundry clients every instance should disconnect
+const DISCONNECT_CHANNEL = 'relay:disconnect';
+
+// How long the owning instance routes messages for a forwarded request back to its origin
+const CLUSTER_REPLY_ROUTE_TTL_MS = parseInt(process.env.CLUSTER_REPLY_ROUTE_TTL_MS || '900000', 10);
+
+interface ForwardedRequest {
+  clientId: string;
+  replyTo: string;
+  message: unknown;
+}
+
+interface ForwardedReply {
+  clientId: string;
+  apiKey: string;
+  instanceId: string;
+  message: any;
+}
+
+interface ForwardedBroadcast {
+  instanceId: string;
+  apiKey: string;
+  senderId: string;
+  message: any;
+}
+
+interface ForwardedDisconnect {
+  instanceId: string;
+  apiKey: string;
+  code: number;
+  reason: string;
+}
+
+interface ForwardedEvent {
+  instanceId: string;
+  apiKey: string;
+  event: WorldEvent;
+}
+
+/**
+ * A Foundry client whose WebSocket is held by another relay instance.
+ * Messages sent to it are published to the owning instance over Redis.
+ */
+export class RemoteClient implements ClientHandle {
+  constructor(
+    private readonly id: string,
+    private readonly apiKey: string,
+    private readonly instanceId: string
+  ) {}
+
+  public getId(): string {
+    return this.id;
+  }
+
+  public getApiKey(): string {
+    return this.apiKey;
+  }
+
+  public getInstanceId(): string {
+    return this.instanceId;
+  }
+
+  public isAlive(): boolean {
+    return true;
+  }
+
+  public send(data: unknown): boolean {
+    return ClusterTransport.forward(this.instanceId, this.id, data);
+  }
+}
+
+/**
+ * Routes messages between relay instances over Redis pub/sub.
+ *
+ * An instance that receives an API request for a client connected elsewhere publishes the
+ * outbound message to the owning instance, which sends it over the WebSocket and publishes
+ * every message the client sends with the same requestId back to the origin's reply channel.
+ * The origin then handles the reply with the normal message handlers, so pending requests,
+ * timeouts, jobs and idempotency work the same as for local clients.
+ */
+export class ClusterTransport {
+  private static subscriber: RedisClientType | null = null;
+  private static replyRoutes = new Map<string, { instanceId: string; expiresAt: number }>();
+  private static eventRelays = new Map<string, number>();
+  private static pruneInterval: NodeJS.Timeout | null = null;
+  private static unsubscribeWorldEvents: (() => void) | null = null;
+
+  /**
+   * Subscribe to this instance's channels. Returns false when Redis is not available,
+   * in which case only locally connected clients can be reached.
+   */
+  static async start(): Promise<boolean> {
+    const redis = getRedisClient();
+    if (!redis || this.subscriber) {
+      return !!this.subscriber;
+    }
+
+    try {
+      // A connection in subscriber mode cannot run other commands
+      const subscriber = redis.duplicate();
+      subscriber.on('error', (error) => log.error(`Cluster transport subscriber error: ${error}`));
+      await subscriber.connect();
+
+      await subscriber.subscribe(`${REQUEST_CHANNEL_PREFIX}${INSTANCE_ID}`, (raw) => this.handleRequest(raw));
+      await subscriber.subscribe(`${REPLY_CHANNEL_PREFIX}${INSTANCE_ID}`, (raw) => this.handleReply(raw));
+      await subscriber.subscribe(BROADCAST_CHANNEL, (raw) => this.handleBroadcast(raw));
+      await subscriber.subscribe(DISCONNECT_CHANNEL, (raw) => this.handleDisconnect(raw));
+      this.subscriber = subscriber as RedisClientType;
+
+      // Share events from local clients with SSE streams on other instances
+      this.unsubscribeWorldEvents = WorldEvents.subscribeAll((event, client) => this.publishEvent(event, client));
+
+      this.pruneInterval = setInterval(() => this.pruneReplyRoutes(), 60000);
+      this.pruneInterval.unref();
+
+      log.info(`Cluster transport started for instance ${INSTANCE_ID}`);
+      return true;
+    } catch (error) {
+      log.error(`Failed to start cluster transport: ${error}`);
+      return false;
+    }
+  }
+
+  static async stop(): Promise<void> {
+    if (this.pruneInterval) {
+      clearInterval(this.pruneInterval);
+      this.pruneInterval = null;
+    }
+    this.unsubscribeWorldEvents?.();
+    this.unsubscribeWorldEvents = null;
+
+    if (this.subscriber) {
+      const subscriber = this.subscriber;
+      this.subscriber = null;
+      await subscriber.quit().catch(error => {
+        log.error(`Error closing cluster transport subscriber: ${error}`);
+      });
+    }
+  }
+
+  static isEnabled(): boolean {
+    return this.subscriber !== null;
+  }
+
+  /**
+   * Publish a message for a client connected to another instance.
+   */
+  static forward(instanceId: string, clientId: string, message: unknown): boolean {
+    const redis = getRedisClient();
+    if (!redis || !this.subscriber) {
+      log.warn(`Cannot reach client ${clientId} on instance ${instanceId}: cluster transport is not running`);
+      return false;
+    }
+
+    const envelope: ForwardedRequest = { clientId, replyTo: INSTANCE_ID, message };
+    redis.publish(`${REQUEST_CHANNEL_PREFIX}${instanceId}`, JSON.stringify(envelope))
+      .then(receivers => {
+        if (receivers === 0) {
+          log.warn(`No relay instance is listening for client ${clientId} on instance ${instanceId}`);
+        }
+      })
+      .catch(error => {
+        log.error(`Error forwarding message for client ${clientId} to instance ${instanceId}: ${error}`);
+      });
+    return true;
+  }
+
+  /**
+   * Send a message from a local client back to the instance that made the request.
+   * Returns false if the message is not a reply to a forwarded request.
+   */
+  static routeReply(client: ClientHandle, message: any): boolean {
+    const requestId = message?.requestId;
+    if (!requestId) return false;
+
+    const route = this.replyRoutes.get(requestId);
+    if (!route || route.expiresAt <= Date.now()) {
+      return false;
+    }
+
+    const redis = getRedisClient();
+    if (!redis) return false;
+
+    const envelope: ForwardedReply = {
+      clientId: client.getId(),
+      apiKey: client.getApiKey(),
+      instanceId: INSTANCE_ID,
+      message
+    };
+    redis.publish(`${REPLY_CHANNEL_PREFIX}${route.instanceId}`, JSON.stringify(envelope)).catch(error => {
+      log.error(`Error returning ${message.type} for request ${requestId} to instance ${route.instanceId}: ${error}`);
+    });
+    return true;
+  }
+
+  /**
+   * Share a message with the token group's clients connected to other instances.
+   */
+  static broadcast(apiKey: string, senderId: string, message: any): void {
+    const redis = getRedisClient();
+    if (!redis || !this.subscriber) return;
+
+    const envelope: ForwardedBroadcast = { instanceId: INSTANCE_ID, apiKey, senderId, message };
+    redis.publish(BROADCAST_CHANNEL, JSON.stringify(envelope)).catch(error => {
+      log.error(`Error broadcasting ${message?.type} from client ${senderId}: ${error}`);
+    });
+  }
+
+  /**
+   * Receive world events for a client connected to another instance while a listener needs them.
+   * @returns A function that stops the relay
+   */
+  static relayWorldEvents(clientId: string): () => void {
+    if (!this.subscriber) {
+      return () => {};
+    }
+
+    const channel = `${EVENT_CHANNEL_PREFIX}${clientId}`;
+    const count = this.eventRelays.get(clientId) || 0;
+    this.eventRelays.set(clientId, count + 1);
+    if (count === 0) {
+      this.subscriber.subscribe(channel, (raw) => this.handleEvent(raw)).catch(error => {
+        log.error(`Error subscribing to events for client ${clientId}: ${error}`);
+      });
+    }
+
+    let stopped = false;
+    return () => {
+      if (stopped) return;
+      stopped = true;
+
+      const remaining = (this.eventRelays.get(clientId) || 1) - 1;
+      if (remaining > 0) {
+        this.eventRelays.set(clientId, remaining);
+        return;
+      }
+      this.eventRelays.delete(clientId);
+      this.subscriber?.unsubscribe(channel).catch(error => {
+        log.error(`Error unsubscribing from events for client ${clientId}: ${error}`);
+      });
+    };
+  }
+
+  private static handleRequest(raw: string): void {
+    let envelope: ForwardedRequest;
+    try {
+      envelope = JSON.parse(raw);
+    } catch (error) {
+      log.error(`Invalid forwarded request: ${error}`);
+      return;
+    }
+
+    const client = ClientManager.getLocalClient(envelope.clientId);
+    if (!client) {
+      // The origin times the request out like any unanswered request
+      log.warn(`Forwarded message for client ${envelope.clientId}, which is not connected to this instance`);
+      return;
+    }
+
+    const requestId = (envelope.message as any)?.requestId;
+    if (requestId) {
+      this.replyRoutes.set(requestId, { instanceId: envelope.replyTo, expiresAt: Date.now() + CLUSTER_REPLY_ROUTE_TTL_MS });
+    }
+
+    if (!client.send(envelope.message)) {
+      log.error(`Failed to deliver forwarded message to client ${envelope.clientId}`);
+    }
+  }
+
+  private static handleReply(raw: string): void {
+    let envelope: ForwardedReply;
+    try {
+      envelope = JSON.parse(raw);
+    } catch (error) {
+      log.error(`Invalid forwarded reply: ${error}`);
+      return;
+    }
+
+    const client = new RemoteClient(envelope.clientId, envelope.apiKey, envelope.instanceId);
+    ClientManager.dispatchMessage(client, envelope.message);
+  }
+
+  /**
+   * Ask the other instances to disconnect the Foundry clients of an account.
+   */
+  static disconnectAccount(apiKey: string, code: number, reason: string): void {
+    const redis = getRedisClient();
+    if (!redis || !this.subscriber) return;
+
+    const envelope: ForwardedDisconnect = { instanceId: INSTANCE_ID, apiKey, code, reason };
+    redis.publish(DISCONNECT_CHANNEL, JSON.stringify(envelope)).catch(error => {
+      log.error(`Error publishing disconnect for account ${apiKey}: ${error}`);
+    });
+  }
+
+  private static handleDisconnect(raw: string): void {
+    let envelope: ForwardedDisconnect;
+    try {
+      envelope = JSON.parse(raw);
+    } catch (error) {
+      log.error(`Invalid forwarded disconnect: ${error}`);
+      return;
+    }
+
+    // Local clients were already disconnected
+    if (envelope.instanceId === INSTANCE_ID) return;
+
+    ClientManager.disconnectLocalClients(envelope.apiKey, envelope.code, envelope.reason);
+  }
+
+  private static handleBroadcast(raw: string): void {
+    let envelope: ForwardedBroadcast;
+    try {
+      envelope = JSON.parse(raw);
+    } catch (error) {
+      log.error(`Invalid forwarded broadcast: ${error}`);
+      return;
+    }
+
+    // Local clients already received it
+    if (envelope.instanceId === INSTANCE_ID) return;
+
+    ClientManager.deliverToGroup(envelope.apiKey, envelope.senderId, envelope.message);
+  }
+
+  private static publishEvent(event: WorldEvent, client: ClientHandle): void {
+    const redis = getRedisClient();
+    if (!redis) return;
+
+    const envelope: ForwardedEvent = { instanceId: INSTANCE_ID, apiKey: client.getApiKey(), event };
+    redis.publish(`${EVENT_CHANNEL_PREFIX}${event.clientId}`, JSON.stringify(envelope)).catch(error => {
+      log.error(`Error publishing ${event.type} event for client ${event.clientId}: ${error}`);
+    });
+  }
+
+  private static handleEvent(raw: string): void {
+    let envelope: ForwardedEvent;
+    try {
+      envelope = JSON.parse(raw);
+    } catch (error) {
+      log.error(`Invalid forwarded event: ${error}`);
+      return;
+    }
+
+    // Events from local clients were already delivered
+    if (envelope.instanceId === INSTANCE_ID) return;
+
+    const client = new RemoteClient(envelope.event.clientId, envelope.apiKey, envelope.instanceId);
+    WorldEvents.publishRemote(envelope.event, client);
+  }
+
+  private static pruneReplyRoutes(): void {
+    const now = Date.now();
+    for (const [requestId, route] of this.replyRoutes) {
+      if (route.expiresAt <= now) this.replyRoutes.delete(requestId);
+    }
+  }
+}
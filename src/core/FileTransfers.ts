@@ -0,0 +1,346 @@
+// src/core/FileTransfers.ts
+import crypto from "crypto";
+import { log } from "../utils/logger";
+import { Client, ClientHandle } from "./Client";
+import { ClientManager } from "./ClientManager";
+import {
+  BINARY_CHUNKS_CAPABILITY, TRANSFER_ABORT_MESSAGE, TRANSFER_ACK_MESSAGE, TRANSFER_END_MESSAGE, TransferChunk, TransferDescriptor,
+  decodeChunk, describeTransfer, encodeChunk, isSha256, validateTransferDescriptor
+} from "../lib/protocol";
+
+// Size of the chunks the relay sends file contents in
+const TRANSFER_CHUNK_SIZE = parseInt(process.env.TRANSFER_CHUNK_SIZE || '262144', 10);
+// Chunks either side sends before it waits for an acknowledgement
+const TRANSFER_WINDOW = parseInt(process.env.TRANSFER_WINDOW || '8', 10);
+// Transfers that make no progress for this long are aborted
+const TRANSFER_IDLE_TIMEOUT_MS = parseInt(process.env.TRANSFER_IDLE_TIMEOUT_MS || '30000', 10);
+// Largest chunks accepted from modules
+const MAX_CHUNK_SIZE = 4 * 1024 * 1024;
+
+/**
+ * Where the chunks of an incoming transfer go. write resolves once the sink can take more,
+ * which is when the chunk is acknowledged to the module.
+ */
+export interface TransferSink {
+  write(data: Buffer): Promise<void>;
+  end(): void;
+  fail(reason: string): void;
+}
+
+interface OutgoingTransfer {
+  clientId: string;
+  /** Number of chunks the module acknowledged */
+  acked: number;
+  aborted: string | null;
+  wake: (() => void) | null;
+}
+
+interface IncomingTransfer {
+  clientId: string;
+  descriptor: TransferDescriptor;
+  sink: TransferSink;
+  next: number;
+  received: number;
+  hash: crypto.Hash;
+  queue: Promise<void>;
+  timer: NodeJS.Timeout;
+  done: boolean;
+}
+
+/**
+ * File contents moved over the WebSocket as binary chunk frames, for modules that declared
+ * the binary-chunks capability. The sender keeps at most TRANSFER_WINDOW chunks
+ * unacknowledged, so neither side buffers more than a window of a large file.
+ */
+export class FileTransfers {
+  private static outgoing = new Map<string, OutgoingTransfer>();
+  private static incoming = new Map<string, IncomingTransfer>();
+  private static initialized = false;
+
+  static readonly window = TRANSFER_WINDOW;
+
+  static registerMessageHandlers(): void {
+    if (this.initialized) return;
+    this.initialized = true;
+
+    ClientManager.onMessageType(TRANSFER_ACK_MESSAGE, (client: ClientHandle, message: any) => {
+      const transfer = this.outgoing.get(String(message.transferId).toLowerCase());
+      if (!transfer || transfer.clientId !== client.getId() || !Number.isInteger(message.sequence)) return;
+
+      transfer.acked = Math.max(transfer.acked, message.sequence + 1);
+      transfer.wake?.();
+    });
+
+    ClientManager.onMessageType(TRANSFER_ABORT_MESSAGE, (client: ClientHandle, message: any) => {
+      const transferId = String(message.transferId).toLowerCase();
+      const reason = `Aborted by the Foundry module: ${message.reason || 'no reason given'}`;
+      if (this.outgoing.get(transferId)?.clientId === client.getId() || this.incoming.get(transferId)?.clientId === client.getId()) {
+        this.abort(transferId, reason, false);
+      }
+    });
+
+    ClientManager.onMessageType(TRANSFER_END_MESSAGE, (client: ClientHandle, message: any) => {
+      const transfer = this.incoming.get(String(message.transferId).toLowerCase());
+      if (!transfer || transfer.clientId !== client.getId() || transfer.descriptor.sha256) return;
+
+      transfer.queue = transfer.queue.then(() => {
+        if (transfer.done) return;
+        if (!isSha256(message.sha256)) {
+          return this.fail(transfer, "transfer-end must carry the hex SHA-256 of the file", true);
+        }
+        if (transfer.next !== transfer.descriptor.chunks) {
+          return this.fail(transfer, `Transfer ended after ${transfer.next} of ${transfer.descriptor.chunks} chunk(s)`, true);
+        }
+        this.complete(client, transfer, message.sha256);
+      });
+    });
+  }
+
+  /**
+   * Whether file contents can be sent to a client as chunk frames. Only clients connected
+   * to this instance can, the cluster transport carries JSON messages.
+   */
+  static supportsChunks(client: ClientHandle): client is Client {
+    return client instanceof Client && client.getProtocol().capabilities.includes(BINARY_CHUNKS_CAPABILITY);
+  }
+
+  /**
+   * Describe a file to announce in a request before sending it with send(). A file that is
+   * streamed is described by its size, its SHA-256 follows the last chunk in transfer-end.
+   */
+  static describe(data: Buffer | number): TransferDescriptor {
+    return describeTransfer(data, TRANSFER_CHUNK_SIZE);
+  }
+
+  /**
+   * Send the chunks of an announced file. A stream is cut into chunks as it is read, and only
+   * read while the window has room. Resolves once every chunk is sent, rejects if the transfer
+   * is aborted, stalls, the client disconnects or the stream does not match the announced size.
+   */
+  static async send(client: Client, descriptor: TransferDescriptor, data: Buffer | AsyncIterable<Buffer>): Promise<void> {
+    const transfer: OutgoingTransfer = { clientId: client.getId(), acked: 0, aborted: null, wake: null };
+    this.outgoing.set(descriptor.id, transfer);
+
+    const hash = crypto.createHash('sha256');
+    let sequence = 0;
+    let sent = 0;
+    const sendChunk = async (chunk: Buffer) => {
+      if (sent + chunk.length > descriptor.size) {
+        throw new Error(`File is larger than the announced ${descriptor.size} bytes`);
+      }
+      while (!transfer.aborted && sequence - transfer.acked >= TRANSFER_WINDOW) {
+        await this.waitForAck(transfer);
+      }
+      if (transfer.aborted) {
+        throw new Error(transfer.aborted);
+      }
+
+      if (!await client.sendBinary(encodeChunk(descriptor.id, sequence, chunk))) {
+        throw new Error("Failed to send chunk to Foundry client");
+      }
+      hash.update(chunk);
+      sent += chunk.length;
+      sequence++;
+    };
+
+    try {
+      let buffered: Buffer = Buffer.alloc(0);
+      for await (const piece of Buffer.isBuffer(data) ? [data] : data) {
+        buffered = buffered.length ? Buffer.concat([buffered, piece]) : piece;
+        while (buffered.length >= descriptor.chunkSize) {
+          await sendChunk(buffered.subarray(0, descriptor.chunkSize));
+          buffered = buffered.subarray(descriptor.chunkSize);
+        }
+      }
+      if (buffered.length) {
+        await sendChunk(buffered);
+      }
+      if (sent !== descriptor.size) {
+        throw new Error(`File ended after ${sent} of the announced ${descriptor.size} bytes`);
+      }
+
+      if (!descriptor.sha256) {
+        client.send({ type: TRANSFER_END_MESSAGE, transferId: descriptor.id, sha256: hash.digest('hex') });
+      }
+    } catch (error) {
+      if (!transfer.aborted) {
+        this.notifyAbort(transfer.clientId, descriptor.id, error instanceof Error ? error.message : String(error));
+      }
+      throw error;
+    } finally {
+      this.outgoing.delete(descriptor.id);
+    }
+  }
+
+  /**
+   * Accept the chunks of a file a client announced. Returns what is wrong with the
+   * announcement instead if it is invalid.
+   */
+  static receive(client: ClientHandle, descriptor: unknown, sink: TransferSink): string | null {
+    const problem = validateTransferDescriptor(descriptor, MAX_CHUNK_SIZE);
+    if (problem) return problem;
+
+    const valid = descriptor as TransferDescriptor;
+    const transferId = valid.id.toLowerCase();
+    if (this.incoming.has(transferId)) return `Transfer ${transferId} is already in progress`;
+
+    const transfer: IncomingTransfer = {
+      clientId: client.getId(),
+      descriptor: { ...valid, id: transferId },
+      sink,
+      next: 0,
+      received: 0,
+      hash: crypto.createHash('sha256'),
+      queue: Promise.resolve(),
+      timer: this.idleTimer(transferId),
+      done: false
+    };
+    this.incoming.set(transferId, transfer);
+
+    // Empty files have no chunks, they complete once the caller set up the sink
+    if (valid.chunks === 0 && valid.sha256) {
+      transfer.queue = transfer.queue.then(() => this.complete(client, transfer, valid.sha256!));
+    }
+    return null;
+  }
+
+  /**
+   * Handle a binary frame from a client. Chunks of a transfer are written in order.
+   */
+  static handleChunk(client: Client, frame: Buffer): void {
+    const chunk = decodeChunk(frame);
+    if (!chunk) {
+      log.warn(`Ignoring binary frame of ${frame.length} bytes from client ${client.getId()}: too short for a chunk`);
+      return;
+    }
+
+    const transfer = this.incoming.get(chunk.transferId);
+    if (!transfer || transfer.clientId !== client.getId()) {
+      log.warn(`Ignoring chunk ${chunk.sequence} of unknown transfer ${chunk.transferId} from client ${client.getId()}`);
+      return;
+    }
+
+    transfer.queue = transfer.queue
+      .then(() => this.writeChunk(client, transfer, chunk))
+      .catch(error => this.fail(transfer, `Failed to write chunk ${chunk.sequence}: ${error}`, true));
+  }
+
+  /**
+   * End a transfer early. The module is told unless it aborted the transfer itself.
+   */
+  static abort(transferId: string, reason: string, notifyClient = true): void {
+    const outgoing = this.outgoing.get(transferId);
+    if (outgoing && !outgoing.aborted) {
+      outgoing.aborted = reason;
+      outgoing.wake?.();
+      if (notifyClient) this.notifyAbort(outgoing.clientId, transferId, reason);
+    }
+
+    const incoming = this.incoming.get(transferId);
+    if (incoming) {
+      this.fail(incoming, reason, notifyClient);
+    }
+  }
+
+  /**
+   * Refuse a transfer a client announced, such as a download the HTTP client already has.
+   */
+  static decline(client: ClientHandle, transferId: string, reason: string): void {
+    this.notifyAbort(client.getId(), String(transferId).toLowerCase(), reason);
+  }
+
+  /**
+   * End every transfer of a client that disconnected.
+   */
+  static abortClient(clientId: string): void {
+    for (const [transferId, transfer] of [...this.outgoing, ...this.incoming]) {
+      if (transfer.clientId === clientId) {
+        this.abort(transferId, "Foundry client disconnected", false);
+      }
+    }
+  }
+
+  private static async writeChunk(client: Client, transfer: IncomingTransfer, chunk: TransferChunk): Promise<void> {
+    if (transfer.done) return;
+
+    const { descriptor } = transfer;
+    if (!chunk.intact) {
+      return this.fail(transfer, `Checksum mismatch in chunk ${chunk.sequence}`, true);
+    }
+    if (chunk.sequence !== transfer.next) {
+      return this.fail(transfer, `Expected chunk ${transfer.next}, received chunk ${chunk.sequence}`, true);
+    }
+    if (chunk.data.length > descriptor.chunkSize || transfer.received + chunk.data.length > descriptor.size) {
+      return this.fail(transfer, `Chunk ${chunk.sequence} is larger than announced`, true);
+    }
+
+    transfer.hash.update(chunk.data);
+    transfer.received += chunk.data.length;
+    transfer.next++;
+    transfer.timer.refresh();
+
+    await transfer.sink.write(chunk.data);
+    if (transfer.done) return;
+
+    client.send({ type: TRANSFER_ACK_MESSAGE, transferId: descriptor.id, sequence: chunk.sequence });
+    // Transfers announced without a SHA-256 complete on transfer-end
+    if (transfer.next === descriptor.chunks && descriptor.sha256) {
+      this.complete(client, transfer, descriptor.sha256);
+    }
+  }
+
+  private static complete(client: ClientHandle, transfer: IncomingTransfer, sha256: string): void {
+    const { descriptor } = transfer;
+    if (transfer.received !== descriptor.size) {
+      return this.fail(transfer, `Received ${transfer.received} of ${descriptor.size} bytes`, true);
+    }
+    if (transfer.hash.digest('hex') !== sha256.toLowerCase()) {
+      return this.fail(transfer, "SHA-256 of the received file does not match", true);
+    }
+
+    this.finish(transfer);
+    log.info(`Received ${descriptor.size} bytes in ${descriptor.chunks} chunk(s) from client ${client.getId()}`);
+    transfer.sink.end();
+  }
+
+  private static fail(transfer: IncomingTransfer, reason: string, notifyClient: boolean): void {
+    if (transfer.done) return;
+
+    this.finish(transfer);
+    log.warn(`File transfer ${transfer.descriptor.id} from client ${transfer.clientId} failed: ${reason}`);
+    if (notifyClient) this.notifyAbort(transfer.clientId, transfer.descriptor.id, reason);
+    transfer.sink.fail(reason);
+  }
+
+  private static finish(transfer: IncomingTransfer): void {
+    transfer.done = true;
+    clearTimeout(transfer.timer);
+    this.incoming.delete(transfer.descriptor.id);
+  }
+
+  private static notifyAbort(clientId: string, transferId: string, reason: string): void {
+    ClientManager.getLocalClient(clientId)?.send({ type: TRANSFER_ABORT_MESSAGE, transferId, reason });
+  }
+
+  private static idleTimer(transferId: string): NodeJS.Timeout {
+    const timer = setTimeout(() => {
+      this.abort(transferId, `No chunk received within ${TRANSFER_IDLE_TIMEOUT_MS}ms`);
+    }, TRANSFER_IDLE_TIMEOUT_MS);
+    timer.unref();
+    return timer;
+  }
+
+  private static waitForAck(transfer: OutgoingTransfer): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        transfer.wake = null;
+        reject(new Error(`No acknowledgement within ${TRANSFER_IDLE_TIMEOUT_MS}ms`));
+      }, TRANSFER_IDLE_TIMEOUT_MS);
+      transfer.wake = () => {
+        clearTimeout(timeout);
+        transfer.wake = null;
+        resolve();
+      };
+    });
+  }
+}
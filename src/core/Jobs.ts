@@ -0,0 +1,220 @@
+import crypto from 'crypto';
+import { Request } from 'express';
+import { PendingRequestType, sanitizeResponse } from '../routes/shared';
+import { ValidationErrorCode, ValidationFailure, validationError } from '../routes/validation';
+import { sendSignedWebhook } from '../workers/webhookDelivery';
+import { getRecord, setRecord } from '../utils/expiringStore';
+import { checkOutboundUrl } from '../utils/outboundUrl';
+import { log } from '../utils/logger';
+
+// How long an async job waits for the Foundry client before it fails
+const JOB_TIMEOUT_MS = parseInt(process.env.JOB_TIMEOUT_MS || '600000', 10);
+// How long finished jobs can still be fetched from GET /jobs/:id
+const JOB_RESULT_TTL_SECONDS = parseInt(process.env.JOB_RESULT_TTL_SECONDS || '3600', 10);
+const JOB_CALLBACK_MAX_ATTEMPTS = 3;
+const JOB_CALLBACK_RETRY_DELAY_MS = 2000;
+
+export type JobStatus = 'pending' | 'completed' | 'failed';
+
+export interface Job {
+  id: string;
+  type: PendingRequestType;
+  clientId: string;
+  requestId: string;
+  ownerHash: string;
+  status: JobStatus;
+  statusCode?: number;
+  result?: any;
+  error?: string;
+  callbackUrl?: string;
+  callbackSecret?: string;
+  createdAt: number;
+  completedAt?: number;
+  durationMs?: number;
+}
+
+export interface JobOptions {
+  async: boolean;
+  callbackUrl?: string;
+}
+
+function storeKey(id: string): string {
+  return `job:${id}`;
+}
+
+function hashOwner(accountKey: string): string {
+  return crypto.createHash('sha256').update(accountKey).digest('hex');
+}
+
+/**
+ * Tracks relay requests made with ?async=true. The HTTP request is answered with 202
+ * straight away and the Foundry result is kept until it is fetched from GET /jobs/:id
+ * or delivered to the job's callback URL.
+ */
+export class Jobs {
+  static readonly timeoutMs = JOB_TIMEOUT_MS;
+
+  /**
+   * Read the async and callbackUrl options from the query string or JSON body.
+   * Callback URLs on private addresses are rejected.
+   */
+  static async parseOptions(req: Request): Promise<{ options: JobOptions; error: null } | { options: null; error: ValidationFailure }> {
+    const body = req.body && typeof req.body === 'object' && !Buffer.isBuffer(req.body) ? req.body : {};
+    const asyncValue = req.query.async ?? body.async;
+    const callbackUrl = req.query.callbackUrl ?? body.callbackUrl;
+
+    const isAsync = asyncValue === true || String(asyncValue).toLowerCase() === 'true';
+    if (asyncValue !== undefined && !isAsync && String(asyncValue).toLowerCase() !== 'false') {
+      return {
+        options: null,
+        error: validationError("'async' must be a valid boolean.", 'async', "Add ?async=true to your request", ValidationErrorCode.InvalidType)
+      };
+    }
+
+    if (callbackUrl === undefined) {
+      return { options: { async: isAsync }, error: null };
+    }
+
+    if (!isAsync) {
+      return {
+        options: null,
+        error: validationError("'callbackUrl' can only be used with async=true", 'callbackUrl', "Add ?async=true to your request")
+      };
+    }
+
+    let parsed: URL | null = null;
+    try {
+      parsed = typeof callbackUrl === 'string' ? new URL(callbackUrl) : null;
+    } catch {
+      parsed = null;
+    }
+    if (!parsed || !['http:', 'https:'].includes(parsed.protocol)) {
+      return {
+        options: null,
+        error: validationError("'callbackUrl' must be a valid http(s) URL", 'callbackUrl', undefined, ValidationErrorCode.InvalidValue)
+      };
+    }
+
+    const urlProblem = await checkOutboundUrl(parsed.toString());
+    if (urlProblem) {
+      return {
+        options: null,
+        error: validationError(`'callbackUrl' cannot receive callbacks: ${urlProblem}`, 'callbackUrl', "Use a publicly reachable address, loopback, private and link-local addresses are not allowed", ValidationErrorCode.InvalidValue)
+      };
+    }
+
+    return { options: { async: true, callbackUrl: parsed.toString() }, error: null };
+  }
+
+  static async create(req: Request, type: PendingRequestType, clientId: string, requestId: string, options: JobOptions): Promise<Job> {
+    const job: Job = {
+      id: `job_${crypto.randomBytes(12).toString('hex')}`,
+      type,
+      clientId,
+      requestId,
+      ownerHash: hashOwner(req.accountKey),
+      status: 'pending',
+      createdAt: Date.now()
+    };
+
+    if (options.callbackUrl) {
+      job.callbackUrl = options.callbackUrl;
+      job.callbackSecret = crypto.randomBytes(32).toString('hex');
+    }
+
+    await setRecord(storeKey(job.id), job, Math.ceil(JOB_TIMEOUT_MS / 1000) + JOB_RESULT_TTL_SECONDS);
+    log.info(`Created async job ${job.id} for ${type} request ${requestId}`);
+    return job;
+  }
+
+  /**
+   * Fetch a job, only if it belongs to the API key of the request.
+   */
+  static async get(id: string, req: Request): Promise<Job | null> {
+    const job = await getRecord<Job>(storeKey(id));
+    if (!job || job.ownerHash !== hashOwner(req.accountKey)) {
+      return null;
+    }
+    return job;
+  }
+
+  /**
+   * Store the response the relay would have sent for the request.
+   */
+  static async complete(id: string, statusCode: number, body: any): Promise<void> {
+    const failed = statusCode >= 400;
+    await this.finish(id, {
+      status: failed ? 'failed' : 'completed',
+      statusCode,
+      result: sanitizeResponse(body),
+      error: failed ? (body?.error ? String(body.error) : `Request failed with status ${statusCode}`) : undefined
+    });
+  }
+
+  static async fail(id: string, statusCode: number, error: string): Promise<void> {
+    await this.finish(id, { status: 'failed', statusCode, error });
+  }
+
+  /**
+   * Body of the 202 response for a newly created job. The callback secret is only returned here.
+   */
+  static acceptedResponse(job: Job): Record<string, any> {
+    return {
+      jobId: job.id,
+      status: job.status,
+      type: job.type,
+      clientId: job.clientId,
+      statusUrl: `/jobs/${job.id}`,
+      ...(job.callbackSecret ? { callbackUrl: job.callbackUrl, callbackSecret: job.callbackSecret } : {})
+    };
+  }
+
+  static serialize(job: Job): Record<string, any> {
+    const { ownerHash, callbackSecret, ...data } = job;
+    return data;
+  }
+
+  private static async finish(id: string, updates: Partial<Job>): Promise<void> {
+    const job = await getRecord<Job>(storeKey(id));
+    if (!job) {
+      log.warn(`Result for unknown or expired job ${id}`);
+      return;
+    }
+    if (job.status !== 'pending') {
+      return;
+    }
+
+    const completedAt = Date.now();
+    const finished: Job = { ...job, ...updates, completedAt, durationMs: completedAt - job.createdAt };
+    await setRecord(storeKey(id), finished, JOB_RESULT_TTL_SECONDS);
+    log.info(`Job ${id} ${finished.status} after ${finished.durationMs}ms`);
+
+    if (finished.callbackUrl && finished.callbackSecret) {
+      this.deliverCallback(finished, 1);
+    }
+  }
+
+  private static deliverCallback(job: Job, attempt: number): void {
+    const body = JSON.stringify({ event: `job.${job.status}`, job: this.serialize(job) });
+
+    // The host may resolve to a different address by the time the job finishes
+    checkOutboundUrl(job.callbackUrl!)
+      .then(urlProblem => {
+        if (urlProblem) throw new Error(`URL cannot receive callbacks: ${urlProblem}`);
+        return sendSignedWebhook(job.callbackUrl!, job.callbackSecret!, `job.${job.status}`, job.id, body);
+      })
+      .then(
+        response => {
+          if (response.status >= 200 && response.status < 300) return;
+          throw new Error(`Endpoint responded with ${response.status}`);
+        }
+      )
+      .catch(error => {
+        if (attempt < JOB_CALLBACK_MAX_ATTEMPTS) {
+          setTimeout(() => this.deliverCallback(job, attempt + 1), JOB_CALLBACK_RETRY_DELAY_MS * Math.pow(2, attempt - 1));
+          return;
+        }
+        log.warn(`Callback for job ${job.id} failed after ${attempt} attempts: ${error}`);
+      });
+  }
+}
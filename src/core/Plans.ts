@@ -0,0 +1,172 @@
+import { Response } from 'express';
+import { Plan, PlanFeature, PLAN_FEATURES } from '../models/plan';
+import { ClientManager } from './ClientManager';
+import { isHeadlessClient } from '../workers/headlessSessions';
+import { requiredScope } from '../middleware/scopes';
+import { log } from '../utils/logger';
+
+export const FREE_PLAN = 'free';
+// Plan of subscriptions whose price is not mapped to a plan, see SUBSCRIPTION_PRICES
+export const DEFAULT_PAID_PLAN = 'pro';
+
+// Plans are read from the database at most this often
+const PLAN_CACHE_TTL_MS = 60000;
+
+export interface PlanLimits {
+  name: string;
+  /** null for unlimited */
+  monthlyRequestLimit: number | null;
+  dailyRequestLimit: number;
+  keyRequestsPerSecond: number;
+  keyBurst: number;
+  clientRequestsPerSecond: number;
+  clientBurst: number;
+  /** null for unlimited */
+  maxHeadlessSessions: number | null;
+  /** null for unlimited */
+  maxConnectedWorlds: number | null;
+  features: PlanFeature[];
+}
+
+// The built-in plans, created on startup when they do not exist yet. The env vars keep
+// the limits deployments had before plans existed.
+const DEFAULT_PLANS: PlanLimits[] = [
+  {
+    name: FREE_PLAN,
+    monthlyRequestLimit: parseInt(process.env.FREE_API_REQUESTS_LIMIT || '100', 10),
+    dailyRequestLimit: parseInt(process.env.DAILY_REQUEST_LIMIT || '1000', 10),
+    keyRequestsPerSecond: parseFloat(process.env.RATE_LIMIT_FREE_KEY_PER_SECOND || '5'),
+    keyBurst: parseInt(process.env.RATE_LIMIT_FREE_KEY_BURST || '20', 10),
+    clientRequestsPerSecond: parseFloat(process.env.RATE_LIMIT_FREE_CLIENT_PER_SECOND || '10'),
+    clientBurst: parseInt(process.env.RATE_LIMIT_FREE_CLIENT_BURST || '30', 10),
+    maxHeadlessSessions: 1,
+    maxConnectedWorlds: null,
+    features: [...PLAN_FEATURES]
+  },
+  {
+    name: DEFAULT_PAID_PLAN,
+    monthlyRequestLimit: null,
+    dailyRequestLimit: parseInt(process.env.DAILY_REQUEST_LIMIT || '1000', 10),
+    keyRequestsPerSecond: parseFloat(process.env.RATE_LIMIT_ACTIVE_KEY_PER_SECOND || '20'),
+    keyBurst: parseInt(process.env.RATE_LIMIT_ACTIVE_KEY_BURST || '60', 10),
+    clientRequestsPerSecond: parseFloat(process.env.RATE_LIMIT_ACTIVE_CLIENT_PER_SECOND || '25'),
+    clientBurst: parseInt(process.env.RATE_LIMIT_ACTIVE_CLIENT_BURST || '75', 10),
+    maxHeadlessSessions: 1,
+    maxConnectedWorlds: null,
+    features: [...PLAN_FEATURES]
+  }
+];
+
+function userValue(user: any, key: string): any {
+  return user.getDataValue ? user.getDataValue(key) : user[key];
+}
+
+function toLimits(plan: any): PlanLimits {
+  const value = (key: string) => plan.getDataValue ? plan.getDataValue(key) : plan[key];
+  return {
+    name: value('name'),
+    monthlyRequestLimit: value('monthlyRequestLimit') ?? null,
+    dailyRequestLimit: value('dailyRequestLimit'),
+    keyRequestsPerSecond: value('keyRequestsPerSecond'),
+    keyBurst: value('keyBurst'),
+    clientRequestsPerSecond: value('clientRequestsPerSecond'),
+    clientBurst: value('clientBurst'),
+    maxHeadlessSessions: value('maxHeadlessSessions') ?? null,
+    maxConnectedWorlds: value('maxConnectedWorlds') ?? null,
+    features: value('features') || []
+  };
+}
+
+/**
+ * Looks up the plan of a user and checks what it allows. Plans are cached in process,
+ * call invalidate() after changing one.
+ */
+export class Plans {
+  private static cache: Map<string, PlanLimits> | null = null;
+  private static loadedAt = 0;
+
+  /**
+   * Create the built-in plans that do not exist yet. Existing plans are left as they are.
+   */
+  static async ensureDefaults(): Promise<void> {
+    for (const plan of DEFAULT_PLANS) {
+      if (!await Plan.findOne({ where: { name: plan.name } })) {
+        await Plan.create({ ...plan });
+        log.info(`Created the ${plan.name} plan`);
+      }
+    }
+    this.invalidate();
+  }
+
+  /**
+   * The plan a user's requests are limited by. Only active subscriptions get a paid plan.
+   */
+  static async forUser(user: any): Promise<PlanLimits> {
+    const name = userValue(user, 'subscriptionStatus') === 'active'
+      ? userValue(user, 'plan') || DEFAULT_PAID_PLAN
+      : FREE_PLAN;
+
+    const plan = await this.get(name);
+    if (plan) return plan;
+
+    log.warn(`Plan ${name} of user ${userValue(user, 'id')} does not exist, using the ${FREE_PLAN} plan`);
+    return (await this.get(FREE_PLAN)) || DEFAULT_PLANS[0];
+  }
+
+  static async get(name: string): Promise<PlanLimits | null> {
+    if (!this.cache || Date.now() - this.loadedAt > PLAN_CACHE_TTL_MS) {
+      try {
+        const plans = await Plan.findAll();
+        this.cache = new Map(plans.map(plan => [plan.getDataValue('name'), toLimits(plan)]));
+        this.loadedAt = Date.now();
+      } catch (error) {
+        // Tables may not exist yet while the database is being synced on startup
+        log.error(`Failed to load plans: ${error}`);
+        return DEFAULT_PLANS.find(plan => plan.name === name) || null;
+      }
+    }
+    return this.cache.get(name) || null;
+  }
+
+  static invalidate(): void {
+    this.cache = null;
+  }
+
+  /**
+   * The plan feature a request needs, or null if every plan includes it.
+   */
+  static featureFor(method: string, path: string): PlanFeature | null {
+    const scope = requiredScope(method, path);
+    return (PLAN_FEATURES as readonly string[]).includes(scope as string) ? scope as PlanFeature : null;
+  }
+
+  static sendFeatureError(res: Response, plan: PlanLimits, feature: PlanFeature): void {
+    res.status(403).json({
+      error: `The ${plan.name} plan does not include ${feature}`,
+      feature,
+      plan: plan.name,
+      upgradeUrl: '/api/subscriptions/create-checkout-session'
+    });
+  }
+
+  /**
+   * Whether an account may start another headless session.
+   */
+  static async canStartHeadlessSession(plan: PlanLimits, accountKey: string): Promise<boolean> {
+    if (plan.maxHeadlessSessions === null) return true;
+
+    const clients = await ClientManager.getConnectedClients(accountKey);
+    return clients.filter(client => isHeadlessClient(client.id)).length < plan.maxHeadlessSessions;
+  }
+
+  /**
+   * Whether an account may connect a Foundry client of a world. Clients of a world that
+   * is connected already do not count towards the limit.
+   */
+  static async canConnectWorld(plan: PlanLimits, accountKey: string, clientId: string, worldId: string | null): Promise<boolean> {
+    if (plan.maxConnectedWorlds === null) return true;
+
+    const worlds = new Set((await ClientManager.getConnectedClients(accountKey)).map(client => client.worldId || client.id));
+    return worlds.has(worldId || clientId) || worlds.size < plan.maxConnectedWorlds;
+  }
+}
@@ -0,0 +1,170 @@
+import { Request, Response } from 'express';
+import { getRedisClient } from '../config/redis';
+import { log } from '../utils/logger';
+
+interface Bucket {
+  scope: 'apiKey' | 'client';
+  key: string;
+  perSecond: number;
+  burst: number;
+}
+
+export interface BucketResult {
+  scope: 'apiKey' | 'client';
+  allowed: boolean;
+  perSecond: number;
+  limit: number;
+  remaining: number;
+  /** Seconds until the request could be made */
+  retryAfter: number;
+  /** Seconds until the bucket is full again */
+  resetsIn: number;
+}
+
+// Refills the bucket for the time since it was last used, then takes the cost if enough tokens are left
+const TOKEN_BUCKET_SCRIPT = `
+  local capacity = tonumber(ARGV[1])
+  local rate = tonumber(ARGV[2])
+  local cost = tonumber(ARGV[3])
+  local time = redis.call("time")
+  local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+  local bucket = redis.call("hmget", KEYS[1], "tokens", "updatedAt")
+  local tokens = tonumber(bucket[1]) or capacity
+  local updatedAt = tonumber(bucket[2]) or now
+  tokens = math.min(capacity, tokens + math.max(0, now - updatedAt) / 1000 * rate)
+  local allowed = 0
+  if tokens >= cost then
+    tokens = tokens - cost
+    allowed = 1
+  end
+  redis.call("hset", KEYS[1], "tokens", tostring(tokens), "updatedAt", tostring(now))
+  redis.call("expire", KEYS[1], math.ceil(capacity / rate) + 1)
+  return { allowed, tostring(tokens) }
+`;
+
+const memoryBuckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+let pruneInterval: NodeJS.Timeout | null = null;
+
+function startPruning(): void {
+  if (pruneInterval) return;
+  pruneInterval = setInterval(() => {
+    // A bucket unused for a minute is full again or close to it, so it can be recreated
+    const cutoff = Date.now() - 60000;
+    for (const [key, bucket] of memoryBuckets) {
+      if (bucket.updatedAt < cutoff) memoryBuckets.delete(key);
+    }
+  }, 60000);
+  pruneInterval.unref();
+}
+
+/**
+ * Token-bucket request rate limits per API key and per Foundry client, on top of the
+ * daily and monthly quotas. Buckets are kept in Redis when it is configured so the
+ * limits hold across instances, and in process otherwise.
+ */
+export class RateLimiter {
+  /**
+   * Take a request's cost from its buckets and set the X-RateLimit-* headers.
+   * Sends a 429 response and returns false if a bucket is empty.
+   */
+  static async consume(req: Request, res: Response, cost: number): Promise<boolean> {
+    const results: BucketResult[] = [];
+    for (const bucket of this.bucketsFor(req)) {
+      results.push(await this.take(bucket, cost));
+    }
+    if (results.length === 0) return true;
+
+    const blocked = results.find(result => !result.allowed);
+    const reported = blocked || results.reduce((lowest, result) => result.remaining < lowest.remaining ? result : lowest);
+
+    res.setHeader('X-RateLimit-Limit', reported.limit.toString());
+    res.setHeader('X-RateLimit-Remaining', reported.remaining.toString());
+    res.setHeader('X-RateLimit-Reset', Math.ceil(Date.now() / 1000 + reported.resetsIn).toString());
+
+    if (!blocked) return true;
+
+    const target = blocked.scope === 'client' ? `Foundry client ${this.clientIdOf(req)}` : 'this API key';
+    res.setHeader('Retry-After', blocked.retryAfter.toString());
+    res.status(429).json({
+      error: 'Request rate limit reached',
+      scope: blocked.scope,
+      limit: blocked.perSecond,
+      burst: blocked.limit,
+      message: `Requests to ${target} are limited to ${blocked.perSecond} per second with bursts of ${blocked.limit}. Please slow down.`,
+      retryAfter: blocked.retryAfter,
+      resetsAt: new Date(Date.now() + blocked.retryAfter * 1000).toISOString()
+    });
+    return false;
+  }
+
+  private static bucketsFor(req: Request): Bucket[] {
+    // Sustained requests per second and burst size come from the account's plan, 0 disables a limit
+    const plan = req.plan;
+    const buckets: Bucket[] = [];
+    if (!plan) return buckets;
+
+    // Additional API keys get their own bucket, the primary key is the account's
+    const keyId = req.apiKeyScope ? `scoped:${req.apiKeyScope.id}` : req.accountKey;
+    if (keyId && plan.keyRequestsPerSecond > 0 && plan.keyBurst > 0) {
+      buckets.push({ scope: 'apiKey', key: `rate-limit:key:${keyId}`, perSecond: plan.keyRequestsPerSecond, burst: plan.keyBurst });
+    }
+
+    const clientId = this.clientIdOf(req);
+    if (clientId && plan.clientRequestsPerSecond > 0 && plan.clientBurst > 0) {
+      buckets.push({ scope: 'client', key: `rate-limit:client:${clientId}`, perSecond: plan.clientRequestsPerSecond, burst: plan.clientBurst });
+    }
+    return buckets;
+  }
+
+  /**
+   * The Foundry client a request targets, from the query or the JSON body like the routes read it
+   */
+  private static clientIdOf(req: Request): string | null {
+    const clientId = req.query.clientId ?? (Buffer.isBuffer(req.body) ? undefined : req.body?.clientId);
+    return typeof clientId === 'string' && clientId ? clientId : null;
+  }
+
+  private static async take(bucket: Bucket, requestCost: number): Promise<BucketResult> {
+    // A request costing more than the burst size (a large batch) needs a full bucket
+    const cost = Math.min(requestCost, bucket.burst);
+    let allowed: boolean;
+    let tokens: number;
+
+    const redis = getRedisClient();
+    if (redis) {
+      try {
+        const [allowedFlag, remaining] = await redis.eval(TOKEN_BUCKET_SCRIPT, {
+          keys: [bucket.key],
+          arguments: [bucket.burst.toString(), bucket.perSecond.toString(), cost.toString()]
+        }) as [number, string];
+        allowed = allowedFlag === 1;
+        tokens = parseFloat(remaining);
+      } catch (error) {
+        // Rate limiting must not take the API down with Redis
+        log.error(`Rate limit check failed for ${bucket.key}: ${error}`);
+        return { scope: bucket.scope, allowed: true, perSecond: bucket.perSecond, limit: bucket.burst, remaining: bucket.burst, retryAfter: 0, resetsIn: 0 };
+      }
+    } else {
+      const now = Date.now();
+      const state = memoryBuckets.get(bucket.key) || { tokens: bucket.burst, updatedAt: now };
+      state.tokens = Math.min(bucket.burst, state.tokens + Math.max(0, now - state.updatedAt) / 1000 * bucket.perSecond);
+      state.updatedAt = now;
+      allowed = state.tokens >= cost;
+      if (allowed) state.tokens -= cost;
+      memoryBuckets.set(bucket.key, state);
+      startPruning();
+      tokens = state.tokens;
+    }
+
+    return {
+      scope: bucket.scope,
+      allowed,
+      perSecond: bucket.perSecond,
+      limit: bucket.burst,
+      remaining: Math.floor(tokens),
+      retryAfter: allowed ? 0 : Math.max(1, Math.ceil((cost - tokens) / bucket.perSecond)),
+      resetsIn: (bucket.burst - tokens) / bucket.perSecond
+    };
+  }
+}
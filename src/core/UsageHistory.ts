@@ -0,0 +1,161 @@
+import { UsageRollup, UsageRollupCounts, UsageRollupKey } from '../models/usageRollup';
+import { log } from '../utils/logger';
+
+// How often buffered usage history is written to the UsageRollups table
+const USAGE_FLUSH_INTERVAL_MS = parseInt(process.env.USAGE_FLUSH_INTERVAL_MS || '10000', 10);
+// Days of usage history to keep
+const USAGE_HISTORY_RETENTION_DAYS = parseInt(process.env.USAGE_HISTORY_RETENTION_DAYS || '90', 10);
+
+export type UsageGroupBy = 'day' | 'endpoint' | 'client' | 'apiKey' | 'user';
+
+export interface UsageEvent {
+  userId: number;
+  apiKeyId: number | null;
+  clientId: string | null;
+  endpoint: string;
+  statusCode: number;
+  latencyMs: number;
+  /** Requests counted against the quota, 0 if the request was rejected by a limit */
+  quotaUsed: number;
+}
+
+export interface UsageGroup {
+  key: string | number | null;
+  requests: number;
+  quotaUsed: number;
+  errors: number;
+  averageLatencyMs: number;
+  maxLatencyMs: number;
+  statusCodes: Record<string, number>;
+}
+
+const GROUP_FIELDS: Record<UsageGroupBy, keyof UsageRollupKey> = {
+  day: 'day',
+  endpoint: 'endpoint',
+  client: 'clientId',
+  apiKey: 'apiKeyId',
+  user: 'userId'
+};
+
+/**
+ * Per-endpoint usage history. Requests are aggregated in process into daily rollups
+ * and added to the UsageRollups table every USAGE_FLUSH_INTERVAL_MS.
+ */
+export class UsageHistory {
+  private static buffer = new Map<string, { key: UsageRollupKey; counts: UsageRollupCounts }>();
+  private static flushInterval: NodeJS.Timeout | null = null;
+  private static flushing: Promise<void> | null = null;
+
+  static record(event: UsageEvent): void {
+    const key: UsageRollupKey = {
+      userId: event.userId,
+      day: new Date().toISOString().split('T')[0],
+      endpoint: event.endpoint,
+      clientId: event.clientId || '',
+      apiKeyId: event.apiKeyId || 0,
+      statusCode: event.statusCode
+    };
+    const id = [key.userId, key.day, key.endpoint, key.clientId, key.apiKeyId, key.statusCode].join('|');
+
+    const entry = this.buffer.get(id) || { key, counts: { requestCount: 0, quotaUsed: 0, totalLatencyMs: 0, maxLatencyMs: 0 } };
+    entry.counts.requestCount++;
+    entry.counts.quotaUsed += event.quotaUsed;
+    entry.counts.totalLatencyMs += event.latencyMs;
+    entry.counts.maxLatencyMs = Math.max(entry.counts.maxLatencyMs, event.latencyMs);
+    this.buffer.set(id, entry);
+  }
+
+  /**
+   * Usage between two days (inclusive, YYYY-MM-DD), grouped by one dimension.
+   * Without a userId the usage of every account is included.
+   */
+  static async report(options: { from: string; to: string; groupBy: UsageGroupBy; userId?: number; clientId?: string }): Promise<{ totals: Omit<UsageGroup, 'key'>; groups: UsageGroup[] }> {
+    const rows = await UsageRollup.findForPeriod(options.from, options.to, { userId: options.userId, clientId: options.clientId });
+    const field = GROUP_FIELDS[options.groupBy];
+    const groups = new Map<string, { key: string | number | null; rows: typeof rows }>();
+
+    for (const row of rows) {
+      let key: string | number | null = row[field];
+      if ((field === 'clientId' && key === '') || (field === 'apiKeyId' && key === 0)) key = null;
+      const id = String(key);
+      const group = groups.get(id) || { key, rows: [] };
+      group.rows.push(row);
+      groups.set(id, group);
+    }
+
+    const summarized = Array.from(groups.values()).map(group => ({ key: group.key, ...summarize(group.rows) }));
+    if (options.groupBy === 'day') {
+      summarized.sort((a, b) => String(a.key).localeCompare(String(b.key)));
+    } else {
+      summarized.sort((a, b) => b.requests - a.requests);
+    }
+    return { totals: summarize(rows), groups: summarized };
+  }
+
+  /**
+   * Delete history older than USAGE_HISTORY_RETENTION_DAYS.
+   */
+  static async prune(): Promise<number> {
+    const cutoff = new Date(Date.now() - USAGE_HISTORY_RETENTION_DAYS * 86400000).toISOString().split('T')[0];
+    const deleted = await UsageRollup.pruneBefore(cutoff);
+    log.info(`Pruned ${deleted} usage history row(s) from before ${cutoff}`);
+    return deleted;
+  }
+
+  static start(): void {
+    if (this.flushInterval) return;
+    this.flushInterval = setInterval(() => {
+      this.flush().catch(error => log.error(`Usage history flush failed: ${error}`));
+    }, USAGE_FLUSH_INTERVAL_MS);
+    this.flushInterval.unref();
+  }
+
+  static async stop(): Promise<void> {
+    if (this.flushInterval) {
+      clearInterval(this.flushInterval);
+      this.flushInterval = null;
+    }
+    await this.flush().catch(error => log.error(`Final usage history flush failed: ${error}`));
+  }
+
+  static flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.writeBuffer().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  private static async writeBuffer(): Promise<void> {
+    const entries = Array.from(this.buffer.values());
+    this.buffer.clear();
+
+    for (const entry of entries) {
+      try {
+        await UsageRollup.addUsage(entry.key, entry.counts);
+      } catch (error) {
+        log.error(`Failed to write usage history of user ${entry.key.userId}: ${error}`);
+      }
+    }
+  }
+}
+
+function summarize(rows: (UsageRollupKey & UsageRollupCounts)[]): Omit<UsageGroup, 'key'> {
+  const summary = { requests: 0, quotaUsed: 0, errors: 0, averageLatencyMs: 0, maxLatencyMs: 0, statusCodes: {} as Record<string, number> };
+  let totalLatencyMs = 0;
+
+  for (const row of rows) {
+    // BIGINT columns come back as strings from some databases
+    const requests = Number(row.requestCount);
+    summary.requests += requests;
+    summary.quotaUsed += Number(row.quotaUsed);
+    if (row.statusCode >= 400) summary.errors += requests;
+    summary.maxLatencyMs = Math.max(summary.maxLatencyMs, Number(row.maxLatencyMs));
+    summary.statusCodes[row.statusCode] = (summary.statusCodes[row.statusCode] || 0) + requests;
+    totalLatencyMs += Number(row.totalLatencyMs);
+  }
+
+  summary.averageLatencyMs = summary.requests > 0 ? Math.round(totalLatencyMs / summary.requests) : 0;
+  return summary;
+}
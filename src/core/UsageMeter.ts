@@ -0,0 +1,304 @@
+import { getRedisClient } from '../config/redis';
+import { User } from '../models/user';
+import { log } from '../utils/logger';
+
+// How often buffered usage is written to the Users table
+const USAGE_FLUSH_INTERVAL_MS = parseInt(process.env.USAGE_FLUSH_INTERVAL_MS || '10000', 10);
+// Counters outlive their period a little so late flushes still find them
+const DAY_COUNTER_TTL_SECONDS = 2 * 86400;
+const MONTH_COUNTER_TTL_SECONDS = 32 * 86400;
+const PENDING_KEY = 'usage:pending';
+
+export interface UsageLimits {
+  dailyLimit: number;
+  /** null for no monthly limit */
+  monthlyLimit: number | null;
+}
+
+export interface UsageResult {
+  /** The limit the request would exceed. Nothing is counted then. */
+  exceeded: 'daily' | 'monthly' | null;
+  requestsToday: number;
+  requestsThisMonth: number;
+}
+
+// Seeds the period counters from the database if they do not exist yet, then checks
+// both limits and increments the counters and the pending flush count together
+const RECORD_SCRIPT = `
+  local cost = tonumber(ARGV[1])
+  redis.call("set", KEYS[1], ARGV[4], "NX", "EX", ARGV[6])
+  redis.call("set", KEYS[2], ARGV[5], "NX", "EX", ARGV[7])
+  local day = tonumber(redis.call("get", KEYS[1]))
+  local month = tonumber(redis.call("get", KEYS[2]))
+  if day + cost > tonumber(ARGV[2]) then
+    return { 1, day, month }
+  end
+  local monthlyLimit = tonumber(ARGV[3])
+  if monthlyLimit >= 0 and month + cost > monthlyLimit then
+    return { 2, day, month }
+  end
+  redis.call("incrby", KEYS[1], cost)
+  redis.call("incrby", KEYS[2], cost)
+  redis.call("hincrby", KEYS[3], ARGV[8], cost)
+  return { 0, day + cost, month + cost }
+`;
+
+// Takes all pending counts so only one instance flushes each of them
+const TAKE_PENDING_SCRIPT = `
+  local pending = redis.call("hgetall", KEYS[1])
+  redis.call("del", KEYS[1])
+  return pending
+`;
+
+const memoryCounters = new Map<string, { value: number; expiresAt: number }>();
+const memoryPending = new Map<string, number>();
+
+function dayOf(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function monthOf(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+function userValue(user: any, key: string): any {
+  return user.getDataValue ? user.getDataValue(key) : user[key];
+}
+
+/**
+ * Counts API usage against the daily and monthly quotas without writing to the database
+ * on each request. Counters live in Redis when it is configured, so the limit checks hold
+ * across instances, and in process otherwise. Counts are written to the Users table every
+ * USAGE_FLUSH_INTERVAL_MS.
+ */
+export class UsageMeter {
+  private static flushInterval: NodeJS.Timeout | null = null;
+  private static flushing: Promise<void> | null = null;
+
+  /**
+   * Count a request of the given cost unless it would exceed a limit. The check and the
+   * increment are atomic, so concurrent requests cannot exceed the quota together.
+   */
+  static async record(user: any, cost: number, limits: UsageLimits): Promise<UsageResult> {
+    const userId = userValue(user, 'id');
+    const now = new Date();
+    const day = dayOf(now);
+    const month = monthOf(now);
+    const seeds = this.seeds(user, now);
+    const dayKey = `usage:${userId}:day:${day}`;
+    const monthKey = `usage:${userId}:month:${month}`;
+    const pendingField = `${userId}:${day}`;
+
+    const redis = getRedisClient();
+    if (redis) {
+      const [exceeded, requestsToday, requestsThisMonth] = await redis.eval(RECORD_SCRIPT, {
+        keys: [dayKey, monthKey, PENDING_KEY],
+        arguments: [
+          cost.toString(),
+          limits.dailyLimit.toString(),
+          (limits.monthlyLimit ?? -1).toString(),
+          seeds.requestsToday.toString(),
+          seeds.requestsThisMonth.toString(),
+          DAY_COUNTER_TTL_SECONDS.toString(),
+          MONTH_COUNTER_TTL_SECONDS.toString(),
+          pendingField
+        ]
+      }) as [number, number, number];
+      return { exceeded: exceeded === 1 ? 'daily' : exceeded === 2 ? 'monthly' : null, requestsToday, requestsThisMonth };
+    }
+
+    const requestsToday = this.memoryCounter(dayKey, seeds.requestsToday, DAY_COUNTER_TTL_SECONDS);
+    const requestsThisMonth = this.memoryCounter(monthKey, seeds.requestsThisMonth, MONTH_COUNTER_TTL_SECONDS);
+    if (requestsToday.value + cost > limits.dailyLimit) {
+      return { exceeded: 'daily', requestsToday: requestsToday.value, requestsThisMonth: requestsThisMonth.value };
+    }
+    if (limits.monthlyLimit !== null && requestsThisMonth.value + cost > limits.monthlyLimit) {
+      return { exceeded: 'monthly', requestsToday: requestsToday.value, requestsThisMonth: requestsThisMonth.value };
+    }
+    requestsToday.value += cost;
+    requestsThisMonth.value += cost;
+    memoryPending.set(pendingField, (memoryPending.get(pendingField) || 0) + cost);
+    return { exceeded: null, requestsToday: requestsToday.value, requestsThisMonth: requestsThisMonth.value };
+  }
+
+  /**
+   * A user's current usage, including counts that have not been flushed yet.
+   */
+  static async usage(user: any): Promise<{ requestsToday: number; requestsThisMonth: number }> {
+    const userId = userValue(user, 'id');
+    const now = new Date();
+    const seeds = this.seeds(user, now);
+    const dayKey = `usage:${userId}:day:${dayOf(now)}`;
+    const monthKey = `usage:${userId}:month:${monthOf(now)}`;
+
+    const redis = getRedisClient();
+    if (redis) {
+      const [day, month] = await Promise.all([redis.get(dayKey), redis.get(monthKey)]);
+      return {
+        requestsToday: day !== null ? parseInt(day, 10) : seeds.requestsToday,
+        requestsThisMonth: month !== null ? parseInt(month, 10) : seeds.requestsThisMonth
+      };
+    }
+
+    const day = memoryCounters.get(dayKey);
+    const month = memoryCounters.get(monthKey);
+    return {
+      requestsToday: day && day.expiresAt > Date.now() ? day.value : seeds.requestsToday,
+      requestsThisMonth: month && month.expiresAt > Date.now() ? month.value : seeds.requestsThisMonth
+    };
+  }
+
+  /**
+   * Forget a user's counters so they are seeded from the database again,
+   * after their stored usage was changed directly.
+   */
+  static async reset(userId: number): Promise<void> {
+    const now = new Date();
+    const keys = [`usage:${userId}:day:${dayOf(now)}`, `usage:${userId}:month:${monthOf(now)}`];
+
+    const redis = getRedisClient();
+    if (redis) {
+      await redis.del(keys);
+      return;
+    }
+    keys.forEach(key => memoryCounters.delete(key));
+  }
+
+  /**
+   * Forget every user's day or month counters, after the reset cron jobs cleared the stored usage.
+   */
+  static async resetAll(period: 'day' | 'month'): Promise<void> {
+    const redis = getRedisClient();
+    if (redis) {
+      for await (const key of redis.scanIterator({ MATCH: `usage:*:${period}:*`, COUNT: 100 })) {
+        await redis.del(key);
+      }
+      return;
+    }
+    for (const key of memoryCounters.keys()) {
+      if (key.includes(`:${period}:`)) memoryCounters.delete(key);
+    }
+  }
+
+  static start(): void {
+    if (this.flushInterval) return;
+    this.flushInterval = setInterval(() => {
+      this.flush().catch(error => log.error(`Usage flush failed: ${error}`));
+    }, USAGE_FLUSH_INTERVAL_MS);
+    this.flushInterval.unref();
+  }
+
+  /**
+   * Stop the flush timer and write the remaining counts.
+   */
+  static async stop(): Promise<void> {
+    if (this.flushInterval) {
+      clearInterval(this.flushInterval);
+      this.flushInterval = null;
+    }
+    await this.flush().catch(error => log.error(`Final usage flush failed: ${error}`));
+  }
+
+  /**
+   * Write the counts recorded since the last flush to the Users table.
+   */
+  static flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.writePending().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  private static async writePending(): Promise<void> {
+    for (const [key, counter] of memoryCounters) {
+      if (counter.expiresAt <= Date.now()) memoryCounters.delete(key);
+    }
+
+    const pending = await this.takePending();
+    if (pending.size === 0) return;
+
+    const now = new Date();
+    for (const [field, count] of pending) {
+      const [userId, day] = field.split(':');
+      try {
+        await this.writeUsage(parseInt(userId, 10), day, count, now);
+      } catch (error) {
+        log.error(`Failed to write usage of user ${userId}, keeping it for the next flush: ${error}`);
+        await this.restorePending(field, count);
+      }
+    }
+    log.debug(`Flushed usage of ${pending.size} user-day(s)`);
+  }
+
+  private static async writeUsage(userId: number, day: string, count: number, now: Date): Promise<void> {
+    const user = await User.findOne({ where: { id: userId } });
+    if (!user) return;
+
+    const lastRequestDate = user.getDataValue('lastRequestDate');
+    const lastDay = lastRequestDate ? dayOf(new Date(lastRequestDate)) : null;
+    const values: Record<string, any> = {};
+
+    // Counts from an earlier month were reset by the monthly cron job already
+    if (day.slice(0, 7) === monthOf(now)) {
+      const monthBase = lastDay && lastDay.slice(0, 7) !== monthOf(now) ? 0 : user.getDataValue('requestsThisMonth') || 0;
+      values.requestsThisMonth = monthBase + count;
+    }
+    if (day === dayOf(now)) {
+      values.requestsToday = (lastDay === day ? user.getDataValue('requestsToday') || 0 : 0) + count;
+      values.lastRequestDate = now;
+    }
+
+    if (Object.keys(values).length > 0) {
+      await user.update(values);
+    }
+  }
+
+  private static async takePending(): Promise<Map<string, number>> {
+    const pending = new Map<string, number>();
+    const redis = getRedisClient();
+    if (redis) {
+      const entries = await redis.eval(TAKE_PENDING_SCRIPT, { keys: [PENDING_KEY] }) as string[];
+      for (let i = 0; i < entries.length; i += 2) {
+        pending.set(entries[i], parseInt(entries[i + 1], 10));
+      }
+      return pending;
+    }
+
+    for (const [field, count] of memoryPending) pending.set(field, count);
+    memoryPending.clear();
+    return pending;
+  }
+
+  private static async restorePending(field: string, count: number): Promise<void> {
+    const redis = getRedisClient();
+    if (redis) {
+      await redis.hIncrBy(PENDING_KEY, field, count);
+      return;
+    }
+    memoryPending.set(field, (memoryPending.get(field) || 0) + count);
+  }
+
+  /**
+   * The stored usage of the current day and month, as the starting point of new counters.
+   * Stored counts from an earlier day or month are stale until the reset cron jobs run.
+   */
+  private static seeds(user: any, now: Date): { requestsToday: number; requestsThisMonth: number } {
+    const lastRequestDate = userValue(user, 'lastRequestDate');
+    const last = lastRequestDate ? new Date(lastRequestDate) : null;
+    return {
+      requestsToday: last && dayOf(last) === dayOf(now) ? userValue(user, 'requestsToday') || 0 : 0,
+      requestsThisMonth: last && monthOf(last) !== monthOf(now) ? 0 : userValue(user, 'requestsThisMonth') || 0
+    };
+  }
+
+  private static memoryCounter(key: string, seed: number, ttlSeconds: number): { value: number; expiresAt: number } {
+    let counter = memoryCounters.get(key);
+    if (!counter || counter.expiresAt <= Date.now()) {
+      counter = { value: seed, expiresAt: Date.now() + ttlSeconds * 1000 };
+      memoryCounters.set(key, counter);
+    }
+    return counter;
+  }
+}
@@ -0,0 +1,188 @@
+// src/core/WorldEvents.ts
+import { log } from "../utils/logger";
+import { ClientHandle } from "./Client";
+import { ClientManager } from "./ClientManager";
+
+/**
+ * Unsolicited message types pushed by the Foundry module, mapped to the
+ * event type exposed to REST consumers.
+ */
+export const WORLD_EVENT_MESSAGE_TYPES = {
+  'chat-message': 'chat',
+  'roll-data': 'roll',
+  'combat-turn': 'combat-turn',
+  'actor-update': 'actor-update',
+  'document-update': 'document-update'
+} as const;
+
+export type WorldEventType = typeof WORLD_EVENT_MESSAGE_TYPES[keyof typeof WORLD_EVENT_MESSAGE_TYPES];
+
+export const WORLD_EVENT_TYPES = Array.from(new Set(Object.values(WORLD_EVENT_MESSAGE_TYPES))) as WorldEventType[];
+
+export interface WorldEvent {
+  id: string;
+  type: WorldEventType;
+  clientId: string;
+  timestamp: number;
+  data: any;
+}
+
+type WorldEventListener = (event: WorldEvent, client: ClientHandle) => void;
+
+// Number of events kept per client for Last-Event-ID resume
+const EVENT_REPLAY_BUFFER_SIZE = parseInt(process.env.EVENT_REPLAY_BUFFER_SIZE || '100', 10);
+// Events older than this are dropped from the replay buffer
+const EVENT_REPLAY_MAX_AGE_MS = parseInt(process.env.EVENT_REPLAY_MAX_AGE_MS || '300000', 10);
+
+// Event ids are only meaningful within a single process lifetime
+const STREAM_EPOCH = Date.now().toString(36);
+
+export class WorldEvents {
+  private static sequence = 0;
+  private static buffers = new Map<string, WorldEvent[]>();
+  private static clientListeners = new Map<string, Set<WorldEventListener>>();
+  private static globalListeners = new Set<WorldEventListener>();
+  private static initialized = false;
+
+  /**
+   * Register the module message types with the ClientManager so world events
+   * are captured instead of only being broadcast to the token group
+   */
+  static registerMessageHandlers(): void {
+    if (this.initialized) return;
+    this.initialized = true;
+
+    for (const [messageType, eventType] of Object.entries(WORLD_EVENT_MESSAGE_TYPES)) {
+      ClientManager.onMessageType(messageType, (client: ClientHandle, message: any) => {
+        // Envelope messages arrive with their payload fields at the top level
+        const { type: _type, requestId: _requestId, ...fields } = message;
+        this.publish(client, eventType, message.data ?? message.payload ?? (Object.keys(fields).length > 0 ? fields : null));
+
+        // Keep the existing behaviour of relaying world messages to sibling clients
+        ClientManager.broadcastToGroup(client.getId(), message);
+      });
+    }
+
+    setInterval(() => this.pruneBuffers(), 60000).unref();
+  }
+
+  /**
+   * Record an event for a client and notify all listeners
+   */
+  static publish(client: ClientHandle, type: WorldEventType, data: any): WorldEvent {
+    const clientId = client.getId();
+    const event: WorldEvent = {
+      id: `${STREAM_EPOCH}-${++this.sequence}`,
+      type,
+      clientId,
+      timestamp: Date.now(),
+      data
+    };
+
+    this.record(event);
+    this.notify(event, client, [
+      ...(this.clientListeners.get(clientId) || []),
+      ...this.globalListeners
+    ]);
+
+    return event;
+  }
+
+  /**
+   * Record an event relayed from the instance the client is connected to.
+   * Only per-client listeners are notified, global listeners already ran on that instance.
+   */
+  static publishRemote(event: WorldEvent, client: ClientHandle): void {
+    this.record(event);
+    this.notify(event, client, [...(this.clientListeners.get(event.clientId) || [])]);
+  }
+
+  private static record(event: WorldEvent): void {
+    let buffer = this.buffers.get(event.clientId);
+    if (!buffer) {
+      buffer = [];
+      this.buffers.set(event.clientId, buffer);
+    }
+    buffer.push(event);
+    if (buffer.length > EVENT_REPLAY_BUFFER_SIZE) {
+      buffer.splice(0, buffer.length - EVENT_REPLAY_BUFFER_SIZE);
+    }
+  }
+
+  private static notify(event: WorldEvent, client: ClientHandle, listeners: WorldEventListener[]): void {
+    for (const listener of listeners) {
+      try {
+        listener(event, client);
+      } catch (error) {
+        log.error('Error in world event listener', {
+          clientId: event.clientId,
+          eventType: event.type,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+  }
+
+  /**
+   * Listen for events from a single client
+   * @returns A function that removes the listener
+   */
+  static subscribe(clientId: string, listener: WorldEventListener): () => void {
+    if (!this.clientListeners.has(clientId)) {
+      this.clientListeners.set(clientId, new Set());
+    }
+    this.clientListeners.get(clientId)!.add(listener);
+
+    return () => {
+      const listeners = this.clientListeners.get(clientId);
+      if (!listeners) return;
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        this.clientListeners.delete(clientId);
+      }
+    };
+  }
+
+  /**
+   * Listen for events from every client connected to this instance
+   * @returns A function that removes the listener
+   */
+  static subscribeAll(listener: WorldEventListener): () => void {
+    this.globalListeners.add(listener);
+    return () => {
+      this.globalListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Get buffered events published after the given event id.
+   * If the id is unknown (expired or from a previous process) the whole buffer is returned.
+   */
+  static getEventsSince(clientId: string, lastEventId?: string | null): WorldEvent[] {
+    const now = Date.now();
+    const buffer = (this.buffers.get(clientId) || [])
+      .filter(event => now - event.timestamp <= EVENT_REPLAY_MAX_AGE_MS);
+
+    if (!lastEventId) {
+      return buffer;
+    }
+
+    const index = buffer.findIndex(event => event.id === lastEventId);
+    return index === -1 ? buffer : buffer.slice(index + 1);
+  }
+
+  /**
+   * Drop expired events and buffers for clients nobody is listening to
+   */
+  private static pruneBuffers(): void {
+    const now = Date.now();
+    for (const [clientId, buffer] of this.buffers.entries()) {
+      const fresh = buffer.filter(event => now - event.timestamp <= EVENT_REPLAY_MAX_AGE_MS);
+      if (fresh.length === 0 && !this.clientListeners.has(clientId)) {
+        this.buffers.delete(clientId);
+      } else if (fresh.length !== buffer.length) {
+        this.buffers.set(clientId, fresh);
+      }
+    }
+  }
+}
@@ -1,6 +1,7 @@
 import { User } from '../models/user';
 import { log } from '../utils/logger';
 import { getRedisClient } from '../config/redis';
+import { UsageMeter } from '../core/UsageMeter';
 
 /**
  * Reset the requestsToday counter for all users
@@ -42,6 +43,8 @@ export async function resetDailyRequests(): Promise<void> {
       },
       { where: {} }  // Empty where clause updates all records
     );
+    // Buffered usage counters are seeded from the stored counts again
+    await UsageMeter.resetAll('day');
     
     // Get total count of users for verification
     const totalUsers = await User.count();
@@ -1,11 +1,15 @@
 import * as cron from 'node-cron';
 import { resetMonthlyRequests } from './monthlyReset';
 import { resetDailyRequests } from './dailyReset';
+import { UsageHistory } from '../core/UsageHistory';
+import { AuditLog } from '../core/AuditLog';
 import { log } from '../utils/logger';
 
 // Track scheduled jobs - use the correct type
 let monthlyResetJob: cron.ScheduledTask | null = null;
 let dailyResetJob: cron.ScheduledTask | null = null;
+let usageHistoryPruneJob: cron.ScheduledTask | null = null;
+let auditLogPruneJob: cron.ScheduledTask | null = null;
 
 /**
  * Set up all cron jobs for the application
@@ -82,6 +86,38 @@ export function setupCronJobs(): void {
     log.info('Daily reset cron job already scheduled');
   }
 
+  if (!usageHistoryPruneJob) {
+    // Delete usage history past its retention period every day after the daily reset
+    usageHistoryPruneJob = cron.schedule('30 0 * * *', async () => {
+      try {
+        await UsageHistory.prune();
+      } catch (error) {
+        log.error(`Error in usage history prune cron job: ${error}`);
+      }
+    }, {
+      timezone: 'UTC'
+    });
+
+    usageHistoryPruneJob.start();
+    log.info('Usage history prune cron job scheduled');
+  }
+
+  if (!auditLogPruneJob) {
+    // Delete audit entries past their retention period every day
+    auditLogPruneJob = cron.schedule('45 0 * * *', async () => {
+      try {
+        await AuditLog.prune();
+      } catch (error) {
+        log.error(`Error in audit log prune cron job: ${error}`);
+      }
+    }, {
+      timezone: 'UTC'
+    });
+
+    auditLogPruneJob.start();
+    log.info('Audit log prune cron job scheduled');
+  }
+
   log.info('Cron jobs setup completed');
 }
 
@@ -100,6 +136,18 @@ export function stopCronJobs(): void {
     dailyResetJob = null;
     log.info('Daily reset cron job stopped');
   }
+
+  if (usageHistoryPruneJob) {
+    usageHistoryPruneJob.stop();
+    usageHistoryPruneJob = null;
+    log.info('Usage history prune cron job stopped');
+  }
+
+  if (auditLogPruneJob) {
+    auditLogPruneJob.stop();
+    auditLogPruneJob = null;
+    log.info('Audit log prune cron job stopped');
+  }
 }
 
 /**
@@ -108,6 +156,8 @@ export function stopCronJobs(): void {
 export function getCronJobStatus(): { 
   monthlyReset: { scheduled: boolean; active: boolean };
   dailyReset: { scheduled: boolean; active: boolean };
+  usageHistoryPrune: { scheduled: boolean; active: boolean };
+  auditLogPrune: { scheduled: boolean; active: boolean };
 } {
   return {
     monthlyReset: {
@@ -117,6 +167,14 @@ export function getCronJobStatus(): {
     dailyReset: {
       scheduled: dailyResetJob !== null,
       active: dailyResetJob !== null
+    },
+    usageHistoryPrune: {
+      scheduled: usageHistoryPruneJob !== null,
+      active: usageHistoryPruneJob !== null
+    },
+    auditLogPrune: {
+      scheduled: auditLogPruneJob !== null,
+      active: auditLogPruneJob !== null
     }
   };
 }
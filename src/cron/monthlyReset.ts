@@ -1,6 +1,7 @@
 import { User } from '../models/user';
 import { log } from '../utils/logger';
 import { getRedisClient } from '../config/redis';
+import { UsageMeter } from '../core/UsageMeter';
 
 /**
  * Reset the requestsThisMonth counter for all users
@@ -45,6 +46,8 @@ export async function resetMonthlyRequests(): Promise<void> {
       },
       { where: {} }  // Empty where clause updates all records
     );
+    // Buffered usage counters are seeded from the stored counts again
+    await UsageMeter.resetAll('month');
     
     // Get total count of users for verification
     const totalUsers = await User.count();
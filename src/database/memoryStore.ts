@@ -4,7 +4,13 @@ import crypto from 'crypto';
 
 export class MemoryStore {
   private users = new Map();
-  private apiKeys = new Map();
+  private webhookSubscriptions = new Map();
+  private scopedApiKeys = new Map();
+  private refreshTokens = new Map();
+  private securityEvents = new Map();
+  private usageRollups = new Map();
+  private plans = new Map();
+  private auditEntries = new Map();
   private globalOptions = { define: {} };
   
   // These are just stubs to make User.init() work using local memory
@@ -20,19 +26,4 @@ export class MemoryStore {
   async sync() {
     return true;
   }
-  
-  getUser(apiKey: string) {
-    const email = this.apiKeys.get(apiKey);
-    return email ? this.users.get(email) : null;
-  }
-  
-  incrementUserRequests(apiKey: string) {
-    const email = this.apiKeys.get(apiKey);
-    if (email) {
-      const user = this.users.get(email);
-      user.requestsThisMonth += 1;
-      return true;
-    }
-    return false;
-  }
 }
\ No newline at end of file
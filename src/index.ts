@@ -14,7 +14,7 @@ import { createServer } from "http";
 import { WebSocketServer } from "ws";
 import { corsMiddleware } from "./middleware/cors";
 import { log } from "./utils/logger";
-import { wsRoutes } from "./routes/websocket";
+import { wsRoutes, wsServerOptions } from "./routes/websocket";
 import { apiRoutes, browserSessions } from "./routes/api";
 import authRoutes from "./routes/auth";
 import { config } from "dotenv";
@@ -24,11 +24,22 @@ import { sequelize } from "./sequelize";
 import stripeRouter from './routes/stripe';
 import webhookRouter from './routes/webhook';
 import { initRedis, closeRedis } from './config/redis';
+import { ClusterTransport } from './core/ClusterTransport';
+import { ClientRegistry } from './core/ClientRegistry';
+import { UsageMeter } from './core/UsageMeter';
+import { UsageHistory } from './core/UsageHistory';
+import { ClientManager } from './core/ClientManager';
 import { scheduleHeadlessSessionsCheck } from './workers/headlessSessions';
+import { startWebhookDelivery } from './workers/webhookDelivery';
 import { redisSessionMiddleware } from './middleware/redisSession';
 import { startHealthMonitoring, logSystemHealth, getSystemHealth } from './utils/healthCheck';
 import { setupCronJobs } from './cron';
 import { migrateDailyRequestTracking } from './migrations/addDailyRequestTracking';
+import { migrateHashApiKeys } from './migrations/hashApiKeys';
+import { migrateTokenVersion } from './migrations/addTokenVersion';
+import { migrateUserRole } from './migrations/addUserRole';
+import { migrateUserPlan } from './migrations/addUserPlan';
+import { Plans } from './core/Plans';
 
 config();
 
@@ -48,20 +59,23 @@ httpServer.setTimeout(0);
 httpServer.keepAliveTimeout = 0;
 httpServer.headersTimeout = 0;
 
+// Behind a reverse proxy, take the client IP from X-Forwarded-For (used by the auth throttle)
+if (process.env.TRUST_PROXY) {
+  const hops = parseInt(process.env.TRUST_PROXY, 10);
+  app.set('trust proxy', isNaN(hops) ? process.env.TRUST_PROXY : hops);
+}
+
 // Setup CORS
 app.use(corsMiddleware());
 
 app.use('/api/webhooks/stripe', express.raw({ type: 'application/json' }));
 
-// Special handling for /upload endpoint to preserve raw body for binary uploads
+// Binary bodies of /upload are left unread, the route streams or buffers them
 app.use('/upload', (req, res, next) => {
   const contentType = req.headers['content-type'] || '';
   
   if (!contentType.includes('application/json')) {
-    express.raw({ 
-      type: '*/*', 
-      limit: '250mb' 
-    })(req, res, next);
+    next();
   } else {
     // For JSON requests to /upload, use the regular JSON parser
     express.json({ 
@@ -125,7 +139,7 @@ app.get("/", (req: Request, res: Response) => {
 });
 
 // Create WebSocket server
-const wss = new WebSocketServer({ server: httpServer });
+const wss = new WebSocketServer({ ...wsServerOptions, server: httpServer });
 
 // Setup WebSocket routes
 wsRoutes(wss);
@@ -197,7 +211,18 @@ async function initializeServices() {
         
         // Run migration to add daily request tracking columns
         await migrateDailyRequestTracking();
+        // Replace plaintext API keys with their hashes
+        await migrateHashApiKeys();
+        // Add the column that ends all dashboard sessions of a user
+        await migrateTokenVersion();
+        // Add the column that marks admins
+        await migrateUserRole();
+        // Add the column that selects a subscriber's plan
+        await migrateUserPlan();
         log.info('Database migrations completed');
+
+        // Create the built-in free and pro plans if they do not exist yet
+        await Plans.ensureDefaults();
         
         if (process.env.REDIS_URL && process.env.REDIS_URL.length > 0) {
           // Then initialize Redis
@@ -206,6 +231,14 @@ async function initializeServices() {
             log.warn('Redis initialization failed - continuing with local storage only');
           } else {
             log.info('Redis initialized successfully');
+
+            // Route requests for clients connected to other instances
+            if (!(await ClusterTransport.start())) {
+              log.warn('Cluster transport unavailable - only clients connected to this instance can be reached');
+            }
+
+            // Keep this instance's client records alive in the cluster registry
+            ClientRegistry.start(() => ClientManager.getLocalClients());
           }
         }
         
@@ -237,17 +270,32 @@ async function initializeServices() {
 // Schedule the headless sessions worker
 scheduleHeadlessSessionsCheck();
 
+// Deliver world events to webhook subscriptions
+startWebhookDelivery();
+
+// Write buffered API usage to the database
+UsageMeter.start();
+UsageHistory.start();
+
 // Note: Cron jobs are already initialized in initServices()
 
 // Handle graceful shutdown
 process.on('SIGTERM', async () => {
   log.info('SIGTERM received, shutting down gracefully');
+  await ClientRegistry.stop();
+  await ClusterTransport.stop();
+  await UsageMeter.stop();
+  await UsageHistory.stop();
   await closeRedis();
   process.exit(0);
 });
 
 process.on('SIGINT', async () => {
   log.info('SIGINT received, shutting down gracefully');
+  await ClientRegistry.stop();
+  await ClusterTransport.stop();
+  await UsageMeter.stop();
+  await UsageHistory.stop();
   await closeRedis();
   process.exit(0);
 });
@@ -12,6 +12,12 @@ export enum WSCloseCodes {
   InternalError = 4000,
   DuplicateConnection = 4004,
   ServerShutdown = 4005,
+  PlanLimitReached = 4006,
+  DisconnectedByAdmin = 4007,
+  IncompatibleProtocol = 4008,
+  HandshakeFailed = 4009,
+  SessionResumed = 4010,
+  ConnectionReplaced = 4011,
 }
 
 export enum PerformanceSettings {
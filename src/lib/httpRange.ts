@@ -0,0 +1,64 @@
+// src/lib/httpRange.ts
+// Range and conditional requests for file downloads.
+
+/**
+ * A byte range as requested: from start to end, or to the end of the file when end is null,
+ * or the last suffix bytes of the file.
+ */
+export type RangeRequest = { start: number; end: number | null } | { suffix: number };
+
+/** A range resolved against a file, end inclusive */
+export interface ByteRange {
+  start: number;
+  end: number;
+  size: number;
+}
+
+/**
+ * Read a Range header. Returns null when there is none or it is not a single byte range,
+ * the whole file is sent then.
+ */
+export function parseRangeHeader(header: string | undefined): RangeRequest | null {
+  const match = header?.trim().match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) return null;
+
+  if (!match[1]) {
+    return { suffix: parseInt(match[2], 10) };
+  }
+  const start = parseInt(match[1], 10);
+  const end = match[2] ? parseInt(match[2], 10) : null;
+  return end !== null && end < start ? null : { start, end };
+}
+
+/**
+ * The bytes of a file of a size a range selects, or null if it selects none.
+ */
+export function resolveRange(range: RangeRequest, size: number): ByteRange | null {
+  if ('suffix' in range) {
+    return range.suffix > 0 && size > 0 ? { start: Math.max(0, size - range.suffix), end: size - 1, size } : null;
+  }
+  if (range.start >= size) return null;
+  return { start: range.start, end: Math.min(range.end ?? size - 1, size - 1), size };
+}
+
+export function contentRange(range: ByteRange): string {
+  return `bytes ${range.start}-${range.end}/${range.size}`;
+}
+
+/**
+ * The ETag of a file, from the hex SHA-256 of its contents.
+ */
+export function etagFor(sha256: string): string {
+  return `"${sha256.toLowerCase()}"`;
+}
+
+/**
+ * Whether an If-None-Match header matches an ETag, using the weak comparison.
+ */
+export function etagMatches(ifNoneMatch: string | undefined, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  return ifNoneMatch.split(',').some(tag => {
+    const value = tag.trim();
+    return value === '*' || value.replace(/^W\//, '') === etag;
+  });
+}
@@ -0,0 +1,321 @@
+// src/lib/protocol.ts
+// Messages exchanged between the relay and the Foundry module over the WebSocket.
+import crypto from 'crypto';
+import zlib from 'zlib';
+
+/** Protocol version spoken by this relay */
+export const PROTOCOL_VERSION = 2;
+/** Version of modules that connect without a handshake and send bare JSON messages */
+export const LEGACY_PROTOCOL_VERSION = 1;
+/** First version with envelopes and the handshake */
+export const ENVELOPE_PROTOCOL_VERSION = 2;
+// Oldest module protocol version the relay accepts, 2 rejects modules that predate the handshake
+export const MIN_PROTOCOL_VERSION = parseInt(process.env.WS_MIN_PROTOCOL_VERSION || '1', 10);
+
+export const HELLO_MESSAGE = 'hello';
+export const WELCOME_MESSAGE = 'welcome';
+export const ERROR_MESSAGE = 'error';
+/** Sent by a module whose world capabilities changed, such as a module being enabled */
+export const CAPABILITIES_MESSAGE = 'capabilities';
+/** Acknowledges a chunk of a file transfer, allowing the sender to send more */
+export const TRANSFER_ACK_MESSAGE = 'transfer-ack';
+/** Ends a file transfer early, sent by either side */
+export const TRANSFER_ABORT_MESSAGE = 'transfer-abort';
+/** Follows the last chunk of a transfer announced without a SHA-256, carrying it */
+export const TRANSFER_END_MESSAGE = 'transfer-end';
+/** Reply the relay makes up for a request a resumed client may have handled, never sent by modules */
+export const REQUEST_INTERRUPTED_MESSAGE = 'request-interrupted';
+
+/** File contents are sent as binary chunk frames instead of base64 or number arrays */
+export const BINARY_CHUNKS_CAPABILITY = 'binary-chunks';
+/** The module skips redelivered requests it already handled, so they can be sent again after a resume */
+export const REDELIVERY_CAPABILITY = 'redelivery';
+
+// Binary chunk frames: 16 byte transfer id, 4 byte sequence number, 4 byte CRC-32 of the data, data
+const CHUNK_ID_LENGTH = 16;
+export const CHUNK_HEADER_LENGTH = CHUNK_ID_LENGTH + 8;
+
+export interface ProtocolError {
+  code: string;
+  message: string;
+  details?: unknown;
+}
+
+/**
+ * A message of protocol version 2 and later, in either direction.
+ */
+export interface Envelope<P extends Record<string, any> = Record<string, any>> {
+  v: number;
+  type: string;
+  /** Set on requests and on every message that answers one */
+  requestId?: string;
+  payload: P;
+  error?: ProtocolError | null;
+}
+
+export interface WorldSystem {
+  id: string;
+  title?: string;
+  version?: string;
+}
+
+export interface WorldModule {
+  id: string;
+  title?: string;
+  version?: string;
+}
+
+/**
+ * What a connected world can do, reported by its module in the hello and capabilities messages.
+ */
+export interface WorldCapabilities {
+  system: WorldSystem | null;
+  /** Active modules of the world */
+  modules: WorldModule[];
+  /** Relay request types the module handles, null if it did not report them */
+  requestTypes: string[] | null;
+  /** When the module last reported them, null for modules that never did */
+  reportedAt: number | null;
+}
+
+/**
+ * First message of a module, declaring what it supports.
+ */
+export interface HelloPayload {
+  protocolVersion: number;
+  moduleVersion?: string;
+  /** Optional protocol features the module implements */
+  capabilities: string[];
+  system?: WorldSystem;
+  modules?: WorldModule[];
+  requestTypes?: string[];
+  /** Token of the welcome message of a previous connection, to resume its session */
+  resumeToken?: string;
+}
+
+/**
+ * Announces the file a transfer carries, before its chunks are sent.
+ */
+export interface TransferDescriptor {
+  /** UUID, also carried by every chunk frame */
+  id: string;
+  size: number;
+  chunkSize: number;
+  chunks: number;
+  /** Hex SHA-256 of the whole file, left out by senders that stream it and send it in transfer-end */
+  sha256?: string;
+}
+
+export interface TransferChunk {
+  transferId: string;
+  sequence: number;
+  data: Buffer;
+  /** Whether the data matches the frame's checksum */
+  intact: boolean;
+}
+
+export interface WelcomePayload {
+  protocolVersion: number;
+  clientId: string;
+  capabilities: string[];
+  /** Sent in the hello message of the next connection to resume this session */
+  resumeToken: string;
+  /** Whether the connection resumed the session of an earlier one */
+  resumed: boolean;
+}
+
+/**
+ * A message as the relay handles it internally, whichever protocol version the client speaks:
+ * payload fields at the top level next to type and requestId, and errors as a message string.
+ */
+export type RelayMessage = Record<string, any> & { type: string; requestId?: string; error?: string };
+
+/** Protocol features this relay implements, answered with the ones a module also declared */
+export const RELAY_CAPABILITIES: string[] = [BINARY_CHUNKS_CAPABILITY, REDELIVERY_CAPABILITY];
+
+// Result types whose legacy modules nest the result in a data object
+const LEGACY_NESTED_RESULT_TYPES = ['get-sheet-response'];
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Describe what is wrong with an envelope, or return null if it is valid.
+ */
+export function validateEnvelope(value: unknown): string | null {
+  if (!isPlainObject(value)) return 'Message must be a JSON object';
+  if (!Number.isInteger(value.v) || value.v < ENVELOPE_PROTOCOL_VERSION) return `v must be a protocol version of at least ${ENVELOPE_PROTOCOL_VERSION}`;
+  if (typeof value.type !== 'string' || !value.type) return 'type must be a non-empty string';
+  if (value.requestId !== undefined && (typeof value.requestId !== 'string' || !value.requestId)) return 'requestId must be a non-empty string';
+  if (!isPlainObject(value.payload)) return 'payload must be an object';
+  if (value.error !== undefined && value.error !== null) {
+    if (!isPlainObject(value.error) || typeof value.error.code !== 'string' || typeof value.error.message !== 'string') {
+      return 'error must be an object with a code and a message';
+    }
+  }
+  return null;
+}
+
+/**
+ * Describe what is wrong with the payload of a hello message, or return null if it is valid.
+ */
+export function validateHello(payload: Record<string, any>): string | null {
+  if (!Number.isInteger(payload.protocolVersion)) return 'protocolVersion must be an integer';
+  if (payload.moduleVersion !== undefined && typeof payload.moduleVersion !== 'string') return 'moduleVersion must be a string';
+  if (!Array.isArray(payload.capabilities) || payload.capabilities.some((item: unknown) => typeof item !== 'string')) {
+    return 'capabilities must be an array of strings';
+  }
+  if (payload.resumeToken !== undefined && (typeof payload.resumeToken !== 'string' || !payload.resumeToken)) return 'resumeToken must be a non-empty string';
+  return validateWorldCapabilities(payload);
+}
+
+function isNamedItem(value: unknown): boolean {
+  return isPlainObject(value) && typeof value.id === 'string' && !!value.id
+    && (value.title === undefined || typeof value.title === 'string')
+    && (value.version === undefined || typeof value.version === 'string');
+}
+
+/**
+ * Describe what is wrong with the world capabilities of a hello or capabilities message,
+ * or return null if they are valid. Every field is optional.
+ */
+export function validateWorldCapabilities(payload: Record<string, any>): string | null {
+  if (payload.system !== undefined && !isNamedItem(payload.system)) return 'system must be an object with an id';
+  if (payload.modules !== undefined && (!Array.isArray(payload.modules) || !payload.modules.every(isNamedItem))) {
+    return 'modules must be an array of objects with an id';
+  }
+  if (payload.requestTypes !== undefined && (!Array.isArray(payload.requestTypes) || payload.requestTypes.some((item: unknown) => typeof item !== 'string'))) {
+    return 'requestTypes must be an array of strings';
+  }
+  return null;
+}
+
+/**
+ * Apply the world capabilities of a validated message to the ones known so far.
+ */
+export function mergeWorldCapabilities(current: WorldCapabilities, payload: Record<string, any>): WorldCapabilities {
+  const pick = ({ id, title, version }: WorldModule): WorldModule => ({ id, title, version });
+  return {
+    system: payload.system ? pick(payload.system) : current.system,
+    modules: payload.modules ? payload.modules.map(pick) : current.modules,
+    requestTypes: payload.requestTypes ? [...payload.requestTypes] : current.requestTypes,
+    reportedAt: Date.now()
+  };
+}
+
+/**
+ * The version the relay talks to a module in, the older of the two, or null if the module
+ * is too old. Newer modules are expected to fall back to the version in the welcome message.
+ */
+export function negotiateVersion(moduleVersion: number): number | null {
+  const version = Math.min(moduleVersion, PROTOCOL_VERSION);
+  return version >= Math.max(MIN_PROTOCOL_VERSION, ENVELOPE_PROTOCOL_VERSION) ? version : null;
+}
+
+/**
+ * Wrap an internal message in an envelope of a protocol version.
+ */
+export function toEnvelope(message: RelayMessage, version: number = PROTOCOL_VERSION): Envelope {
+  const { type, requestId, error, errorCode, ...payload } = message;
+  const envelope: Envelope = { v: version, type, payload };
+  if (requestId) envelope.requestId = requestId;
+  if (error) envelope.error = { code: errorCode || 'error', message: String(error) };
+  return envelope;
+}
+
+/**
+ * Unwrap a validated envelope into an internal message.
+ */
+export function fromEnvelope(envelope: Envelope): RelayMessage {
+  const message: RelayMessage = { ...envelope.payload, type: envelope.type };
+  if (envelope.requestId) message.requestId = envelope.requestId;
+  if (envelope.error) {
+    message.error = envelope.error.message;
+    message.errorCode = envelope.error.code;
+  }
+  return message;
+}
+
+/**
+ * Bring a message of a legacy module into the internal shape.
+ */
+export function fromLegacyMessage(message: Record<string, any>): RelayMessage {
+  if (LEGACY_NESTED_RESULT_TYPES.includes(message.type) && isPlainObject(message.data)) {
+    const { data, ...rest } = message;
+    return { ...data, ...rest } as RelayMessage;
+  }
+  return message as RelayMessage;
+}
+
+/**
+ * An error message to send to a client, answering a request when requestId is set.
+ */
+export function errorMessage(code: string, message: string, requestId?: string, details?: unknown): Envelope {
+  return {
+    v: PROTOCOL_VERSION,
+    type: ERROR_MESSAGE,
+    ...(requestId ? { requestId } : {}),
+    payload: {},
+    error: { code, message, ...(details !== undefined ? { details } : {}) }
+  };
+}
+
+/**
+ * Describe what is wrong with a transfer descriptor, or return null if it is valid.
+ */
+export function validateTransferDescriptor(value: unknown, maxChunkSize: number): string | null {
+  if (!isPlainObject(value)) return 'transfer must be an object';
+  if (typeof value.id !== 'string' || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value.id)) return 'transfer.id must be a UUID';
+  if (!Number.isInteger(value.size) || value.size < 0) return 'transfer.size must be a non-negative integer';
+  if (!Number.isInteger(value.chunkSize) || value.chunkSize < 1 || value.chunkSize > maxChunkSize) return `transfer.chunkSize must be between 1 and ${maxChunkSize}`;
+  if (value.chunks !== Math.ceil(value.size / value.chunkSize)) return 'transfer.chunks does not match size and chunkSize';
+  if (value.sha256 !== undefined && !isSha256(value.sha256)) return 'transfer.sha256 must be a hex SHA-256 digest';
+  return null;
+}
+
+export function isSha256(value: unknown): value is string {
+  return typeof value === 'string' && /^[0-9a-f]{64}$/i.test(value);
+}
+
+/**
+ * Describe a file for a transfer from the relay. Without the data, the file is described by
+ * its size only and its SHA-256 is sent in transfer-end.
+ */
+export function describeTransfer(data: Buffer | number, chunkSize: number): TransferDescriptor {
+  const size = typeof data === 'number' ? data : data.length;
+  const descriptor: TransferDescriptor = {
+    id: crypto.randomUUID(),
+    size,
+    chunkSize,
+    chunks: Math.ceil(size / chunkSize)
+  };
+  if (typeof data !== 'number') {
+    descriptor.sha256 = crypto.createHash('sha256').update(data).digest('hex');
+  }
+  return descriptor;
+}
+
+export function encodeChunk(transferId: string, sequence: number, data: Buffer): Buffer {
+  const header = Buffer.alloc(CHUNK_HEADER_LENGTH);
+  Buffer.from(transferId.replace(/-/g, ''), 'hex').copy(header, 0);
+  header.writeUInt32BE(sequence, CHUNK_ID_LENGTH);
+  header.writeUInt32BE(zlib.crc32(data), CHUNK_ID_LENGTH + 4);
+  return Buffer.concat([header, data]);
+}
+
+/**
+ * Read a binary chunk frame, or return null if it is too short to be one.
+ */
+export function decodeChunk(frame: Buffer): TransferChunk | null {
+  if (frame.length < CHUNK_HEADER_LENGTH) return null;
+
+  const hex = frame.subarray(0, CHUNK_ID_LENGTH).toString('hex');
+  const data = frame.subarray(CHUNK_HEADER_LENGTH);
+  return {
+    transferId: `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`,
+    sequence: frame.readUInt32BE(CHUNK_ID_LENGTH),
+    data,
+    intact: zlib.crc32(data) === frame.readUInt32BE(CHUNK_ID_LENGTH + 4)
+  };
+}
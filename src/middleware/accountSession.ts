@@ -0,0 +1,35 @@
+import { Request, Response, NextFunction } from 'express';
+import { accountKeyFor } from '../models/user';
+import { AccountSessions } from '../core/AccountSessions';
+import { log } from '../utils/logger';
+
+/**
+ * Authenticate account endpoints with a dashboard access token sent as
+ * `Authorization: Bearer <token>`. API keys are not accepted here.
+ */
+export const accountSessionMiddleware = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const header = req.header('authorization') || '';
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+
+  if (!match) {
+    res.status(401).json({ error: 'Sign in required', howToUse: 'Send the access token from /login as an Authorization: Bearer header' });
+    return;
+  }
+
+  try {
+    const user = await AccountSessions.verifyAccessToken(match[1]);
+    if (!user) {
+      res.status(401).json({ error: 'Invalid or expired access token', howToUse: 'Get a new access token from POST /auth/refresh' });
+      return;
+    }
+
+    const id = user.getDataValue ? user.getDataValue('id') : user.id;
+    req.user = user;
+    req.accountKey = accountKeyFor(id);
+    req.subscriptionStatus = (user.getDataValue ? user.getDataValue('subscriptionStatus') : user.subscriptionStatus) || 'free';
+    next();
+  } catch (error) {
+    log.error(`Account session error: ${error}`);
+    res.status(500).json({ error: 'Authentication error' });
+  }
+};
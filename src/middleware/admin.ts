@@ -0,0 +1,15 @@
+import { Request, Response, NextFunction } from 'express';
+import { safeResponse } from '../routes/shared';
+
+/**
+ * Only let admins through. Must run after authMiddleware. Additional API keys of an
+ * admin account are rejected too, admin endpoints need the primary key.
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+  const role = req.user?.getDataValue ? req.user.getDataValue('role') : req.user?.role;
+  if (role !== 'admin' || req.apiKeyScope) {
+    safeResponse(res, 403, { error: 'Admin access required' });
+    return;
+  }
+  next();
+}
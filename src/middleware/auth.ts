@@ -1,13 +1,22 @@
 import { Request, Response, NextFunction } from 'express';
-import { User } from '../models/user';
+import { User, accountKeyFor } from '../models/user';
+import { ApiKey } from '../models/apiKey';
+import { canAccessClient, hasScope, requiredScope, sendClientAccessError, sendScopeError } from './scopes';
 import { ClientManager } from '../core/ClientManager';
+import { ClientHandle } from '../core/Client';
 import { sequelize } from '../sequelize';
 import { log } from '../utils/logger';
+import { AuthThrottle } from '../core/AuthThrottle';
+import { RateLimiter } from '../core/RateLimiter';
+import { UsageMeter } from '../core/UsageMeter';
+import { UsageHistory } from '../core/UsageHistory';
+import { PlanLimits, Plans } from '../core/Plans';
+import { throttleSubjects } from './authThrottle';
 import { apiKeyToSession } from '../routes/api';
 
 // Helper function to update session activity timestamp
-function updateSessionActivity(apiKey: string) {
-  const session = apiKeyToSession.get(apiKey);
+function updateSessionActivity(accountKey: string) {
+  const session = apiKeyToSession.get(accountKey);
   if (session) {
     session.lastActivity = Date.now();
   }
@@ -16,21 +25,62 @@ function updateSessionActivity(apiKey: string) {
 // Flag to check if we're using memory store
 const isMemoryStore = process.env.DB_TYPE === 'memory';
 
-// Free tier request limit per month
-const FREE_TIER_LIMIT = parseInt(process.env.FREE_API_REQUESTS_LIMIT || '100');
-
-// Daily request limit for all users (configurable via environment variable)
-const DAILY_REQUEST_LIMIT = parseInt(process.env.DAILY_REQUEST_LIMIT || '1000');
+// lastUsedAt of an additional API key is written at most this often
+const API_KEY_LAST_USED_INTERVAL_MS = 60000;
 
 declare global {
   namespace Express {
     interface Request {
       user: any;
+      /** Groups the account's clients, sessions and jobs, see accountKeyFor */
+      accountKey: string;
       subscriptionStatus?: string;
+      /** Limits of the account's plan, see Plans.forUser */
+      plan?: PlanLimits;
+      usageCost?: number;
     }
   }
 }
 
+/**
+ * Apply the restrictions of an additional API key to the request.
+ * Sends an error response and returns false if the key may not make it.
+ */
+function applyScopedApiKey(req: Request, res: Response, record: any): boolean {
+  const expiresAt = record.getDataValue('expiresAt');
+  if (expiresAt && new Date(expiresAt).getTime() <= Date.now()) {
+    res.status(401).json({ error: 'API key has expired' });
+    return false;
+  }
+
+  req.apiKeyScope = {
+    id: record.getDataValue('id'),
+    name: record.getDataValue('name'),
+    scopes: record.getDataValue('scopes') || [],
+    clientIds: record.getDataValue('clientIds') || null
+  };
+
+  const scope = requiredScope(req.method, `${req.baseUrl}${req.path}`);
+  if (scope && !hasScope(req, scope)) {
+    sendScopeError(res, scope);
+    return false;
+  }
+
+  const clientId = req.query.clientId as string;
+  if (clientId && !canAccessClient(req, clientId)) {
+    sendClientAccessError(res, clientId);
+    return false;
+  }
+
+  const lastUsedAt = record.getDataValue('lastUsedAt');
+  if (!lastUsedAt || Date.now() - new Date(lastUsedAt).getTime() > API_KEY_LAST_USED_INTERVAL_MS) {
+    record.update({ lastUsedAt: new Date() }).catch((error: unknown) => {
+      log.error(`Failed to update lastUsedAt of API key ${req.apiKeyScope?.id}: ${error}`);
+    });
+  }
+  return true;
+}
+
 export const authMiddleware = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   // If using memory store in local dev, bypass authentication
   if (isMemoryStore) {
@@ -41,8 +91,19 @@ export const authMiddleware = async (req: Request, res: Response, next: NextFunc
       email: 'admin@example.com', 
       apiKey: 'local-dev', 
       requestsThisMonth: 0,
-      subscriptionStatus: 'active'
+      subscriptionStatus: 'active',
+      role: 'admin'
     };
+    req.accountKey = 'local-dev';
+    req.subscriptionStatus = 'active';
+    req.plan = await Plans.forUser(req.user);
+
+    // Additional API keys still get their restrictions applied so they can be tried out locally
+    const localKey = req.headers['x-api-key'] as string;
+    const scopedKey = localKey ? await ApiKey.findByKey(localKey) : null;
+    if (scopedKey && !applyScopedApiKey(req, res, scopedKey)) {
+      return;
+    }
     next();
     return;
   }
@@ -57,13 +118,33 @@ export const authMiddleware = async (req: Request, res: Response, next: NextFunc
   }
   
   try {
-    // Find all users with the matching API key
-    const users = await User.findAll({ where: { apiKey } });
-    
-    if (users.length === 0) {
-      res.status(401).json({ error: 'Invalid API key' });
+    // IPs that keep guessing keys are locked out, see AuthThrottle
+    const subjects = throttleSubjects(req);
+    const lockout = await AuthThrottle.lockout(subjects);
+    if (lockout) {
+      AuthThrottle.sendBlocked(res, lockout);
       return;
     }
+
+    // Keys are stored hashed, so they are matched by prefix and compared in constant time
+    let user = await User.findByApiKey(apiKey);
+    
+    if (!user) {
+      // Not a primary key, check the account's additional API keys
+      const scopedKey = await ApiKey.findByKey(apiKey);
+      const owner = scopedKey ? await User.findOne({ where: { id: scopedKey.getDataValue('userId') } }) : null;
+      if (!scopedKey || !owner) {
+        await AuthThrottle.recordFailure('api-key', subjects);
+        res.status(401).json({ error: 'Invalid API key' });
+        return;
+      }
+      if (!applyScopedApiKey(req, res, scopedKey)) {
+        return;
+      }
+      user = owner;
+    }
+
+    const accountKey = accountKeyFor(user.getDataValue ? user.getDataValue('id') : user.id);
     
     if (clientId) {
       const client = await ClientManager.getClient(clientId);
@@ -72,20 +153,21 @@ export const authMiddleware = async (req: Request, res: Response, next: NextFunc
         return;
       }
       
-      if (client.getApiKey() !== apiKey) {
-        log.warn(`Client ID ${clientId} does not match API key ${apiKey}`);
+      if (client.getApiKey() !== accountKey) {
+        log.warn(`Client ID ${clientId} does not belong to the account of API key ${apiKey.substring(0, 8)}...`);
         res.status(401).json({ error: 'Invalid API key for this client ID' });
         return;
       }
     }
     
-    const user = users[0];
     req.user = user;
+    req.accountKey = accountKey;
     
     const subscriptionStatus = user.getDataValue ? 
       user.getDataValue('subscriptionStatus') : user.subscriptionStatus;
     
     req.subscriptionStatus = subscriptionStatus || 'free';
+    req.plan = await Plans.forUser(user);
     
     next();
   } catch (error) {
@@ -94,148 +176,106 @@ export const authMiddleware = async (req: Request, res: Response, next: NextFunc
   }
 };
 
+/**
+ * Whether a client belongs to the account of an authenticated request. authMiddleware only
+ * checks a clientId given in the query, routes that read it from the body check it with this.
+ */
+export function ownsClient(req: Request, client: ClientHandle): boolean {
+  // Memory store bypasses authentication, so every client belongs to the local dev account
+  return isMemoryStore || client.getApiKey() === req.accountKey;
+}
+
 export const trackApiUsage = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  // Number of requests this call counts as (e.g. one per sub-request of a batch)
+  const cost = Math.max(1, req.usageCost || 1);
+  const startedAt = Date.now();
+  let quotaUsed = 0;
+
+  // Record every request in the usage history, including the ones a limit rejects
+  res.on('finish', () => {
+    if (!req.user) return;
+    // Routes that resolve the client (including from the body) set res.locals.clientId
+    const clientId = res.locals.clientId ?? req.query.clientId;
+    UsageHistory.record({
+      userId: req.user.id,
+      apiKeyId: req.apiKeyScope?.id ?? null,
+      clientId: typeof clientId === 'string' ? clientId : null,
+      endpoint: `${req.method} ${req.baseUrl}${req.route?.path ?? req.path}`,
+      statusCode: res.statusCode,
+      latencyMs: Date.now() - startedAt,
+      quotaUsed
+    });
+  });
+
+  // Plans can leave out endpoints such as execute-js
+  const feature = Plans.featureFor(req.method, `${req.baseUrl}${req.path}`);
+  if (feature && req.plan && !req.plan.features.includes(feature)) {
+    Plans.sendFeatureError(res, req.plan, feature);
+    return;
+  }
+
+  // Per-second limits apply in every mode, they protect the Foundry clients
+  if (!await RateLimiter.consume(req, res, cost)) {
+    return;
+  }
+
   // Skip usage tracking in memory store mode
   if (isMemoryStore) {
+    quotaUsed = cost;
     return next();
   }
   
   // Normal API usage tracking
   try {
-    const apiKey = req.headers['x-api-key'] as string;
+    // Usage is counted against the account, whichever of its keys made the request
+    const accountKey = req.accountKey;
+    // authMiddleware loaded the user and their plan for this request already
+    const user = req.user;
+    const plan = req.plan;
     
-    if (apiKey) {
-      // Use the User.findOne method that works with both sequelize and memory store
-      const user = await User.findOne({ where: { apiKey } });
-      
-      if (user) {
-        // Always track api usage regardless of subscription status
-        if ('getDataValue' in user && typeof user.getDataValue === 'function') {
-          // Check if it's a new day - reset daily counter if needed
-          const today = new Date().toISOString().split('T')[0]; // YYYY-MM-DD format
-          const lastRequestDate = user.getDataValue('lastRequestDate');
-          
-          // Safely handle lastRequestDate - it might be a string, Date, or null
-          let lastRequestDateStr = null;
-          if (lastRequestDate) {
-            if (lastRequestDate instanceof Date) {
-              lastRequestDateStr = lastRequestDate.toISOString().split('T')[0];
-            } else if (typeof lastRequestDate === 'string') {
-              lastRequestDateStr = new Date(lastRequestDate).toISOString().split('T')[0];
-            }
-          }
-          
-          if (lastRequestDateStr !== today) {
-            // New day - reset daily counter
-            user.setDataValue('requestsToday', 0);
-            user.setDataValue('lastRequestDate', new Date());
-          }
-          
-          // Get current request counts
-          const currentMonthlyRequests = user.getDataValue('requestsThisMonth') || 0;
-          const currentDailyRequests = user.getDataValue('requestsToday') || 0;
-          
-          // Check daily rate limit
-          if (currentDailyRequests >= DAILY_REQUEST_LIMIT) {
-            // Calculate midnight of the next day for reset time
-            const tomorrow = new Date();
-            tomorrow.setDate(tomorrow.getDate() + 1);
-            tomorrow.setHours(0, 0, 0, 0); // Set to midnight
-            
-            res.status(429).json({
-              error: 'Daily API request limit reached',
-              dailyLimit: DAILY_REQUEST_LIMIT,
-              message: `You have reached the daily limit of ${DAILY_REQUEST_LIMIT} requests. Please try again tomorrow.`,
-              resetsAt: tomorrow.toISOString()
-            });
-            return;
-          }
-          
-          // Increment both counters
-          user.setDataValue('requestsThisMonth', currentMonthlyRequests + 1);
-          user.setDataValue('requestsToday', currentDailyRequests + 1);
-          user.setDataValue('lastRequestDate', new Date());
-          
-          // Log with proper data access
-          log.info(`Incrementing requests for user ${user.getDataValue('email')} - Monthly: ${user.getDataValue('requestsThisMonth')}, Daily: ${user.getDataValue('requestsToday')}`);
-          
-          // Save the updated user
-          if ('save' in user && typeof user.save === 'function') {
-            await user.save();
-          }
-
-          updateSessionActivity(apiKey);
-        } else if ('requestsThisMonth' in user) {
-          // Fallback for memory store
-          const today = new Date().toISOString().split('T')[0];
-          
-          // Safely handle lastRequestDate for memory store too
-          let lastRequestDateStr = null;
-          if (user.lastRequestDate) {
-            if (user.lastRequestDate instanceof Date) {
-              lastRequestDateStr = user.lastRequestDate.toISOString().split('T')[0];
-            } else if (typeof user.lastRequestDate === 'string') {
-              lastRequestDateStr = new Date(user.lastRequestDate).toISOString().split('T')[0];
-            }
-          }
-          
-          if (lastRequestDateStr !== today) {
-            user.requestsToday = 0;
-            user.lastRequestDate = new Date();
-          }
-          
-          // Check daily rate limit
-          if (user.requestsToday >= DAILY_REQUEST_LIMIT) {
-            // Calculate midnight of the next day for reset time
-            const tomorrow = new Date();
-            tomorrow.setDate(tomorrow.getDate() + 1);
-            tomorrow.setHours(0, 0, 0, 0); // Set to midnight
-            
-            res.status(429).json({
-              error: 'Daily API request limit reached',
-              dailyLimit: DAILY_REQUEST_LIMIT,
-              message: `You have reached the daily limit of ${DAILY_REQUEST_LIMIT} requests. Please try again tomorrow.`,
-              resetsAt: tomorrow.toISOString()
-            });
-            return;
-          }
-          
-          user.requestsThisMonth += 1;
-          user.requestsToday += 1;
-          user.lastRequestDate = new Date();
-          updateSessionActivity(apiKey);
-        }
-        
-        // Enforce monthly limits only for free tier users
-        const subscriptionStatus = user.getDataValue ? 
-          user.getDataValue('subscriptionStatus') : user.subscriptionStatus;
-        
-        if (subscriptionStatus !== 'active') {
-          const requestCount = user.getDataValue ? 
-            user.getDataValue('requestsThisMonth') : user.requestsThisMonth;
-            
-          if (requestCount >= FREE_TIER_LIMIT) {
-            res.status(429).json({
-              error: 'Monthly API request limit reached',
-              limit: FREE_TIER_LIMIT,
-              message: 'Please upgrade to a paid subscription for unlimited monthly API access',
-              upgradeUrl: '/api/subscriptions/create-checkout-session'
-            });
-            return;
-          }
-        }
-        
-        next();
-      } else {
-        log.warn(`API key not found: ${apiKey}`);
-        res.status(401).json({ error: 'Invalid API key' });
-        return;
-      }
-    } else {
-      log.warn('API key is required for usage tracking');
+    if (!accountKey || !user || !plan) {
+      log.warn('Usage tracking requires authMiddleware to run first');
       res.status(401).json({ error: 'API key is required' });
       return;
     }
+
+    // Plans without a monthly limit are only limited per day
+    const usage = await UsageMeter.record(user, cost, {
+      dailyLimit: plan.dailyRequestLimit,
+      monthlyLimit: plan.monthlyRequestLimit
+    });
+
+    if (usage.exceeded === 'daily') {
+      // Daily counters roll over at midnight UTC
+      const tomorrow = new Date();
+      tomorrow.setUTCDate(tomorrow.getUTCDate() + 1);
+      tomorrow.setUTCHours(0, 0, 0, 0);
+      
+      res.status(429).json({
+        error: 'Daily API request limit reached',
+        dailyLimit: plan.dailyRequestLimit,
+        plan: plan.name,
+        message: `You have reached the daily limit of ${plan.dailyRequestLimit} requests. Please try again tomorrow.`,
+        resetsAt: tomorrow.toISOString()
+      });
+      return;
+    }
+
+    if (usage.exceeded === 'monthly') {
+      res.status(429).json({
+        error: 'Monthly API request limit reached',
+        limit: plan.monthlyRequestLimit,
+        plan: plan.name,
+        message: 'Please upgrade to a paid plan for more monthly API access',
+        upgradeUrl: '/api/subscriptions/create-checkout-session'
+      });
+      return;
+    }
+
+    log.debug(`Counted ${cost} request(s) for user ${user.getDataValue('id')} - Monthly: ${usage.requestsThisMonth}, Daily: ${usage.requestsToday}`);
+    quotaUsed = cost;
+    updateSessionActivity(accountKey);
+    next();
   } catch (error) {
     log.error(`Error tracking API usage: ${error}`);
     res.status(500).json({ error: 'Internal server error' });
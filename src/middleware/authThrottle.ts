@@ -0,0 +1,65 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { AuthThrottle } from '../core/AuthThrottle';
+import { log } from '../utils/logger';
+
+// Responses that count as a failed attempt
+const FAILURE_STATUSES = [401, 403];
+
+/**
+ * The throttle subjects of a request: its IP, plus an identifier such as "email:<address>".
+ */
+export function throttleSubjects(req: Request, identifier?: string | null): string[] {
+  const subjects = [`ip:${req.ip || req.socket.remoteAddress || 'unknown'}`];
+  if (identifier) subjects.push(identifier);
+  return subjects;
+}
+
+/**
+ * The throttle identifier of the email in the request body.
+ */
+export function emailIdentifier(req: Request): string | null {
+  const email = req.body?.email;
+  return typeof email === 'string' && email ? `email:${email.trim().toLowerCase()}` : null;
+}
+
+/**
+ * The throttle identifier of the API key in the x-api-key header, by its prefix.
+ */
+export function apiKeyIdentifier(req: Request): string | null {
+  const apiKey = req.header('x-api-key');
+  return apiKey ? `key:${apiKey.substring(0, 8)}` : null;
+}
+
+/**
+ * Rate limit an authentication route per IP and identifier, and lock out the ones that
+ * keep failing. Responses with 401 or 403 count as failures, 2xx responses as successes.
+ */
+export function authThrottle(route: string, identify?: (req: Request) => string | null): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const subjects = throttleSubjects(req, identify ? identify(req) : null);
+
+    try {
+      const block = await AuthThrottle.check(route, subjects);
+      if (block) {
+        log.warn(`Throttled ${route} attempt from ${subjects.join(', ')}: ${block.reason}`);
+        AuthThrottle.sendBlocked(res, block);
+        return;
+      }
+    } catch (error) {
+      // The throttle must not take sign-in down with it
+      log.error(`Auth throttle error on ${route}: ${error}`);
+      next();
+      return;
+    }
+
+    res.on('finish', () => {
+      const outcome = FAILURE_STATUSES.includes(res.statusCode)
+        ? AuthThrottle.recordFailure(route, subjects)
+        : res.statusCode >= 200 && res.statusCode < 300
+          ? AuthThrottle.recordSuccess(subjects)
+          : null;
+      outcome?.catch(error => log.error(`Failed to record ${route} attempt: ${error}`));
+    });
+    next();
+  };
+}
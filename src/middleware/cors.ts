@@ -10,12 +10,28 @@ interface CorsOptions {
   preflightContinue?: boolean;
 }
 
+// Comma-separated origins that may send cookies with their requests, every origin may call the API without them
+const CORS_ORIGINS = (process.env.CORS_ORIGINS || '').split(',').map(origin => origin.trim()).filter(Boolean);
+
+function isAllowedOrigin(allowed: CorsOptions['origin'], origin: string): boolean {
+  if (typeof allowed === 'function') return allowed(origin);
+  if (Array.isArray(allowed)) return allowed.includes(origin);
+  return allowed === origin;
+}
+
 export const corsMiddleware = (options: CorsOptions = {}) => {
   const defaultOptions: CorsOptions = {
-    origin: "*",  // Allow all origins
+    origin: CORS_ORIGINS.length > 0 ? CORS_ORIGINS : "*",
     methods: ["GET", "HEAD", "PUT", "PATCH", "POST", "DELETE"],
-    allowedHeaders: ["Content-Type", "Authorization", "X-Requested-With", "x-api-key"],
-    exposedHeaders: [],
+    allowedHeaders: [
+      "Origin", "X-Requested-With", "Content-Type", "Accept", "Authorization", "x-api-key",
+      "Idempotency-Key", "If-None-Match", "Range"
+    ],
+    // Response headers browser clients may read besides the CORS-safelisted ones
+    exposedHeaders: [
+      "X-RateLimit-Limit", "X-RateLimit-Remaining", "X-RateLimit-Reset", "Retry-After",
+      "ETag", "Content-Range", "Accept-Ranges", "Idempotent-Replayed"
+    ],
     credentials: true, // Important for cookies/auth to work
     maxAge: 86400, // 24 hours
     preflightContinue: false,
@@ -25,13 +41,23 @@ export const corsMiddleware = (options: CorsOptions = {}) => {
   const corsOptions = { ...defaultOptions, ...options };
 
   return async (req: Request, res: Response, next: NextFunction) => {
-    // Handle CORS headers
-    res.header("Access-Control-Allow-Origin", "*");
+    // Browsers reject credentials with a wildcard origin, allow-listed origins are echoed instead
+    const origin = req.get("Origin");
+    if (corsOptions.origin !== "*") {
+      res.vary("Origin");
+    }
+    if (origin && corsOptions.origin !== "*" && isAllowedOrigin(corsOptions.origin, origin)) {
+      res.header("Access-Control-Allow-Origin", origin);
+      if (corsOptions.credentials) {
+        res.header("Access-Control-Allow-Credentials", "true");
+      }
+    } else {
+      res.header("Access-Control-Allow-Origin", "*");
+    }
     res.header("Access-Control-Allow-Methods", corsOptions.methods!.join(", "));
-    res.header("Access-Control-Allow-Headers", "Origin, X-Requested-With, Content-Type, Accept, Authorization, x-api-key");
-    
-    if (corsOptions.credentials) {
-      res.header("Access-Control-Allow-Credentials", "true");
+    res.header("Access-Control-Allow-Headers", corsOptions.allowedHeaders!.join(", "));
+    if (corsOptions.exposedHeaders?.length) {
+      res.header("Access-Control-Expose-Headers", corsOptions.exposedHeaders.join(", "));
     }
 
     // Handle preflight requests
@@ -0,0 +1,252 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { sanitizeResponse, safeResponse } from '../routes/shared';
+import { ValidationErrorCode, sendValidationError, validationError } from '../routes/validation';
+import { log } from '../utils/logger';
+import { getRecord, setRecord, deleteRecord } from '../utils/expiringStore';
+
+declare global {
+  namespace Express {
+    interface Request {
+      idempotencyKey?: string;
+    }
+  }
+}
+
+// How long a completed response is replayed for
+const IDEMPOTENCY_TTL_SECONDS = parseInt(process.env.IDEMPOTENCY_TTL_SECONDS || '86400', 10);
+// How long after a timeout a late result from Foundry is still recorded
+const IDEMPOTENCY_LATE_RESULT_WINDOW_MS = parseInt(process.env.IDEMPOTENCY_LATE_RESULT_WINDOW_MS || '300000', 10);
+// Lock held while the first request is processed, longer than any route timeout including headless session startup
+const IN_PROGRESS_TTL_SECONDS = 300;
+const MAX_KEY_LENGTH = 255;
+const MUTATING_METHODS = ['POST', 'PUT', 'DELETE'];
+
+// Statuses that mean the request was not carried out, so a retry should run it again
+const RETRYABLE_STATUSES = [404, 409, 429];
+// Statuses that mean Foundry did not answer in time, so its result may still arrive
+const TIMEOUT_STATUSES = [408, 504];
+
+interface IdempotencyRecord {
+  state: 'in-progress' | 'awaiting-result' | 'completed';
+  fingerprint: string;
+  statusCode?: number;
+  contentType?: string;
+  body?: string;
+  encoding?: 'utf8' | 'base64';
+  createdAt: number;
+}
+
+// Request IDs that timed out, mapped to the idempotency record waiting for their result
+const lateResults = new Map<string, { storeKey: string; expiresAt: number }>();
+
+let pruneInterval: NodeJS.Timeout | null = null;
+
+function startPruning(): void {
+  if (pruneInterval) return;
+  pruneInterval = setInterval(() => {
+    const now = Date.now();
+    for (const [requestId, entry] of lateResults) {
+      if (entry.expiresAt <= now) lateResults.delete(requestId);
+    }
+  }, 60000);
+  pruneInterval.unref();
+}
+
+// Binary uploads are streamed or buffered by the route after this runs, so their contents are unknown here
+function hasUnreadBody(req: Request): boolean {
+  const hasBody = req.get('transfer-encoding') !== undefined || parseInt(req.get('content-length') || '0', 10) > 0;
+  return hasBody && !Buffer.isBuffer(req.body) && !req.readableEnded;
+}
+
+function fingerprintRequest(req: Request): string {
+  const hash = crypto.createHash('sha256')
+    .update(req.method)
+    .update('\n')
+    .update(req.path)
+    .update('\n')
+    .update(JSON.stringify(req.query))
+    .update('\n');
+
+  if (Buffer.isBuffer(req.body)) {
+    hash.update(req.body);
+  } else {
+    hash.update(JSON.stringify(req.body ?? null));
+  }
+  return hash.digest('hex');
+}
+
+function replay(res: Response, record: IdempotencyRecord): void {
+  res.setHeader('Idempotent-Replayed', 'true');
+  if (record.contentType) {
+    res.setHeader('Content-Type', record.contentType);
+  }
+  const body = record.encoding === 'base64' ? Buffer.from(record.body || '', 'base64') : record.body;
+  res.status(record.statusCode || 200).send(body);
+}
+
+// Decide what to keep once the first request has responded
+async function finalize(storeKey: string, fingerprint: string, statusCode: number, body: any, contentType?: string): Promise<void> {
+  if (TIMEOUT_STATUSES.includes(statusCode)) {
+    await setRecord<IdempotencyRecord>(
+      storeKey,
+      { state: 'awaiting-result', fingerprint, createdAt: Date.now() },
+      Math.ceil(IDEMPOTENCY_LATE_RESULT_WINDOW_MS / 1000)
+    );
+    return;
+  }
+
+  if (statusCode >= 500 || RETRYABLE_STATUSES.includes(statusCode)) {
+    await deleteRecord(storeKey);
+    return;
+  }
+
+  const isBinary = Buffer.isBuffer(body);
+  await setRecord<IdempotencyRecord>(storeKey, {
+    state: 'completed',
+    fingerprint,
+    statusCode,
+    contentType,
+    body: isBinary ? body.toString('base64') : (typeof body === 'string' ? body : JSON.stringify(body ?? null)),
+    encoding: isBinary ? 'base64' : 'utf8',
+    createdAt: Date.now()
+  }, IDEMPOTENCY_TTL_SECONDS);
+}
+
+/**
+ * Makes POST, PUT and DELETE requests with an Idempotency-Key header safe to retry.
+ *
+ * The first response for an API key + idempotency key pair is stored and replayed for
+ * later requests with the same key. If the first request timed out waiting for Foundry,
+ * retries get a 409 until the late result arrives, and the real outcome after that.
+ * Must run after authMiddleware and before trackApiUsage so replays are not counted.
+ */
+export async function idempotencyMiddleware(req: Request, res: Response, next: NextFunction): Promise<void> {
+  if (!MUTATING_METHODS.includes(req.method)) {
+    return next();
+  }
+
+  const key = req.header('Idempotency-Key');
+  if (key === undefined) {
+    return next();
+  }
+
+  if (!key || key.length > MAX_KEY_LENGTH) {
+    sendValidationError(res, validationError(
+      `Idempotency-Key must be between 1 and ${MAX_KEY_LENGTH} characters`,
+      'Idempotency-Key',
+      "Send a unique value such as a UUID in the Idempotency-Key header",
+      ValidationErrorCode.OutOfRange
+    ));
+    return;
+  }
+
+  // A retry with another file of the same size could not be told apart from the original
+  if (hasUnreadBody(req)) {
+    sendValidationError(res, validationError(
+      "Idempotency-Key cannot be used with binary uploads",
+      'Idempotency-Key',
+      "Send the file as JSON with base64 fileData to make the upload idempotent, or leave out the Idempotency-Key header",
+      ValidationErrorCode.InvalidParameter
+    ));
+    return;
+  }
+
+  const storeKey = `idempotency:${req.accountKey}:${key}`;
+  const fingerprint = fingerprintRequest(req);
+
+  try {
+    const created = await setRecord<IdempotencyRecord>(
+      storeKey,
+      { state: 'in-progress', fingerprint, createdAt: Date.now() },
+      IN_PROGRESS_TTL_SECONDS,
+      { onlyIfAbsent: true }
+    );
+
+    if (!created) {
+      const existing = await getRecord<IdempotencyRecord>(storeKey);
+
+      if (existing && existing.fingerprint !== fingerprint) {
+        safeResponse(res, 422, validationError(
+          "Idempotency-Key was already used for a different request",
+          'Idempotency-Key',
+          "Use a new Idempotency-Key for each distinct request",
+          ValidationErrorCode.InvalidValue
+        ));
+        return;
+      }
+
+      if (existing?.state === 'completed') {
+        log.info(`Replaying stored response for idempotency key ${key}`);
+        replay(res, existing);
+        return;
+      }
+
+      if (existing) {
+        res.setHeader('Retry-After', '2');
+        safeResponse(res, 409, {
+          error: existing.state === 'awaiting-result'
+            ? "The original request timed out and its result has not arrived from Foundry yet"
+            : "A request with this Idempotency-Key is still being processed",
+          howToUse: "Retry the request with the same Idempotency-Key later"
+        });
+        return;
+      }
+
+      // The record expired between the two lookups, so handle the request without one
+      log.warn(`Idempotency record ${key} disappeared, processing request without it`);
+      return next();
+    }
+  } catch (error) {
+    log.error(`Idempotency store unavailable, processing request without it: ${error}`);
+    return next();
+  }
+
+  req.idempotencyKey = storeKey;
+
+  // Capture the first response written by the route
+  const originalSend = res.send.bind(res);
+  let captured = false;
+  res.send = (body?: any) => {
+    if (!captured) {
+      captured = true;
+      const contentType = res.getHeader('Content-Type');
+      finalize(storeKey, fingerprint, res.statusCode, body, contentType ? String(contentType) : undefined).catch(error => {
+        log.error(`Error storing idempotent response for ${key}: ${error}`);
+      });
+    }
+    return originalSend(body);
+  };
+
+  next();
+}
+
+/**
+ * Keep listening for the result of a timed-out request made with an Idempotency-Key.
+ */
+export function awaitLateResult(requestId: string, storeKey: string): void {
+  lateResults.set(requestId, { storeKey, expiresAt: Date.now() + IDEMPOTENCY_LATE_RESULT_WINDOW_MS });
+  startPruning();
+}
+
+/**
+ * Store the result of a request that already timed out so retries can replay it.
+ * Returns false if the request was not made with an Idempotency-Key.
+ */
+export async function recordLateResult(requestId: string, statusCode: number, body: any): Promise<boolean> {
+  const entry = lateResults.get(requestId);
+  if (!entry || entry.expiresAt <= Date.now()) {
+    lateResults.delete(requestId);
+    return false;
+  }
+  lateResults.delete(requestId);
+
+  const record = await getRecord<IdempotencyRecord>(entry.storeKey);
+  if (!record || record.state !== 'awaiting-result') {
+    return false;
+  }
+
+  await finalize(entry.storeKey, record.fingerprint, statusCode, JSON.stringify(sanitizeResponse(body)), 'application/json; charset=utf-8');
+  log.info(`Stored late result for timed-out request ${requestId}`);
+  return true;
+}
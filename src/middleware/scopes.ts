@@ -0,0 +1,82 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { ApiKeyScope } from '../models/apiKey';
+import { safeResponse } from '../routes/shared';
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set when the request was made with an additional API key rather than the account's primary key
+      apiKeyScope?: {
+        id: number;
+        name: string;
+        scopes: ApiKeyScope[];
+        clientIds: string[] | null;
+      };
+    }
+  }
+}
+
+// Endpoints that need a specific scope, any other GET needs 'read' and anything else 'write'
+const SCOPED_ROUTES: { path: RegExp; methods?: string[]; scope: ApiKeyScope | null }[] = [
+  { path: /^\/execute-js$/, scope: 'execute-js' },
+  { path: /^\/roll$/, methods: ['POST'], scope: 'roll' },
+  { path: /^\/(file-system|upload|download)$/, scope: 'files' },
+  { path: /^\/(session-handshake|start-session|end-session|session)$/, scope: 'session' },
+  // Each sub-request of a batch is checked on its own
+  { path: /^\/batch$/, scope: null },
+  // Only the account's primary key may use these, which the routers check themselves
+  { path: /^\/api-keys(\/[^/]+)?$/, scope: null },
+  { path: /^\/usage$/, scope: null },
+  { path: /^\/audit$/, scope: null },
+  { path: /^\/admin(\/.*)?$/, scope: null }
+];
+
+/**
+ * The scope an API key needs for a request, or null if any valid key may make it.
+ */
+export function requiredScope(method: string, path: string): ApiKeyScope | null {
+  const upperMethod = method.toUpperCase();
+  for (const rule of SCOPED_ROUTES) {
+    if (rule.path.test(path) && (!rule.methods || rule.methods.includes(upperMethod))) {
+      return rule.scope;
+    }
+  }
+  return upperMethod === 'GET' ? 'read' : 'write';
+}
+
+export function hasScope(req: Request, scope: ApiKeyScope | null): boolean {
+  return !scope || !req.apiKeyScope || req.apiKeyScope.scopes.includes(scope);
+}
+
+/**
+ * Whether the API key of the request may target a Foundry client.
+ */
+export function canAccessClient(req: Request, clientId: string): boolean {
+  const clientIds = req.apiKeyScope?.clientIds;
+  return !clientIds || clientIds.length === 0 || clientIds.includes(clientId);
+}
+
+export function sendScopeError(res: Response, scope: ApiKeyScope): void {
+  safeResponse(res, 403, {
+    error: `This API key does not have the '${scope}' scope`,
+    requiredScope: scope
+  });
+}
+
+export function sendClientAccessError(res: Response, clientId: string): void {
+  safeResponse(res, 403, { error: `This API key is not allowed to access client ${clientId}` });
+}
+
+/**
+ * Reject requests made with an additional API key. `action` completes the error message,
+ * e.g. "API keys can only be managed".
+ */
+export function requirePrimaryKey(action: string): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (req.apiKeyScope) {
+      safeResponse(res, 403, { error: `${action} with the account's primary API key` });
+      return;
+    }
+    next();
+  };
+}
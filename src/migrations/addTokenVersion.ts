@@ -0,0 +1,45 @@
+import { sequelize } from '../sequelize';
+import { log } from '../utils/logger';
+
+/**
+ * Migration to add the tokenVersion column
+ * Dashboard access tokens carry the user's tokenVersion, and incrementing it ends every session.
+ * The RefreshTokens table itself is created by sequelize.sync().
+ */
+export async function migrateTokenVersion(): Promise<void> {
+  try {
+    log.info('Starting migration to add the tokenVersion column');
+
+    // Check if we're using memory store (skip migration)
+    const isMemoryStore = process.env.DB_TYPE === 'memory';
+    if (isMemoryStore) {
+      log.info('Using memory store - skipping database migration');
+      return;
+    }
+
+    // Check if sequelize has query method (only available for SQL databases)
+    if (!('query' in sequelize)) {
+      log.warn('Database does not support migrations - skipping');
+      return;
+    }
+
+    try {
+      await (sequelize as any).query(`
+        ALTER TABLE "Users"
+        ADD COLUMN "tokenVersion" INTEGER NOT NULL DEFAULT 0;
+      `);
+      log.info('Added tokenVersion column');
+    } catch (error: any) {
+      if (error.message.includes('already exists') || error.message.includes('duplicate column name')) {
+        log.info('tokenVersion column already exists - skipping');
+      } else {
+        throw error;
+      }
+    }
+
+    log.info('Migration completed successfully');
+  } catch (error) {
+    log.error('Migration failed', { error });
+    throw error;
+  }
+}
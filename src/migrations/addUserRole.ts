@@ -0,0 +1,44 @@
+import { sequelize } from '../sequelize';
+import { log } from '../utils/logger';
+
+/**
+ * Migration to add the role column
+ * Existing users become regular users, admins are promoted with `npm run set-role`.
+ */
+export async function migrateUserRole(): Promise<void> {
+  try {
+    log.info('Starting migration to add the role column');
+
+    // Check if we're using memory store (skip migration)
+    const isMemoryStore = process.env.DB_TYPE === 'memory';
+    if (isMemoryStore) {
+      log.info('Using memory store - skipping database migration');
+      return;
+    }
+
+    // Check if sequelize has query method (only available for SQL databases)
+    if (!('query' in sequelize)) {
+      log.warn('Database does not support migrations - skipping');
+      return;
+    }
+
+    try {
+      await (sequelize as any).query(`
+        ALTER TABLE "Users"
+        ADD COLUMN "role" VARCHAR(255) NOT NULL DEFAULT 'user';
+      `);
+      log.info('Added role column');
+    } catch (error: any) {
+      if (error.message.includes('already exists') || error.message.includes('duplicate column name')) {
+        log.info('role column already exists - skipping');
+      } else {
+        throw error;
+      }
+    }
+
+    log.info('Migration completed successfully');
+  } catch (error) {
+    log.error('Migration failed', { error });
+    throw error;
+  }
+}
@@ -0,0 +1,71 @@
+import { sequelize } from '../sequelize';
+import { log } from '../utils/logger';
+import { apiKeyPrefix, hashApiKey } from '../utils/apiKeyHash';
+
+const COLUMNS: { name: string; type: string }[] = [
+  { name: 'apiKeyPrefix', type: 'VARCHAR(255)' },
+  { name: 'previousApiKeyHash', type: 'VARCHAR(255)' },
+  { name: 'previousApiKeyPrefix', type: 'VARCHAR(255)' },
+  { name: 'previousApiKeyExpiresAt', type: 'TIMESTAMP' }
+];
+
+/**
+ * Migration to store API keys as a prefix and hash
+ * This adds the key rotation columns to the Users table and replaces every plaintext
+ * key in the "apiKey" column with its hash. Keys keep working, they are just no longer readable.
+ */
+export async function migrateHashApiKeys(): Promise<void> {
+  try {
+    log.info('Starting migration to hash stored API keys');
+
+    // Check if we're using memory store (skip migration)
+    const isMemoryStore = process.env.DB_TYPE === 'memory';
+    if (isMemoryStore) {
+      log.info('Using memory store - skipping database migration');
+      return;
+    }
+
+    // Check if sequelize has query method (only available for SQL databases)
+    if (!('query' in sequelize)) {
+      log.warn('Database does not support migrations - skipping');
+      return;
+    }
+
+    for (const column of COLUMNS) {
+      try {
+        await (sequelize as any).query(`
+          ALTER TABLE "Users"
+          ADD COLUMN "${column.name}" ${column.type};
+        `);
+        log.info(`Added ${column.name} column`);
+      } catch (error: any) {
+        if (error.message.includes('already exists') || error.message.includes('duplicate column name')) {
+          log.info(`${column.name} column already exists - skipping`);
+        } else {
+          throw error;
+        }
+      }
+    }
+
+    await (sequelize as any).query(`
+      CREATE INDEX IF NOT EXISTS "users_api_key_prefix" ON "Users" ("apiKeyPrefix");
+    `);
+
+    // Rows without a prefix still hold the plaintext key
+    const [rows] = await (sequelize as any).query(`
+      SELECT "id", "apiKey" FROM "Users" WHERE "apiKeyPrefix" IS NULL;
+    `);
+
+    for (const row of rows as { id: number; apiKey: string }[]) {
+      await (sequelize as any).query(
+        `UPDATE "Users" SET "apiKey" = :hash, "apiKeyPrefix" = :prefix WHERE "id" = :id;`,
+        { replacements: { hash: hashApiKey(row.apiKey), prefix: apiKeyPrefix(row.apiKey), id: row.id } }
+      );
+    }
+
+    log.info(`Migration completed successfully, hashed ${rows.length} API key(s)`);
+  } catch (error) {
+    log.error('Migration failed', { error });
+    throw error;
+  }
+}
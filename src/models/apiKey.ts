@@ -0,0 +1,152 @@
+import { Model, DataTypes, Sequelize } from 'sequelize';
+import { sequelize } from '../sequelize';
+import { apiKeyPrefix, hashApiKey, matchesApiKeyHash } from '../utils/apiKeyHash';
+
+// Check if we're using the memory store
+const isMemoryStore = process.env.DB_TYPE === 'memory';
+
+/**
+ * Permissions that can be granted to an additional API key.
+ * The account's primary API key always has every scope.
+ */
+export const API_KEY_SCOPES = ['read', 'write', 'roll', 'execute-js', 'files', 'session'] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+export class ApiKey extends Model {
+  declare id: number;
+  declare userId: number;
+  declare name: string;
+  declare prefix: string;
+  declare keyHash: string;
+  declare scopes: ApiKeyScope[];
+  declare clientIds: string[] | null;
+  declare expiresAt: Date | null;
+  declare lastUsedAt: Date | null;
+  declare createdAt: Date;
+  declare updatedAt: Date;
+
+  /**
+   * Attributes that store a key. Only its prefix and hash are kept.
+   */
+  static keyFields(key: string): { prefix: string; keyHash: string } {
+    return { prefix: apiKeyPrefix(key), keyHash: hashApiKey(key) };
+  }
+
+  static async findByKey(key: string): Promise<any> {
+    if (!key) return null;
+
+    const candidates = await this.findAll({ where: { prefix: apiKeyPrefix(key) } });
+    return candidates.find(candidate => matchesApiKeyHash(key, candidate.getDataValue('keyHash'))) || null;
+  }
+
+  // Memory store methods
+  static async findAll(options: any): Promise<any[]> {
+    if (isMemoryStore) {
+      const keys = Array.from(((sequelize as any).scopedApiKeys as Map<number, any>).values());
+      return keys.filter(k => matchesWhere(k, options?.where));
+    }
+    return super.findAll(options);
+  }
+
+  static async findOne(options: any): Promise<any> {
+    if (isMemoryStore) {
+      const keys = await this.findAll(options);
+      return keys[0] || null;
+    }
+    return super.findOne(options);
+  }
+
+  static async create(data: any): Promise<any> {
+    if (isMemoryStore) {
+      const memoryStore = sequelize as any;
+      const keys: Map<number, any> = memoryStore.scopedApiKeys;
+      const id = (memoryStore.nextScopedApiKeyId = (memoryStore.nextScopedApiKeyId || 0) + 1);
+
+      const apiKey: any = {
+        id,
+        userId: data.userId,
+        name: data.name,
+        prefix: data.prefix,
+        keyHash: data.keyHash,
+        scopes: data.scopes || [],
+        clientIds: data.clientIds || null,
+        expiresAt: data.expiresAt || null,
+        lastUsedAt: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        getDataValue: function(key: string): any {
+          return (this as any)[key];
+        },
+        update: async function(values: Record<string, any>): Promise<any> {
+          Object.assign(this, values, { updatedAt: new Date() });
+          return this;
+        },
+        destroy: async function(): Promise<void> {
+          keys.delete(id);
+        }
+      };
+
+      keys.set(id, apiKey);
+      return apiKey;
+    }
+    return super.create(data);
+  }
+}
+
+function matchesWhere(record: any, where: Record<string, any> | undefined): boolean {
+  if (!where) return true;
+  return Object.entries(where).every(([key, value]) => record[key] === value);
+}
+
+// Initialize with Sequelize if not using memory store
+if (!isMemoryStore) {
+  ApiKey.init({
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false
+    },
+    name: {
+      type: DataTypes.STRING,
+      allowNull: false
+    },
+    prefix: {
+      type: DataTypes.STRING,
+      allowNull: false
+    },
+    keyHash: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      unique: true
+    },
+    scopes: {
+      type: DataTypes.JSON,
+      allowNull: false,
+      defaultValue: []
+    },
+    clientIds: {
+      type: DataTypes.JSON,
+      allowNull: true
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    lastUsedAt: {
+      type: DataTypes.DATE,
+      allowNull: true
+    }
+  }, {
+    sequelize: sequelize as Sequelize,
+    modelName: 'ApiKey',
+    tableName: 'ApiKeys',
+    indexes: [{ fields: ['userId'] }, { fields: ['prefix'] }]
+  });
+}
+
+export default ApiKey;
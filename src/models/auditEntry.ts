@@ -0,0 +1,176 @@
+import { Model, DataTypes, Sequelize, Op } from 'sequelize';
+import { sequelize } from '../sequelize';
+
+// Check if we're using the memory store
+const isMemoryStore = process.env.DB_TYPE === 'memory';
+
+export interface AuditEntryFilter {
+  userId: number;
+  clientId?: string;
+  type?: string;
+  from?: Date;
+  to?: Date;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * A request that changed a Foundry world, with the API key and client it came from.
+ * The payload is stored sanitized, see AuditLog.
+ */
+export class AuditEntry extends Model {
+  declare id: number;
+  declare userId: number;
+  /** null for the account's primary key */
+  declare apiKeyId: number | null;
+  declare clientId: string;
+  declare type: string;
+  declare method: string;
+  declare path: string;
+  declare targetUuid: string | null;
+  declare payload: Record<string, any> | null;
+  declare statusCode: number;
+  declare durationMs: number;
+  declare jobId: string | null;
+  declare createdAt: Date;
+  declare updatedAt: Date;
+
+  // Memory store methods
+  static async create(data: any): Promise<any> {
+    if (isMemoryStore) {
+      const memoryStore = sequelize as any;
+      const entries: Map<number, any> = memoryStore.auditEntries;
+      const id = (memoryStore.nextAuditEntryId = (memoryStore.nextAuditEntryId || 0) + 1);
+
+      const entry: any = {
+        id,
+        ...data,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        getDataValue: function(key: string): any {
+          return (this as any)[key];
+        }
+      };
+
+      entries.set(id, entry);
+      return entry;
+    }
+    return super.create(data);
+  }
+
+  /**
+   * An account's entries matching a filter, newest first, with the total number of matches.
+   */
+  static async search(filter: AuditEntryFilter): Promise<{ entries: any[]; total: number }> {
+    if (isMemoryStore) {
+      const entries = Array.from(((sequelize as any).auditEntries as Map<number, any>).values())
+        .filter(entry =>
+          entry.userId === filter.userId &&
+          (filter.clientId === undefined || entry.clientId === filter.clientId) &&
+          (filter.type === undefined || entry.type === filter.type) &&
+          (!filter.from || entry.createdAt >= filter.from) &&
+          (!filter.to || entry.createdAt <= filter.to)
+        )
+        .reverse();
+      return { entries: entries.slice(filter.offset, filter.offset + filter.limit), total: entries.length };
+    }
+
+    const where: Record<string, any> = { userId: filter.userId };
+    if (filter.clientId !== undefined) where.clientId = filter.clientId;
+    if (filter.type !== undefined) where.type = filter.type;
+    if (filter.from || filter.to) {
+      where.createdAt = {
+        ...(filter.from ? { [Op.gte]: filter.from } : {}),
+        ...(filter.to ? { [Op.lte]: filter.to } : {})
+      };
+    }
+
+    const { rows, count } = await this.findAndCountAll({
+      where,
+      order: [['createdAt', 'DESC']],
+      limit: filter.limit,
+      offset: filter.offset
+    });
+    return { entries: rows, total: count };
+  }
+
+  /**
+   * Delete entries created before a date. Returns the number of entries deleted.
+   */
+  static async pruneBefore(date: Date): Promise<number> {
+    if (isMemoryStore) {
+      const entries: Map<number, any> = (sequelize as any).auditEntries;
+      let deleted = 0;
+      for (const [id, entry] of entries) {
+        if (entry.createdAt < date) {
+          entries.delete(id);
+          deleted++;
+        }
+      }
+      return deleted;
+    }
+    return this.destroy({ where: { createdAt: { [Op.lt]: date } } });
+  }
+}
+
+// Initialize with Sequelize if not using memory store
+if (!isMemoryStore) {
+  AuditEntry.init({
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false
+    },
+    apiKeyId: {
+      type: DataTypes.INTEGER,
+      allowNull: true
+    },
+    clientId: {
+      type: DataTypes.STRING,
+      allowNull: false
+    },
+    type: {
+      type: DataTypes.STRING,
+      allowNull: false
+    },
+    method: {
+      type: DataTypes.STRING,
+      allowNull: false
+    },
+    path: {
+      type: DataTypes.STRING,
+      allowNull: false
+    },
+    targetUuid: {
+      type: DataTypes.STRING,
+      allowNull: true
+    },
+    payload: {
+      type: DataTypes.JSON,
+      allowNull: true
+    },
+    statusCode: {
+      type: DataTypes.INTEGER,
+      allowNull: false
+    },
+    durationMs: {
+      type: DataTypes.INTEGER,
+      allowNull: false
+    },
+    jobId: {
+      type: DataTypes.STRING,
+      allowNull: true
+    }
+  }, {
+    sequelize: sequelize as Sequelize,
+    modelName: 'AuditEntry',
+    tableName: 'AuditEntries',
+    indexes: [{ fields: ['userId', 'createdAt'] }, { fields: ['clientId'] }, { fields: ['createdAt'] }]
+  });
+}
+
+export default AuditEntry;
@@ -1,6 +1,6 @@
 import { sequelize } from '../sequelize';
 import { User } from './user'; 
-import crypto from 'crypto';
+import { generateApiKey } from '../utils/apiKeyHash';
 import { log } from '../utils/logger';
 
 async function initializeDatabase() {
@@ -20,10 +20,11 @@ async function initializeDatabase() {
     // Create a default admin user with a plain password - it will be hashed by the hook
     log.info('Creating admin user...');
     
+    const apiKey = generateApiKey();
     const user = await User.create({
       email: 'admin@example.com',
       password: 'admin123',
-      apiKey: crypto.randomBytes(16).toString('hex'),
+      ...User.apiKeyFields(apiKey),
       requestsThisMonth: 0
     });
     
@@ -33,7 +34,8 @@ async function initializeDatabase() {
       return false;
     }
     
-    log.info('Admin user created', { apiKey: user.getDataValue('apiKey') });
+    // Only the key's hash is stored, so this is the only time it can be shown
+    log.info('Admin user created', { apiKey });
     log.info('Database initialization complete!');
     return true;
   } catch (error) {
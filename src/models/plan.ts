@@ -0,0 +1,145 @@
+import { Model, DataTypes, Sequelize } from 'sequelize';
+import { sequelize } from '../sequelize';
+
+// Check if we're using the memory store
+const isMemoryStore = process.env.DB_TYPE === 'memory';
+
+// Endpoints a plan has to include, named like the API key scopes they belong to
+export const PLAN_FEATURES = ['execute-js', 'files'] as const;
+export type PlanFeature = typeof PLAN_FEATURES[number];
+
+/**
+ * A subscription tier and the limits that come with it. Users are on the 'free' plan
+ * unless they have an active subscription, whose Stripe price selects the plan.
+ */
+export class Plan extends Model {
+  declare id: number;
+  declare name: string;
+  /** null for unlimited */
+  declare monthlyRequestLimit: number | null;
+  declare dailyRequestLimit: number;
+  declare keyRequestsPerSecond: number;
+  declare keyBurst: number;
+  declare clientRequestsPerSecond: number;
+  declare clientBurst: number;
+  /** null for unlimited */
+  declare maxHeadlessSessions: number | null;
+  /** null for unlimited */
+  declare maxConnectedWorlds: number | null;
+  declare features: PlanFeature[];
+  declare createdAt: Date;
+  declare updatedAt: Date;
+
+  // Memory store methods
+  static async findAll(options?: any): Promise<any[]> {
+    if (isMemoryStore) {
+      const plans = Array.from(((sequelize as any).plans as Map<string, any>).values());
+      return plans.filter(p => matchesWhere(p, options?.where));
+    }
+    return super.findAll(options);
+  }
+
+  static async findOne(options: any): Promise<any> {
+    if (isMemoryStore) {
+      const plans = await this.findAll(options);
+      return plans[0] || null;
+    }
+    return super.findOne(options);
+  }
+
+  static async create(data: any): Promise<any> {
+    if (isMemoryStore) {
+      const memoryStore = sequelize as any;
+      const plans: Map<string, any> = memoryStore.plans;
+      if (plans.has(data.name)) {
+        throw new Error('Plan already exists');
+      }
+
+      const plan: any = {
+        id: plans.size + 1,
+        ...data,
+        monthlyRequestLimit: data.monthlyRequestLimit ?? null,
+        maxHeadlessSessions: data.maxHeadlessSessions ?? null,
+        maxConnectedWorlds: data.maxConnectedWorlds ?? null,
+        features: data.features || [],
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        getDataValue: function(key: string): any {
+          return (this as any)[key];
+        },
+        update: async function(values: Record<string, any>): Promise<any> {
+          Object.assign(this, values, { updatedAt: new Date() });
+          return this;
+        }
+      };
+
+      plans.set(plan.name, plan);
+      return plan;
+    }
+    return super.create(data);
+  }
+}
+
+function matchesWhere(record: any, where: Record<string, any> | undefined): boolean {
+  if (!where) return true;
+  return Object.entries(where).every(([key, value]) => record[key] === value);
+}
+
+// Initialize with Sequelize if not using memory store
+if (!isMemoryStore) {
+  Plan.init({
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true
+    },
+    name: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      unique: true
+    },
+    monthlyRequestLimit: {
+      type: DataTypes.INTEGER,
+      allowNull: true
+    },
+    dailyRequestLimit: {
+      type: DataTypes.INTEGER,
+      allowNull: false
+    },
+    keyRequestsPerSecond: {
+      type: DataTypes.FLOAT,
+      allowNull: false
+    },
+    keyBurst: {
+      type: DataTypes.INTEGER,
+      allowNull: false
+    },
+    clientRequestsPerSecond: {
+      type: DataTypes.FLOAT,
+      allowNull: false
+    },
+    clientBurst: {
+      type: DataTypes.INTEGER,
+      allowNull: false
+    },
+    maxHeadlessSessions: {
+      type: DataTypes.INTEGER,
+      allowNull: true
+    },
+    maxConnectedWorlds: {
+      type: DataTypes.INTEGER,
+      allowNull: true
+    },
+    features: {
+      type: DataTypes.JSON,
+      allowNull: false,
+      defaultValue: []
+    }
+  }, {
+    sequelize: sequelize as Sequelize,
+    modelName: 'Plan',
+    tableName: 'Plans'
+  });
+}
+
+export default Plan;
@@ -0,0 +1,143 @@
+import { Model, DataTypes, Sequelize, Op } from 'sequelize';
+import { sequelize } from '../sequelize';
+
+// Check if we're using the memory store
+const isMemoryStore = process.env.DB_TYPE === 'memory';
+
+/**
+ * A dashboard refresh token. Every refresh replaces the token with a new one of the same
+ * family, so a token that is presented again after being replaced reveals a stolen token.
+ */
+export class RefreshToken extends Model {
+  declare id: number;
+  declare userId: number;
+  declare tokenHash: string;
+  declare familyId: string;
+  declare expiresAt: Date;
+  declare revokedAt: Date | null;
+  declare createdAt: Date;
+  declare updatedAt: Date;
+
+  // Memory store methods
+  static async findAll(options: any): Promise<any[]> {
+    if (isMemoryStore) {
+      const tokens = Array.from(((sequelize as any).refreshTokens as Map<number, any>).values());
+      return tokens.filter(t => matchesWhere(t, options?.where));
+    }
+    return super.findAll(options);
+  }
+
+  static async findOne(options: any): Promise<any> {
+    if (isMemoryStore) {
+      const tokens = await this.findAll(options);
+      return tokens[0] || null;
+    }
+    return super.findOne(options);
+  }
+
+  static async create(data: any): Promise<any> {
+    if (isMemoryStore) {
+      const memoryStore = sequelize as any;
+      const tokens: Map<number, any> = memoryStore.refreshTokens;
+      const id = (memoryStore.nextRefreshTokenId = (memoryStore.nextRefreshTokenId || 0) + 1);
+
+      const token: any = {
+        id,
+        userId: data.userId,
+        tokenHash: data.tokenHash,
+        familyId: data.familyId,
+        expiresAt: data.expiresAt,
+        revokedAt: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        getDataValue: function(key: string): any {
+          return (this as any)[key];
+        },
+        update: async function(values: Record<string, any>): Promise<any> {
+          Object.assign(this, values, { updatedAt: new Date() });
+          return this;
+        }
+      };
+
+      tokens.set(id, token);
+      return token;
+    }
+    return super.create(data);
+  }
+
+  /**
+   * Revoke every active token matching a where clause of plain values. Returns the number
+   * of tokens revoked, a token that was already revoked is not counted.
+   */
+  static async revokeWhere(where: Record<string, any>): Promise<number> {
+    if (isMemoryStore) {
+      // Matched and revoked without yielding, like the conditional update of the database
+      const tokens = Array.from(((sequelize as any).refreshTokens as Map<number, any>).values())
+        .filter(t => matchesWhere(t, { ...where, revokedAt: null }));
+      for (const token of tokens) {
+        Object.assign(token, { revokedAt: new Date(), updatedAt: new Date() });
+      }
+      return tokens.length;
+    }
+    const [revoked] = await this.update({ revokedAt: new Date() }, { where: { ...where, revokedAt: null } });
+    return revoked;
+  }
+
+  /**
+   * Delete a user's tokens that have expired.
+   */
+  static async pruneExpired(userId: number): Promise<void> {
+    if (isMemoryStore) {
+      const tokens: Map<number, any> = (sequelize as any).refreshTokens;
+      for (const [id, token] of tokens) {
+        if (token.userId === userId && token.expiresAt.getTime() <= Date.now()) tokens.delete(id);
+      }
+      return;
+    }
+    await this.destroy({ where: { userId, expiresAt: { [Op.lte]: new Date() } } });
+  }
+}
+
+function matchesWhere(record: any, where: Record<string, any> | undefined): boolean {
+  if (!where) return true;
+  return Object.entries(where).every(([key, value]) => record[key] === value);
+}
+
+// Initialize with Sequelize if not using memory store
+if (!isMemoryStore) {
+  RefreshToken.init({
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false
+    },
+    tokenHash: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      unique: true
+    },
+    familyId: {
+      type: DataTypes.STRING,
+      allowNull: false
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false
+    },
+    revokedAt: {
+      type: DataTypes.DATE,
+      allowNull: true
+    }
+  }, {
+    sequelize: sequelize as Sequelize,
+    modelName: 'RefreshToken',
+    tableName: 'RefreshTokens',
+    indexes: [{ fields: ['userId'] }, { fields: ['familyId'] }]
+  });
+}
+
+export default RefreshToken;
@@ -0,0 +1,98 @@
+import { Model, DataTypes, Sequelize } from 'sequelize';
+import { sequelize } from '../sequelize';
+
+// Check if we're using the memory store
+const isMemoryStore = process.env.DB_TYPE === 'memory';
+
+/**
+ * An audit record of a security-relevant event, such as an IP or account being locked
+ * out after repeated failed sign-ins. Never holds passwords or full API keys.
+ */
+export class SecurityEvent extends Model {
+  declare id: number;
+  declare type: string;
+  declare route: string | null;
+  declare ip: string | null;
+  declare identifier: string | null;
+  declare details: Record<string, any> | null;
+  declare createdAt: Date;
+  declare updatedAt: Date;
+
+  // Memory store methods
+  static async findAll(options: any): Promise<any[]> {
+    if (isMemoryStore) {
+      const events = Array.from(((sequelize as any).securityEvents as Map<number, any>).values());
+      return events.filter(e => matchesWhere(e, options?.where)).reverse();
+    }
+    return super.findAll({ order: [['createdAt', 'DESC']], ...options });
+  }
+
+  static async create(data: any): Promise<any> {
+    if (isMemoryStore) {
+      const memoryStore = sequelize as any;
+      const events: Map<number, any> = memoryStore.securityEvents;
+      const id = (memoryStore.nextSecurityEventId = (memoryStore.nextSecurityEventId || 0) + 1);
+
+      const event: any = {
+        id,
+        type: data.type,
+        route: data.route || null,
+        ip: data.ip || null,
+        identifier: data.identifier || null,
+        details: data.details || null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        getDataValue: function(key: string): any {
+          return (this as any)[key];
+        }
+      };
+
+      events.set(id, event);
+      return event;
+    }
+    return super.create(data);
+  }
+}
+
+function matchesWhere(record: any, where: Record<string, any> | undefined): boolean {
+  if (!where) return true;
+  return Object.entries(where).every(([key, value]) => record[key] === value);
+}
+
+// Initialize with Sequelize if not using memory store
+if (!isMemoryStore) {
+  SecurityEvent.init({
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true
+    },
+    type: {
+      type: DataTypes.STRING,
+      allowNull: false
+    },
+    route: {
+      type: DataTypes.STRING,
+      allowNull: true
+    },
+    ip: {
+      type: DataTypes.STRING,
+      allowNull: true
+    },
+    identifier: {
+      type: DataTypes.STRING,
+      allowNull: true
+    },
+    details: {
+      type: DataTypes.JSON,
+      allowNull: true
+    }
+  }, {
+    sequelize: sequelize as Sequelize,
+    modelName: 'SecurityEvent',
+    tableName: 'SecurityEvents',
+    indexes: [{ fields: ['type'] }, { fields: ['createdAt'] }]
+  });
+}
+
+export default SecurityEvent;
@@ -0,0 +1,188 @@
+import { Model, DataTypes, Sequelize, Op } from 'sequelize';
+import { sequelize } from '../sequelize';
+
+// Check if we're using the memory store
+const isMemoryStore = process.env.DB_TYPE === 'memory';
+
+/** The columns that identify a rollup row */
+export interface UsageRollupKey {
+  userId: number;
+  /** YYYY-MM-DD (UTC) */
+  day: string;
+  /** Method and route, e.g. "POST /entity/delete" */
+  endpoint: string;
+  /** Empty for requests without a clientId */
+  clientId: string;
+  /** 0 for the account's primary API key */
+  apiKeyId: number;
+  statusCode: number;
+}
+
+export interface UsageRollupCounts {
+  requestCount: number;
+  quotaUsed: number;
+  totalLatencyMs: number;
+  maxLatencyMs: number;
+}
+
+/**
+ * API usage of an account per day, endpoint, Foundry client, API key and status code.
+ */
+export class UsageRollup extends Model {
+  declare id: number;
+  declare userId: number;
+  declare day: string;
+  declare endpoint: string;
+  declare clientId: string;
+  declare apiKeyId: number;
+  declare statusCode: number;
+  declare requestCount: number;
+  declare quotaUsed: number;
+  declare totalLatencyMs: number;
+  declare maxLatencyMs: number;
+  declare createdAt: Date;
+  declare updatedAt: Date;
+
+  /**
+   * Add counts to the row of a key, creating it if needed.
+   */
+  static async addUsage(key: UsageRollupKey, counts: UsageRollupCounts): Promise<void> {
+    if (isMemoryStore) {
+      const memoryStore = sequelize as any;
+      const rollups: Map<string, any> = memoryStore.usageRollups;
+      const id = [key.userId, key.day, key.endpoint, key.clientId, key.apiKeyId, key.statusCode].join('|');
+      const row = rollups.get(id) || { ...key, requestCount: 0, quotaUsed: 0, totalLatencyMs: 0, maxLatencyMs: 0 };
+      row.requestCount += counts.requestCount;
+      row.quotaUsed += counts.quotaUsed;
+      row.totalLatencyMs += counts.totalLatencyMs;
+      row.maxLatencyMs = Math.max(row.maxLatencyMs, counts.maxLatencyMs);
+      rollups.set(id, row);
+      return;
+    }
+
+    let row = await this.findOne({ where: { ...key } });
+    if (!row) {
+      try {
+        row = await this.create({ ...key, requestCount: 0, quotaUsed: 0, totalLatencyMs: 0, maxLatencyMs: 0 });
+      } catch (error: any) {
+        // Another instance created the row first
+        if (error?.name !== 'SequelizeUniqueConstraintError') throw error;
+        row = await this.findOne({ where: { ...key } });
+        if (!row) throw error;
+      }
+    }
+
+    await row.increment({
+      requestCount: counts.requestCount,
+      quotaUsed: counts.quotaUsed,
+      totalLatencyMs: counts.totalLatencyMs
+    });
+    if (counts.maxLatencyMs > row.getDataValue('maxLatencyMs')) {
+      await row.update({ maxLatencyMs: counts.maxLatencyMs });
+    }
+  }
+
+  /**
+   * Rows between two days (inclusive), of one account or of all.
+   */
+  static async findForPeriod(from: string, to: string, where: { userId?: number; clientId?: string } = {}): Promise<(UsageRollupKey & UsageRollupCounts)[]> {
+    if (isMemoryStore) {
+      const rows = Array.from(((sequelize as any).usageRollups as Map<string, any>).values());
+      return rows.filter(row =>
+        row.day >= from && row.day <= to &&
+        Object.entries(where).every(([key, value]) => value === undefined || row[key] === value)
+      );
+    }
+
+    const filters: Record<string, any> = { day: { [Op.between]: [from, to] } };
+    if (where.userId !== undefined) filters.userId = where.userId;
+    if (where.clientId !== undefined) filters.clientId = where.clientId;
+    const rows = await this.findAll({ where: filters, raw: true });
+    return rows as any;
+  }
+
+  /**
+   * Delete rows of days before the given day. Returns the number of rows deleted.
+   */
+  static async pruneBefore(day: string): Promise<number> {
+    if (isMemoryStore) {
+      const rollups: Map<string, any> = (sequelize as any).usageRollups;
+      let deleted = 0;
+      for (const [id, row] of rollups) {
+        if (row.day < day) {
+          rollups.delete(id);
+          deleted++;
+        }
+      }
+      return deleted;
+    }
+    return this.destroy({ where: { day: { [Op.lt]: day } } });
+  }
+}
+
+// Initialize with Sequelize if not using memory store
+if (!isMemoryStore) {
+  UsageRollup.init({
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false
+    },
+    day: {
+      type: DataTypes.DATEONLY,
+      allowNull: false
+    },
+    endpoint: {
+      type: DataTypes.STRING,
+      allowNull: false
+    },
+    clientId: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      defaultValue: ''
+    },
+    apiKeyId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0
+    },
+    statusCode: {
+      type: DataTypes.INTEGER,
+      allowNull: false
+    },
+    requestCount: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0
+    },
+    quotaUsed: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0
+    },
+    totalLatencyMs: {
+      type: DataTypes.BIGINT,
+      allowNull: false,
+      defaultValue: 0
+    },
+    maxLatencyMs: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0
+    }
+  }, {
+    sequelize: sequelize as Sequelize,
+    modelName: 'UsageRollup',
+    tableName: 'UsageRollups',
+    indexes: [
+      { unique: true, fields: ['userId', 'day', 'endpoint', 'clientId', 'apiKeyId', 'statusCode'] },
+      { fields: ['day'] }
+    ]
+  });
+}
+
+export default UsageRollup;
@@ -1,18 +1,45 @@
-import { Model, DataTypes, Sequelize } from 'sequelize';
+import { Model, DataTypes, Sequelize, Op } from 'sequelize';
 import { sequelize } from '../sequelize';
 import bcrypt from 'bcryptjs';
-import crypto from 'crypto';
 import { log } from '../utils/logger';
+import { apiKeyPrefix, hashApiKey, matchesApiKeyHash } from '../utils/apiKeyHash';
 
 // Check if we're using the memory store
 const isMemoryStore = process.env.DB_TYPE === 'memory';
 
+export type UserRole = 'user' | 'admin';
+
+/**
+ * Key grouping everything that belongs to an account (Foundry clients, sessions, jobs),
+ * so it stays the same when the account's API key is rotated.
+ */
+export function accountKeyFor(userId: number): string {
+  return `user:${userId}`;
+}
+
+export function userIdFromAccountKey(accountKey: string): number | null {
+  const match = /^user:(\d+)$/.exec(accountKey);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+function valueOf(user: any, key: string): any {
+  return user.getDataValue ? user.getDataValue(key) : user[key];
+}
+
 export class User extends Model {
   // Declare types for TypeScript without public fields to avoid Sequelize conflicts
   declare id: number;
   declare email: string;
   declare password: string;
-  declare apiKey: string;
+  declare apiKeyPrefix: string;
+  declare apiKeyHash: string;
+  declare previousApiKeyPrefix: string | null;
+  declare previousApiKeyHash: string | null;
+  declare previousApiKeyExpiresAt: Date | null;
+  declare tokenVersion: number;
+  declare role: UserRole;
+  /** Paid plan of the user's subscription, see Plans.forUser */
+  declare plan: string | null;
   declare requestsThisMonth: number;
   declare requestsToday: number;
   declare lastRequestDate: Date;
@@ -23,14 +50,73 @@ export class User extends Model {
   declare subscriptionId?: string;
   declare subscriptionEndsAt?: Date;
 
+  /**
+   * Attributes that store an API key. Only its prefix and hash are kept.
+   */
+  static apiKeyFields(key: string): { apiKeyPrefix: string; apiKeyHash: string } {
+    return { apiKeyPrefix: apiKeyPrefix(key), apiKeyHash: hashApiKey(key) };
+  }
+
+  /**
+   * Find the user an API key belongs to, accepting the previous key until its grace period ends.
+   */
+  static async findByApiKey(key: string): Promise<any> {
+    if (!key) return null;
+
+    const prefix = apiKeyPrefix(key);
+    let candidates: any[];
+    if (isMemoryStore) {
+      candidates = Array.from((sequelize as any).users.values()).filter((u: any) =>
+        u.apiKeyPrefix === prefix || u.previousApiKeyPrefix === prefix
+      );
+    } else {
+      candidates = await User.findAll({
+        where: { [Op.or]: [{ apiKeyPrefix: prefix }, { previousApiKeyPrefix: prefix }] }
+      });
+    }
+
+    for (const user of candidates) {
+      if (matchesApiKeyHash(key, valueOf(user, 'apiKeyHash'))) {
+        return user;
+      }
+      const previousExpiresAt = valueOf(user, 'previousApiKeyExpiresAt');
+      if (previousExpiresAt && new Date(previousExpiresAt).getTime() > Date.now()
+        && matchesApiKeyHash(key, valueOf(user, 'previousApiKeyHash'))) {
+        return user;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Users whose email contains `query` (case-insensitive), newest first, with the total number of matches.
+   */
+  static async search(query: string, limit: number, offset: number): Promise<{ users: any[]; total: number }> {
+    const needle = query.toLowerCase();
+    if (isMemoryStore) {
+      const users = Array.from((sequelize as any).users.values())
+        .filter((u: any) => u.email.toLowerCase().includes(needle))
+        .reverse();
+      return { users: users.slice(offset, offset + limit), total: users.length };
+    }
+
+    const { rows, count } = await User.findAndCountAll({
+      where: Sequelize.where(Sequelize.fn('lower', Sequelize.col('email')), { [Op.like]: `%${needle}%` }),
+      order: [['createdAt', 'DESC']],
+      limit,
+      offset
+    });
+    return { users: rows, total: count };
+  }
+
   // Memory store methods
   static async findOne(options: any): Promise<any> {
     if (isMemoryStore) {
-      if (options.where && options.where.apiKey) {
-        return (sequelize as any).getUser(options.where.apiKey);
+      const users = Array.from((sequelize as any).users.values());
+      if (options.where && options.where.id !== undefined) {
+        return users.find(u => (u as User).id === options.where.id) || null;
       }
       if (options.where && options.where.email) {
-        const users = Array.from((sequelize as any).users.values());
         return users.find(u => (u as User).email === options.where.email) || null;
       }
       return null;
@@ -49,8 +135,16 @@ export class User extends Model {
       const user: any = {
         id: memoryStore.users.size + 1,
         email: data.email,
-        password: data.password,
-        apiKey: data.apiKey || crypto.randomBytes(16).toString('hex'),
+        // Hashed like the beforeCreate hook does, so login works against the memory store
+        password: data.password ? await bcrypt.hash(data.password, 10) : data.password,
+        apiKeyPrefix: data.apiKeyPrefix,
+        apiKeyHash: data.apiKeyHash,
+        previousApiKeyPrefix: null,
+        previousApiKeyHash: null,
+        previousApiKeyExpiresAt: null,
+        tokenVersion: 0,
+        role: data.role || 'user',
+        plan: data.plan || null,
         requestsThisMonth: data.requestsThisMonth || 0,
         requestsToday: data.requestsToday || 0,
         lastRequestDate: data.lastRequestDate || null,
@@ -62,11 +156,15 @@ export class User extends Model {
         },
         setDataValue: function(key: string, value: any): void { 
           (this as any)[key] = value; 
+        },
+        update: async function(values: Record<string, any>): Promise<any> {
+          const password = values.password ? await bcrypt.hash(values.password, 10) : undefined;
+          Object.assign(this, values, password ? { password } : {}, { updatedAt: new Date() });
+          return this;
         }
       };
       
       memoryStore.users.set(data.email, user);
-      memoryStore.apiKeys.set(user.apiKey, data.email);
       
       return user;
     }
@@ -76,12 +174,7 @@ export class User extends Model {
 
   static async findAll(options: any): Promise<any[]> {
     if (isMemoryStore) {
-      const memoryStore = sequelize as any;
-      if (options.where && options.where.apiKey) {
-        const user = memoryStore.getUser(options.where.apiKey);
-        return user ? [user] : [];
-      }
-      return Array.from(memoryStore.users.values());
+      return Array.from((sequelize as any).users.values());
     }
     return super.findAll(options);
   }
@@ -107,11 +200,34 @@ if (!isMemoryStore) {
       type: DataTypes.STRING,
       allowNull: false
     },
-    apiKey: {
+    // The column keeps its original name so existing databases need no constraint changes
+    apiKeyHash: {
       type: DataTypes.STRING,
       allowNull: false,
       unique: true,
-      defaultValue: () => crypto.randomBytes(16).toString('hex')
+      field: 'apiKey'
+    },
+    apiKeyPrefix: {
+      type: DataTypes.STRING,
+      allowNull: true
+    },
+    previousApiKeyHash: {
+      type: DataTypes.STRING,
+      allowNull: true
+    },
+    previousApiKeyPrefix: {
+      type: DataTypes.STRING,
+      allowNull: true
+    },
+    previousApiKeyExpiresAt: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    // Incremented to invalidate every dashboard access token of the user
+    tokenVersion: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0
     },
     requestsThisMonth: {
       type: DataTypes.INTEGER,
@@ -134,6 +250,17 @@ if (!isMemoryStore) {
       allowNull: true,
       defaultValue: 'free'
     },
+    // 'admin' grants access to the /admin endpoints
+    role: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      defaultValue: 'user'
+    },
+    // Plan of the subscription's Stripe price, only used while the subscription is active
+    plan: {
+      type: DataTypes.STRING,
+      allowNull: true
+    },
     subscriptionId: {
       type: DataTypes.STRING,
       allowNull: true
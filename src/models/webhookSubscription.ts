@@ -0,0 +1,155 @@
+import { Model, DataTypes, Sequelize } from 'sequelize';
+import { sequelize } from '../sequelize';
+import crypto from 'crypto';
+
+// Check if we're using the memory store
+const isMemoryStore = process.env.DB_TYPE === 'memory';
+
+export class WebhookSubscription extends Model {
+  declare id: number;
+  declare userId: number;
+  declare url: string;
+  declare events: string[];
+  declare clientId: string | null;
+  declare secret: string;
+  declare active: boolean;
+  declare consecutiveFailures: number;
+  declare lastStatus: number | null;
+  declare lastError: string | null;
+  declare lastDeliveryAt: Date | null;
+  declare disabledAt: Date | null;
+  declare createdAt: Date;
+  declare updatedAt: Date;
+
+  // Memory store methods
+  static async findAll(options: any): Promise<any[]> {
+    if (isMemoryStore) {
+      const subscriptions = Array.from(((sequelize as any).webhookSubscriptions as Map<number, any>).values());
+      return subscriptions.filter(s => matchesWhere(s, options?.where));
+    }
+    return super.findAll(options);
+  }
+
+  static async findOne(options: any): Promise<any> {
+    if (isMemoryStore) {
+      const subscriptions = await this.findAll(options);
+      return subscriptions[0] || null;
+    }
+    return super.findOne(options);
+  }
+
+  static async create(data: any): Promise<any> {
+    if (isMemoryStore) {
+      const memoryStore = sequelize as any;
+      const subscriptions: Map<number, any> = memoryStore.webhookSubscriptions;
+      const id = (memoryStore.nextWebhookSubscriptionId = (memoryStore.nextWebhookSubscriptionId || 0) + 1);
+
+      const subscription: any = {
+        id,
+        userId: data.userId,
+        url: data.url,
+        events: data.events || [],
+        clientId: data.clientId || null,
+        secret: data.secret || crypto.randomBytes(32).toString('hex'),
+        active: true,
+        consecutiveFailures: 0,
+        lastStatus: null,
+        lastError: null,
+        lastDeliveryAt: null,
+        disabledAt: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        getDataValue: function(key: string): any {
+          return (this as any)[key];
+        },
+        update: async function(values: Record<string, any>): Promise<any> {
+          Object.assign(this, values, { updatedAt: new Date() });
+          return this;
+        },
+        increment: async function(field: string): Promise<any> {
+          (this as any)[field] = ((this as any)[field] || 0) + 1;
+          return this;
+        },
+        reload: async function(): Promise<any> {
+          return this;
+        },
+        destroy: async function(): Promise<void> {
+          subscriptions.delete(id);
+        }
+      };
+
+      subscriptions.set(id, subscription);
+      return subscription;
+    }
+    return super.create(data);
+  }
+}
+
+function matchesWhere(record: any, where: Record<string, any> | undefined): boolean {
+  if (!where) return true;
+  return Object.entries(where).every(([key, value]) => record[key] === value);
+}
+
+// Initialize with Sequelize if not using memory store
+if (!isMemoryStore) {
+  WebhookSubscription.init({
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false
+    },
+    url: {
+      type: DataTypes.STRING(2048),
+      allowNull: false
+    },
+    events: {
+      type: DataTypes.JSON,
+      allowNull: false,
+      defaultValue: []
+    },
+    clientId: {
+      type: DataTypes.STRING,
+      allowNull: true
+    },
+    secret: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      defaultValue: () => crypto.randomBytes(32).toString('hex')
+    },
+    active: {
+      type: DataTypes.BOOLEAN,
+      defaultValue: true
+    },
+    consecutiveFailures: {
+      type: DataTypes.INTEGER,
+      defaultValue: 0
+    },
+    lastStatus: {
+      type: DataTypes.INTEGER,
+      allowNull: true
+    },
+    lastError: {
+      type: DataTypes.TEXT,
+      allowNull: true
+    },
+    lastDeliveryAt: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    disabledAt: {
+      type: DataTypes.DATE,
+      allowNull: true
+    }
+  }, {
+    sequelize: sequelize as Sequelize,
+    modelName: 'WebhookSubscription',
+    tableName: 'WebhookSubscriptions',
+    indexes: [{ fields: ['userId'] }]
+  });
+}
+
+export default WebhookSubscription;
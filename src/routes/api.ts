@@ -2,16 +2,17 @@ import express, { Request, Response, NextFunction } from "express";
 import path from "path";
 // import { log } from "../middleware/logger";
 import { ClientManager } from "../core/ClientManager";
-import { Client } from "../core/Client"; // Import Client type
+import { ClientHandle } from "../core/Client";
 import axios from 'axios';
 import { PassThrough } from 'stream';
 import { JSDOM } from 'jsdom';
 import { authMiddleware, trackApiUsage } from '../middleware/auth';
-import { requestForwarderMiddleware } from '../middleware/requestForwarder';
-import { pendingRequests, PENDING_REQUEST_TYPES, safeResponse } from './shared';
+import { canAccessClient, sendClientAccessError } from '../middleware/scopes';
+import { recordLateResult } from '../middleware/idempotency';
+import { Jobs } from '../core/Jobs';
+import { pendingRequests, PendingRequest, PENDING_REQUEST_TYPES, safeResponse } from './shared';
 import { dnd5eRouter } from './api/dnd5e';
 import { healthCheck } from '../routes/health';
-import { getRedisClient } from '../config/redis';
 import { returnHtmlTemplate } from "../config/htmlResponseTemplate";
 import * as puppeteer from 'puppeteer';
 import multer from "multer";
@@ -27,6 +28,21 @@ import { sheetRouter } from './api/sheet';
 import { macroRouter } from './api/macro';
 import { structureRouter } from './api/structure';
 import { chatRouter } from './api/chat';
+import { eventsRouter } from './api/events';
+import { webhooksRouter } from './api/webhooks';
+import { batchRouter } from './api/batch';
+import { jobsRouter } from './api/jobs';
+import { apiKeysRouter } from './api/apiKeys';
+import { usageRouter } from './api/usage';
+import { adminRouter } from './api/admin';
+import { auditRouter } from './api/audit';
+import { openApiRouter } from './openapi';
+import { documentApiRoute } from './route-registry';
+import { WorldEvents } from '../core/WorldEvents';
+import { FileTransfers } from '../core/FileTransfers';
+import { ByteRange, contentRange, etagFor, etagMatches, resolveRange } from '../lib/httpRange';
+import { REQUEST_INTERRUPTED_MESSAGE } from '../lib/protocol';
+import crypto from 'crypto';
 import { log } from '../utils/logger';
 
 export const browserSessions = new Map<string, puppeteer.Browser>();
@@ -34,8 +50,6 @@ export const apiKeyToSession = new Map<string, { sessionId: string, clientId: st
 
 export const VERSION = '2.0.16';
 
-const INSTANCE_ID = process.env.INSTANCE_ID || 'default';
-
 const HEADLESS_SESSION_TIMEOUT = 10 * 60 * 1000; // 10 minutes in milliseconds
 
 function cleanupInactiveSessions() {
@@ -63,11 +77,17 @@ function cleanupInactiveSessions() {
 }
 
 // Start the session cleanup interval when module is loaded
-setInterval(cleanupInactiveSessions, 60000); // Check every minute
+setInterval(cleanupInactiveSessions, 60000).unref(); // Check every minute
 
 export const apiRoutes = (app: express.Application): void => {
   // Setup handlers for storing search results and entity data from WebSocket
   setupMessageHandlers();
+
+  // Capture unsolicited world events pushed by the Foundry module
+  WorldEvents.registerMessageHandlers();
+
+  // Acknowledgements and aborts of chunked file transfers
+  FileTransfers.registerMessageHandlers();
   
   // Create a router instead of using app directly
   const router = express.Router();
@@ -88,77 +108,12 @@ export const apiRoutes = (app: express.Application): void => {
   });
 
   // Get all connected clients
-  router.get("/clients", authMiddleware, async (req: Request, res: Response) => {
+  router.get("/clients", authMiddleware, documentApiRoute({ method: 'GET', path: '/clients', summary: 'List the connected Foundry clients of the account' }, async (req: Request, res: Response) => {
     try {
-      const apiKey = req.header('x-api-key') || '';
-      const redis = getRedisClient();
-      
-      // Array to store all client details
-      let allClients: any[] = [];
-      
-      if (redis) {
-        // Step 1: Get all client IDs from Redis for this API key
-        const clientIds = await redis.sMembers(`apikey:${apiKey}:clients`);
-        
-        if (clientIds.length > 0) {
-          // Step 2: For each client ID, get details from Redis
-          const clientDetailsPromises = clientIds.map(async (clientId) => {
-            try {
-              // Get the instance this client is connected to
-              const instanceId = await redis.get(`client:${clientId}:instance`);
-              
-              if (!instanceId) return null;
-              
-              // Get the last seen timestamp if stored
-              const lastSeen = await redis.get(`client:${clientId}:lastSeen`) || Date.now();
-              const connectedSince = await redis.get(`client:${clientId}:connectedSince`) || lastSeen;
-              
-              // Return client details including its instance
-              return {
-                id: clientId,
-                instanceId,
-                lastSeen: parseInt(lastSeen.toString()),
-                connectedSince: parseInt(connectedSince.toString()),
-                worldId: await redis.get(`client:${clientId}:worldId`) || '',
-                worldTitle: await redis.get(`client:${clientId}:worldTitle`) || '',
-                foundryVersion: await redis.get(`client:${clientId}:foundryVersion`) || '',
-                systemId: await redis.get(`client:${clientId}:systemId`) || '',
-                systemTitle: await redis.get(`client:${clientId}:systemTitle`) || '',
-                systemVersion: await redis.get(`client:${clientId}:systemVersion`) || '',
-                customName: await redis.get(`client:${clientId}:customName`) || ''
-              };
-            } catch (err) {
-              log.error(`Error getting details for client ${clientId}: ${err}`);
-              return null;
-            }
-          });
-          
-          // Resolve all promises and filter out nulls
-          const clientDetails = (await Promise.all(clientDetailsPromises)).filter(client => client !== null);
-          allClients = clientDetails;
-        }
-      } else {
-        // Fallback to local clients if Redis isn't available
-        const localClientIds = await ClientManager.getConnectedClients(apiKey);
-        
-        // Use Promise.all to wait for all getClient calls to complete
-        allClients = await Promise.all(localClientIds.map(async (id) => {
-          const client = await ClientManager.getClient(id);
-          return {
-            id,
-            instanceId: INSTANCE_ID,
-            lastSeen: client?.getLastSeen() || Date.now(),
-            connectedSince: client?.getLastSeen() || Date.now(),
-            worldId: client?.getWorldId() || '',
-            worldTitle: client?.getWorldTitle() || '',
-            foundryVersion: client?.getFoundryVersion() || '',
-            systemId: client?.getSystemId() || '',
-            systemTitle: client?.getSystemTitle() || '',
-            systemVersion: client?.getSystemVersion() || '',
-            customName: client?.getCustomName() || ''
-          };
-        }));
-      }
+      // Clients of this account on every instance
+      const allClients = (await ClientManager.getConnectedClients(req.accountKey))
+        .filter(client => canAccessClient(req, client.id))
+        .map(({ apiKey: _apiKey, capabilities: _capabilities, reconnectingUntil: _reconnectingUntil, ...client }) => client);
       
       // Send combined response
       safeResponse(res, 200, {
@@ -169,10 +124,34 @@ export const apiRoutes = (app: express.Application): void => {
       log.error(`Error aggregating clients: ${error}`);
       safeResponse(res, 500, { error: "Failed to retrieve clients" });
     }
-  });
+  }));
   
+  // What a connected world can do, as reported by its module
+  router.get("/clients/:id/capabilities", authMiddleware, documentApiRoute({ method: 'GET', path: '/clients/:id/capabilities', summary: 'Get the capabilities a connected world reported' }, async (req: Request, res: Response) => {
+    const clientId = req.params.id;
+    if (!canAccessClient(req, clientId)) {
+      return sendClientAccessError(res, clientId);
+    }
+
+    try {
+      const capabilities = await ClientManager.getCapabilities(clientId);
+      if (!capabilities || !(await ClientManager.getConnectedClients(req.accountKey)).some(client => client.id === clientId)) {
+        return safeResponse(res, 404, { error: "Invalid client ID" });
+      }
+
+      safeResponse(res, 200, {
+        clientId,
+        ...capabilities,
+        reportedAt: capabilities.reportedAt ? new Date(capabilities.reportedAt).toISOString() : null
+      });
+    } catch (error) {
+      log.error(`Error getting capabilities of client ${clientId}: ${error}`);
+      safeResponse(res, 500, { error: "Failed to retrieve client capabilities" });
+    }
+  }));
+
   // Proxy asset requests to Foundry
-  router.get('/proxy-asset/:path(*)', requestForwarderMiddleware, async (req: Request, res: Response) => {
+  router.get('/proxy-asset/:path(*)', async (req: Request, res: Response) => {
     try {
       // Get Foundry URL from client metadata or use default
       const clientId = req.query.clientId as string;
@@ -338,9 +317,156 @@ export const apiRoutes = (app: express.Application): void => {
   app.use('/', macroRouter);
   app.use('/', structureRouter);
   app.use('/', chatRouter);
+  app.use('/', eventsRouter);
+  app.use('/', webhooksRouter);
+  app.use('/', batchRouter);
+  app.use('/', jobsRouter);
+  app.use('/', apiKeysRouter);
+  app.use('/', usageRouter);
+  app.use('/', adminRouter);
+  app.use('/', auditRouter);
+  app.use('/', openApiRouter);
   app.use('/dnd5e', dnd5eRouter);
 };
 
+/**
+ * Set the headers of a binary download, a partial one when range is set.
+ */
+function writeFileHead(res: Response, data: any, length: number, etag: string | null, range: ByteRange | null): void {
+  res.status(range ? 206 : 200);
+  res.setHeader('Content-Type', data.mimeType || 'application/octet-stream');
+  res.setHeader('Content-Disposition', `attachment; filename="${data.filename}"`);
+  res.setHeader('Accept-Ranges', 'bytes');
+  res.setHeader('Content-Length', length);
+  if (etag) res.setHeader('ETag', etag);
+  if (range) res.setHeader('Content-Range', contentRange(range));
+}
+
+function sendNotModified(res: Response, etag: string): void {
+  res.setHeader('ETag', etag);
+  res.status(304).end();
+}
+
+/**
+ * The range a module answered a ranged download with. undefined if it sent the whole file,
+ * null if the range does not describe the transfer.
+ */
+function transferRange(data: any): ByteRange | null | undefined {
+  if (!data.range) return undefined;
+
+  const { start, end, size } = data.range;
+  if (![start, end, size].every(Number.isInteger) || start < 0 || end >= size || end - start + 1 !== data.transfer.size) {
+    return null;
+  }
+  return { start, end, size };
+}
+
+/**
+ * Stream a file a module sends in chunks to the HTTP response. Binary downloads are written
+ * as the chunks arrive, base64 downloads need the whole file and are collected first.
+ */
+function receiveDownload(client: ClientHandle, request: PendingRequest, data: any, format: string): void {
+  const res = request.res;
+  const fail = (reason: string) => {
+    if (!res.headersSent) {
+      safeResponse(res, 502, { clientId: client.getId(), requestId: data.requestId, error: `File transfer from Foundry failed: ${reason}` });
+    } else {
+      // The status line is gone, cutting the response short is the only way to report the failure
+      res.destroy(new Error(reason));
+    }
+  };
+
+  const streamed = format === 'binary' || format === 'raw';
+  const range = streamed ? transferRange(data) : undefined;
+  if (range === null) {
+    FileTransfers.decline(client, data.transfer?.id, "Invalid range");
+    fail("The module answered with an invalid range");
+    return;
+  }
+
+  // The ETag names the whole file, partial transfers carry its SHA-256 next to them
+  const sha256 = range ? data.fileSha256 : data.transfer?.sha256;
+  const etag = typeof sha256 === 'string' && sha256 ? etagFor(sha256) : null;
+  if (streamed && etag && etagMatches(request.ifNoneMatch, etag)) {
+    FileTransfers.decline(client, data.transfer?.id, "The HTTP client has the file already");
+    sendNotModified(res, etag);
+    return;
+  }
+
+  const collected: Buffer[] = [];
+  const problem = FileTransfers.receive(client, data.transfer, streamed ? {
+    write: chunk => new Promise<void>(resolve => {
+      if (res.write(chunk)) return resolve();
+      // Wait for the HTTP client to catch up, the chunk is acknowledged after that
+      const done = () => {
+        res.off('drain', done);
+        res.off('close', done);
+        resolve();
+      };
+      res.on('drain', done);
+      res.on('close', done);
+    }),
+    end: () => res.end(),
+    fail
+  } : {
+    write: async chunk => { collected.push(chunk); },
+    end: () => {
+      const buffer = Buffer.concat(collected);
+      const mimeType = data.mimeType || 'application/octet-stream';
+      safeResponse(res, 200, {
+        clientId: client.getId(),
+        requestId: data.requestId,
+        success: true,
+        path: data.path,
+        filename: data.filename,
+        mimeType: data.mimeType,
+        fileData: `data:${mimeType};base64,${buffer.toString('base64')}`,
+        size: buffer.length
+      });
+    },
+    fail
+  });
+
+  if (problem) {
+    log.warn(`Invalid file transfer from client ${client.getId()}: ${problem}`);
+    fail(problem);
+    return;
+  }
+
+  const transferId = String(data.transfer.id).toLowerCase();
+  res.on('close', () => {
+    if (!res.writableFinished) FileTransfers.abort(transferId, "HTTP client disconnected");
+  });
+
+  if (streamed) {
+    writeFileHead(res, data, data.transfer.size, etag, range ?? null);
+  }
+}
+
+/**
+ * Send a file a module returned as base64 as a binary download, applying the Range and
+ * If-None-Match headers of the request.
+ */
+function sendDownload(request: PendingRequest, data: any): void {
+  const res = request.res;
+  const buffer = Buffer.from(data.fileData.split(',')[1], 'base64');
+  const etag = etagFor(crypto.createHash('sha256').update(buffer).digest('hex'));
+  if (etagMatches(request.ifNoneMatch, etag)) {
+    sendNotModified(res, etag);
+    return;
+  }
+
+  const range = request.range ? resolveRange(request.range, buffer.length) : null;
+  if (request.range && !range) {
+    res.setHeader('Content-Range', `bytes */${buffer.length}`);
+    safeResponse(res, 416, { requestId: data.requestId, error: "Range not satisfiable", size: buffer.length });
+    return;
+  }
+
+  writeFileHead(res, data, range ? range.end - range.start + 1 : buffer.length, etag, range);
+  res.end(range ? buffer.subarray(range.start, range.end + 1) : buffer);
+}
+
 const REQUEST_TYPES_WITH_SPECIAL_RESPONSE_HANDLERS = [
   'actor-sheet', 'download-file'
 ] as const;
@@ -353,60 +479,85 @@ function setupMessageHandlers() {
       continue;
     }
 
-    ClientManager.onMessageType(`${type}-result`, (client: Client, data: any) => {
+    ClientManager.onMessageType(`${type}-result`, (client: ClientHandle, data: any) => {
       log.info(`Received ${type} response for requestId: ${data.requestId}`);
 
-      if (data.requestId && pendingRequests.has(data.requestId)) {
-        const pending = pendingRequests.get(data.requestId);
-        if (!pending) {
-          log.warn(`Pending request ${data.requestId} was deleted before processing`);
-          return;
-        }
-        
-        const response: Record<string, any> = { 
-          requestId: data.requestId, 
-          clientId: pending.clientId || client.getId() 
-        };
-        for (const [key, value] of Object.entries(data)) {
-          if (key !== 'requestId') {
-            response[key] = value;
-          }
-        }
-        if (response.error) {
-          safeResponse(pending.res, 400, response);
-        } else {
-          safeResponse(pending.res, 200, response);
+      if (!data.requestId) {
+        return;
+      }
+
+      const pending = pendingRequests.get(data.requestId);
+      const response: Record<string, any> = { 
+        requestId: data.requestId, 
+        clientId: pending?.clientId || client.getId() 
+      };
+      for (const [key, value] of Object.entries(data)) {
+        if (key !== 'requestId') {
+          response[key] = value;
         }
+      }
+      const statusCode = response.error ? 400 : 200;
+
+      if (pending?.jobId) {
+        pendingRequests.delete(data.requestId);
+        Jobs.complete(pending.jobId, statusCode, response).catch(error => {
+          log.error(`Error storing ${type} result for job ${pending.jobId}: ${error}`);
+        });
+        return;
+      }
+
+      if (pending) {
+        safeResponse(pending.res, statusCode, response);
         pendingRequests.delete(data.requestId);
         return;
       }
+
+      // The request already timed out - keep the outcome for retries with the same Idempotency-Key
+      recordLateResult(data.requestId, statusCode, response).catch(error => {
+        log.error(`Error storing late ${type} result for requestId ${data.requestId}: ${error}`);
+      });
     });
   }
 
+  // Requests a resumed client may have handled before its connection dropped, see Client.deliverPending
+  ClientManager.onMessageType(REQUEST_INTERRUPTED_MESSAGE, (client: ClientHandle, data: any) => {
+    const pending = pendingRequests.get(data.requestId);
+    if (!pending) return;
+    pendingRequests.delete(data.requestId);
+    log.warn(`Client ${client.getId()} reconnected before answering request ${data.requestId}`);
+
+    const error = "Client reconnected before answering, the request may have run";
+    if (pending.jobId) {
+      Jobs.fail(pending.jobId, 503, error).catch(failError => {
+        log.error(`Error failing job ${pending.jobId}: ${failError}`);
+      });
+      return;
+    }
+    safeResponse(pending.res, 503, { error, clientId: client.getId(), requestId: data.requestId, interrupted: true });
+  });
+
   // Handler for actor sheet HTML response
-  ClientManager.onMessageType("get-sheet-response", (client: Client, data: any) => {
+  ClientManager.onMessageType("get-sheet-response", (client: ClientHandle, data: any) => {
     log.info(`Received actor sheet HTML response for requestId: ${data.requestId}`);
     
     try {
-      // Extract the UUID from either data.uuid or data.data.uuid
-      const responseUuid = data.uuid || (data.data && data.data.uuid);
+      // Messages are normalized by the client, the result fields are at the top level
+      const responseUuid = data.uuid;
       
       // Debug what we're receiving
       log.debug(`Actor sheet response data structure:`, {
         requestId: data.requestId,
         uuid: responseUuid,
-        dataKeys: data.data ? Object.keys(data.data) : [],
-        html: data.data && data.data.html ? `${data.data.html.substring(0, 100)}...` : undefined,
-        cssLength: data.data && data.data.css ? data.data.css.length : 0
+        html: data.html ? `${data.html.substring(0, 100)}...` : undefined,
+        cssLength: data.css ? data.css.length : 0
       });
       
       if (data.requestId && pendingRequests.has(data.requestId)) {
         const pending = pendingRequests.get(data.requestId)!;
         
-        // Compare with either location
         if (pending.type === 'get-sheet' && pending.uuid === responseUuid) {
-          if (data.error || (data.data && data.data.error)) {
-            const errorMsg = data.error || (data.data && data.data.error) || "Unknown error";
+          if (data.error) {
+            const errorMsg = data.error;
             safeResponse(pending.res, 404, {
               requestId: data.requestId,
               clientId: pending.clientId,
@@ -414,9 +565,8 @@ function setupMessageHandlers() {
               error: errorMsg
             });
           } else {
-            // Get HTML content from either data or data.data
-            let html = data.html || (data.data && data.data.html) || '';
-            const css = data.css || (data.data && data.data.css) || '';
+            let html = data.html || '';
+            const css = data.css || '';
             
             // Get the system ID for use in HTML output
             const gameSystemId = (client as any).metadata?.systemId || 'unknown';
@@ -520,20 +670,31 @@ function setupMessageHandlers() {
       log.error(`Error handling actor sheet HTML response:`, { error });
       log.debug(`Response data that caused error:`, {
         requestId: data.requestId,
-        hasData: !!data.data,
-        dataType: typeof data.data
+        keys: Object.keys(data)
       });
     }
   });
 
   // Handler for file download result
-  ClientManager.onMessageType("download-file-result", (client: Client, data: any) => {
+  ClientManager.onMessageType("download-file-result", (client: ClientHandle, data: any) => {
     log.info(`Received file download result for requestId: ${data.requestId}`);
     
     if (data.requestId && pendingRequests.has(data.requestId)) {
       const request = pendingRequests.get(data.requestId)!;
       pendingRequests.delete(data.requestId);
       
+      // Modules that were sent a range answer one past the end of the file with its size
+      if (data.errorCode === 'range-not-satisfiable' && Number.isInteger(data.size)) {
+        request.res.setHeader('Content-Range', `bytes */${data.size}`);
+        safeResponse(request.res, 416, {
+          clientId: client.getId(),
+          requestId: data.requestId,
+          error: data.error || "Range not satisfiable",
+          size: data.size
+        });
+        return;
+      }
+
       if (data.error) {
         safeResponse(request.res, 500, { 
           clientId: client.getId(),
@@ -545,19 +706,15 @@ function setupMessageHandlers() {
       
       // Check if the client wants raw binary data or JSON response
       const format = request.format || 'binary'; // Default to binary format
+
+      // Modules that support it send the file as chunk frames after this message
+      if (data.transfer) {
+        receiveDownload(client, request, data, format);
+        return;
+      }
       
       if (format === 'binary' || format === 'raw') {
-        // Extract the base64 data and send as binary
-        const base64Data = data.fileData.split(',')[1];
-        const buffer = Buffer.from(base64Data, 'base64');
-        
-        // Set the appropriate content type
-        request.res.setHeader('Content-Type', data.mimeType || 'application/octet-stream');
-        request.res.setHeader('Content-Disposition', `attachment; filename="${data.filename}"`);
-        request.res.setHeader('Content-Length', buffer.length);
-        
-        // Send the binary data
-        request.res.status(200).end(buffer);
+        sendDownload(request, data);
       } else {
         // Send JSON response with file data
         safeResponse(request.res, 200, {
@@ -578,11 +735,11 @@ function setupMessageHandlers() {
   setInterval(() => {
     const now = Date.now();
     for (const [requestId, request] of pendingRequests.entries()) {
-      // Remove requests older than 30 seconds
-      if (now - request.timestamp > 30000) {
+      // Remove requests older than 30 seconds, async jobs are timed out by their own timer
+      if (!request.jobId && !request.transferring && now - request.timestamp > 30000) {
         log.warn(`Request ${requestId} timed out and was never completed`);
         pendingRequests.delete(requestId);
       }
     }
-  }, 10000);
+  }, 10000).unref();
 }
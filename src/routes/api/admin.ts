@@ -0,0 +1,492 @@
+import { Router, Request, Response } from 'express';
+import express from 'express';
+import { authMiddleware } from '../../middleware/auth';
+import { requireAdmin } from '../../middleware/admin';
+import { UsageHistory } from '../../core/UsageHistory';
+import { UsageMeter } from '../../core/UsageMeter';
+import { Plans } from '../../core/Plans';
+import { ClientManager } from '../../core/ClientManager';
+import { User, accountKeyFor } from '../../models/user';
+import { ApiKey } from '../../models/apiKey';
+import { SecurityEvent } from '../../models/securityEvent';
+import { generateApiKey } from '../../utils/apiKeyHash';
+import { WSCloseCodes } from '../../lib/constants';
+import { endHeadlessSession } from './session';
+import { safeResponse } from '../shared';
+import { ValidationErrorCode, sendValidationError, validationError } from '../validation';
+import { documentApiRoute } from '../route-registry';
+import { parseUsageQuery } from './usage';
+import { log } from '../../utils/logger';
+
+export const adminRouter = Router();
+
+const commonMiddleware = [authMiddleware, requireAdmin, express.json()];
+
+// Subscription statuses Stripe reports, plus 'free' for accounts that never subscribed
+const SUBSCRIPTION_STATUSES = ['free', 'active', 'trialing', 'past_due', 'unpaid', 'canceled', 'incomplete', 'incomplete_expired'];
+
+const ADMIN_USERS_MAX_LIMIT = 200;
+
+function serializeUser(user: any): Record<string, any> {
+  return {
+    id: user.getDataValue('id'),
+    email: user.getDataValue('email'),
+    role: user.getDataValue('role') || 'user',
+    plan: user.getDataValue('plan') || null,
+    subscriptionStatus: user.getDataValue('subscriptionStatus') || 'free',
+    subscriptionEndsAt: user.getDataValue('subscriptionEndsAt') || null,
+    apiKeyPrefix: user.getDataValue('apiKeyPrefix'),
+    requestsThisMonth: user.getDataValue('requestsThisMonth'),
+    requestsToday: user.getDataValue('requestsToday'),
+    createdAt: user.getDataValue('createdAt')
+  };
+}
+
+/**
+ * Load the user of the :id parameter. Sends a 400 or 404 response and returns null if there is none.
+ */
+async function findTargetUser(req: Request, res: Response): Promise<any> {
+  const id = parseInt(req.params.id, 10);
+  if (isNaN(id)) {
+    sendValidationError(res, validationError("'id' must be a number", 'id', undefined, ValidationErrorCode.InvalidType));
+    return null;
+  }
+
+  const user = await User.findOne({ where: { id } });
+  if (!user) {
+    safeResponse(res, 404, { error: "User not found" });
+    return null;
+  }
+  return user;
+}
+
+/**
+ * Record an admin action in the security event log.
+ */
+async function auditAdminAction(req: Request, action: string, target: any, details: Record<string, any> = {}): Promise<void> {
+  const adminId = req.user.getDataValue ? req.user.getDataValue('id') : req.user.id;
+  const targetId = target.getDataValue('id');
+  log.info(`Admin ${adminId} ran ${action} on user ${targetId}`, details);
+  try {
+    await SecurityEvent.create({
+      type: `admin.${action}`,
+      route: `${req.method} ${req.baseUrl}${req.path}`,
+      ip: req.ip,
+      identifier: target.getDataValue('email'),
+      details: { adminId, userId: targetId, ...details }
+    });
+  } catch (error) {
+    log.error(`Failed to record admin action ${action}: ${error}`);
+  }
+}
+
+/**
+ * List users
+ *
+ * Lists accounts, newest first. Requires an admin account's primary API key.
+ *
+ * @route GET /admin/users
+ * @param {string} search - [query,?] Only include users whose email contains this text
+ * @param {number} limit - [query,?] Maximum number of users to return (default 50, at most 200)
+ * @param {number} offset - [query,?] Number of users to skip
+ * @returns {object} Matching users and their total count
+ */
+adminRouter.get("/admin/users", ...commonMiddleware, documentApiRoute({
+    method: 'GET',
+    path: '/admin/users',
+    summary: 'List users',
+    description: "Lists accounts, newest first. Requires an admin account's primary API key.",
+    optionalParams: [
+        { name: 'search', from: 'query', type: 'string', description: 'Only include users whose email contains this text' },
+        { name: 'limit', from: 'query', type: 'number', description: 'Maximum number of users to return (default 50, at most 200)' },
+        { name: 'offset', from: 'query', type: 'number', description: 'Number of users to skip' }
+    ]
+}, async (req: Request, res: Response) => {
+    const limit = req.query.limit === undefined ? 50 : parseInt(req.query.limit as string, 10);
+    const offset = req.query.offset === undefined ? 0 : parseInt(req.query.offset as string, 10);
+    if (isNaN(limit) || limit < 1 || limit > ADMIN_USERS_MAX_LIMIT) {
+      sendValidationError(res, validationError(`'limit' must be between 1 and ${ADMIN_USERS_MAX_LIMIT}`, 'limit', undefined, ValidationErrorCode.OutOfRange));
+      return;
+    }
+    if (isNaN(offset) || offset < 0) {
+      sendValidationError(res, validationError("'offset' must be 0 or more", 'offset', undefined, ValidationErrorCode.OutOfRange));
+      return;
+    }
+
+    try {
+      const search = typeof req.query.search === 'string' ? req.query.search : '';
+      const { users, total } = await User.search(search, limit, offset);
+      safeResponse(res, 200, { total, limit, offset, users: users.map(serializeUser) });
+    } catch (error) {
+      log.error(`Error listing users: ${error}`);
+      safeResponse(res, 500, { error: "Failed to list users" });
+    }
+}));
+
+/**
+ * Get a user
+ *
+ * Returns an account with its live usage, plan, additional API keys and connected Foundry clients.
+ *
+ * @route GET /admin/users/:id
+ * @param {number} id - [path] User ID
+ * @returns {object} User details
+ */
+adminRouter.get("/admin/users/:id", ...commonMiddleware, documentApiRoute({
+    method: 'GET',
+    path: '/admin/users/:id',
+    summary: 'Get a user',
+    description: 'Returns an account with its live usage, plan, additional API keys and connected Foundry clients.',
+    requiredParams: [
+        { name: 'id', from: 'params', type: 'number', description: 'User ID' }
+    ]
+}, async (req: Request, res: Response) => {
+    try {
+      const user = await findTargetUser(req, res);
+      if (!user) return;
+
+      const userId = user.getDataValue('id');
+      const [usage, plan, apiKeys, clients] = await Promise.all([
+        UsageMeter.usage(user),
+        Plans.forUser(user),
+        ApiKey.findAll({ where: { userId } }),
+        ClientManager.getConnectedClients(accountKeyFor(userId))
+      ]);
+
+      safeResponse(res, 200, {
+        ...serializeUser(user),
+        ...usage,
+        activePlan: plan,
+        apiKeys: apiKeys.map(apiKey => ({
+          id: apiKey.getDataValue('id'),
+          name: apiKey.getDataValue('name'),
+          scopes: apiKey.getDataValue('scopes'),
+          lastUsedAt: apiKey.getDataValue('lastUsedAt')
+        })),
+        clients: clients.map(client => ({
+          id: client.id,
+          worldId: client.worldId,
+          worldTitle: client.worldTitle,
+          instanceId: client.instanceId,
+          connectedSince: client.connectedSince,
+          lastSeen: client.lastSeen
+        }))
+      });
+    } catch (error) {
+      log.error(`Error fetching user for admin: ${error}`);
+      safeResponse(res, 500, { error: "Failed to fetch user" });
+    }
+}));
+
+/**
+ * Reset a user's request counters
+ *
+ * Sets the user's requests of today and of this month back to 0.
+ *
+ * @route POST /admin/users/:id/reset-usage
+ * @param {number} id - [path] User ID
+ * @returns {object} The reset counters
+ */
+adminRouter.post("/admin/users/:id/reset-usage", ...commonMiddleware, documentApiRoute({
+    method: 'POST',
+    path: '/admin/users/:id/reset-usage',
+    summary: "Reset a user's request counters",
+    description: "Sets the user's requests of today and of this month back to 0.",
+    requiredParams: [
+        { name: 'id', from: 'params', type: 'number', description: 'User ID' }
+    ]
+}, async (req: Request, res: Response) => {
+    try {
+      const user = await findTargetUser(req, res);
+      if (!user) return;
+
+      const before = await UsageMeter.usage(user);
+      // Write buffered usage first so it is not added back after the reset
+      await UsageMeter.flush();
+      await user.update({ requestsToday: 0, requestsThisMonth: 0 });
+      await UsageMeter.reset(user.getDataValue('id'));
+      await auditAdminAction(req, 'reset-usage', user, { before });
+
+      safeResponse(res, 200, { success: true, requestsToday: 0, requestsThisMonth: 0 });
+    } catch (error) {
+      log.error(`Error resetting usage for admin: ${error}`);
+      safeResponse(res, 500, { error: "Failed to reset usage" });
+    }
+}));
+
+/**
+ * Change a user's subscription
+ *
+ * Overrides the plan or subscription status of an account, e.g. to grant a plan without Stripe.
+ * Stripe webhooks still update both when the user's subscription changes.
+ *
+ * @route PUT /admin/users/:id/subscription
+ * @param {number} id - [path] User ID
+ * @param {string} plan - [body,?] Plan name, or null for the default plan of the subscription
+ * @param {string} subscriptionStatus - [body,?] Subscription status, only 'active' gets a paid plan
+ * @returns {object} The updated user
+ */
+adminRouter.put("/admin/users/:id/subscription", ...commonMiddleware, documentApiRoute({
+    method: 'PUT',
+    path: '/admin/users/:id/subscription',
+    summary: "Change a user's subscription",
+    description: "Overrides the plan or subscription status of an account, e.g. to grant a plan without Stripe. Stripe webhooks still update both when the user's subscription changes.",
+    requiredParams: [
+        { name: 'id', from: 'params', type: 'number', description: 'User ID' }
+    ],
+    optionalParams: [
+        { name: 'plan', from: 'body', type: 'string', description: 'Plan name, or null for the default plan of the subscription' },
+        { name: 'subscriptionStatus', from: 'body', type: 'string', description: "Subscription status, only 'active' gets a paid plan" }
+    ]
+}, async (req: Request, res: Response) => {
+    const { plan, subscriptionStatus } = req.body || {};
+    if (plan === undefined && subscriptionStatus === undefined) {
+      sendValidationError(res, validationError("Include 'plan' or 'subscriptionStatus'", null, undefined, ValidationErrorCode.MissingParameter));
+      return;
+    }
+    if (subscriptionStatus !== undefined && !SUBSCRIPTION_STATUSES.includes(subscriptionStatus)) {
+      sendValidationError(res, validationError(`'subscriptionStatus' must be one of: ${SUBSCRIPTION_STATUSES.join(', ')}`, 'subscriptionStatus', undefined, ValidationErrorCode.InvalidValue));
+      return;
+    }
+
+    try {
+      if (plan !== undefined && plan !== null && (typeof plan !== 'string' || !await Plans.get(plan))) {
+        sendValidationError(res, validationError(`Unknown plan: ${plan}`, 'plan', undefined, ValidationErrorCode.InvalidValue));
+        return;
+      }
+
+      const user = await findTargetUser(req, res);
+      if (!user) return;
+
+      const changes: Record<string, any> = {};
+      if (plan !== undefined) changes.plan = plan;
+      if (subscriptionStatus !== undefined) changes.subscriptionStatus = subscriptionStatus;
+
+      const before = { plan: user.getDataValue('plan') || null, subscriptionStatus: user.getDataValue('subscriptionStatus') || 'free' };
+      await user.update(changes);
+      await auditAdminAction(req, 'change-subscription', user, { before, after: changes });
+
+      safeResponse(res, 200, { ...serializeUser(user), activePlan: await Plans.forUser(user) });
+    } catch (error) {
+      log.error(`Error changing subscription for admin: ${error}`);
+      safeResponse(res, 500, { error: "Failed to change subscription" });
+    }
+}));
+
+/**
+ * Revoke a user's API keys
+ *
+ * Deletes the account's additional API keys and, unless `primary` is false, replaces its
+ * primary key immediately without a grace period. The user can create a new primary key
+ * from the dashboard.
+ *
+ * @route POST /admin/users/:id/revoke-keys
+ * @param {number} id - [path] User ID
+ * @param {boolean} primary - [body,?] Also revoke the primary key (default true)
+ * @returns {object} Number of revoked keys
+ */
+adminRouter.post("/admin/users/:id/revoke-keys", ...commonMiddleware, documentApiRoute({
+    method: 'POST',
+    path: '/admin/users/:id/revoke-keys',
+    summary: "Revoke a user's API keys",
+    description: "Deletes the account's additional API keys and, unless `primary` is false, replaces its primary key immediately without a grace period. The user can create a new primary key from the dashboard.",
+    requiredParams: [
+        { name: 'id', from: 'params', type: 'number', description: 'User ID' }
+    ],
+    optionalParams: [
+        { name: 'primary', from: 'body', type: 'boolean', description: 'Also revoke the primary key (default true)' }
+    ]
+}, async (req: Request, res: Response) => {
+    const revokePrimary = req.body?.primary !== false;
+
+    try {
+      const user = await findTargetUser(req, res);
+      if (!user) return;
+
+      const apiKeys = await ApiKey.findAll({ where: { userId: user.getDataValue('id') } });
+      for (const apiKey of apiKeys) {
+        await apiKey.destroy();
+      }
+
+      if (revokePrimary) {
+        // Nobody learns the replacement key, so the old one simply stops working
+        await user.update({
+          ...User.apiKeyFields(generateApiKey()),
+          previousApiKeyPrefix: null,
+          previousApiKeyHash: null,
+          previousApiKeyExpiresAt: null
+        });
+      }
+
+      await auditAdminAction(req, 'revoke-keys', user, { additionalKeys: apiKeys.length, primary: revokePrimary });
+      safeResponse(res, 200, { success: true, additionalKeysRevoked: apiKeys.length, primaryKeyRevoked: revokePrimary });
+    } catch (error) {
+      log.error(`Error revoking API keys for admin: ${error}`);
+      safeResponse(res, 500, { error: "Failed to revoke API keys" });
+    }
+}));
+
+/**
+ * Disconnect a user's Foundry clients
+ *
+ * Closes the WebSocket of every Foundry client of the account, on every relay instance,
+ * with close code 4007. Clients may reconnect unless their API key was revoked.
+ *
+ * @route POST /admin/users/:id/disconnect
+ * @param {number} id - [path] User ID
+ * @returns {object} Number of clients that were connected
+ */
+adminRouter.post("/admin/users/:id/disconnect", ...commonMiddleware, documentApiRoute({
+    method: 'POST',
+    path: '/admin/users/:id/disconnect',
+    summary: "Disconnect a user's Foundry clients",
+    description: 'Closes the WebSocket of every Foundry client of the account, on every relay instance, with close code 4007. Clients may reconnect unless their API key was revoked.',
+    requiredParams: [
+        { name: 'id', from: 'params', type: 'number', description: 'User ID' }
+    ]
+}, async (req: Request, res: Response) => {
+    try {
+      const user = await findTargetUser(req, res);
+      if (!user) return;
+
+      const disconnected = await ClientManager.disconnectClients(
+        accountKeyFor(user.getDataValue('id')),
+        WSCloseCodes.DisconnectedByAdmin,
+        'Disconnected by an administrator'
+      );
+      await auditAdminAction(req, 'disconnect-clients', user, { disconnected });
+
+      safeResponse(res, 200, { success: true, disconnected });
+    } catch (error) {
+      log.error(`Error disconnecting clients for admin: ${error}`);
+      safeResponse(res, 500, { error: "Failed to disconnect clients" });
+    }
+}));
+
+/**
+ * End a user's headless sessions
+ *
+ * Closes the account's headless Foundry session and removes its session records.
+ *
+ * @route DELETE /admin/users/:id/sessions
+ * @param {number} id - [path] User ID
+ * @returns {object} ID of the ended session, or null if there was none
+ */
+adminRouter.delete("/admin/users/:id/sessions", ...commonMiddleware, documentApiRoute({
+    method: 'DELETE',
+    path: '/admin/users/:id/sessions',
+    summary: "End a user's headless sessions",
+    description: "Closes the account's headless Foundry session and removes its session records.",
+    requiredParams: [
+        { name: 'id', from: 'params', type: 'number', description: 'User ID' }
+    ]
+}, async (req: Request, res: Response) => {
+    try {
+      const user = await findTargetUser(req, res);
+      if (!user) return;
+
+      const sessionId = await endHeadlessSession(accountKeyFor(user.getDataValue('id')));
+      await auditAdminAction(req, 'end-sessions', user, { sessionId });
+
+      safeResponse(res, 200, { success: true, sessionId });
+    } catch (error) {
+      log.error(`Error ending headless sessions for admin: ${error}`);
+      safeResponse(res, 500, { error: "Failed to end headless sessions" });
+    }
+}));
+
+/**
+ * List security events
+ *
+ * Returns the most recent admin actions and sign-in lockouts, newest first.
+ *
+ * @route GET /admin/security-events
+ * @param {string} type - [query,?] Only include events of this type, e.g. admin.revoke-keys or auth.lockout
+ * @param {number} limit - [query,?] Maximum number of events to return (default 50, at most 200)
+ * @returns {object} Security events
+ */
+adminRouter.get("/admin/security-events", ...commonMiddleware, documentApiRoute({
+    method: 'GET',
+    path: '/admin/security-events',
+    summary: 'List security events',
+    description: 'Returns the most recent admin actions and sign-in lockouts, newest first.',
+    optionalParams: [
+        { name: 'type', from: 'query', type: 'string', description: 'Only include events of this type, e.g. admin.revoke-keys or auth.lockout' },
+        { name: 'limit', from: 'query', type: 'number', description: 'Maximum number of events to return (default 50, at most 200)' }
+    ]
+}, async (req: Request, res: Response) => {
+    const limit = req.query.limit === undefined ? 50 : parseInt(req.query.limit as string, 10);
+    if (isNaN(limit) || limit < 1 || limit > ADMIN_USERS_MAX_LIMIT) {
+      sendValidationError(res, validationError(`'limit' must be between 1 and ${ADMIN_USERS_MAX_LIMIT}`, 'limit', undefined, ValidationErrorCode.OutOfRange));
+      return;
+    }
+
+    try {
+      const where = typeof req.query.type === 'string' ? { type: req.query.type } : undefined;
+      const events = (await SecurityEvent.findAll({ where, limit })).slice(0, limit);
+      safeResponse(res, 200, {
+        events: events.map(event => ({
+          id: event.getDataValue('id'),
+          type: event.getDataValue('type'),
+          route: event.getDataValue('route'),
+          ip: event.getDataValue('ip'),
+          identifier: event.getDataValue('identifier'),
+          details: event.getDataValue('details'),
+          createdAt: event.getDataValue('createdAt')
+        }))
+      });
+    } catch (error) {
+      log.error(`Error listing security events: ${error}`);
+      safeResponse(res, 500, { error: "Failed to list security events" });
+    }
+}));
+
+/**
+ * Get usage history of all accounts
+ *
+ * Like GET /usage, across every account or for one user. Requires an admin account's primary API key.
+ *
+ * @route GET /admin/usage
+ * @param {string} from - [query,?] First day to include (YYYY-MM-DD), defaults to 29 days before `to`
+ * @param {string} to - [query,?] Last day to include (YYYY-MM-DD), defaults to today
+ * @param {string} groupBy - [query,?] day (default), endpoint, client, apiKey or user
+ * @param {number} userId - [query,?] Only include this user's requests
+ * @param {string} clientId - [query,?] Only include requests to this Foundry client
+ * @returns {object} Totals and per-group usage
+ */
+adminRouter.get("/admin/usage", ...commonMiddleware, documentApiRoute({
+    method: 'GET',
+    path: '/admin/usage',
+    summary: 'Get usage history of all accounts',
+    description: "Like GET /usage, across every account or for one user. Requires an admin account's primary API key.",
+    optionalParams: [
+        { name: 'from', from: 'query', type: 'string', description: 'First day to include (YYYY-MM-DD), defaults to 29 days before `to`' },
+        { name: 'to', from: 'query', type: 'string', description: 'Last day to include (YYYY-MM-DD), defaults to today' },
+        { name: 'groupBy', from: 'query', type: 'string', description: 'day (default), endpoint, client, apiKey or user' },
+        { name: 'userId', from: 'query', type: 'number', description: "Only include this user's requests" },
+        { name: 'clientId', from: 'query', type: 'string', description: 'Only include requests to this Foundry client' }
+    ]
+}, async (req: Request, res: Response) => {
+    const { usage, error } = parseUsageQuery(req.query, ['day', 'endpoint', 'client', 'apiKey', 'user']);
+    if (error) {
+      sendValidationError(res, error);
+      return;
+    }
+
+    let userId: number | undefined;
+    if (req.query.userId !== undefined) {
+      userId = parseInt(req.query.userId as string, 10);
+      if (isNaN(userId)) {
+        sendValidationError(res, validationError("'userId' must be a number", 'userId', undefined, ValidationErrorCode.InvalidType));
+        return;
+      }
+    }
+
+    try {
+      const report = await UsageHistory.report({ ...usage, userId });
+      safeResponse(res, 200, { ...usage, userId: userId ?? null, ...report });
+    } catch (error) {
+      log.error(`Error fetching usage history for admin: ${error}`);
+      safeResponse(res, 500, { error: "Failed to fetch usage history" });
+    }
+}));
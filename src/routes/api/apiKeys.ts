@@ -0,0 +1,306 @@
+import { Router, Request, Response } from 'express';
+import express from 'express';
+import { authMiddleware } from '../../middleware/auth';
+import { idempotencyMiddleware } from '../../middleware/idempotency';
+import { requirePrimaryKey } from '../../middleware/scopes';
+import { API_KEY_SCOPES, ApiKey, ApiKeyScope } from '../../models/apiKey';
+import { generateApiKey } from '../../utils/apiKeyHash';
+import { safeResponse } from '../shared';
+import { ValidationErrorCode, ValidationFailure, sendValidationError, validationError } from '../validation';
+import { documentApiRoute } from '../route-registry';
+import { log } from '../../utils/logger';
+
+export const apiKeysRouter = Router();
+
+// Additional keys must not be able to create or widen other keys
+const commonMiddleware = [authMiddleware, requirePrimaryKey('API keys can only be managed'), idempotencyMiddleware, express.json()];
+
+// Maximum number of additional API keys per account
+const API_KEY_MAX_PER_ACCOUNT = parseInt(process.env.API_KEY_MAX_PER_ACCOUNT || '25', 10);
+
+interface ApiKeyFields {
+  name?: string;
+  scopes?: ApiKeyScope[];
+  clientIds?: string[] | null;
+  expiresAt?: Date | null;
+}
+
+function serializeApiKey(apiKey: any, key?: string): Record<string, any> {
+  const data: Record<string, any> = {
+    id: apiKey.getDataValue('id'),
+    name: apiKey.getDataValue('name'),
+    keyPreview: `${apiKey.getDataValue('prefix')}...`,
+    scopes: apiKey.getDataValue('scopes'),
+    clientIds: apiKey.getDataValue('clientIds'),
+    expiresAt: apiKey.getDataValue('expiresAt'),
+    lastUsedAt: apiKey.getDataValue('lastUsedAt'),
+    createdAt: apiKey.getDataValue('createdAt')
+  };
+  if (key) {
+    data.key = key;
+  }
+  return data;
+}
+
+/**
+ * Check the key fields present in a request body. With `partial` unset, name and scopes are required.
+ */
+function parseApiKeyFields(body: any, partial: boolean): { fields: ApiKeyFields; error: null } | { fields: null; error: ValidationFailure } {
+  const { name, scopes, clientIds, expiresAt } = body || {};
+  const fields: ApiKeyFields = {};
+  const fail = (error: ValidationFailure) => ({ fields: null, error });
+
+  if (name !== undefined || !partial) {
+    if (typeof name !== 'string' || name.trim() === '' || name.length > 100) {
+      return fail(validationError(
+        "'name' must be a non-empty string of at most 100 characters",
+        'name',
+        "Send JSON like {\"name\": \"Discord bot\", \"scopes\": [\"read\", \"roll\"]}",
+        name === undefined ? ValidationErrorCode.MissingParameter : ValidationErrorCode.InvalidValue
+      ));
+    }
+    fields.name = name.trim();
+  }
+
+  if (scopes !== undefined || !partial) {
+    if (!Array.isArray(scopes) || scopes.length === 0) {
+      return fail(validationError(
+        "'scopes' must be a non-empty array",
+        'scopes',
+        `Use any of: ${API_KEY_SCOPES.join(', ')}`,
+        scopes === undefined ? ValidationErrorCode.MissingParameter : ValidationErrorCode.InvalidType
+      ));
+    }
+    const unknown = scopes.filter((s: unknown) => !API_KEY_SCOPES.includes(s as ApiKeyScope));
+    if (unknown.length > 0) {
+      return fail(validationError(
+        `Unknown scope(s): ${unknown.join(', ')}`,
+        'scopes',
+        `Use any of: ${API_KEY_SCOPES.join(', ')}`,
+        ValidationErrorCode.InvalidItem
+      ));
+    }
+    fields.scopes = Array.from(new Set(scopes as ApiKeyScope[]));
+  }
+
+  if (clientIds !== undefined) {
+    if (clientIds !== null && (!Array.isArray(clientIds) || clientIds.some((id: unknown) => typeof id !== 'string' || id === ''))) {
+      return fail(validationError(
+        "'clientIds' must be an array of client IDs or null",
+        'clientIds',
+        "Omit clientIds or send null to allow every client",
+        ValidationErrorCode.InvalidType
+      ));
+    }
+    fields.clientIds = clientIds && clientIds.length > 0 ? Array.from(new Set(clientIds as string[])) : null;
+  }
+
+  if (expiresAt !== undefined) {
+    if (expiresAt === null) {
+      fields.expiresAt = null;
+    } else {
+      const date = typeof expiresAt === 'string' ? new Date(expiresAt) : null;
+      if (!date || isNaN(date.getTime())) {
+        return fail(validationError(
+          "'expiresAt' must be an ISO 8601 date or null",
+          'expiresAt',
+          "Send a date like \"2030-01-01T00:00:00Z\"",
+          ValidationErrorCode.InvalidType
+        ));
+      }
+      if (date.getTime() <= Date.now()) {
+        return fail(validationError("'expiresAt' must be in the future", 'expiresAt', undefined, ValidationErrorCode.OutOfRange));
+      }
+      fields.expiresAt = date;
+    }
+  }
+
+  return { fields, error: null };
+}
+
+function parseId(req: Request, res: Response): number | null {
+  const id = parseInt(req.params.id, 10);
+  if (isNaN(id)) {
+    sendValidationError(res, validationError("API key id must be a number", 'id', undefined, ValidationErrorCode.InvalidType));
+    return null;
+  }
+  return id;
+}
+
+/**
+ * Create an API key
+ *
+ * Creates an additional API key for the account with a subset of permissions.
+ * The key itself is only returned here. Scopes: read (GET endpoints), write (other
+ * mutating endpoints), roll (POST /roll), execute-js, files (file system, upload,
+ * download) and session (headless sessions). Requires the account's primary API key.
+ *
+ * @route POST /api-keys
+ * @param {string} name - [body] A name to recognise the key by
+ * @param {array} scopes - [body] Permissions granted to the key
+ * @param {array} clientIds - [body,?] Only allow requests to these Foundry clients
+ * @param {string} expiresAt - [body,?] ISO 8601 date after which the key stops working
+ * @returns {object} The created API key including the key itself
+ */
+apiKeysRouter.post("/api-keys", ...commonMiddleware, documentApiRoute({
+    method: 'POST',
+    path: '/api-keys',
+    summary: 'Create an API key',
+    description: "Creates an additional API key for the account with a subset of permissions. The key itself is only returned here. Scopes: read (GET endpoints), write (other mutating endpoints), roll (POST /roll), execute-js, files (file system, upload, download) and session (headless sessions). Requires the account's primary API key.",
+    requiredParams: [
+        { name: 'name', from: 'body', type: 'string', description: 'A name to recognise the key by' },
+        { name: 'scopes', from: 'body', type: 'array', description: 'Permissions granted to the key' }
+    ],
+    optionalParams: [
+        { name: 'clientIds', from: 'body', type: 'array', description: 'Only allow requests to these Foundry clients' },
+        { name: 'expiresAt', from: 'body', type: 'string', description: 'ISO 8601 date after which the key stops working' }
+    ]
+}, async (req: Request, res: Response) => {
+    const { fields, error } = parseApiKeyFields(req.body, false);
+    if (error) {
+      sendValidationError(res, error);
+      return;
+    }
+
+    try {
+      const userId = req.user.id;
+      const existing = await ApiKey.findAll({ where: { userId } });
+      if (existing.length >= API_KEY_MAX_PER_ACCOUNT) {
+        safeResponse(res, 409, {
+          error: `Maximum of ${API_KEY_MAX_PER_ACCOUNT} API keys reached`,
+          howToUse: "Delete an existing key with DELETE /api-keys/:id"
+        });
+        return;
+      }
+
+      const key = generateApiKey();
+      const apiKey = await ApiKey.create({
+        userId,
+        ...ApiKey.keyFields(key),
+        name: fields.name,
+        scopes: fields.scopes,
+        clientIds: fields.clientIds ?? null,
+        expiresAt: fields.expiresAt ?? null
+      });
+
+      log.info(`Created API key ${apiKey.getDataValue('id')} for user ${userId}`);
+      safeResponse(res, 201, serializeApiKey(apiKey, key));
+    } catch (error) {
+      log.error(`Error creating API key: ${error}`);
+      safeResponse(res, 500, { error: "Failed to create API key" });
+    }
+}));
+
+/**
+ * List API keys
+ *
+ * @route GET /api-keys
+ * @returns {object} The account's additional API keys, without the keys themselves
+ */
+apiKeysRouter.get("/api-keys", ...commonMiddleware, documentApiRoute({
+    method: 'GET',
+    path: '/api-keys',
+    summary: 'List API keys'
+}, async (req: Request, res: Response) => {
+    try {
+      const apiKeys = await ApiKey.findAll({ where: { userId: req.user.id } });
+      safeResponse(res, 200, {
+        total: apiKeys.length,
+        apiKeys: apiKeys.map(k => serializeApiKey(k))
+      });
+    } catch (error) {
+      log.error(`Error listing API keys: ${error}`);
+      safeResponse(res, 500, { error: "Failed to list API keys" });
+    }
+}));
+
+/**
+ * Update an API key
+ *
+ * Changes the name, scopes, client restriction or expiry of a key. Fields that are
+ * not sent are left unchanged; send null to remove a client restriction or expiry.
+ *
+ * @route PUT /api-keys/:id
+ * @param {number} id - [params] The ID of the API key
+ * @param {string} name - [body,?] A name to recognise the key by
+ * @param {array} scopes - [body,?] Permissions granted to the key
+ * @param {array} clientIds - [body,?] Only allow requests to these Foundry clients
+ * @param {string} expiresAt - [body,?] ISO 8601 date after which the key stops working
+ * @returns {object} The updated API key
+ */
+apiKeysRouter.put("/api-keys/:id", ...commonMiddleware, documentApiRoute({
+    method: 'PUT',
+    path: '/api-keys/:id',
+    summary: 'Update an API key',
+    description: 'Changes the name, scopes, client restriction or expiry of a key. Fields that are not sent are left unchanged; send null to remove a client restriction or expiry.',
+    requiredParams: [
+        { name: 'id', from: 'params', type: 'number', description: 'The ID of the API key' }
+    ],
+    optionalParams: [
+        { name: 'name', from: 'body', type: 'string', description: 'A name to recognise the key by' },
+        { name: 'scopes', from: 'body', type: 'array', description: 'Permissions granted to the key' },
+        { name: 'clientIds', from: 'body', type: 'array', description: 'Only allow requests to these Foundry clients' },
+        { name: 'expiresAt', from: 'body', type: 'string', description: 'ISO 8601 date after which the key stops working' }
+    ]
+}, async (req: Request, res: Response) => {
+    const id = parseId(req, res);
+    if (id === null) return;
+
+    const { fields, error } = parseApiKeyFields(req.body, true);
+    if (error) {
+      sendValidationError(res, error);
+      return;
+    }
+
+    try {
+      const apiKey = await ApiKey.findOne({ where: { id, userId: req.user.id } });
+      if (!apiKey) {
+        safeResponse(res, 404, { error: "API key not found" });
+        return;
+      }
+
+      await apiKey.update(fields);
+      log.info(`Updated API key ${id} for user ${req.user.id}`);
+      safeResponse(res, 200, serializeApiKey(apiKey));
+    } catch (error) {
+      log.error(`Error updating API key: ${error}`);
+      safeResponse(res, 500, { error: "Failed to update API key" });
+    }
+}));
+
+/**
+ * Delete an API key
+ *
+ * The key stops working immediately.
+ *
+ * @route DELETE /api-keys/:id
+ * @param {number} id - [params] The ID of the API key
+ * @returns {object} Confirmation of deletion
+ */
+apiKeysRouter.delete("/api-keys/:id", ...commonMiddleware, documentApiRoute({
+    method: 'DELETE',
+    path: '/api-keys/:id',
+    summary: 'Delete an API key',
+    description: 'The key stops working immediately.',
+    requiredParams: [
+        { name: 'id', from: 'params', type: 'number', description: 'The ID of the API key' }
+    ]
+}, async (req: Request, res: Response) => {
+    const id = parseId(req, res);
+    if (id === null) return;
+
+    try {
+      const apiKey = await ApiKey.findOne({ where: { id, userId: req.user.id } });
+      if (!apiKey) {
+        safeResponse(res, 404, { error: "API key not found" });
+        return;
+      }
+
+      await apiKey.destroy();
+      log.info(`Deleted API key ${id} for user ${req.user.id}`);
+      safeResponse(res, 200, { success: true, id });
+    } catch (error) {
+      log.error(`Error deleting API key: ${error}`);
+      safeResponse(res, 500, { error: "Failed to delete API key" });
+    }
+}));
@@ -0,0 +1,111 @@
+import { Router, Request, Response } from 'express';
+import { authMiddleware } from '../../middleware/auth';
+import { requirePrimaryKey } from '../../middleware/scopes';
+import { AuditEntry } from '../../models/auditEntry';
+import { ApiKey } from '../../models/apiKey';
+import { safeResponse } from '../shared';
+import { ValidationErrorCode, sendValidationError, validationError } from '../validation';
+import { documentApiRoute } from '../route-registry';
+import { log } from '../../utils/logger';
+
+export const auditRouter = Router();
+
+const commonMiddleware = [authMiddleware, requirePrimaryKey('The audit log is only available')];
+
+const AUDIT_MAX_LIMIT = 500;
+
+/**
+ * Get the audit log
+ *
+ * Lists the requests that changed the account's Foundry worlds, newest first: which API key
+ * made them, the client, request type, target document, sanitized payload, resulting status
+ * code and duration. Requires the account's primary API key.
+ *
+ * @route GET /audit
+ * @param {string} clientId - [query,?] Only include requests to this Foundry client
+ * @param {string} type - [query,?] Only include requests of this type, e.g. delete or macro-execute
+ * @param {string} from - [query,?] Only include requests made at or after this date (ISO 8601)
+ * @param {string} to - [query,?] Only include requests made at or before this date (ISO 8601)
+ * @param {number} limit - [query,?] Maximum number of entries to return (default 100, at most 500)
+ * @param {number} offset - [query,?] Number of entries to skip
+ * @returns {object} Audit entries and their total count
+ */
+auditRouter.get("/audit", ...commonMiddleware, documentApiRoute({
+    method: 'GET',
+    path: '/audit',
+    summary: 'Get the audit log',
+    description: "Lists the requests that changed the account's Foundry worlds, newest first: which API key made them, the client, request type, target document, sanitized payload, resulting status code and duration. Requires the account's primary API key.",
+    optionalParams: [
+        { name: 'clientId', from: 'query', type: 'string', description: 'Only include requests to this Foundry client' },
+        { name: 'type', from: 'query', type: 'string', description: 'Only include requests of this type, e.g. delete or macro-execute' },
+        { name: 'from', from: 'query', type: 'string', description: 'Only include requests made at or after this date (ISO 8601)' },
+        { name: 'to', from: 'query', type: 'string', description: 'Only include requests made at or before this date (ISO 8601)' },
+        { name: 'limit', from: 'query', type: 'number', description: 'Maximum number of entries to return (default 100, at most 500)' },
+        { name: 'offset', from: 'query', type: 'number', description: 'Number of entries to skip' }
+    ]
+}, async (req: Request, res: Response) => {
+    const dates: Record<string, Date | undefined> = {};
+    for (const name of ['from', 'to']) {
+      const value = req.query[name];
+      if (value === undefined) continue;
+      if (typeof value !== 'string' || isNaN(Date.parse(value))) {
+        sendValidationError(res, validationError(`'${name}' must be a date like 2025-01-31 or 2025-01-31T12:00:00Z`, name, undefined, ValidationErrorCode.InvalidValue));
+        return;
+      }
+      dates[name] = new Date(value);
+    }
+
+    const limit = req.query.limit === undefined ? 100 : parseInt(req.query.limit as string, 10);
+    const offset = req.query.offset === undefined ? 0 : parseInt(req.query.offset as string, 10);
+    if (isNaN(limit) || limit < 1 || limit > AUDIT_MAX_LIMIT) {
+      sendValidationError(res, validationError(`'limit' must be between 1 and ${AUDIT_MAX_LIMIT}`, 'limit', undefined, ValidationErrorCode.OutOfRange));
+      return;
+    }
+    if (isNaN(offset) || offset < 0) {
+      sendValidationError(res, validationError("'offset' must be 0 or more", 'offset', undefined, ValidationErrorCode.OutOfRange));
+      return;
+    }
+
+    try {
+      const userId = req.user.getDataValue ? req.user.getDataValue('id') : req.user.id;
+      const { entries, total } = await AuditEntry.search({
+        userId,
+        clientId: typeof req.query.clientId === 'string' ? req.query.clientId : undefined,
+        type: typeof req.query.type === 'string' ? req.query.type : undefined,
+        from: dates.from,
+        to: dates.to,
+        limit,
+        offset
+      });
+
+      const apiKeys = await ApiKey.findAll({ where: { userId } });
+      const keyNames = new Map(apiKeys.map(k => [k.getDataValue('id'), k.getDataValue('name')]));
+
+      safeResponse(res, 200, {
+        total,
+        limit,
+        offset,
+        entries: entries.map(entry => {
+          const apiKeyId = entry.getDataValue('apiKeyId');
+          return {
+            id: entry.getDataValue('id'),
+            apiKeyId,
+            apiKeyName: apiKeyId === null ? 'Primary API key' : keyNames.get(apiKeyId) ?? 'Deleted API key',
+            clientId: entry.getDataValue('clientId'),
+            type: entry.getDataValue('type'),
+            method: entry.getDataValue('method'),
+            path: entry.getDataValue('path'),
+            targetUuid: entry.getDataValue('targetUuid'),
+            payload: entry.getDataValue('payload'),
+            statusCode: entry.getDataValue('statusCode'),
+            durationMs: entry.getDataValue('durationMs'),
+            jobId: entry.getDataValue('jobId'),
+            createdAt: entry.getDataValue('createdAt')
+          };
+        })
+      });
+    } catch (error) {
+      log.error(`Error fetching audit log: ${error}`);
+      safeResponse(res, 500, { error: "Failed to fetch audit log" });
+    }
+}));
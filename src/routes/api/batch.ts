@@ -0,0 +1,302 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { EventEmitter } from 'events';
+import { authMiddleware, ownsClient, trackApiUsage } from '../../middleware/auth';
+import { idempotencyMiddleware } from '../../middleware/idempotency';
+import { canAccessClient, hasScope, requiredScope, sendClientAccessError } from '../../middleware/scopes';
+import { ClientManager } from '../../core/ClientManager';
+import { Plans } from '../../core/Plans';
+import { safeResponse } from '../shared';
+import { ValidationErrorCode, sendValidationError, validationError } from '../validation';
+import { documentApiRoute, findApiRoute } from '../route-registry';
+import { log } from '../../utils/logger';
+
+export const batchRouter = Router();
+
+// Maximum number of sub-requests accepted in a single batch
+const BATCH_MAX_REQUESTS = parseInt(process.env.BATCH_MAX_REQUESTS || '50', 10);
+// Safety net in case a sub-request handler never responds
+const BATCH_ITEM_TIMEOUT_MS = 60000;
+
+const BATCH_METHODS = ['GET', 'POST', 'PUT', 'DELETE'] as const;
+
+interface BatchItem {
+  method: typeof BATCH_METHODS[number];
+  path: string;
+  query?: Record<string, any>;
+  body?: any;
+}
+
+interface BatchItemResult {
+  index: number;
+  method: string;
+  path: string;
+  status: number | null;
+  body?: any;
+  skipped?: boolean;
+}
+
+/**
+ * Collects what a route handler writes so it can be returned as a batch item result.
+ * Implements the subset of express.Response used by createApiRoute and the result handlers,
+ * including its 'finish' event.
+ */
+class BatchItemResponse extends EventEmitter {
+  statusCode = 200;
+  headersSent = false;
+  locals: Record<string, any> = {};
+  private headers: Record<string, any> = {};
+  private resolve!: (result: { status: number; body: any }) => void;
+  readonly done = new Promise<{ status: number; body: any }>((resolve) => {
+    this.resolve = resolve;
+  });
+
+  status(code: number): this {
+    this.statusCode = code;
+    return this;
+  }
+
+  setHeader(name: string, value: any): this {
+    this.headers[name.toLowerCase()] = value;
+    return this;
+  }
+
+  getHeader(name: string): any {
+    return this.headers[name.toLowerCase()];
+  }
+
+  json(body: any): this {
+    return this.finish(body);
+  }
+
+  send(body: any): this {
+    return this.finish(body);
+  }
+
+  end(body?: any): this {
+    return this.finish(Buffer.isBuffer(body) ? body.toString('base64') : body);
+  }
+
+  private finish(body: any): this {
+    if (this.headersSent) return this;
+    this.headersSent = true;
+    this.resolve({ status: this.statusCode, body });
+    this.emit('finish');
+    return this;
+  }
+}
+
+async function executeItem(req: Request, item: BatchItem, index: number, clientId: string): Promise<BatchItemResult> {
+  const method = item.method.toUpperCase();
+  const base = { index, method, path: item.path };
+
+  const match = findApiRoute(method, item.path);
+  if (!match) {
+    return {
+      ...base,
+      status: 404,
+      body: { error: `No batchable endpoint for ${method} ${item.path}` }
+    };
+  }
+
+  // Sub-requests skip the route middleware, so check the API key's scope here
+  const scope = requiredScope(method, item.path);
+  if (scope && !hasScope(req, scope)) {
+    return {
+      ...base,
+      status: 403,
+      body: { error: `This API key does not have the '${scope}' scope`, requiredScope: scope }
+    };
+  }
+
+  const feature = Plans.featureFor(method, item.path);
+  if (feature && req.plan && !req.plan.features.includes(feature)) {
+    return {
+      ...base,
+      status: 403,
+      body: { error: `The ${req.plan.name} plan does not include ${feature}`, feature, plan: req.plan.name }
+    };
+  }
+
+  // Items always run against the batch's client, which validateBatch checked
+  const body = item.body && typeof item.body === 'object' && !Array.isArray(item.body)
+    ? { ...item.body, clientId }
+    : item.body;
+
+  // Sub-requests share the batch's authentication and headers but get their own params
+  const subRequest = Object.create(req, {
+    method: { value: method },
+    url: { value: item.path },
+    path: { value: item.path },
+    params: { value: match.params },
+    query: { value: { ...(item.query || {}), clientId } },
+    body: { value: body },
+    file: { value: undefined },
+    // The batch as a whole is idempotent, its items must not store their own results
+    idempotencyKey: { value: undefined }
+  }) as Request;
+
+  const subResponse = new BatchItemResponse();
+  const timeout = setTimeout(() => {
+    safeResponse(subResponse as unknown as Response, 504, { error: "Batch item did not complete in time" });
+  }, BATCH_ITEM_TIMEOUT_MS);
+
+  try {
+    await match.route.handler!(subRequest, subResponse as unknown as Response, () => undefined);
+    const result = await subResponse.done;
+    return { ...base, status: result.status, body: result.body };
+  } catch (error) {
+    log.error(`Error executing batch item ${index} (${method} ${item.path}): ${error}`);
+    return { ...base, status: 500, body: { error: "Internal server error during batch item" } };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+// Validate the batch before usage is counted so malformed batches are not charged
+async function validateBatch(req: Request, res: Response, next: NextFunction): Promise<void> {
+  const requests = req.body?.requests;
+  const clientId = (req.query.clientId as string) || req.body?.clientId;
+
+  if (!clientId || typeof clientId !== 'string') {
+    sendValidationError(res, validationError(
+      "Client ID is required", 'clientId', "Add ?clientId=yourClientId to your request", ValidationErrorCode.MissingParameter
+    ));
+    return;
+  }
+
+  // authMiddleware only checks a clientId given in the query, so one from the body is checked here
+  if (!canAccessClient(req, clientId)) {
+    sendClientAccessError(res, clientId);
+    return;
+  }
+  const client = await ClientManager.getClient(clientId);
+  if (!client) {
+    safeResponse(res, 404, { error: "Invalid client ID" });
+    return;
+  }
+  if (!ownsClient(req, client)) {
+    safeResponse(res, 401, { error: "Invalid API key for this client ID" });
+    return;
+  }
+  // Recorded in the usage history by trackApiUsage
+  res.locals.clientId = clientId;
+
+  if (!Array.isArray(requests) || requests.length === 0) {
+    sendValidationError(res, validationError(
+      "'requests' must be a non-empty array",
+      'requests',
+      "Send JSON like {\"requests\": [{\"method\": \"GET\", \"path\": \"/get\", \"query\": {\"uuid\": \"Actor.abc\"}}]}",
+      requests === undefined ? ValidationErrorCode.MissingParameter : ValidationErrorCode.InvalidType
+    ));
+    return;
+  }
+
+  if (requests.length > BATCH_MAX_REQUESTS) {
+    sendValidationError(res, validationError(
+      `A batch may contain at most ${BATCH_MAX_REQUESTS} requests`, 'requests', undefined, ValidationErrorCode.OutOfRange
+    ));
+    return;
+  }
+
+  for (let i = 0; i < requests.length; i++) {
+    const item = requests[i];
+    if (!item || typeof item !== 'object') {
+      sendValidationError(res, validationError(`Request at index ${i} must be an object`, `requests[${i}]`, undefined, ValidationErrorCode.InvalidItem));
+      return;
+    }
+    if (!BATCH_METHODS.includes(String(item.method).toUpperCase() as BatchItem['method'])) {
+      sendValidationError(res, validationError(
+        `Request at index ${i} has an invalid method`, `requests[${i}].method`, `Use one of: ${BATCH_METHODS.join(', ')}`, ValidationErrorCode.InvalidValue
+      ));
+      return;
+    }
+    if (typeof item.path !== 'string' || !item.path.startsWith('/')) {
+      sendValidationError(res, validationError(`Request at index ${i} must have a path starting with '/'`, `requests[${i}].path`));
+      return;
+    }
+    if (item.path === '/batch') {
+      sendValidationError(res, validationError(`Request at index ${i} cannot be a nested batch`, `requests[${i}].path`));
+      return;
+    }
+    if (item.query !== undefined && (typeof item.query !== 'object' || Array.isArray(item.query))) {
+      sendValidationError(res, validationError(`Request at index ${i} has an invalid query object`, `requests[${i}].query`, undefined, ValidationErrorCode.InvalidType));
+      return;
+    }
+  }
+
+  // Each sub-request counts as one API request
+  req.usageCost = requests.length;
+  next();
+}
+
+/**
+ * Execute multiple requests in one call
+ *
+ * Runs many relay operations against the same Foundry client in a single HTTP call.
+ * Sub-requests run concurrently by default; set sequential=true to run them in order,
+ * and stopOnError=true to stop (and run sequentially) at the first non-2xx result.
+ * Each sub-request counts as one request towards usage limits.
+ *
+ * @route POST /batch
+ * @param {string} clientId - [query/body] The ID of the Foundry client to connect to
+ * @param {array} requests - [body] Sub-requests as {method, path, query?, body?}, e.g. {"method": "GET", "path": "/get", "query": {"uuid": "Actor.abc"}}
+ * @param {boolean} sequential - [body,?] Run sub-requests one after another
+ * @param {boolean} stopOnError - [body,?] Stop at the first failed sub-request (implies sequential)
+ * @returns {object} Per-request status codes and response bodies
+ */
+batchRouter.post("/batch", authMiddleware, validateBatch, idempotencyMiddleware, trackApiUsage, documentApiRoute({
+    method: 'POST',
+    path: '/batch',
+    summary: 'Execute multiple requests in one call',
+    description: 'Runs many relay operations against the same Foundry client in a single HTTP call. Sub-requests run concurrently by default; set sequential=true to run them in order, and stopOnError=true to stop (and run sequentially) at the first non-2xx result. Each sub-request counts as one request towards usage limits.',
+    requiredParams: [
+        { name: 'clientId', from: ['query', 'body'], type: 'string', description: 'The ID of the Foundry client to connect to' },
+        { name: 'requests', from: 'body', type: 'array', description: 'Sub-requests as {method, path, query?, body?}, e.g. {"method": "GET", "path": "/get", "query": {"uuid": "Actor.abc"}}' }
+    ],
+    optionalParams: [
+        { name: 'sequential', from: 'body', type: 'boolean', description: 'Run sub-requests one after another' },
+        { name: 'stopOnError', from: 'body', type: 'boolean', description: 'Stop at the first failed sub-request (implies sequential)' }
+    ]
+}, async (req: Request, res: Response) => {
+    const clientId = (req.query.clientId as string) || req.body.clientId;
+    const requests: BatchItem[] = req.body.requests;
+    const stopOnError = req.body.stopOnError === true || req.body.stopOnError === 'true';
+    const sequential = stopOnError || req.body.sequential === true || req.body.sequential === 'true';
+
+    try {
+      let results: BatchItemResult[];
+
+      if (sequential) {
+        results = [];
+        let failed = false;
+        for (let i = 0; i < requests.length; i++) {
+          if (failed) {
+            results.push({ index: i, method: requests[i].method.toUpperCase(), path: requests[i].path, status: null, skipped: true });
+            continue;
+          }
+          const result = await executeItem(req, requests[i], i, clientId);
+          results.push(result);
+          if (stopOnError && (result.status === null || result.status >= 400)) {
+            failed = true;
+          }
+        }
+      } else {
+        results = await Promise.all(requests.map((item, i) => executeItem(req, item, i, clientId)));
+      }
+
+      const succeeded = results.filter(r => r.status !== null && r.status < 400).length;
+      const skipped = results.filter(r => r.skipped).length;
+
+      safeResponse(res, 200, {
+        clientId,
+        total: results.length,
+        succeeded,
+        failed: results.length - succeeded - skipped,
+        skipped,
+        results
+      });
+    } catch (error) {
+      log.error(`Error processing batch request: ${error}`);
+      safeResponse(res, 500, { error: "Failed to process batch request" });
+    }
+}));
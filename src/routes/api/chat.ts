@@ -1,11 +1,11 @@
 import { Router } from 'express';
-import { requestForwarderMiddleware } from '../../middleware/requestForwarder';
 import { authMiddleware, trackApiUsage } from '../../middleware/auth';
+import { idempotencyMiddleware } from '../../middleware/idempotency';
 import { createApiRoute } from '../route-helpers';
 
 export const chatRouter = Router();
 
-const commonMiddleware = [requestForwarderMiddleware, authMiddleware, trackApiUsage];
+const commonMiddleware = [authMiddleware, idempotencyMiddleware, trackApiUsage];
 
 /**
  * Send a chat message to Foundry VTT
@@ -23,8 +23,12 @@ const commonMiddleware = [requestForwarderMiddleware, authMiddleware, trackApiUs
  */
 chatRouter.post("/chat", ...commonMiddleware, createApiRoute({
   type: 'chat',
+  method: 'POST',
+  path: '/chat',
+  summary: 'Send a chat message to Foundry VTT',
+  description: "This endpoint sends a chat message to the Foundry world's chat log. Requires the Foundry module to be installed and connected to the relay server.",
   requiredParams: [
-    { name: 'clientId', from: 'body', type: 'string' }, // Client ID for the Foundry world
+    { name: 'clientId', from: ['body', 'query'], type: 'string' }, // Client ID for the Foundry world
     { name: 'message', from: 'body', type: 'object' }, // The complete message object
     { name: 'message.message', from: 'body', type: 'string' }, // Message content
     { name: 'message.speaker', from: 'body', type: 'string' }, // Speaker name
@@ -49,13 +53,17 @@ chatRouter.post("/chat", ...commonMiddleware, createApiRoute({
  */
 chatRouter.get("/messages", ...commonMiddleware, createApiRoute({
   type: 'chat-messages',
+  method: 'GET',
+  path: '/messages',
+  summary: 'Get chat messages from Foundry VTT',
+  description: "This endpoint retrieves recent chat messages from the Foundry world's chat log. Requires the Foundry module to be installed and connected to the relay server.",
   requiredParams: [
     { name: 'clientId', from: 'query', type: 'string' } // Client ID for Foundry world
   ],
   optionalParams: [
-    { name: 'limit', from: 'query', type: 'number' }, // Maximum number of messages to return (default: 20)
+    { name: 'limit', from: 'query', type: 'number', min: 1 }, // Maximum number of messages to return (default: 20)
     { name: 'sort', from: 'query', type: 'string' }, // Field to sort by (default: timestamp)
-    { name: 'order', from: 'query', type: 'string' }, // Sort order (asc or desc, default: desc)
+    { name: 'order', from: 'query', type: 'string', enum: ['asc', 'desc'] }, // Sort order (asc or desc, default: desc)
     { name: 'user', from: 'query', type: 'string' }, // Filter messages by specific user
     { name: 'type', from: 'query', type: 'string' }, // Filter messages by type (roll, chat, ooc, etc.)
     { name: 'refresh', from: 'query', type: 'boolean' } // Force refresh of message cache from Foundry
@@ -1,11 +1,11 @@
 import express, { Router } from 'express';
-import { requestForwarderMiddleware } from '../../middleware/requestForwarder';
 import { authMiddleware, trackApiUsage } from '../../middleware/auth';
+import { idempotencyMiddleware } from '../../middleware/idempotency';
 import { createApiRoute } from '../route-helpers';
 
 export const dnd5eRouter = Router();
 
-const commonMiddleware = [requestForwarderMiddleware, authMiddleware, trackApiUsage, express.json()];
+const commonMiddleware = [authMiddleware, idempotencyMiddleware, trackApiUsage, express.json()];
 
 /**
  * Get detailed information for a specific D&D 5e actor.
@@ -18,10 +18,15 @@ const commonMiddleware = [requestForwarderMiddleware, authMiddleware, trackApiUs
  */
 dnd5eRouter.get("/get-actor-details", ...commonMiddleware, createApiRoute({
     type: 'get-actor-details',
+    method: 'GET',
+    path: '/dnd5e/get-actor-details',
+    summary: 'Get detailed information for a specific D&D 5e actor',
+    description: 'Retrieves comprehensive details about an actor including stats, inventory, spells, features, and other character information based on the requested details array.',
+    requiredSystem: 'dnd5e',
     requiredParams: [
         { name: 'clientId', from: ['body', 'query'], type: 'string' }, // Client ID for the Foundry world
         { name: 'actorUuid', from: ['body', 'query'], type: 'string' }, // UUID of the actor
-        { name: 'details', from: ['body', 'query'], type: 'array' } // Array of detail types to retrieve (e.g., ["resources", "items", "spells", "features"])
+        { name: 'details', from: ['body', 'query'], type: 'array', items: 'string', min: 1 } // Array of detail types to retrieve (e.g., ["resources", "items", "spells", "features"])
     ]
 }));
 
@@ -36,6 +41,11 @@ dnd5eRouter.get("/get-actor-details", ...commonMiddleware, createApiRoute({
  */
 dnd5eRouter.post("/modify-item-charges", ...commonMiddleware, createApiRoute({
     type: 'modify-item-charges',
+    method: 'POST',
+    path: '/dnd5e/modify-item-charges',
+    summary: 'Modify the charges for a specific item owned by an actor',
+    description: "Increases or decreases the charges/uses of an item in an actor's inventory. Useful for consumable items like potions, scrolls, or charged magic items.",
+    requiredSystem: 'dnd5e',
     requiredParams: [
         { name: 'clientId', from: ['body', 'query'], type: 'string' }, // Client ID for the Foundry world
         { name: 'actorUuid', from: ['body', 'query'], type: 'string' }, // UUID of the actor who owns the item
@@ -58,6 +68,11 @@ dnd5eRouter.post("/modify-item-charges", ...commonMiddleware, createApiRoute({
  */
 dnd5eRouter.post("/use-ability", ...commonMiddleware, createApiRoute({
     type: 'use-ability',
+    method: 'POST',
+    path: '/dnd5e/use-ability',
+    summary: 'Use a general ability for an actor',
+    description: 'Triggers the use of any ability, feature, spell, or item for an actor. This is a generic endpoint that can handle various types of abilities.',
+    requiredSystem: 'dnd5e',
     requiredParams: [
         { name: 'clientId', from: ['body', 'query'], type: 'string' }, // Client ID for the Foundry world
         { name: 'actorUuid', from: ['body', 'query'], type: 'string' } // UUID of the actor using the ability
@@ -81,6 +96,11 @@ dnd5eRouter.post("/use-ability", ...commonMiddleware, createApiRoute({
  */
 dnd5eRouter.post("/use-feature", ...commonMiddleware, createApiRoute({
     type: 'use-feature',
+    method: 'POST',
+    path: '/dnd5e/use-feature',
+    summary: 'Use a class or racial feature for an actor',
+    description: 'Activates class features (like Action Surge, Rage) or racial features (like Dragonborn Breath Weapon) for a character.',
+    requiredSystem: 'dnd5e',
     requiredParams: [
         { name: 'clientId', from: ['body', 'query'], type: 'string' }, // Client ID for the Foundry world
         { name: 'actorUuid', from: ['body', 'query'], type: 'string' } // UUID of the actor using the feature
@@ -104,6 +124,11 @@ dnd5eRouter.post("/use-feature", ...commonMiddleware, createApiRoute({
  */
 dnd5eRouter.post("/use-spell", ...commonMiddleware, createApiRoute({
     type: 'use-spell',
+    method: 'POST',
+    path: '/dnd5e/use-spell',
+    summary: 'Cast a spell for an actor',
+    description: "Casts a spell from the actor's spell list, consuming spell slots as appropriate. Handles cantrips, leveled spells, and spell-like abilities.",
+    requiredSystem: 'dnd5e',
     requiredParams: [
         { name: 'clientId', from: ['body', 'query'], type: 'string' }, // Client ID for the Foundry world
         { name: 'actorUuid', from: ['body', 'query'], type: 'string' } // UUID of the actor casting the spell
@@ -127,6 +152,11 @@ dnd5eRouter.post("/use-spell", ...commonMiddleware, createApiRoute({
  */
 dnd5eRouter.post("/use-item", ...commonMiddleware, createApiRoute({
     type: 'use-item',
+    method: 'POST',
+    path: '/dnd5e/use-item',
+    summary: 'Use an item for an actor',
+    description: "Activates an item from the actor's inventory, such as drinking a potion, using a magic item, or activating equipment with special properties.",
+    requiredSystem: 'dnd5e',
     requiredParams: [
         { name: 'clientId', from: ['body', 'query'], type: 'string' }, // Client ID for the Foundry world
         { name: 'actorUuid', from: ['body', 'query'], type: 'string' } // UUID of the actor using the item
@@ -149,6 +179,11 @@ dnd5eRouter.post("/use-item", ...commonMiddleware, createApiRoute({
  */
 dnd5eRouter.post("/modify-experience", ...commonMiddleware, createApiRoute({
     type: 'modify-experience',
+    method: 'POST',
+    path: '/dnd5e/modify-experience',
+    summary: 'Modify the experience points for a specific actor',
+    description: 'Adds or removes experience points from an actor.',
+    requiredSystem: 'dnd5e',
     requiredParams: [
         { name: 'clientId', from: ['body', 'query'], type: 'string' }, // Client ID for the Foundry world
         { name: 'amount', from: ['body', 'query'], type: 'number' } // The amount of experience to add (can be negative)
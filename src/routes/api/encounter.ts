@@ -1,10 +1,10 @@
 import { Router } from 'express';
 import express from 'express';
-import { requestForwarderMiddleware } from '../../middleware/requestForwarder';
 import { authMiddleware, trackApiUsage } from '../../middleware/auth';
+import { idempotencyMiddleware } from '../../middleware/idempotency';
 import { createApiRoute } from '../route-helpers';
 export const encounterRouter = Router();
-const commonMiddleware = [requestForwarderMiddleware, authMiddleware, trackApiUsage];
+const commonMiddleware = [authMiddleware, idempotencyMiddleware, trackApiUsage];
 
 /**
  * Get all active encounters
@@ -16,6 +16,10 @@ const commonMiddleware = [requestForwarderMiddleware, authMiddleware, trackApiUs
  */
 encounterRouter.get("/encounters", ...commonMiddleware, createApiRoute({
   type: 'encounters',
+  method: 'GET',
+  path: '/encounters',
+  summary: 'Get all active encounters',
+  description: 'Retrieves a list of all currently active encounters in the Foundry world.',
   requiredParams: [
     { name: 'clientId', from: 'query', type: 'string' } // The ID of the Foundry client to connect to
   ]
@@ -31,11 +35,15 @@ encounterRouter.get("/encounters", ...commonMiddleware, createApiRoute({
  */
 encounterRouter.post("/start-encounter", ...commonMiddleware, express.json(), createApiRoute({
   type: 'start-encounter',
+  method: 'POST',
+  path: '/start-encounter',
+  summary: 'Start a new encounter',
+  description: 'Initiates a new encounter in the Foundry world.',
   requiredParams: [
     { name: 'clientId', from: 'query', type: 'string' } // The ID of the Foundry client to connect to
   ],
   optionalParams: [
-    { name: 'tokens', from: 'body', type: 'array' }, // Array of token UUIDs to include in the encounter
+    { name: 'tokens', from: 'body', type: 'array', items: 'string' }, // Array of token UUIDs to include in the encounter
     { name: 'startWithSelected', from: 'body', type: 'boolean' }, // Whether to start with selected tokens
     { name: 'startWithPlayers', from: 'body', type: 'boolean' }, // Whether to start with players
     { name: 'rollNPC', from: 'body', type: 'boolean' }, // Whether to roll for NPCs
@@ -54,6 +62,10 @@ encounterRouter.post("/start-encounter", ...commonMiddleware, express.json(), cr
  */
 encounterRouter.post("/next-turn", ...commonMiddleware, express.json(), createApiRoute({
   type: 'next-turn',
+  method: 'POST',
+  path: '/next-turn',
+  summary: 'Advance to the next turn in the encounter',
+  description: 'Moves the encounter to the next turn.',
   requiredParams: [
     { name: 'clientId', from: 'query', type: 'string' } // The ID of the Foundry client to connect to
   ],
@@ -72,6 +84,10 @@ encounterRouter.post("/next-turn", ...commonMiddleware, express.json(), createAp
  */
 encounterRouter.post("/next-round", ...commonMiddleware, express.json(), createApiRoute({
   type: 'next-round',
+  method: 'POST',
+  path: '/next-round',
+  summary: 'Advance to the next round in the encounter',
+  description: 'Moves the encounter to the next round.',
   requiredParams: [
     { name: 'clientId', from: 'query', type: 'string' } // The ID of the Foundry client to connect to
   ],
@@ -90,6 +106,10 @@ encounterRouter.post("/next-round", ...commonMiddleware, express.json(), createA
  */
 encounterRouter.post("/last-turn", ...commonMiddleware, express.json(), createApiRoute({
   type: 'last-turn',
+  method: 'POST',
+  path: '/last-turn',
+  summary: 'Advance to the last turn in the encounter',
+  description: 'Moves the encounter to the last turn.',
   requiredParams: [
     { name: 'clientId', from: 'query', type: 'string' } // The ID of the Foundry client to connect to
   ],
@@ -108,6 +128,10 @@ encounterRouter.post("/last-turn", ...commonMiddleware, express.json(), createAp
  */
 encounterRouter.post("/last-round", ...commonMiddleware, express.json(), createApiRoute({
   type: 'last-round',
+  method: 'POST',
+  path: '/last-round',
+  summary: 'Advance to the last round in the encounter',
+  description: 'Moves the encounter to the last round.',
   requiredParams: [
     { name: 'clientId', from: 'query', type: 'string' } // The ID of the Foundry client to connect to
   ],
@@ -126,6 +150,10 @@ encounterRouter.post("/last-round", ...commonMiddleware, express.json(), createA
  */
 encounterRouter.post("/end-encounter", ...commonMiddleware, express.json(), createApiRoute({
   type: 'end-encounter',
+  method: 'POST',
+  path: '/end-encounter',
+  summary: 'End an encounter',
+  description: 'Ends the current encounter in the Foundry world.',
   requiredParams: [
     { name: 'clientId', from: 'query', type: 'string' } // The ID of the Foundry client to connect to
   ],
@@ -144,13 +172,17 @@ encounterRouter.post("/end-encounter", ...commonMiddleware, express.json(), crea
  */
 encounterRouter.post("/add-to-encounter", ...commonMiddleware, express.json(), createApiRoute({
   type: 'add-to-encounter',
+  method: 'POST',
+  path: '/add-to-encounter',
+  summary: 'Add tokens to an encounter',
+  description: 'Adds selected tokens or specified UUIDs to the current encounter.',
   requiredParams: [
     { name: 'clientId', from: 'query', type: 'string' } // The ID of the Foundry client to connect to
   ],
   optionalParams: [
     { name: 'encounter', from: ['query', 'body'], type: 'string' }, // The ID of the encounter to add tokens to (optional, defaults to current encounter)
     { name: 'selected', from: 'body', type: 'boolean' }, // Whether to add selected tokens (optional, defaults to false)
-    { name: 'uuids', from: 'body', type: 'array' }, // The UUIDs of the tokens to add (optional, defaults to empty array)
+    { name: 'uuids', from: 'body', type: 'array', items: 'string' }, // The UUIDs of the tokens to add (optional, defaults to empty array)
     { name: 'rollInitiative', from: 'body', type: 'boolean' } // Whether to roll initiative for the added tokens (optional, defaults to false)
   ]
 }));
@@ -165,12 +197,16 @@ encounterRouter.post("/add-to-encounter", ...commonMiddleware, express.json(), c
  */
 encounterRouter.post("/remove-from-encounter", ...commonMiddleware, express.json(), createApiRoute({
   type: 'remove-from-encounter',
+  method: 'POST',
+  path: '/remove-from-encounter',
+  summary: 'Remove tokens from an encounter',
+  description: 'Removes selected tokens or specified UUIDs from the current encounter.',
   requiredParams: [
     { name: 'clientId', from: 'query', type: 'string' } // The ID of the Foundry client to connect to 
   ],
   optionalParams: [
     { name: 'encounter', from: ['query', 'body'], type: 'string' }, // The ID of the encounter to remove tokens from (optional, defaults to current encounter)
     { name: 'selected', from: 'body', type: 'boolean' }, // Whether to remove selected tokens (optional, defaults to false)
-    { name: 'uuids', from: 'body', type: 'array' } // The UUIDs of the tokens to remove (optional, defaults to empty array)
+    { name: 'uuids', from: 'body', type: 'array', items: 'string' } // The UUIDs of the tokens to remove (optional, defaults to empty array)
   ]
 }));
\ No newline at end of file
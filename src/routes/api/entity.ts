@@ -1,14 +1,18 @@
 import { Router } from 'express';
 import express from 'express';
-import { requestForwarderMiddleware } from '../../middleware/requestForwarder';
 import { authMiddleware, trackApiUsage } from '../../middleware/auth';
+import { idempotencyMiddleware } from '../../middleware/idempotency';
 import { createApiRoute } from '../route-helpers';
 import { log } from '../../utils/logger';
 import { validateScript } from './utility';
 
 export const entityRouter = Router();
 
-const commonMiddleware = [requestForwarderMiddleware, authMiddleware, trackApiUsage];
+const commonMiddleware = [authMiddleware, idempotencyMiddleware, trackApiUsage];
+
+// Bounds of item quantities and attribute changes, negative values are allowed
+const MAX_QUANTITY = 1000000;
+const MAX_ATTRIBUTE_AMOUNT = 1000000;
 
 /**
  * Get entity details
@@ -20,6 +24,10 @@ const commonMiddleware = [requestForwarderMiddleware, authMiddleware, trackApiUs
  */
 entityRouter.get("/get", ...commonMiddleware, createApiRoute({
     type: 'entity',
+    method: 'GET',
+    path: '/get',
+    summary: 'Get entity details',
+    description: 'This endpoint retrieves the details of a specific entity.',
     requiredParams: [
         { name: 'clientId', from: 'query', type: 'string' } // Client ID for the Foundry world
     ],
@@ -40,6 +48,10 @@ entityRouter.get("/get", ...commonMiddleware, createApiRoute({
  */
 entityRouter.post("/create", ...commonMiddleware, express.json(), createApiRoute({
     type: 'create',
+    method: 'POST',
+    path: '/create',
+    summary: 'Create a new entity',
+    description: 'This endpoint creates a new entity in the Foundry world.',
     requiredParams: [
         { name: 'clientId', from: 'query', type: 'string' }, // Client ID for the Foundry world
         { name: 'entityType', from: 'body', type: 'string' }, // Document type of entity to create (Scene, Actor, Item, JournalEntry, RollTable, Cards, Macro, Playlist, ext.)
@@ -54,6 +66,7 @@ entityRouter.post("/create", ...commonMiddleware, express.json(), createApiRoute
                 log.warn(`Request for ${params.clientId} contains forbidden patterns in script`);
                 return {
                     error: "Script contains forbidden patterns",
+                    field: "data.command",
                     suggestion: "Ensure the script does not access localStorage, sessionStorage, or eval()"
                 };
             }
@@ -72,6 +85,10 @@ entityRouter.post("/create", ...commonMiddleware, express.json(), createApiRoute
  */
 entityRouter.put("/update", ...commonMiddleware, express.json(), createApiRoute({
     type: 'update',
+    method: 'PUT',
+    path: '/update',
+    summary: 'Update an existing entity',
+    description: 'This endpoint updates an existing entity in the Foundry world.',
     requiredParams: [
         { name: 'clientId', from: 'query', type: 'string' }, // Client ID for the Foundry world
         { name: 'data', from: 'body', type: 'object' } // Data to update the entity with
@@ -93,6 +110,10 @@ entityRouter.put("/update", ...commonMiddleware, express.json(), createApiRoute(
  */
 entityRouter.delete("/delete", ...commonMiddleware, createApiRoute({
     type: 'delete',
+    method: 'DELETE',
+    path: '/delete',
+    summary: 'Delete an entity',
+    description: 'This endpoint deletes an entity from the Foundry world.',
     requiredParams: [
         { name: 'clientId', from: 'query', type: 'string' } // Client ID for the Foundry world
     ],
@@ -113,6 +134,10 @@ entityRouter.delete("/delete", ...commonMiddleware, createApiRoute({
  */
 entityRouter.post("/give", ...commonMiddleware, express.json(), createApiRoute({
 type: 'give',
+method: 'POST',
+path: '/give',
+summary: 'Give an item to an entity',
+description: 'This endpoint gives an item to a specified entity. Optionally, removes the item from the giver.',
 requiredParams: [
     { name: 'clientId', from: ['body', 'query'], type: 'string' } // Client ID for the Foundry world
 ],
@@ -122,7 +147,7 @@ optionalParams: [
     { name: 'selected', from: 'body', type: 'boolean' }, // Whether to give to the selected token's actor
     { name: 'itemUuid', from: 'body', type: 'string' }, // UUID of the item to give (optional if itemName provided)
     { name: 'itemName', from: 'body', type: 'string' }, // Name of the item to give (search with Quick Insert if UUID not provided)
-    { name: 'quantity', from: 'body', type: 'number' } // Quantity of the item to give (negative values decrease quantity to 0)
+    { name: 'quantity', from: 'body', type: 'number', integer: true, min: -MAX_QUANTITY, max: MAX_QUANTITY } // Quantity of the item to give (negative values decrease quantity to 0)
 ]
 }));
 
@@ -133,6 +158,10 @@ optionalParams: [
  */
 entityRouter.post("/remove", ...commonMiddleware, express.json(), createApiRoute({
 type: 'remove',
+method: 'POST',
+path: '/remove',
+summary: 'Remove an item from an entity',
+description: 'This endpoint removes an item from a specified entity.',
 requiredParams: [
     { name: 'clientId', from: ['body', 'query'], type: 'string' } // Client ID for the Foundry world
 ],
@@ -141,7 +170,7 @@ optionalParams: [
     { name: 'selected', from: 'body', type: 'boolean' }, // Whether to remove from the selected token's actor
     { name: 'itemUuid', from: 'body', type: 'string' }, // UUID of the item to remove
     { name: 'itemName', from: 'body', type: 'string' }, // Name of the item to remove (search with Quick Insert if UUID not provided)
-    { name: 'quantity', from: 'body', type: 'number' } // Quantity of the item to remove
+    { name: 'quantity', from: 'body', type: 'number', integer: true, min: -MAX_QUANTITY, max: MAX_QUANTITY } // Quantity of the item to remove
 ]
 }));
 
@@ -155,10 +184,14 @@ optionalParams: [
  */
 entityRouter.post("/decrease", ...commonMiddleware, express.json(), createApiRoute({
   type: 'decrease',
+  method: 'POST',
+  path: '/decrease',
+  summary: 'Decrease an attribute',
+  description: 'This endpoint decreases an attribute of a specified entity.',
   requiredParams: [
     { name: 'clientId', from: 'query', type: 'string' }, // Client ID for the Foundry world
     { name: 'attribute', from: 'body', type: 'string' }, // The attribute data path to decrease (e.g., "system.attributes.hp.value")
-    { name: 'amount', from: 'body', type: 'number' } // The amount to decrease the attribute by
+    { name: 'amount', from: 'body', type: 'number', min: -MAX_ATTRIBUTE_AMOUNT, max: MAX_ATTRIBUTE_AMOUNT } // The amount to decrease the attribute by
   ],
   optionalParams: [
     { name: 'uuid', from: 'query', type: 'string' }, // UUID of the entity to decrease the attribute for (optional if selected=true)
@@ -176,10 +209,14 @@ entityRouter.post("/decrease", ...commonMiddleware, express.json(), createApiRou
  */
 entityRouter.post("/increase", ...commonMiddleware, express.json(), createApiRoute({
   type: 'increase',
+  method: 'POST',
+  path: '/increase',
+  summary: 'Increase an attribute',
+  description: 'This endpoint increases an attribute of a specified entity.',
   requiredParams: [
     { name: 'clientId', from: 'query', type: 'string' }, // Client ID for the Foundry world
     { name: 'attribute', from: 'body', type: 'string' }, // The attribute data path to increase (e.g., "system.attributes.hp.value")
-    { name: 'amount', from: 'body', type: 'number' } // The amount to increase the attribute by
+    { name: 'amount', from: 'body', type: 'number', min: -MAX_ATTRIBUTE_AMOUNT, max: MAX_ATTRIBUTE_AMOUNT } // The amount to increase the attribute by
   ],
   optionalParams: [
     { name: 'uuid', from: 'query', type: 'string' }, // UUID of the entity to increase the attribute for (optional if selected=true)
@@ -199,6 +236,10 @@ entityRouter.post("/increase", ...commonMiddleware, express.json(), createApiRou
  */
 entityRouter.post("/kill", ...commonMiddleware, express.json(), createApiRoute({
   type: 'kill',
+  method: 'POST',
+  path: '/kill',
+  summary: 'Kill an entity',
+  description: 'Marks an entity as killed in the combat tracker, gives it the "dead" status, and sets its health to 0 in the Foundry world.',
   requiredParams: [
     { name: 'clientId', from: 'query', type: 'string' } // Client ID for the Foundry world
   ],
@@ -0,0 +1,117 @@
+import { Router, Request, Response } from 'express';
+import { authMiddleware, trackApiUsage } from '../../middleware/auth';
+import { ClusterTransport } from '../../core/ClusterTransport';
+import { WorldEvents, WorldEvent, WorldEventType, WORLD_EVENT_TYPES } from '../../core/WorldEvents';
+import { safeResponse } from '../shared';
+import { documentApiRoute } from '../route-registry';
+import { log } from '../../utils/logger';
+
+export const eventsRouter = Router();
+
+const commonMiddleware = [authMiddleware, trackApiUsage];
+
+// Interval for SSE keep-alive comments so proxies don't close idle streams
+const EVENTS_HEARTBEAT_INTERVAL_MS = parseInt(process.env.EVENTS_HEARTBEAT_INTERVAL_MS || '15000', 10);
+
+function writeEvent(res: Response, event: WorldEvent): void {
+  res.write(`id: ${event.id}\n`);
+  res.write(`event: ${event.type}\n`);
+  res.write(`data: ${JSON.stringify(event)}\n\n`);
+}
+
+/**
+ * Stream world events
+ *
+ * Opens a Server-Sent Events stream of events pushed by the Foundry world
+ * (chat messages, roll results, combat turn changes and document updates).
+ * Reconnecting with the Last-Event-ID header replays missed events from a short buffer.
+ *
+ * @route GET /events
+ * @param {string} clientId - [query] The ID of the Foundry client to subscribe to
+ * @param {string} types - [query,?] Comma-separated event types to receive (chat, roll, combat-turn, actor-update, document-update)
+ * @param {string} lastEventId - [query,?] Resume after this event id (alternative to the Last-Event-ID header)
+ * @returns {stream} text/event-stream of world events
+ */
+eventsRouter.get("/events", ...commonMiddleware, documentApiRoute({
+    method: 'GET',
+    path: '/events',
+    summary: 'Stream world events',
+    description: 'Opens a Server-Sent Events stream of events pushed by the Foundry world (chat messages, roll results, combat turn changes and document updates). Reconnecting with the Last-Event-ID header replays missed events from a short buffer.',
+    requiredParams: [
+        { name: 'clientId', from: 'query', type: 'string', description: 'The ID of the Foundry client to subscribe to' }
+    ],
+    optionalParams: [
+        { name: 'types', from: 'query', type: 'string', description: 'Comma-separated event types to receive (chat, roll, combat-turn, actor-update, document-update)' },
+        { name: 'lastEventId', from: 'query', type: 'string', description: 'Resume after this event id (alternative to the Last-Event-ID header)' }
+    ],
+    headers: [
+        { name: 'Last-Event-ID', description: 'Resume after this event id, sent by EventSource when it reconnects' }
+    ]
+}, async (req: Request, res: Response) => {
+    const clientId = req.query.clientId as string;
+    const typesParam = req.query.types as string | undefined;
+    const lastEventId = req.header('last-event-id') || (req.query.lastEventId as string) || null;
+
+    if (!clientId) {
+      safeResponse(res, 400, {
+        error: "Client ID is required",
+        howToUse: "Add ?clientId=yourClientId to your request"
+      });
+      return;
+    }
+
+    let types: Set<WorldEventType> | null = null;
+    if (typesParam) {
+      const requested = typesParam.split(',').map(t => t.trim()).filter(Boolean);
+      const unknown = requested.filter(t => !WORLD_EVENT_TYPES.includes(t as WorldEventType));
+      if (unknown.length > 0) {
+        safeResponse(res, 400, {
+          error: `Unknown event type(s): ${unknown.join(', ')}`,
+          howToUse: `Use a comma-separated list of: ${WORLD_EVENT_TYPES.join(', ')}`
+        });
+        return;
+      }
+      types = new Set(requested as WorldEventType[]);
+    }
+
+    const matches = (event: WorldEvent) => !types || types.has(event.type);
+
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+
+    // Tell EventSource clients how long to wait before reconnecting
+    res.write(`retry: 3000\n\n`);
+
+    // Replay anything missed since the last event the consumer saw
+    for (const event of WorldEvents.getEventsSince(clientId, lastEventId)) {
+      if (matches(event)) {
+        writeEvent(res, event);
+      }
+    }
+
+    const unsubscribe = WorldEvents.subscribe(clientId, (event) => {
+      if (matches(event)) {
+        writeEvent(res, event);
+      }
+    });
+
+    // Receive events from the instance holding the client's WebSocket when it is not this one
+    const stopRelay = ClusterTransport.relayWorldEvents(clientId);
+
+    const heartbeat = setInterval(() => {
+      res.write(`: keepalive ${Date.now()}\n\n`);
+    }, EVENTS_HEARTBEAT_INTERVAL_MS);
+
+    log.info(`Event stream opened for client ${clientId}`, { types: types ? Array.from(types) : 'all' });
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+      stopRelay();
+      log.info(`Event stream closed for client ${clientId}`);
+    });
+}));
@@ -1,14 +1,44 @@
 import { Router, Request, Response } from 'express';
 import express from 'express';
-import { requestForwarderMiddleware } from '../../middleware/requestForwarder';
 import { authMiddleware, trackApiUsage } from '../../middleware/auth';
+import { idempotencyMiddleware, awaitLateResult } from '../../middleware/idempotency';
 import { ClientManager } from '../../core/ClientManager';
-import { pendingRequests, safeResponse } from '../shared';
+import { Jobs } from '../../core/Jobs';
+import { FileTransfers } from '../../core/FileTransfers';
+import { pendingRequests, safeResponse, sendClientReconnecting } from '../shared';
 import { log } from '../../utils/logger';
+import { parseRangeHeader } from '../../lib/httpRange';
+import { ValidationErrorCode, parseParams, sendValidationError, validationError } from '../validation';
+import { ApiRouteDoc, documentApiRoute } from '../route-registry';
 
 export const fileSystemRouter = Router();
 
-const commonMiddleware = [requestForwarderMiddleware, authMiddleware, trackApiUsage];
+const commonMiddleware = [authMiddleware, idempotencyMiddleware, trackApiUsage];
+
+// Largest binary upload in bytes, 250MB by default
+const UPLOAD_MAX_BYTES = parseInt(process.env.UPLOAD_MAX_BYTES || '262144000', 10);
+
+function sendBodyError(res: Response, error: unknown): void {
+    sendValidationError(res, {
+      ...validationError("Failed to parse request body", null, "Check your request size and content type"),
+      details: error instanceof Error ? error.message : String(error)
+    });
+}
+
+const fileSystemRoute: ApiRouteDoc = {
+  method: 'GET',
+  path: '/file-system',
+  summary: 'Get file system structure',
+  requiredParams: [
+    { name: 'clientId', from: 'query', type: 'string' }
+  ],
+  optionalParams: [
+    { name: 'path', from: 'query', type: 'string' },
+    { name: 'source', from: 'query', type: 'string' },
+    { name: 'recursive', from: 'query', type: 'boolean' }
+  ],
+  async: true
+};
 
 /**
  * Get file system structure
@@ -18,21 +48,27 @@ const commonMiddleware = [requestForwarderMiddleware, authMiddleware, trackApiUs
  * @param {string} path - [query,?] The path to retrieve (relative to source)
  * @param {string} source - [query,?] The source directory to use (data, systems, modules, etc.)
  * @param {boolean} recursive - [query,?] Whether to recursively list all subdirectories
+ * @param {boolean} async - [query,?] Return 202 with a job ID instead of waiting for the result
+ * @param {string} callbackUrl - [query,?] URL the finished job is POSTed to (requires async=true)
  * @returns {object} File system structure with files and directories
  */
-fileSystemRouter.get("/file-system", ...commonMiddleware, async (req: Request, res: Response) => {
-    const clientId = req.query.clientId as string;
-    const path = req.query.path as string || "";
-    const source = req.query.source as string || "data";
-    const recursive = req.query.recursive === "true";
-    
-    if (!clientId) {
-      safeResponse(res, 400, { 
-        error: "Client ID is required",
-        howToUse: "Add ?clientId=yourClientId to your request"
-      });
+fileSystemRouter.get("/file-system", ...commonMiddleware, documentApiRoute(fileSystemRoute, async (req: Request, res: Response) => {
+    const { params, error } = parseParams(req, fileSystemRoute.requiredParams, fileSystemRoute.optionalParams);
+    if (error) {
+      sendValidationError(res, error);
       return;
     }
+
+    const { options: jobOptions, error: jobError } = await Jobs.parseOptions(req);
+    if (jobError) {
+      sendValidationError(res, jobError);
+      return;
+    }
+
+    const clientId = params.clientId as string;
+    const path = params.path as string || "";
+    const source = params.source as string || "data";
+    const recursive = params.recursive === true;
     
     const client = await ClientManager.getClient(clientId);
     if (!client) {
@@ -44,12 +80,14 @@ fileSystemRouter.get("/file-system", ...commonMiddleware, async (req: Request, r
     
     try {
       const requestId = `file_system_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+      const job = jobOptions.async ? await Jobs.create(req, 'file-system', clientId, requestId, jobOptions) : null;
       
       pendingRequests.set(requestId, { 
         res,
         type: 'file-system',
         clientId,
-        timestamp: Date.now() 
+        timestamp: Date.now(),
+        jobId: job?.id
       });
       
       const sent = client.send({
@@ -62,13 +100,33 @@ fileSystemRouter.get("/file-system", ...commonMiddleware, async (req: Request, r
 
       if (!sent) {
         pendingRequests.delete(requestId);
+        if (job) {
+          await Jobs.fail(job.id, 500, "Failed to send request to Foundry client");
+        }
         safeResponse(res, 500, { error: "Failed to send request to Foundry client" });
         return;
       }
+
+      if (job) {
+        setTimeout(async () => {
+          if (pendingRequests.delete(requestId)) {
+            const reconnecting = await ClientManager.withdrawRequest(clientId, requestId) !== null;
+            Jobs.fail(job.id, reconnecting ? 503 : 408, reconnecting ? "Client reconnecting" : "Request timed out").catch(err => {
+              log.error(`Error failing job ${job.id}: ${err}`);
+            });
+          }
+        }, Jobs.timeoutMs);
+        res.setHeader('Location', `/jobs/${job.id}`);
+        safeResponse(res, 202, Jobs.acceptedResponse(job));
+        return;
+      }
       
-      setTimeout(() => {
+      setTimeout(async () => {
         if (pendingRequests.has(requestId)) {
           pendingRequests.delete(requestId);
+          if (await sendClientReconnecting(res, clientId, requestId)) {
+            return;
+          }
           safeResponse(res, 504, { error: "Request timed out" });
         }
       }, 15000);
@@ -77,7 +135,26 @@ fileSystemRouter.get("/file-system", ...commonMiddleware, async (req: Request, r
       safeResponse(res, 500, { error: "Failed to process file system request" });
       return;
     }
-});
+}));
+
+const uploadRoute: ApiRouteDoc = {
+  method: 'POST',
+  path: '/upload',
+  summary: "Upload a file to Foundry's file system",
+  description: 'Send the file as the raw request body with the parameters in the query, or as JSON with the file base64 encoded in fileData.',
+  requiredParams: [
+    { name: 'clientId', from: 'query', type: 'string' },
+    { name: 'path', from: ['query', 'body'], type: 'string', howToUse: "Add ?path=your/path&filename=your-file.png to your request" },
+    { name: 'filename', from: ['query', 'body'], type: 'string', howToUse: "Add ?path=your/path&filename=your-file.png to your request" }
+  ],
+  optionalParams: [
+    { name: 'source', from: ['query', 'body'], type: 'string' },
+    { name: 'mimeType', from: ['query', 'body'], type: 'string' },
+    { name: 'overwrite', from: ['query', 'body'], type: 'boolean' },
+    { name: 'fileData', from: 'body', type: 'string' }
+  ],
+  binaryBody: 'The contents of the file'
+};
 
 /**
  * Upload a file to Foundry's file system (handles both base64 and binary data)
@@ -92,64 +169,39 @@ fileSystemRouter.get("/file-system", ...commonMiddleware, async (req: Request, r
  * @param {string} fileData - [body,?] Base64 encoded file data (if sending as JSON) 250MB limit
  * @returns {object} Result of the file upload operation
  */
-fileSystemRouter.post("/upload", ...commonMiddleware, async (req: express.Request, res: express.Response) => {
-    // Handle different content types
+fileSystemRouter.post("/upload", ...commonMiddleware, documentApiRoute(uploadRoute, async (req: express.Request, res: express.Response) => {
     const contentType = req.get('Content-Type') || '';
-    let parsePromise: Promise<void>;
-    
-    if (contentType.includes('application/json')) {
-      // Parse as JSON with size limit
-      parsePromise = new Promise((resolve, reject) => {
-        express.json({ limit: '250mb' })(req, res, (err) => {
-          if (err) reject(err);
-          else resolve();
-        });
-      });
-    } else {
-      // Parse as raw binary data
-      parsePromise = new Promise((resolve, reject) => {
-        express.raw({ limit: '250mb', type: '*/*' })(req, res, (err) => {
-          if (err) reject(err);
-          else resolve();
+    const isJson = contentType.includes('application/json');
+
+    // JSON bodies carry the parameters, binary bodies are read once the client is known
+    if (isJson) {
+      try {
+        await new Promise<void>((resolve, reject) => {
+          express.json({ limit: '250mb' })(req, res, (err) => {
+            if (err) reject(err);
+            else resolve();
+          });
         });
-      });
-    }
-    
-    try {
-      await parsePromise;
-    } catch (error) {
-      safeResponse(res, 400, {
-        error: "Failed to parse request body",
-        details: error instanceof Error ? error.message : String(error),
-        suggestion: "Check your request size (max 250MB) and content type"
-      });
-      return;
+      } catch (error) {
+        sendBodyError(res, error);
+        return;
+      }
     }
 
-    const clientId = req.query.clientId as string;
-    const path = req.query.path || req.body?.path as string;
-    const filename = req.query.filename || req.body?.filename as string;
-    const source = req.query.source as string || req.body?.source || "data";
-    const mimeType = req.query.mimeType as string || req.body?.mimeType || "application/octet-stream";
-    const overwrite = req.query.overwrite === "true" || req.body?.overwrite === "true" || req.body?.overwrite === true;
-    const fileData = req.body?.fileData as string | undefined;
-
-    if (!clientId) {
-      safeResponse(res, 400, {
-        error: "Client ID is required",
-        howToUse: "Add ?clientId=yourClientId to your request"
-      });
+    const jsonBody = isJson ? req.body : {};
+    const { params, error } = parseParams(Object.create(req, { body: { value: jsonBody } }), uploadRoute.requiredParams, uploadRoute.optionalParams);
+    if (error) {
+      sendValidationError(res, error);
       return;
     }
 
-    if (!path || !filename) {
-      safeResponse(res, 400, {
-        error: "Required parameters missing",
-        requiredParams: "path, filename",
-        howToUse: "Add ?path=your/path&filename=your-file.png to your request"
-      });
-      return;
-    }
+    const clientId = params.clientId as string;
+    const path = params.path as string;
+    const filename = params.filename as string;
+    const source = params.source as string || "data";
+    const mimeType = params.mimeType as string || "application/octet-stream";
+    const overwrite = params.overwrite === true;
+    const fileData = params.fileData as string | undefined;
 
     const client = await ClientManager.getClient(clientId);
     if (!client) {
@@ -159,18 +211,45 @@ fileSystemRouter.post("/upload", ...commonMiddleware, async (req: express.Reques
       return;
     }
 
+    // Modules that support it receive the file as chunk frames after the request
+    const chunkedClient = FileTransfers.supportsChunks(client) ? client : null;
+    // Binary bodies of known length are passed on to those modules as they arrive
+    const contentLength = req.get('Content-Length') ? parseInt(req.get('Content-Length')!, 10) : NaN;
+    const contentEncoding = (req.get('Content-Encoding') || 'identity').toLowerCase();
+    const streamedSize = !isJson && chunkedClient && contentEncoding === 'identity' && contentLength > 0 ? contentLength : null;
+
+    if (streamedSize !== null && streamedSize > UPLOAD_MAX_BYTES) {
+      safeResponse(res, 413, { error: `File is larger than the ${UPLOAD_MAX_BYTES} byte upload limit` });
+      return;
+    }
+
+    if (!isJson && streamedSize === null) {
+      try {
+        await new Promise<void>((resolve, reject) => {
+          express.raw({ limit: UPLOAD_MAX_BYTES, type: '*/*' })(req, res, (err) => {
+            if (err) reject(err);
+            else resolve();
+          });
+        });
+      } catch (error) {
+        sendBodyError(res, error);
+        return;
+      }
+    }
+
     try {
-      let binaryData: number[] | null = null;
+      let fileBuffer: Buffer | null = null;
       let processedFileData: string | null = null;
 
       // Handle different types of file data
-      if (fileData) {
+      if (streamedSize !== null) {
+        log.info(`Streaming binary file data: ${streamedSize} bytes`);
+      } else if (fileData) {
         // Handle base64 data from JSON body
         const base64Match = fileData.match(/^data:([A-Za-z-+\/]+);base64,(.+)$/);
         if (!base64Match) {
-          safeResponse(res, 400, {
-            error: "Invalid file data format",
-            expected: "Base64 encoded data URL (e.g., data:image/png;base64,...)",
+          sendValidationError(res, {
+            ...validationError("Invalid file data format", 'fileData', "Send a base64 encoded data URL (e.g., data:image/png;base64,...)", ValidationErrorCode.InvalidValue),
             received: fileData.substring(0, 50) + "..."
           });
           return;
@@ -184,45 +263,55 @@ fileSystemRouter.post("/upload", ...commonMiddleware, async (req: express.Reques
             throw new Error("Empty file data");
           }
           processedFileData = fileData;
+          fileBuffer = buffer;
           log.info(`Processing base64 file data: ${buffer.length} bytes`);
         } catch (error) {
-          safeResponse(res, 400, {
-            error: "Invalid base64 data",
+          sendValidationError(res, {
+            ...validationError("Invalid base64 data", 'fileData', "Send a base64 encoded data URL (e.g., data:image/png;base64,...)", ValidationErrorCode.InvalidValue),
             details: error instanceof Error ? error.message : String(error)
           });
           return;
         }
-      } else if (contentType.includes('application/octet-stream') || !contentType.includes('application/json')) {
+      } else if (!isJson) {
         // Handle binary data from raw body
         if (Buffer.isBuffer(req.body) && req.body.length > 0) {
-          binaryData = Array.from(req.body);
+          fileBuffer = req.body;
           log.info(`Processing binary file data: ${req.body.length} bytes`);
         } else {
-          safeResponse(res, 400, {
-            error: "No file data received",
-            tip: "Send binary file data with Content-Type: application/octet-stream, or JSON with base64 fileData field",
+          sendValidationError(res, {
+            ...validationError(
+              "No file data received",
+              'fileData',
+              "Send binary file data with Content-Type: application/octet-stream, or JSON with base64 fileData field",
+              ValidationErrorCode.MissingParameter
+            ),
             contentType: contentType
           });
           return;
         }
       } else {
-        safeResponse(res, 400, {
-          error: "No file data provided",
-          howToProvide: [
-            "Option 1: Send JSON with fileData field containing base64 data URL",
-            "Option 2: Send binary data with Content-Type: application/octet-stream"
-          ]
-        });
+        sendValidationError(res, validationError(
+          "No file data provided",
+          'fileData',
+          "Send JSON with a fileData field containing a base64 data URL, or binary data with Content-Type: application/octet-stream",
+          ValidationErrorCode.MissingParameter
+        ));
         return;
       }
       // Generate a unique requestId
       const requestId = `upload_file_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
 
+      const transfer = chunkedClient && (fileBuffer || streamedSize !== null)
+        ? FileTransfers.describe(fileBuffer || streamedSize!)
+        : null;
+
       pendingRequests.set(requestId, {
         res,
         type: 'upload-file',
         clientId,
-        timestamp: Date.now()
+        idempotencyKey: req.idempotencyKey,
+        timestamp: Date.now(),
+        transferring: !!transfer
       });
 
       const payload: any = {
@@ -234,17 +323,20 @@ fileSystemRouter.post("/upload", ...commonMiddleware, async (req: express.Reques
         requestId
       };
 
-      if (processedFileData) {
+      if (transfer) {
+        payload.transfer = transfer;
+        payload.mimeType = mimeType;
+      } else if (processedFileData) {
         payload.fileData = processedFileData;
         payload.mimeType = mimeType;
-      } else if (binaryData) {
-        payload.binaryData = binaryData;
+      } else if (fileBuffer) {
+        payload.binaryData = Array.from(fileBuffer);
         payload.mimeType = mimeType;
       } else {
         pendingRequests.delete(requestId);
         safeResponse(res, 400, {
           error: "No valid file data to send",
-          debug: { hasFileData: !!processedFileData, hasBinaryData: !!binaryData }
+          debug: { hasFileData: !!processedFileData, hasBinaryData: !!fileBuffer }
         });
         return;
       }
@@ -255,8 +347,10 @@ fileSystemRouter.post("/upload", ...commonMiddleware, async (req: express.Reques
         filename, 
         source, 
         hasFileData: !!processedFileData, 
-        hasBinaryData: !!binaryData,
-        payloadSize: processedFileData ? processedFileData.length : (binaryData ? binaryData.length : 0)
+        hasBinaryData: !!fileBuffer,
+        chunked: !!transfer,
+        streamed: streamedSize !== null,
+        payloadSize: fileBuffer ? fileBuffer.length : streamedSize ?? 0
       })}`);
 
       const sent = client.send(payload);
@@ -268,15 +362,43 @@ fileSystemRouter.post("/upload", ...commonMiddleware, async (req: express.Reques
       }
 
       // Set timeout for request - file uploads may take longer
-      setTimeout(() => {
+      const startTimeout = () => setTimeout(async () => {
         if (pendingRequests.has(requestId)) {
           pendingRequests.delete(requestId);
+          if (await sendClientReconnecting(res, clientId, requestId)) {
+            return;
+          }
+          if (req.idempotencyKey) {
+            awaitLateResult(requestId, req.idempotencyKey);
+          }
           safeResponse(res, 504, { 
             error: "File upload request timed out",
             suggestion: "Try uploading a smaller file or check your connection to Foundry"
           });
         }
-      }, 30000); // 30 second timeout for uploads
+      }, 30000); // 30 second timeout for uploads, from when the file is sent
+
+      if (!transfer || !chunkedClient) {
+        startTimeout();
+        return;
+      }
+
+      // Streamed bodies are read no faster than the module acknowledges chunks. The body is
+      // left unread rather than destroyed on failure, so the error response still arrives.
+      const body = fileBuffer || req.iterator({ destroyOnReturn: false });
+      FileTransfers.send(chunkedClient, transfer, body).then(() => {
+        const pending = pendingRequests.get(requestId);
+        if (pending) {
+          pending.transferring = false;
+          pending.timestamp = Date.now();
+          startTimeout();
+        }
+      }).catch(error => {
+        log.error(`File transfer for upload ${requestId} failed: ${error}`);
+        if (pendingRequests.delete(requestId)) {
+          safeResponse(res, 502, { error: `File transfer to Foundry failed: ${error instanceof Error ? error.message : error}` });
+        }
+      });
     } catch (error) {
       log.error(`Error processing file upload request: ${error}`);
       if (error instanceof Error) {
@@ -288,7 +410,25 @@ fileSystemRouter.post("/upload", ...commonMiddleware, async (req: express.Reques
       });
       return;
     }
-});
+}));
+
+const downloadRoute: ApiRouteDoc = {
+  method: 'GET',
+  path: '/download',
+  summary: "Download a file from Foundry's file system",
+  requiredParams: [
+    { name: 'clientId', from: 'query', type: 'string' },
+    { name: 'path', from: 'query', type: 'string', howToUse: "Add &path=yourFilePath to your request" }
+  ],
+  optionalParams: [
+    { name: 'source', from: 'query', type: 'string' },
+    { name: 'format', from: 'query', type: 'string', enum: ['binary', 'raw', 'base64'] }
+  ],
+  headers: [
+    { name: 'Range', description: 'A single byte range of a binary download, such as bytes=0-1023' },
+    { name: 'If-None-Match', description: 'ETag of a copy the caller has, answered with 304 if the file is unchanged' }
+  ]
+};
 
 /**
  * Download a file from Foundry's file system
@@ -298,29 +438,24 @@ fileSystemRouter.post("/upload", ...commonMiddleware, async (req: express.Reques
  * @param {string} path - [query] The full path to the file to download
  * @param {string} source - [query,?] The source directory to use (data, systems, modules, etc.)
  * @param {string} format - [query,?] The format to return the file in (binary, base64)
+ * @param {string} Range - [header,?] A single byte range of a binary download, such as bytes=0-1023
+ * @param {string} If-None-Match - [header,?] ETag of a copy the caller has, answered with 304 if the file is unchanged
  * @returns {binary|object} File contents in the requested format
  */
-fileSystemRouter.get("/download", ...commonMiddleware, async (req: Request, res: Response) => {
-    const clientId = req.query.clientId as string;
-    const path = req.query.path as string;
-    const source = req.query.source as string || "data";
-    const format = req.query.format as string || "binary"; // Default to binary format for downloads
-    
-    if (!clientId) {
-      safeResponse(res, 400, { 
-        error: "Client ID is required",
-        howToUse: "Add ?clientId=yourClientId to your request"
-      });
-      return;
-    }
-    
-    if (!path) {
-      safeResponse(res, 400, { 
-        error: "Path parameter is required",
-        howToUse: "Add &path=yourFilePath to your request" 
-      });
+fileSystemRouter.get("/download", ...commonMiddleware, documentApiRoute(downloadRoute, async (req: Request, res: Response) => {
+    const { params, error } = parseParams(req, downloadRoute.requiredParams, downloadRoute.optionalParams);
+    if (error) {
+      sendValidationError(res, error);
       return;
     }
+
+    const clientId = params.clientId as string;
+    const path = params.path as string;
+    const source = params.source as string || "data";
+    const format = params.format as string || "binary"; // Default to binary format for downloads
+    // Only binary downloads can be partial or conditional, base64 downloads are JSON documents
+    const binary = format === 'binary' || format === 'raw';
+    const range = binary ? parseRangeHeader(req.get('Range')) : null;
     
     const client = await ClientManager.getClient(clientId);
     if (!client) {
@@ -339,14 +474,21 @@ fileSystemRouter.get("/download", ...commonMiddleware, async (req: Request, res:
         type: 'download-file',
         clientId,
         format, // Store the requested format in the pending request
+        range,
+        ifNoneMatch: binary ? req.get('If-None-Match') : undefined,
         timestamp: Date.now() 
       });
       
+      const chunked = FileTransfers.supportsChunks(client);
       const sent = client.send({
         type: "download-file",
         path,
         source,
-        requestId
+        requestId,
+        // Modules that support it answer with a transfer and send the file as chunk frames,
+        // only holding the requested range
+        ...(chunked ? { chunked: { window: FileTransfers.window } } : {}),
+        ...(chunked && range ? { range } : {})
       });
 
       if (!sent) {
@@ -356,9 +498,12 @@ fileSystemRouter.get("/download", ...commonMiddleware, async (req: Request, res:
       }
       
       // Set timeout for request
-      setTimeout(() => {
+      setTimeout(async () => {
         if (pendingRequests.has(requestId)) {
           pendingRequests.delete(requestId);
+          if (await sendClientReconnecting(res, clientId, requestId)) {
+            return;
+          }
           safeResponse(res, 504, { error: "File download request timed out" });
         }
       }, 45000); // 45 second timeout for downloads
@@ -367,4 +512,4 @@ fileSystemRouter.get("/download", ...commonMiddleware, async (req: Request, res:
       safeResponse(res, 500, { error: "Failed to process file download request" });
       return;
     }
-});
+}));
@@ -0,0 +1,42 @@
+import { Router, Request, Response } from 'express';
+import { authMiddleware } from '../../middleware/auth';
+import { Jobs } from '../../core/Jobs';
+import { safeResponse } from '../shared';
+import { documentApiRoute } from '../route-registry';
+import { log } from '../../utils/logger';
+
+export const jobsRouter = Router();
+
+/**
+ * Get the status of an async job
+ *
+ * Returns the state of a request made with async=true. Once the Foundry client answers,
+ * the job holds the result the endpoint would have returned, or the error if it failed.
+ * Polling does not count towards the monthly request limit.
+ *
+ * @route GET /jobs/:id
+ * @param {string} id - [params] The job ID returned in the 202 response
+ * @returns {object} The job status, result, error and timings
+ */
+jobsRouter.get("/jobs/:id", authMiddleware, documentApiRoute({
+    method: 'GET',
+    path: '/jobs/:id',
+    summary: 'Get the status of an async job',
+    description: 'Returns the state of a request made with async=true. Once the Foundry client answers, the job holds the result the endpoint would have returned, or the error if it failed. Polling does not count towards the monthly request limit.',
+    requiredParams: [
+        { name: 'id', from: 'params', type: 'string', description: 'The job ID returned in the 202 response' }
+    ]
+}, async (req: Request, res: Response) => {
+    try {
+      const job = await Jobs.get(req.params.id, req);
+      if (!job) {
+        safeResponse(res, 404, { error: "Job not found or expired" });
+        return;
+      }
+
+      safeResponse(res, 200, Jobs.serialize(job));
+    } catch (error) {
+      log.error(`Error fetching job ${req.params.id}: ${error}`);
+      safeResponse(res, 500, { error: "Failed to fetch job" });
+    }
+}));
@@ -1,9 +1,9 @@
 import { Router } from 'express';import express from 'express';
-import { requestForwarderMiddleware } from '../../middleware/requestForwarder';
 import { authMiddleware, trackApiUsage } from '../../middleware/auth';
+import { idempotencyMiddleware } from '../../middleware/idempotency';
 import { createApiRoute } from '../route-helpers'
 export const macroRouter = Router();
-const commonMiddleware = [requestForwarderMiddleware, authMiddleware, trackApiUsage];
+const commonMiddleware = [authMiddleware, idempotencyMiddleware, trackApiUsage];
 
 
 /**
@@ -16,6 +16,10 @@ const commonMiddleware = [requestForwarderMiddleware, authMiddleware, trackApiUs
  */
 macroRouter.get("/macros", ...commonMiddleware, createApiRoute({
     type: 'macros',
+    method: 'GET',
+    path: '/macros',
+    summary: 'Get all macros',
+    description: 'Retrieves a list of all macros available in the Foundry world.',
     requiredParams: [
         { name: 'clientId', from: 'query', type: 'string' } // The ID of the Foundry client to connect to
     ]
@@ -31,6 +35,10 @@ macroRouter.get("/macros", ...commonMiddleware, createApiRoute({
  */
 macroRouter.post("/macro/:uuid/execute", ...commonMiddleware, createApiRoute({
     type: 'macro-execute',
+    method: 'POST',
+    path: '/macro/:uuid/execute',
+    summary: 'Execute a macro by UUID',
+    description: 'Executes a specific macro in the Foundry world by its UUID.',
     requiredParams: [
         { name: 'clientId', from: 'query', type: 'string' }, // The ID of the Foundry client to connect to
         { name: 'uuid', from: 'params', type: 'string' } // UUID of the macro to execute
@@ -1,12 +1,12 @@
 import { Router } from 'express';
 import express from 'express';
-import { requestForwarderMiddleware } from '../../middleware/requestForwarder';
 import { authMiddleware, trackApiUsage } from '../../middleware/auth';
+import { idempotencyMiddleware } from '../../middleware/idempotency';
 import { createApiRoute } from '../route-helpers';
 
 export const rollRouter = Router();
 
-const commonMiddleware = [requestForwarderMiddleware, authMiddleware, trackApiUsage, express.json()];
+const commonMiddleware = [authMiddleware, idempotencyMiddleware, trackApiUsage, express.json()];
 
 /**
  * Get recent rolls
@@ -19,11 +19,15 @@ const commonMiddleware = [requestForwarderMiddleware, authMiddleware, trackApiUs
  */
 rollRouter.get("/rolls", ...commonMiddleware, createApiRoute({
     type: 'rolls',
+    method: 'GET',
+    path: '/rolls',
+    summary: 'Get recent rolls',
+    description: "Retrieves a list of up to 20 recent rolls made in the Foundry world. Supports a 'clear' parameter to force fresh data retrieval by clearing the rolls cache.",
     requiredParams: [
         { name: 'clientId', from: 'query', type: 'string' } // Client ID for the Foundry world
     ],
     optionalParams: [
-        { name: 'limit', from: 'query', type: 'number' }, // Optional limit on number of rolls to return (default is 20)
+        { name: 'limit', from: 'query', type: 'number', min: 1 }, // Optional limit on number of rolls to return (default is 20)
         { name: 'clear', from: 'query', type: 'boolean' }, // Optional flag to clear rolls cache and get fresh data
         { name: 'refresh', from: 'query', type: 'boolean' } // Optional flag to refresh rolls data
     ],
@@ -51,6 +55,10 @@ rollRouter.get("/rolls", ...commonMiddleware, createApiRoute({
  */
 rollRouter.get("/lastroll", ...commonMiddleware, createApiRoute({
     type: 'last-roll',
+    method: 'GET',
+    path: '/lastroll',
+    summary: 'Get the last roll',
+    description: 'Retrieves the most recent roll made in the Foundry world.',
     requiredParams: [
         { name: 'clientId', from: 'query', type: 'string' } // Client ID for the Foundry world
     ]
@@ -66,6 +74,10 @@ rollRouter.get("/lastroll", ...commonMiddleware, createApiRoute({
  */
 rollRouter.post("/roll", ...commonMiddleware, createApiRoute({
     type: 'roll',
+    method: 'POST',
+    path: '/roll',
+    summary: 'Make a roll',
+    description: 'Executes a roll with the specified formula',
     requiredParams: [
         { name: 'clientId', from: 'query', type: 'string' }, // Client ID for the Foundry world
         { name: 'formula', from: 'body', type: 'string' } // The roll formula to evaluate (e.g., "1d20 + 5")
@@ -74,6 +86,6 @@ rollRouter.post("/roll", ...commonMiddleware, createApiRoute({
         { name: 'flavor', from: 'body', type: 'string' }, // Optional flavor text for the roll
         { name: 'createChatMessage', from: 'body', type: 'boolean' }, // Whether to create a chat message for the roll
         { name: 'speaker', from: 'body', type: 'string' }, // The speaker for the roll
-        { name: 'whisper', from: 'body', type: 'array' } // Users to whisper the roll result to
+        { name: 'whisper', from: 'body', type: 'array', items: 'string' } // Users to whisper the roll result to
     ]
 }));
@@ -1,11 +1,10 @@
 import { Router } from 'express';
-import { requestForwarderMiddleware } from '../../middleware/requestForwarder';
 import { authMiddleware, trackApiUsage } from '../../middleware/auth';
 import { createApiRoute } from '../route-helpers';
 
 export const searchRouter = Router();
 
-const commonMiddleware = [requestForwarderMiddleware, authMiddleware, trackApiUsage];
+const commonMiddleware = [authMiddleware, trackApiUsage];
 
 /**
  * Search entities
@@ -18,6 +17,11 @@ const commonMiddleware = [requestForwarderMiddleware, authMiddleware, trackApiUs
  */
 searchRouter.get("/search", ...commonMiddleware, createApiRoute({
     type: 'search',
+    method: 'GET',
+    path: '/search',
+    summary: 'Search entities',
+    description: 'This endpoint allows searching for entities in the Foundry world based on a query string. Requires Quick Insert module to be installed and enabled.',
+    requiredModules: ['quick-insert'],
     requiredParams: [
         { name: 'clientId', from: 'query', type: 'string' }, // Client ID for the Foundry world
         { name: 'query', from: 'query', type: 'string' } // Search query string
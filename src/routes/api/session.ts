@@ -1,9 +1,12 @@
 import { Router, Request, Response } from 'express';
 import express from 'express';
-import { requestForwarderMiddleware } from '../../middleware/requestForwarder';
 import { authMiddleware, trackApiUsage } from '../../middleware/auth';
+import { idempotencyMiddleware } from '../../middleware/idempotency';
+import { authThrottle, apiKeyIdentifier } from '../../middleware/authThrottle';
 import { ClientManager } from '../../core/ClientManager';
+import { Plans } from '../../core/Plans';
 import { safeResponse } from '../shared';
+import { documentApiRoute } from '../route-registry';
 import { log } from '../../utils/logger';
 import crypto from 'crypto';
 import * as puppeteer from 'puppeteer';
@@ -28,9 +31,40 @@ export const browserSessions = new Map<string, puppeteer.Browser>();
 export const apiKeyToSession = new Map<string, { sessionId: string, clientId: string, lastActivity: number }>();
 const pendingHeadlessSessionsRequests = new Map<string, string>();
 
+/**
+ * End an account's headless session: close its browser if it runs on this instance and
+ * remove its records from Redis. Returns the id of the ended session, or null if it had none.
+ */
+export async function endHeadlessSession(apiKey: string): Promise<string | null> {
+    let sessionId = apiKeyToSession.get(apiKey)?.sessionId || null;
+    const redis = getRedisClient();
+    if (redis) {
+    sessionId = sessionId || await redis.get(`headless_apikey:${apiKey}:session`);
+    }
+    if (!sessionId) return null;
+
+    const browser = browserSessions.get(sessionId);
+    if (browser) {
+    await browser.close().catch(error => log.error(`Failed to close browser of session ${sessionId}: ${error}`));
+    browserSessions.delete(sessionId);
+    }
+    apiKeyToSession.delete(apiKey);
+
+    if (redis) {
+    const sessionData = await redis.hGetAll(`headless_session:${sessionId}`);
+    if (sessionData?.clientId) {
+        await redis.del(`headless_client:${sessionData.clientId}`);
+    }
+    await redis.del([`headless_apikey:${apiKey}`, `headless_apikey:${apiKey}:session`, `headless_session:${sessionId}`]);
+    }
+
+    log.info(`Ended headless session ${sessionId}`);
+    return sessionId;
+}
+
 export const sessionRouter = Router();
 
-const commonMiddleware = [requestForwarderMiddleware, authMiddleware, trackApiUsage];
+const commonMiddleware = [authMiddleware, trackApiUsage];
 
 /**
  * Create a handshake token for the client to use for secure authentication
@@ -42,9 +76,18 @@ const commonMiddleware = [requestForwarderMiddleware, authMiddleware, trackApiUs
  * @param {string} x-username - [header] Username header
  * @returns {object} Handshake token and encryption details
  */
-sessionRouter.post('/session-handshake', authMiddleware, async (req: Request, res: Response) => {
+sessionRouter.post('/session-handshake', authThrottle('session-handshake', apiKeyIdentifier), authMiddleware, documentApiRoute({
+    method: 'POST',
+    path: '/session-handshake',
+    summary: 'Create a handshake token for the client to use for secure authentication',
+    headers: [
+        { name: 'x-foundry-url', required: true, description: 'Foundry URL header' },
+        { name: 'x-world-name', description: 'World name header' },
+        { name: 'x-username', required: true, description: 'Username header' }
+    ]
+}, async (req: Request, res: Response) => {
 try {
-    const apiKey = req.header('x-api-key') as string;
+    const apiKey = req.accountKey;
     const foundryUrl = req.header('x-foundry-url') as string;
     const worldName = req.header('x-world-name') as string;
     const username = req.header('x-username') as string;
@@ -129,7 +172,7 @@ try {
     res.status(500).json({ error: 'Failed to create handshake' });
     return;
 }
-});
+}));
 
 /**
  * Start a headless Foundry session using puppeteer
@@ -140,10 +183,28 @@ try {
  * @param {string} x-api-key - [header] API key header
  * @returns {object} Session information including sessionId and clientId
  */
-sessionRouter.post("/start-session", requestForwarderMiddleware, authMiddleware, express.json(), async (req: Request, res: Response) => {
+sessionRouter.post("/start-session", authMiddleware, idempotencyMiddleware, express.json(), documentApiRoute({
+    method: 'POST',
+    path: '/start-session',
+    summary: 'Start a headless Foundry session using puppeteer',
+    requiredParams: [
+        { name: 'handshakeToken', from: 'body', type: 'string', description: 'The token received from session-handshake' },
+        { name: 'encryptedPassword', from: 'body', type: 'string', description: 'Password encrypted with the public key' }
+    ]
+}, async (req: Request, res: Response) => {
 try {
     const { handshakeToken, encryptedPassword } = req.body;
-    const apiKey = req.header('x-api-key') as string;
+    const apiKey = req.accountKey;
+
+    // Plans limit how many headless sessions an account can run at once
+    if (req.plan && !await Plans.canStartHeadlessSession(req.plan, apiKey)) {
+    return safeResponse(res, 403, {
+        error: "Headless session limit reached",
+        limit: req.plan.maxHeadlessSessions,
+        plan: req.plan.name,
+        message: `The ${req.plan.name} plan allows ${req.plan.maxHeadlessSessions} headless session(s) at a time. End a session before starting another.`
+    });
+    }
 
     // Get handshake data from Redis or local storage
     let handshake: any = null;
@@ -684,7 +745,7 @@ try {
     log.error(`Error in start-session handler: ${error}`);
     return safeResponse(res, 500, { error: "Internal server error" });
 }
-});
+}));
 
 /**
  * Stop a headless Foundry session
@@ -694,10 +755,17 @@ try {
  * @param {string} x-api-key - [header] API key header
  * @returns {object} Status of the operation
  */
-sessionRouter.delete("/end-session", requestForwarderMiddleware, authMiddleware, async (req: Request, res: Response) => {
+sessionRouter.delete("/end-session", authMiddleware, idempotencyMiddleware, documentApiRoute({
+    method: 'DELETE',
+    path: '/end-session',
+    summary: 'Stop a headless Foundry session',
+    requiredParams: [
+        { name: 'sessionId', from: 'query', type: 'string', description: 'The ID of the session to end' }
+    ]
+}, async (req: Request, res: Response) => {
 try {
     const sessionId = req.query.sessionId as string;
-    const apiKey = req.header('x-api-key') as string;
+    const apiKey = req.accountKey;
     
     if (!sessionId) {
     return safeResponse(res, 400, { error: "Session ID is required" });
@@ -757,7 +825,7 @@ try {
     log.error(`Error in end-session handler: ${error}`);
     return safeResponse(res, 500, { error: "Internal server error" });
 }
-});
+}));
 
 /**
  * Get all active headless Foundry sessions
@@ -766,9 +834,13 @@ try {
  * @param {string} x-api-key - [header] API key header
  * @returns {object} List of active sessions for the current API key
  */
-sessionRouter.get("/session", requestForwarderMiddleware, authMiddleware, async (req: Request, res: Response) => {
+sessionRouter.get("/session", authMiddleware, documentApiRoute({
+    method: 'GET',
+    path: '/session',
+    summary: 'Get all active headless Foundry sessions'
+}, async (req: Request, res: Response) => {
     try {
-        const apiKey = req.header('x-api-key') as string;
+        const apiKey = req.accountKey;
         const redis = getRedisClient();
         let sessions: any[] = [];
         
@@ -818,4 +890,4 @@ sessionRouter.get("/session", requestForwarderMiddleware, authMiddleware, async
         log.error(`Error retrieving headless sessions: ${error}`);
         safeResponse(res, 500, { error: "Failed to retrieve session data" });
     }
-});
\ No newline at end of file
+}));
\ No newline at end of file
@@ -1,14 +1,34 @@
 import { ClientManager } from '../../core/ClientManager';
 import { Router } from 'express';
 import express from 'express';
-import { requestForwarderMiddleware } from '../../middleware/requestForwarder';
 import { authMiddleware, trackApiUsage } from '../../middleware/auth';
-import { pendingRequests, safeResponse } from '../shared';
+import { pendingRequests, safeResponse, sendClientReconnecting } from '../shared';
 import { log } from '../../utils/logger';
+import { ValidationErrorCode, parseParams, sendValidationError, validationError } from '../validation';
+import { ApiRouteDoc, documentApiRoute } from '../route-registry';
 
 export const sheetRouter = Router();
 
-const commonMiddleware = [requestForwarderMiddleware, authMiddleware, trackApiUsage, express.json()];
+const commonMiddleware = [authMiddleware, trackApiUsage, express.json()];
+
+const sheetRoute: ApiRouteDoc = {
+  method: 'GET',
+  path: '/sheet',
+  summary: 'Get actor sheet HTML',
+  description: 'Retrieves the HTML for an actor sheet based on the provided UUID or selected actor. Only works on Foundry version 12.',
+  requiredParams: [
+    { name: 'clientId', from: 'query', type: 'string' }
+  ],
+  optionalParams: [
+    { name: 'uuid', from: 'query', type: 'string' },
+    { name: 'selected', from: 'query', type: 'boolean' },
+    { name: 'actor', from: 'query', type: 'boolean' },
+    { name: 'format', from: 'query', type: 'string', enum: ['html', 'json'] },
+    { name: 'scale', from: 'query', type: 'number', min: 0 },
+    { name: 'tab', from: 'query', type: 'number', min: 0 },
+    { name: 'darkMode', from: 'query', type: 'boolean' }
+  ]
+};
 
 /**
  * Get actor sheet HTML
@@ -26,25 +46,29 @@ const commonMiddleware = [requestForwarderMiddleware, authMiddleware, trackApiUs
  * @param {boolean} darkMode - [query,?] Whether to use dark mode for the sheet
  * @returns {object} The sheet HTML or data depending on format requested
  */
-sheetRouter.get("/sheet", ...commonMiddleware, async (req: express.Request, res: express.Response) => {
-    const uuid = req.query.uuid as string;
-    const selected = req.query.selected === 'true';
-    const actor = req.query.actor === 'true';
-    const clientId = req.query.clientId as string;
-    const format = req.query.format as string || 'html';
-    const initialScale = parseFloat(req.query.scale as string) || null;
-    const activeTab = req.query.tab ? (isNaN(Number(req.query.tab)) ? null : Number(req.query.tab)) : null;
-    const darkMode = req.query.darkMode === 'true';
-    
-    if (!clientId) {
-      safeResponse(res, 400, { 
-        error: "Client ID is required to identify the Foundry instance"
-      });
-			return;
+sheetRouter.get("/sheet", ...commonMiddleware, documentApiRoute(sheetRoute, async (req: express.Request, res: express.Response) => {
+    const { params, error } = parseParams(req, sheetRoute.requiredParams, sheetRoute.optionalParams);
+    if (error) {
+      sendValidationError(res, error);
+      return;
     }
 
+    const uuid = params.uuid as string;
+    const selected = params.selected === true;
+    const actor = params.actor === true;
+    const clientId = params.clientId as string;
+    const format = params.format as string || 'html';
+    const initialScale = params.scale || null;
+    const activeTab = params.tab ?? null;
+    const darkMode = params.darkMode === true;
+
     if (!uuid && !selected) {
-      safeResponse(res, 400, { error: "UUID or selected parameter is required" });
+      sendValidationError(res, validationError(
+        "UUID or selected parameter is required",
+        'uuid',
+        "Add ?uuid=yourActorUuid or ?selected=true to your request",
+        ValidationErrorCode.MissingParameter
+      ));
       return;
     }
     
@@ -96,9 +120,12 @@ sheetRouter.get("/sheet", ...commonMiddleware, async (req: express.Request, res:
       }
       
       // Set timeout for request
-      setTimeout(() => {
+      setTimeout(async () => {
         if (pendingRequests.has(requestId)) {
           pendingRequests.delete(requestId);
+          if (await sendClientReconnecting(res, clientId, requestId)) {
+            return;
+          }
           safeResponse(res, 408, { 
             error: "Actor sheet request timed out", 
             tip: "The Foundry client might be busy or the actor UUID might not exist."
@@ -111,4 +138,4 @@ sheetRouter.get("/sheet", ...commonMiddleware, async (req: express.Request, res:
       safeResponse(res, 500, { error: "Failed to process actor sheet request" });
       return;
     }
-});
\ No newline at end of file
+}));
\ No newline at end of file
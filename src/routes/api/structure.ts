@@ -1,9 +1,12 @@
 import { Router } from 'express';
-import { requestForwarderMiddleware } from '../../middleware/requestForwarder';
 import { authMiddleware, trackApiUsage } from '../../middleware/auth';
+import { idempotencyMiddleware } from '../../middleware/idempotency';
 import { createApiRoute } from '../route-helpers';
 export const structureRouter = Router();
-const commonMiddleware = [requestForwarderMiddleware, authMiddleware, trackApiUsage];
+const commonMiddleware = [authMiddleware, idempotencyMiddleware, trackApiUsage];
+
+// Document types that can have folders in Foundry
+const FOLDER_TYPES = ['Scene', 'Actor', 'Item', 'JournalEntry', 'RollTable', 'Cards', 'Macro', 'Playlist', 'Adventure', 'Compendium'];
 
 /**
  * Get the structure of the Foundry world
@@ -15,6 +18,10 @@ const commonMiddleware = [requestForwarderMiddleware, authMiddleware, trackApiUs
  */
 structureRouter.get("/structure", ...commonMiddleware, createApiRoute({
     type: 'structure',
+    method: 'GET',
+    path: '/structure',
+    summary: 'Get the structure of the Foundry world',
+    description: 'Retrieves the folder and compendium structure for the specified Foundry world.',
     requiredParams: [
         { name: 'clientId', from: 'query', type: 'string' } // Client ID for the Foundry world
     ],
@@ -22,7 +29,7 @@ structureRouter.get("/structure", ...commonMiddleware, createApiRoute({
         { name: 'includeEntityData', from: 'query', type: 'boolean' }, // Whether to include full entity data or just UUIDs and names
         { name: 'path', from: 'query', type: 'string' }, // Path to read structure from (null = root)
         { name: 'recursive', from: 'query', type: 'boolean' }, // Whether to read down the folder tree
-        { name: 'recursiveDepth', from: 'query', type: 'number' }, // Depth to recurse into folders (default 5)
+        { name: 'recursiveDepth', from: 'query', type: 'number', min: 1 }, // Depth to recurse into folders (default 5)
         { name: 'types', from: 'query', type: 'string' } // Types to return (Scene/Actor/Item/JournalEntry/RollTable/Cards/Macro/Playlist), can be comma-separated or JSON array
     ],
     buildPayload: (params) => {
@@ -62,6 +69,9 @@ structureRouter.get("/contents/:path", (req, res) => {
  */
 structureRouter.get("/get-folder", ...commonMiddleware, createApiRoute({
     type: 'get-folder',
+    method: 'GET',
+    path: '/get-folder',
+    summary: 'Get a specific folder by name',
     requiredParams: [
         { name: 'clientId', from: ['body', 'query'], type: 'string' }, // Client ID for the Foundry world
         { name: 'name', from: ['body', 'query'], type: 'string' } // Name of the folder to retrieve
@@ -76,10 +86,13 @@ structureRouter.get("/get-folder", ...commonMiddleware, createApiRoute({
  */
 structureRouter.post("/create-folder", ...commonMiddleware, createApiRoute({
     type: 'create-folder',
+    method: 'POST',
+    path: '/create-folder',
+    summary: 'Create a new folder',
     requiredParams: [
         { name: 'clientId', from: ['body', 'query'], type: 'string' }, // Client ID for the Foundry world
         { name: 'name', from: ['body', 'query'], type: 'string' }, // Name of the new folder
-        { name: 'folderType', from: ['body', 'query'], type: 'string' } // Type of folder (Scene, Actor, Item, JournalEntry, RollTable, Cards, Macro, Playlist)
+        { name: 'folderType', from: ['body', 'query'], type: 'string', enum: FOLDER_TYPES } // Type of folder
     ],
     optionalParams: [
         { name: 'parentFolderId', from: ['body', 'query'], type: 'string' } // ID of the parent folder (optional for root level)
@@ -94,6 +107,9 @@ structureRouter.post("/create-folder", ...commonMiddleware, createApiRoute({
  */
 structureRouter.delete("/delete-folder", ...commonMiddleware, createApiRoute({
     type: 'delete-folder',
+    method: 'DELETE',
+    path: '/delete-folder',
+    summary: 'Delete a folder',
     requiredParams: [
         { name: 'clientId', from: ['body', 'query'], type: 'string' }, // Client ID for the Foundry world
         { name: 'folderId', from: ['body', 'query'], type: 'string' } // ID of the folder to delete
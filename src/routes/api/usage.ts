@@ -0,0 +1,118 @@
+import { Router, Request, Response } from 'express';
+import { authMiddleware } from '../../middleware/auth';
+import { requirePrimaryKey } from '../../middleware/scopes';
+import { UsageGroupBy, UsageHistory } from '../../core/UsageHistory';
+import { ApiKey } from '../../models/apiKey';
+import { safeResponse } from '../shared';
+import { ValidationErrorCode, ValidationFailure, sendValidationError, validationError } from '../validation';
+import { documentApiRoute } from '../route-registry';
+import { log } from '../../utils/logger';
+
+export const usageRouter = Router();
+
+const commonMiddleware = [authMiddleware, requirePrimaryKey('Usage history is only available')];
+
+// Longest period a single usage query may cover
+const USAGE_MAX_DAYS = 366;
+const USAGE_DEFAULT_DAYS = 30;
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface UsageQuery {
+  from: string;
+  to: string;
+  groupBy: UsageGroupBy;
+  clientId?: string;
+}
+
+function dayOffset(day: string, days: number): string {
+  return new Date(Date.parse(`${day}T00:00:00Z`) + days * 86400000).toISOString().split('T')[0];
+}
+
+/**
+ * Read from, to, groupBy and clientId from a usage query string.
+ * `groupings` lists the groupBy values the endpoint accepts.
+ */
+export function parseUsageQuery(query: any, groupings: UsageGroupBy[]): { usage: UsageQuery; error: null } | { usage: null; error: ValidationFailure } {
+  const fail = (error: ValidationFailure) => ({ usage: null, error });
+  const today = new Date().toISOString().split('T')[0];
+
+  for (const name of ['from', 'to']) {
+    const value = query[name];
+    if (value !== undefined && (typeof value !== 'string' || !DAY_PATTERN.test(value) || isNaN(Date.parse(value)))) {
+      return fail(validationError(`'${name}' must be a date like 2025-01-31`, name, undefined, ValidationErrorCode.InvalidValue));
+    }
+  }
+
+  const to: string = query.to || today;
+  const from: string = query.from || dayOffset(to, -(USAGE_DEFAULT_DAYS - 1));
+  if (from > to) {
+    return fail(validationError("'from' must not be after 'to'", 'from', undefined, ValidationErrorCode.OutOfRange));
+  }
+  if (from < dayOffset(to, -(USAGE_MAX_DAYS - 1))) {
+    return fail(validationError(`A usage query can cover at most ${USAGE_MAX_DAYS} days`, 'from', undefined, ValidationErrorCode.OutOfRange));
+  }
+
+  const groupBy = query.groupBy ?? 'day';
+  if (!groupings.includes(groupBy)) {
+    return fail(validationError(`'groupBy' must be one of: ${groupings.join(', ')}`, 'groupBy', undefined, ValidationErrorCode.InvalidValue));
+  }
+
+  const clientId = typeof query.clientId === 'string' && query.clientId ? query.clientId : undefined;
+  return { usage: { from, to, groupBy, clientId }, error: null };
+}
+
+/**
+ * Name the API key groups of a usage report with the keys' names.
+ */
+async function nameApiKeys(groups: { key: string | number | null }[], userId: number): Promise<void> {
+  const apiKeys = await ApiKey.findAll({ where: { userId } });
+  const names = new Map(apiKeys.map(k => [k.getDataValue('id'), k.getDataValue('name')]));
+  for (const group of groups as any[]) {
+    group.name = group.key === null ? 'Primary API key' : names.get(group.key) ?? 'Deleted API key';
+  }
+}
+
+/**
+ * Get usage history
+ *
+ * Returns the account's API usage between two days (UTC), grouped by day, endpoint,
+ * Foundry client or API key, with request and error counts, quota used and latency.
+ * Recent requests may take a few seconds to appear. Requires the account's primary API key.
+ *
+ * @route GET /usage
+ * @param {string} from - [query,?] First day to include (YYYY-MM-DD), defaults to 29 days before `to`
+ * @param {string} to - [query,?] Last day to include (YYYY-MM-DD), defaults to today
+ * @param {string} groupBy - [query,?] day (default), endpoint, client or apiKey
+ * @param {string} clientId - [query,?] Only include requests to this Foundry client
+ * @returns {object} Totals and per-group usage
+ */
+usageRouter.get("/usage", ...commonMiddleware, documentApiRoute({
+    method: 'GET',
+    path: '/usage',
+    summary: 'Get usage history',
+    description: "Returns the account's API usage between two days (UTC), grouped by day, endpoint, Foundry client or API key, with request and error counts, quota used and latency. Recent requests may take a few seconds to appear. Requires the account's primary API key.",
+    optionalParams: [
+        { name: 'from', from: 'query', type: 'string', description: 'First day to include (YYYY-MM-DD), defaults to 29 days before `to`' },
+        { name: 'to', from: 'query', type: 'string', description: 'Last day to include (YYYY-MM-DD), defaults to today' },
+        { name: 'groupBy', from: 'query', type: 'string', description: 'day (default), endpoint, client or apiKey' },
+        { name: 'clientId', from: 'query', type: 'string', description: 'Only include requests to this Foundry client' }
+    ]
+}, async (req: Request, res: Response) => {
+    const { usage, error } = parseUsageQuery(req.query, ['day', 'endpoint', 'client', 'apiKey']);
+    if (error) {
+      sendValidationError(res, error);
+      return;
+    }
+
+    try {
+      const report = await UsageHistory.report({ ...usage, userId: req.user.id });
+      if (usage.groupBy === 'apiKey') {
+        await nameApiKeys(report.groups, req.user.id);
+      }
+
+      safeResponse(res, 200, { ...usage, ...report });
+    } catch (error) {
+      log.error(`Error fetching usage history: ${error}`);
+      safeResponse(res, 500, { error: "Failed to fetch usage history" });
+    }
+}));
@@ -5,8 +5,8 @@ import path from "path";
 import fs from "fs/promises";
 import multer from "multer";
 import { PassThrough } from 'stream';
-import { requestForwarderMiddleware } from '../../middleware/requestForwarder';
 import { authMiddleware, trackApiUsage } from '../../middleware/auth';
+import { idempotencyMiddleware } from '../../middleware/idempotency';
 import { createApiRoute } from '../route-helpers';
 import { safeResponse } from '../shared';
 import { log } from '../../utils/logger';
@@ -18,7 +18,7 @@ const SAFE_UPLOAD_DIR = path.resolve("uploads");
 
 export const utilityRouter = Router();
 
-const commonMiddleware = [requestForwarderMiddleware, authMiddleware, trackApiUsage, express.json()];
+const commonMiddleware = [authMiddleware, idempotencyMiddleware, trackApiUsage, express.json()];
 
 
 export function validateScript(script: string): boolean {
@@ -106,11 +106,15 @@ async function handleJavaScriptFile(req: Request, res: Response, next: NextFunct
  */
 utilityRouter.post("/select", ...commonMiddleware, createApiRoute({
   type: 'select',
+  method: 'POST',
+  path: '/select',
+  summary: 'Select token(s)',
+  description: 'Selects one or more tokens in the Foundry VTT client.',
   requiredParams: [
     { name: 'clientId', from: 'query', type: 'string' } // Client ID for the Foundry world
   ],
   optionalParams: [
-    { name: 'uuids', from: 'body', type: 'array' }, // Array of UUIDs to select
+    { name: 'uuids', from: 'body', type: 'array', items: 'string' }, // Array of UUIDs to select
     { name: 'name', from: 'body', type: 'string' }, // Name of the token(s) to select
     { name: 'data', from: 'body', type: 'object' }, // Data to match for selection (e.g., "data.attributes.hp.value": 20)
     { name: 'overwrite', from: 'body', type: 'boolean' }, // Whether to overwrite existing selection
@@ -137,6 +141,10 @@ utilityRouter.post("/select", ...commonMiddleware, createApiRoute({
  */
 utilityRouter.get("/selected", ...commonMiddleware, createApiRoute({
   type: 'selected',
+  method: 'GET',
+  path: '/selected',
+  summary: 'Get selected token(s)',
+  description: 'Retrieves the currently selected token(s) in the Foundry VTT client.',
   requiredParams: [
     { name: 'clientId', from: 'query', type: 'string' } // Client ID for the Foundry world
   ]
@@ -152,6 +160,10 @@ utilityRouter.get("/selected", ...commonMiddleware, createApiRoute({
  */
 utilityRouter.post("/execute-js", ...commonMiddleware, upload.single("scriptFile"), handleJavaScriptFile, createApiRoute({
   type: 'execute-js',
+  method: 'POST',
+  path: '/execute-js',
+  summary: 'Execute JavaScript',
+  description: 'Executes a JavaScript script in the Foundry VTT client.',
   requiredParams: [
     { name: 'clientId', from: 'query', type: 'string' } // Client ID for the Foundry world
   ],
@@ -161,13 +173,16 @@ utilityRouter.post("/execute-js", ...commonMiddleware, upload.single("scriptFile
   validateParams: (params, req) => {
     if (!params.script && !req.file) {
       return {
-        error: "A JavaScript script or scriptFile is required"
+        error: "A JavaScript script or scriptFile is required",
+        field: "script",
+        howToUse: "Send JSON like {\"script\": \"return game.world.title;\"} or upload a scriptFile"
       };
     }
     if (params.script && !validateScript(params.script)) {
       log.warn(`Request for ${params.clientId} contains forbidden patterns`);
       return {
-        error: "Script contains forbidden patterns"
+        error: "Script contains forbidden patterns",
+        field: "script"
       };
     }
     return null;
@@ -0,0 +1,218 @@
+import { Router, Request, Response } from 'express';
+import express from 'express';
+import { authMiddleware } from '../../middleware/auth';
+import { idempotencyMiddleware } from '../../middleware/idempotency';
+import { canAccessClient } from '../../middleware/scopes';
+import { WebhookSubscription } from '../../models/webhookSubscription';
+import { WORLD_EVENT_TYPES, WorldEventType } from '../../core/WorldEvents';
+import { safeResponse } from '../shared';
+import { ValidationErrorCode, sendValidationError, validationError } from '../validation';
+import { documentApiRoute } from '../route-registry';
+import { checkOutboundUrl } from '../../utils/outboundUrl';
+import { log } from '../../utils/logger';
+
+export const webhooksRouter = Router();
+
+const commonMiddleware = [authMiddleware, idempotencyMiddleware, express.json()];
+
+// Maximum number of webhook subscriptions per account
+const WEBHOOK_MAX_SUBSCRIPTIONS = parseInt(process.env.WEBHOOK_MAX_SUBSCRIPTIONS || '10', 10);
+
+function serializeSubscription(subscription: any, includeSecret = false): Record<string, any> {
+  const data: Record<string, any> = {
+    id: subscription.getDataValue('id'),
+    url: subscription.getDataValue('url'),
+    events: subscription.getDataValue('events'),
+    clientId: subscription.getDataValue('clientId'),
+    active: subscription.getDataValue('active'),
+    consecutiveFailures: subscription.getDataValue('consecutiveFailures'),
+    lastStatus: subscription.getDataValue('lastStatus'),
+    lastError: subscription.getDataValue('lastError'),
+    lastDeliveryAt: subscription.getDataValue('lastDeliveryAt'),
+    disabledAt: subscription.getDataValue('disabledAt'),
+    createdAt: subscription.getDataValue('createdAt')
+  };
+  if (includeSecret) {
+    data.secret = subscription.getDataValue('secret');
+  }
+  return data;
+}
+
+/**
+ * Create a webhook subscription
+ *
+ * Registers a URL that the relay will POST signed JSON payloads to whenever a connected
+ * Foundry client emits one of the subscribed events. The signing secret is only returned here.
+ * Each request carries X-Relay-Timestamp and X-Relay-Signature (sha256 HMAC of "timestamp.body").
+ * Subscriptions are disabled automatically after repeated failed deliveries. URLs on loopback,
+ * private or link-local addresses are rejected.
+ *
+ * @route POST /webhooks/subscriptions
+ * @param {string} url - [body] The public http(s) URL to deliver events to
+ * @param {array} events - [body] Event types to deliver (chat, roll, combat-turn, actor-update, document-update)
+ * @param {string} clientId - [body,?] Only deliver events from this Foundry client
+ * @returns {object} The created subscription including its signing secret
+ */
+webhooksRouter.post("/webhooks/subscriptions", ...commonMiddleware, documentApiRoute({
+    method: 'POST',
+    path: '/webhooks/subscriptions',
+    summary: 'Create a webhook subscription',
+    description: 'Registers a URL that the relay will POST signed JSON payloads to whenever a connected Foundry client emits one of the subscribed events. The signing secret is only returned here. Each request carries X-Relay-Timestamp and X-Relay-Signature (sha256 HMAC of "timestamp.body"). Subscriptions are disabled automatically after repeated failed deliveries. URLs on loopback, private or link-local addresses are rejected.',
+    requiredParams: [
+        { name: 'url', from: 'body', type: 'string', description: 'The public http(s) URL to deliver events to' },
+        { name: 'events', from: 'body', type: 'array', description: 'Event types to deliver (chat, roll, combat-turn, actor-update, document-update)' }
+    ],
+    optionalParams: [
+        { name: 'clientId', from: 'body', type: 'string', description: 'Only deliver events from this Foundry client' }
+    ]
+}, async (req: Request, res: Response) => {
+    const { url, events, clientId } = req.body || {};
+
+    let parsedUrl: URL | null = null;
+    try {
+      parsedUrl = typeof url === 'string' ? new URL(url) : null;
+    } catch {
+      parsedUrl = null;
+    }
+    if (!parsedUrl || !['http:', 'https:'].includes(parsedUrl.protocol)) {
+      sendValidationError(res, validationError(
+        "A valid http(s) url is required",
+        'url',
+        "Send JSON like {\"url\": \"https://example.com/hook\", \"events\": [\"roll\"]}",
+        url === undefined ? ValidationErrorCode.MissingParameter : ValidationErrorCode.InvalidValue
+      ));
+      return;
+    }
+
+    // The relay must not be usable to probe its own network
+    const urlProblem = await checkOutboundUrl(parsedUrl.toString());
+    if (urlProblem) {
+      sendValidationError(res, validationError(
+        `'url' cannot receive webhooks: ${urlProblem}`,
+        'url',
+        "Use a publicly reachable address, loopback, private and link-local addresses are not allowed",
+        ValidationErrorCode.InvalidValue
+      ));
+      return;
+    }
+
+    if (!Array.isArray(events) || events.length === 0) {
+      sendValidationError(res, validationError(
+        "'events' must be a non-empty array",
+        'events',
+        `Use any of: ${WORLD_EVENT_TYPES.join(', ')}`,
+        events === undefined ? ValidationErrorCode.MissingParameter : ValidationErrorCode.InvalidType
+      ));
+      return;
+    }
+
+    const unknown = events.filter((e: unknown) => !WORLD_EVENT_TYPES.includes(e as WorldEventType));
+    if (unknown.length > 0) {
+      sendValidationError(res, validationError(
+        `Unknown event type(s): ${unknown.join(', ')}`,
+        'events',
+        `Use any of: ${WORLD_EVENT_TYPES.join(', ')}`,
+        ValidationErrorCode.InvalidItem
+      ));
+      return;
+    }
+
+    if (clientId !== undefined && typeof clientId !== 'string') {
+      sendValidationError(res, validationError("'clientId' must be a string", 'clientId', undefined, ValidationErrorCode.InvalidType));
+      return;
+    }
+
+    // Keys restricted to some clients may only subscribe to events from those clients
+    if (req.apiKeyScope?.clientIds?.length && (!clientId || !canAccessClient(req, clientId))) {
+      safeResponse(res, 403, {
+        error: "This API key can only subscribe to events from the clients it is restricted to",
+        howToUse: "Add the clientId of one of those clients to the request body"
+      });
+      return;
+    }
+
+    try {
+      const userId = req.user.id;
+      const existing = await WebhookSubscription.findAll({ where: { userId } });
+      if (existing.length >= WEBHOOK_MAX_SUBSCRIPTIONS) {
+        safeResponse(res, 409, {
+          error: `Maximum of ${WEBHOOK_MAX_SUBSCRIPTIONS} webhook subscriptions reached`,
+          howToUse: "Delete an existing subscription with DELETE /webhooks/subscriptions/:id"
+        });
+        return;
+      }
+
+      const subscription = await WebhookSubscription.create({
+        userId,
+        url: parsedUrl.toString(),
+        events: Array.from(new Set(events)),
+        clientId: clientId || null
+      });
+
+      log.info(`Created webhook subscription ${subscription.getDataValue('id')} for user ${userId}`);
+      safeResponse(res, 201, serializeSubscription(subscription, true));
+    } catch (error) {
+      log.error(`Error creating webhook subscription: ${error}`);
+      safeResponse(res, 500, { error: "Failed to create webhook subscription" });
+    }
+}));
+
+/**
+ * List webhook subscriptions
+ *
+ * @route GET /webhooks/subscriptions
+ * @returns {object} The account's webhook subscriptions with their last delivery status
+ */
+webhooksRouter.get("/webhooks/subscriptions", ...commonMiddleware, documentApiRoute({
+    method: 'GET',
+    path: '/webhooks/subscriptions',
+    summary: 'List webhook subscriptions'
+}, async (req: Request, res: Response) => {
+    try {
+      const subscriptions = await WebhookSubscription.findAll({ where: { userId: req.user.id } });
+      safeResponse(res, 200, {
+        total: subscriptions.length,
+        subscriptions: subscriptions.map(s => serializeSubscription(s))
+      });
+    } catch (error) {
+      log.error(`Error listing webhook subscriptions: ${error}`);
+      safeResponse(res, 500, { error: "Failed to list webhook subscriptions" });
+    }
+}));
+
+/**
+ * Delete a webhook subscription
+ *
+ * @route DELETE /webhooks/subscriptions/:id
+ * @param {number} id - [params] The ID of the subscription to delete
+ * @returns {object} Confirmation of deletion
+ */
+webhooksRouter.delete("/webhooks/subscriptions/:id", ...commonMiddleware, documentApiRoute({
+    method: 'DELETE',
+    path: '/webhooks/subscriptions/:id',
+    summary: 'Delete a webhook subscription',
+    requiredParams: [
+        { name: 'id', from: 'params', type: 'number', description: 'The ID of the subscription to delete' }
+    ]
+}, async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      sendValidationError(res, validationError("Subscription id must be a number", 'id', undefined, ValidationErrorCode.InvalidType));
+      return;
+    }
+
+    try {
+      const subscription = await WebhookSubscription.findOne({ where: { id, userId: req.user.id } });
+      if (!subscription) {
+        safeResponse(res, 404, { error: "Webhook subscription not found" });
+        return;
+      }
+
+      await subscription.destroy();
+      log.info(`Deleted webhook subscription ${id} for user ${req.user.id}`);
+      safeResponse(res, 200, { success: true, id });
+    } catch (error) {
+      log.error(`Error deleting webhook subscription: ${error}`);
+      safeResponse(res, 500, { error: "Failed to delete webhook subscription" });
+    }
+}));
@@ -1,14 +1,26 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import bcrypt from 'bcryptjs';
-import { User } from '../models/user';
 import crypto from 'crypto';
+import { User } from '../models/user';
 import { safeResponse } from './shared';
 import { log } from '../utils/logger';
+import { generateApiKey } from '../utils/apiKeyHash';
+import { AccountSessions } from '../core/AccountSessions';
+import { UsageMeter } from '../core/UsageMeter';
+import { Plans } from '../core/Plans';
+import { accountSessionMiddleware } from '../middleware/accountSession';
+import { authThrottle, emailIdentifier } from '../middleware/authThrottle';
+import { sendSignedWebhook } from '../workers/webhookDelivery';
 
 const router = Router();
 
+// How long the previous API key keeps working after it is regenerated
+const API_KEY_ROTATION_GRACE_SECONDS = parseInt(process.env.API_KEY_ROTATION_GRACE_SECONDS || '86400', 10);
+// Shortest password accepted when setting a new one
+const MIN_PASSWORD_LENGTH = 8;
+
 // Register a new user
-router.post('/register', async (req: Request, res: Response) => {
+router.post('/register', authThrottle('register', emailIdentifier), async (req: Request, res: Response) => {
   log.info('Registration attempt in auth.ts');
   try {
     const { email, password } = req.body;
@@ -30,23 +42,26 @@ router.post('/register', async (req: Request, res: Response) => {
     }
     
     log.info('Creating new user...');
-    // Create a new user
+    // Only the key's hash is stored, so this response is the only time it is shown
+    const apiKey = generateApiKey();
     const user = await User.create({
       email,
       password, // Will be hashed by the beforeCreate hook
-      apiKey: crypto.randomBytes(16).toString('hex'), // Explicitly generate an API key
+      ...User.apiKeyFields(apiKey),
       requestsThisMonth: 0
     });
     
     log.info(`User created: ${user.getDataValue('email')}`);
+    const session = await AccountSessions.issue(user, res);
     
     // Return the user (exclude password but include API key)
     res.status(201).json({
       id: user.getDataValue('id'),
       email: user.getDataValue('email'),
-      apiKey: user.getDataValue('apiKey'),
+      apiKey,
       createdAt: user.getDataValue('createdAt'),
-      subscriptionStatus: user.getDataValue('subscriptionStatus') || 'free'
+      subscriptionStatus: user.getDataValue('subscriptionStatus') || 'free',
+      ...session
     });
     return;
   } catch (error) {
@@ -57,7 +72,7 @@ router.post('/register', async (req: Request, res: Response) => {
 });
 
 // Login route - update the password comparison logic
-router.post('/login', async (req: Request, res: Response) => {
+router.post('/login', authThrottle('login', emailIdentifier), async (req: Request, res: Response) => {
   try {
     const { email, password } = req.body;
     
@@ -93,13 +108,16 @@ router.post('/login', async (req: Request, res: Response) => {
         return;
       }
       
-      // Return the user (exclude password)
+      const session = await AccountSessions.issue(user, res);
+      
+      // Return the user (exclude password). The API key itself is not stored and cannot be returned.
       res.status(200).json({
         id: user.getDataValue('id'),
         email: user.getDataValue('email'),
-        apiKey: user.getDataValue('apiKey'),
+        apiKeyPrefix: user.getDataValue('apiKeyPrefix'),
         requestsThisMonth: user.getDataValue('requestsThisMonth'),
-        createdAt: user.getDataValue('createdAt')
+        createdAt: user.getDataValue('createdAt'),
+        ...session
       });
       return;
     } catch (bcryptError) {
@@ -114,81 +132,218 @@ router.post('/login', async (req: Request, res: Response) => {
   }
 });
 
-// Regenerate API key (for authenticated users)
-router.post('/regenerate-key', async (req: Request, res: Response) => {
+// Regenerate API key (for signed-in users)
+router.post('/regenerate-key', authThrottle('regenerate-key'), accountSessionMiddleware, async (req: Request, res: Response) => {
   try {
-    const { email, password } = req.body;
+    const user = req.user;
     
-    if (!email || !password) {
-      res.status(400).json({ error: 'Email and password are required' });
+    // Generate a new API key, keeping the current one valid for the grace period so
+    // Foundry worlds and scripts can be updated. A key replaced earlier stops working now.
+    const newApiKey = generateApiKey();
+    const previousKeyExpiresAt = new Date(Date.now() + API_KEY_ROTATION_GRACE_SECONDS * 1000);
+    await user.update({
+      ...User.apiKeyFields(newApiKey),
+      previousApiKeyPrefix: user.getDataValue('apiKeyPrefix'),
+      previousApiKeyHash: user.getDataValue('apiKeyHash'),
+      previousApiKeyExpiresAt: API_KEY_ROTATION_GRACE_SECONDS > 0 ? previousKeyExpiresAt : null
+    });
+    log.info(`Regenerated API key for user ${user.getDataValue('id')}`);
+    
+    // Return the new API key
+    res.status(200).json({
+      apiKey: newApiKey,
+      previousKeyExpiresAt: API_KEY_ROTATION_GRACE_SECONDS > 0 ? previousKeyExpiresAt.toISOString() : null
+    });
+  } catch (error) {
+    log.error('API key regeneration error', { error });
+    res.status(500).json({ error: 'Failed to regenerate API key' });
+  }
+});
+
+// Get user data (for signed-in users)
+router.get('/user-data', accountSessionMiddleware, async (req: Request, res: Response) => {
+  try {
+    const user = req.user;
+    // Includes usage that has not been written to the database yet
+    const usage = await UsageMeter.usage(user);
+    const plan = await Plans.forUser(user);
+    
+    // Return user data (exclude sensitive information)
+    res.status(200).json({
+      id: user.getDataValue('id'),
+      email: user.getDataValue('email'),
+      apiKeyPrefix: user.getDataValue('apiKeyPrefix'),
+      previousApiKeyExpiresAt: user.getDataValue('previousApiKeyExpiresAt') || null,
+      requestsThisMonth: usage.requestsThisMonth,
+      requestsToday: usage.requestsToday,
+      subscriptionStatus: user.getDataValue('subscriptionStatus') || 'free',
+      plan,
+      limits: {
+        dailyLimit: plan.dailyRequestLimit,
+        monthlyLimit: plan.monthlyRequestLimit,
+        unlimitedMonthly: plan.monthlyRequestLimit === null
+      }
+    });
+    return;
+  } catch (error) {
+    log.error('Error fetching user data', { error });
+    res.status(500).json({ error: 'Failed to fetch user data' });
+    return;
+  }
+});
+
+// Exchange the refresh cookie for a new access token, rotating the refresh token
+router.post('/auth/refresh', authThrottle('refresh'), async (req: Request, res: Response) => {
+  try {
+    const result = await AccountSessions.refresh(req, res);
+    if (!result) {
+      AccountSessions.clearCookie(res);
+      res.status(401).json({ error: 'Session expired, please sign in again' });
       return;
     }
     
-    // Find the user
-    const user = await User.findOne({ where: { email } });
-    if (!user) {
-      res.status(401).json({ error: 'Invalid credentials' });
+    res.status(200).json({
+      id: result.user.getDataValue('id'),
+      email: result.user.getDataValue('email'),
+      ...result.session
+    });
+  } catch (error) {
+    log.error('Session refresh error', { error });
+    res.status(500).json({ error: 'Failed to refresh session' });
+  }
+});
+
+// End the current session
+router.post('/auth/logout', async (req: Request, res: Response) => {
+  try {
+    await AccountSessions.revoke(req, res);
+    res.status(204).end();
+  } catch (error) {
+    log.error('Logout error', { error });
+    res.status(500).json({ error: 'Failed to sign out' });
+  }
+});
+
+// End every session of the signed-in user
+router.post('/auth/logout-all', accountSessionMiddleware, async (req: Request, res: Response) => {
+  try {
+    await AccountSessions.revokeAll(req.user);
+    AccountSessions.clearCookie(res);
+    log.info(`Revoked all sessions for user ${req.user.getDataValue('id')}`);
+    res.status(204).end();
+  } catch (error) {
+    log.error('Logout-all error', { error });
+    res.status(500).json({ error: 'Failed to sign out of all sessions' });
+  }
+});
+
+// Change the password of the signed-in user. Other sessions are ended.
+router.post('/auth/change-password', authThrottle('change-password'), accountSessionMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { currentPassword, newPassword } = req.body;
+    
+    if (!currentPassword || !newPassword) {
+      res.status(400).json({ error: 'currentPassword and newPassword are required' });
+      return;
+    }
+    if (typeof newPassword !== 'string' || newPassword.length < MIN_PASSWORD_LENGTH) {
+      res.status(400).json({ error: `New password must be at least ${MIN_PASSWORD_LENGTH} characters` });
       return;
     }
     
-    // Check password
-    const isPasswordValid = await bcrypt.compare(password, user.password);
+    const user = req.user;
+    const isPasswordValid = await bcrypt.compare(currentPassword, user.getDataValue('password'));
     if (!isPasswordValid) {
       res.status(401).json({ error: 'Invalid credentials' });
       return;
     }
     
-    // Generate new API key
-    const newApiKey = crypto.randomBytes(16).toString('hex');
-    await user.update({ apiKey: newApiKey });
+    await user.update({ password: newPassword });
+    await AccountSessions.revokeAll(user);
+    const session = await AccountSessions.issue(user, res);
+    log.info(`Changed password for user ${user.getDataValue('id')}`);
     
-    // Return the new API key
-    res.status(200).json({
-      apiKey: newApiKey
-    });
+    res.status(200).json(session);
   } catch (error) {
-    log.error('API key regeneration error', { error });
-    res.status(500).json({ error: 'Failed to regenerate API key' });
+    log.error('Password change error', { error });
+    res.status(500).json({ error: 'Failed to change password' });
   }
 });
 
-// Get user data (for authenticated users)
-router.get('/user-data', async (req: Request, res: Response) => {
+// Send a password reset link. Always accepted so it cannot be used to discover accounts.
+router.post('/auth/forgot-password', authThrottle('forgot-password', emailIdentifier), async (req: Request, res: Response) => {
   try {
-    // Get API key from header
-    const apiKey = req.header('x-api-key');
+    const { email } = req.body;
     
-    if (!apiKey) {
-      res.status(401).json({ error: 'API key is required' });
+    if (!email) {
+      res.status(400).json({ error: 'Email is required' });
       return;
     }
     
-    // Find user by API key
-    const user = await User.findOne({ where: { apiKey } });
-    if (!user) {
-      res.status(404).json({ error: 'User not found' });
+    const webhookConfigured = !!(process.env.PASSWORD_RESET_WEBHOOK_URL && process.env.PASSWORD_RESET_WEBHOOK_SECRET);
+    // Reset links are only written to the log outside production
+    if (!webhookConfigured && process.env.NODE_ENV === 'production') {
+      log.error('PASSWORD_RESET_WEBHOOK_URL is not set - password reset links cannot be sent');
+      res.status(503).json({ error: 'Password reset is not available' });
       return;
     }
     
-    // Return user data (exclude sensitive information)
-    res.status(200).json({
-      id: user.getDataValue('id'),
-      email: user.getDataValue('email'),
-      apiKey: user.getDataValue('apiKey'),
-      requestsThisMonth: user.getDataValue('requestsThisMonth'),
-      requestsToday: user.getDataValue('requestsToday') || 0,
-      subscriptionStatus: user.getDataValue('subscriptionStatus') || 'free',
-      limits: {
-        dailyLimit: parseInt(process.env.DAILY_REQUEST_LIMIT || '1000'),
-        monthlyLimit: parseInt(process.env.FREE_API_REQUESTS_LIMIT || '100'),
-        unlimitedMonthly: (user.getDataValue('subscriptionStatus') === 'active')
+    const user = await User.findOne({ where: { email } });
+    if (user) {
+      const { token, expiresAt } = await AccountSessions.createPasswordResetToken(user);
+      const baseUrl = process.env.FRONTEND_URL || `${req.protocol}://${req.get('host')}`;
+      const resetUrl = `${baseUrl}/?resetToken=${token}`;
+      
+      if (webhookConfigured) {
+        const body = JSON.stringify({ event: 'password.reset', email, resetUrl, expiresAt });
+        sendSignedWebhook(process.env.PASSWORD_RESET_WEBHOOK_URL!, process.env.PASSWORD_RESET_WEBHOOK_SECRET!, 'password.reset', crypto.randomUUID(), body)
+          .then(response => {
+            if (response.status < 200 || response.status >= 300) {
+              log.error(`Password reset webhook responded with ${response.status}`);
+            }
+          })
+          .catch(error => log.error(`Password reset webhook failed: ${error}`));
+      } else {
+        log.warn(`PASSWORD_RESET_WEBHOOK_URL is not set - password reset link for ${email}: ${resetUrl}`);
       }
-    });
-    return;
+    }
+    
+    res.status(202).json({ message: 'If an account exists for this email, a reset link has been sent' });
   } catch (error) {
-    log.error('Error fetching user data', { error });
-    res.status(500).json({ error: 'Failed to fetch user data' });
-    return;
+    log.error('Password reset request error', { error });
+    res.status(500).json({ error: 'Failed to request password reset' });
+  }
+});
+
+// Set a new password with a reset token. Every session of the user is ended.
+router.post('/auth/reset-password', authThrottle('reset-password'), async (req: Request, res: Response) => {
+  try {
+    const { token, newPassword } = req.body;
+    
+    if (!token || !newPassword) {
+      res.status(400).json({ error: 'token and newPassword are required' });
+      return;
+    }
+    if (typeof newPassword !== 'string' || newPassword.length < MIN_PASSWORD_LENGTH) {
+      res.status(400).json({ error: `New password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+      return;
+    }
+    
+    const user = await AccountSessions.consumePasswordResetToken(String(token));
+    if (!user) {
+      res.status(400).json({ error: 'Invalid or expired reset token' });
+      return;
+    }
+    
+    await user.update({ password: newPassword });
+    await AccountSessions.revokeAll(user);
+    AccountSessions.clearCookie(res);
+    log.info(`Reset password for user ${user.getDataValue('id')}`);
+    
+    res.status(200).json({ message: 'Password updated, please sign in' });
+  } catch (error) {
+    log.error('Password reset error', { error });
+    res.status(500).json({ error: 'Failed to reset password' });
   }
 });
 
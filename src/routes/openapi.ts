@@ -0,0 +1,254 @@
+import express, { Request, Response } from 'express';
+import { getRegisteredRoutes, RegisteredRoute } from './route-registry';
+import { ParamDef } from './route-helpers';
+import { ValidationErrorCode } from './validation';
+import { VERSION } from './api';
+import { log } from '../utils/logger';
+
+type ParamSource = 'body' | 'query' | 'params';
+
+const ERROR_RESPONSES: Record<string, string> = {
+  '400': 'Invalid or missing parameters',
+  '401': 'Missing or invalid API key',
+  '404': 'Unknown client ID or resource',
+  '408': 'The Foundry client did not respond in time',
+  '429': 'Request limit reached',
+  '500': 'Internal server error',
+  '501': 'The Foundry world lacks the system, module or module version the request needs'
+};
+
+function toOpenApiPath(path: string): string {
+  return path.replace(/:([A-Za-z0-9_]+)(\([^)]*\))?/g, '{$1}');
+}
+
+function schemaForParam(param: ParamDef): Record<string, any> {
+  const schema: Record<string, any> = param.type ? { type: param.type === 'number' && param.integer ? 'integer' : param.type } : {};
+
+  if (param.type === 'array') {
+    schema.items = param.items ? { type: param.items } : {};
+    if (param.enum) schema.items.enum = [...param.enum];
+    if (param.min !== undefined) schema.minItems = param.min;
+    if (param.max !== undefined) schema.maxItems = param.max;
+    return schema;
+  }
+
+  if (param.enum) schema.enum = [...param.enum];
+  if (param.type === 'string') {
+    if (param.min !== undefined) schema.minLength = param.min;
+    if (param.max !== undefined) schema.maxLength = param.max;
+  } else {
+    if (param.min !== undefined) schema.minimum = param.min;
+    if (param.max !== undefined) schema.maximum = param.max;
+  }
+  return schema;
+}
+
+// Pick the single location a parameter is documented in
+function primarySource(param: ParamDef, method: string): ParamSource {
+  const sources = Array.isArray(param.from) ? param.from : [param.from];
+  if (sources.includes('params')) return 'params';
+  if ((method === 'GET' || method === 'DELETE') && sources.includes('query')) return 'query';
+  return sources[0];
+}
+
+// Insert a possibly dotted parameter name (e.g. "message.speaker") into an object schema
+function addBodyProperty(schema: Record<string, any>, name: string, param: ParamDef, required: boolean): void {
+  const parts = name.split('.');
+  let target = schema;
+
+  for (let i = 0; i < parts.length - 1; i++) {
+    target.properties = target.properties || {};
+    if (!target.properties[parts[i]]) {
+      target.properties[parts[i]] = { type: 'object' };
+    }
+    target = target.properties[parts[i]];
+  }
+
+  const key = parts[parts.length - 1];
+  target.properties = target.properties || {};
+  target.properties[key] = {
+    ...(target.properties[key] || {}),
+    ...schemaForParam(param),
+    ...(param.description ? { description: param.description } : {})
+  };
+  if (required) {
+    target.required = Array.from(new Set([...(target.required || []), key]));
+  }
+}
+
+function buildOperation(route: RegisteredRoute): Record<string, any> {
+  const operation: Record<string, any> = {
+    tags: [route.path.split('/')[1] || 'root'],
+    summary: route.summary,
+    security: [{ ApiKeyAuth: [] }],
+    responses: {
+      '200': {
+        description: 'Successful response',
+        content: { 'application/json': { schema: { type: 'object' } } }
+      }
+    }
+  };
+
+  if (route.description) {
+    operation.description = route.description;
+  }
+  if (route.type) {
+    operation.operationId = route.type.replace(/-([a-z])/g, (_, c: string) => c.toUpperCase());
+    operation['x-relay-request-type'] = route.type;
+  }
+
+  const parameters: Record<string, any>[] = [];
+  const bodySchema: Record<string, any> = { type: 'object' };
+  const params = [
+    ...(route.requiredParams || []).map(p => ({ param: p, required: true })),
+    ...(route.optionalParams || []).map(p => ({ param: p, required: false }))
+  ];
+
+  for (const { param, required } of params) {
+    const source = primarySource(param, route.method);
+    if (source === 'body') {
+      addBodyProperty(bodySchema, param.name, param, required);
+    } else {
+      parameters.push({
+        name: param.name,
+        in: source === 'params' ? 'path' : 'query',
+        required: source === 'params' ? true : required,
+        schema: schemaForParam(param),
+        ...(param.description ? { description: param.description } : {})
+      });
+    }
+  }
+
+  for (const header of route.headers || []) {
+    parameters.push({ name: header.name, in: 'header', required: !!header.required, schema: { type: 'string' }, description: header.description });
+  }
+
+  if (route.async) {
+    parameters.push(
+      { name: 'async', in: 'query', required: false, schema: { type: 'boolean' }, description: 'Return 202 with a job ID instead of waiting for the result' },
+      { name: 'callbackUrl', in: 'query', required: false, schema: { type: 'string', format: 'uri' }, description: 'URL the finished job is POSTed to (requires async=true)' }
+    );
+    operation.responses['202'] = {
+      description: 'Accepted as an async job, poll GET /jobs/{id} for the result',
+      content: { 'application/json': { schema: { type: 'object' } } }
+    };
+  }
+
+  // Express path parameters not declared in the route's parameters are still required
+  for (const match of route.path.matchAll(/:([A-Za-z0-9_]+)/g)) {
+    if (!parameters.some(p => p.in === 'path' && p.name === match[1])) {
+      parameters.push({ name: match[1], in: 'path', required: true, schema: { type: 'string' } });
+    }
+  }
+
+  if (parameters.length > 0) {
+    operation.parameters = parameters;
+  }
+
+  const content: Record<string, any> = {};
+  if (bodySchema.properties) {
+    content['application/json'] = { schema: bodySchema };
+  }
+  if (route.binaryBody) {
+    content['application/octet-stream'] = { schema: { type: 'string', format: 'binary', description: route.binaryBody } };
+  }
+  if (Object.keys(content).length > 0) {
+    operation.requestBody = {
+      required: !route.binaryBody && Array.isArray(bodySchema.required) && bodySchema.required.length > 0,
+      content
+    };
+  }
+
+  for (const [status, description] of Object.entries(ERROR_RESPONSES)) {
+    if ((status === '408' || status === '501') && !route.type) continue;
+    operation.responses[status] = {
+      description,
+      content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } }
+    };
+  }
+
+  return operation;
+}
+
+/**
+ * Builds an OpenAPI 3.1 document from the routes registered with createApiRoute and
+ * documentApiRoute.
+ */
+export function buildOpenApiDocument(baseUrl: string): Record<string, any> {
+  const paths: Record<string, Record<string, any>> = {};
+
+  for (const route of getRegisteredRoutes()) {
+    const openApiPath = toOpenApiPath(route.path);
+    paths[openApiPath] = paths[openApiPath] || {};
+    paths[openApiPath][route.method.toLowerCase()] = buildOperation(route);
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'FoundryVTT REST API Relay',
+      version: VERSION,
+      description: 'REST API for interacting with Foundry VTT worlds through the relay server'
+    },
+    servers: [{ url: baseUrl }],
+    components: {
+      securitySchemes: {
+        ApiKeyAuth: { type: 'apiKey', in: 'header', name: 'x-api-key' }
+      },
+      schemas: {
+        Error: {
+          type: 'object',
+          required: ['error'],
+          properties: {
+            error: { type: 'string' },
+            code: {
+              type: 'string',
+              description: 'Set on 400 responses',
+              enum: Object.values(ValidationErrorCode)
+            },
+            field: { type: ['string', 'null'], description: 'The offending parameter, set on 400 responses' },
+            howToUse: { type: 'string' },
+            message: { type: 'string' }
+          },
+          additionalProperties: true
+        }
+      }
+    },
+    paths
+  };
+}
+
+export const openApiRouter = express.Router();
+
+/**
+ * Serves the generated OpenAPI document
+ */
+openApiRouter.get('/openapi.json', (req: Request, res: Response) => {
+  try {
+    res.json(buildOpenApiDocument(`${req.protocol}://${req.get('host')}`));
+  } catch (error) {
+    log.error(`Failed to build OpenAPI document: ${error}`);
+    res.status(500).json({ error: 'Failed to build OpenAPI document' });
+  }
+});
+
+/**
+ * Serves a Swagger UI page for the generated OpenAPI document
+ */
+openApiRouter.get('/api/docs/ui', (req: Request, res: Response) => {
+  res.type('html').send(`<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>FoundryVTT REST API Relay - API Reference</title>
+  <link rel="stylesheet" href="https://unpkg.com/swagger-ui-dist@5/swagger-ui.css" />
+</head>
+<body>
+  <div id="swagger-ui"></div>
+  <script src="https://unpkg.com/swagger-ui-dist@5/swagger-ui-bundle.js" crossorigin></script>
+  <script>
+    window.ui = SwaggerUIBundle({ url: '/openapi.json', dom_id: '#swagger-ui' });
+  </script>
+</body>
+</html>`);
+});
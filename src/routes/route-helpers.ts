@@ -1,32 +1,53 @@
 import { Request, Response } from 'express';
 import { ClientManager } from '../core/ClientManager';
-import { pendingRequests, safeResponse, PendingRequest, PendingRequestType } from './shared';
+import { pendingRequests, safeResponse, sendClientReconnecting, PendingRequest, PendingRequestType } from './shared';
 import { log } from '../utils/logger';
+import { awaitLateResult } from '../middleware/idempotency';
+import { Jobs } from '../core/Jobs';
+import { AuditLog } from '../core/AuditLog';
+import { canAccessClient, sendClientAccessError } from '../middleware/scopes';
+import { ownsClient } from '../middleware/auth';
+import { ParamDef, ValidationErrorCode, parseParams, sendValidationError, validationError } from './validation';
+import { WorldCapabilities } from '../lib/protocol';
+import { HttpMethod, registerApiRoute } from './route-registry';
+
+export type { ParamDef } from './validation';
 
 /**
- * Defines a parameter to be extracted from request.
+ * Result of a route's custom validation, merged into the standard validation error body.
  */
-interface ParamDef {
-  name: string;
-  from: 'body' | 'query' | 'params' | ('body' | 'query' | 'params')[];
-  type?: 'string' | 'number' | 'boolean' | 'array' | 'object';
+export interface CustomValidationResult {
+  error?: string;
+  field?: string;
+  howToUse?: string;
+  [key: string]: any;
 }
 
 /**
  * Configuration for creating a standardized API route handler.
  */
-interface ApiRouteConfig {
+export interface ApiRouteConfig {
   type: PendingRequestType;
+  /** Method and full path the route is mounted at, for the OpenAPI document */
+  method: HttpMethod;
+  path: string;
+  /** What the route does, for the OpenAPI document */
+  summary: string;
+  description?: string;
   requiredParams?: ParamDef[];
   optionalParams?: ParamDef[];
   timeout?: number;
+  /** Game system the world must run, such as dnd5e */
+  requiredSystem?: string;
+  /** Modules that must be active in the world, such as quick-insert */
+  requiredModules?: string[];
   /**
    * Custom validation logic for parameters.
    * @param params Extracted parameters from request.
    * @param req The Express request object.
-   * @returns An object with an error message and/or a how-to-use message, or null if no validation is needed.
+   * @returns An object with an error message, the offending field and/or a how-to-use message, or null if the parameters are valid.
    */
-  validateParams?: (params: Record<string, any>, req: Request) => Promise<{ error?: string; howToUse?: string } | null> | { error?: string; howToUse?: string } | null;
+  validateParams?: (params: Record<string, any>, req: Request) => Promise<CustomValidationResult | null> | CustomValidationResult | null;
   /**
    * Custom logic to build payload for client.
    * @param params Extracted parameters from request.
@@ -42,6 +63,27 @@ interface ApiRouteConfig {
   buildPendingRequest?: (params: Record<string, any>) => Partial<Omit<PendingRequest, 'res' | 'timestamp' | 'type' | 'clientId'>>;
 }
 
+/**
+ * What a world lacks to handle a request, or null if nothing is missing. Request types and
+ * modules are only checked once the module reported them, older modules are sent every request.
+ */
+function findMissingCapability(config: ApiRouteConfig, capabilities: WorldCapabilities): { kind: string; name: string; error: string; howToUse: string } | null {
+  if (capabilities.requestTypes && !capabilities.requestTypes.includes(config.type)) {
+    return { kind: 'request-type', name: config.type, error: `The Foundry module of this world does not support ${config.type} requests, update the module`, howToUse: "Update the Foundry REST API module in the world of this client" };
+  }
+  if (config.requiredSystem && capabilities.system && capabilities.system.id !== config.requiredSystem) {
+    return { kind: 'system', name: config.requiredSystem, error: `${config.type} requires the ${config.requiredSystem} system, the world runs ${capabilities.system.id}`, howToUse: `Use the clientId of a world that runs the ${config.requiredSystem} system` };
+  }
+  if (capabilities.reportedAt !== null) {
+    const active = new Set(capabilities.modules.map(module => module.id));
+    const module = config.requiredModules?.find(id => !active.has(id));
+    if (module) {
+      return { kind: 'module', name: module, error: `${config.type} requires the ${module} module, which is not active in the world`, howToUse: `Activate the ${module} module in the world of this client` };
+    }
+  }
+  return null;
+}
+
 /**
  * Creates a standardized Express route handler for API endpoints.
  * This function abstracts away the boilerplate of handling client lookups,
@@ -51,103 +93,64 @@ interface ApiRouteConfig {
  * @returns An Express route handler function.
  */
 export function createApiRoute(config: ApiRouteConfig) {
-  return async (req: Request, res: Response) => {
-    // Extract parameters from request body, query or path params
-    const params: Record<string, any> = {};
-    const allParamDefs = [...(config.requiredParams || []), ...(config.optionalParams || [])];
-
-    for (const p of allParamDefs) {
-      const sources = Array.isArray(p.from) ? p.from : [p.from];
-      let value: any;
-      for (const source of sources) {
-        value = req[source]?.[p.name];
-        if (value !== undefined) {
-          break;
-        }
-      }
-      params[p.name] = value;
+  const handler = async (req: Request, res: Response) => {
+    // Extract and validate parameters from request body, query or path params
+    const { params, error } = parseParams(req, config.requiredParams, config.optionalParams);
+    if (error) {
+      return sendValidationError(res, error);
     }
 
-    // Type validation and coercion
-    for (const p of allParamDefs) {
-        let value = params[p.name];
-        if (value === undefined || value === null) continue;
-  
-        if (p.type) {
-          let coercedValue = value;
-          let validationError: string | null = null;
-          
-          switch (p.type) {
-            case 'number':
-              if (typeof value !== 'number') {
-                coercedValue = parseFloat(value);
-              }
-              if (isNaN(coercedValue)) {
-                validationError = `'${p.name}' must be a valid number.`;
-              }
-              break;
-            case 'boolean':
-              if (typeof value !== 'boolean') {
-                if (String(value).toLowerCase() === 'true') coercedValue = true;
-                else if (String(value).toLowerCase() === 'false') coercedValue = false;
-                else validationError = `'${p.name}' must be a valid boolean.`;
-              }
-              break;
-            case 'array':
-              if (!Array.isArray(value)) {
-                // Try to parse as array if it's a string from query params
-                try {
-                  if (typeof value === 'string') {
-                    coercedValue = JSON.parse(value);
-                    if (!Array.isArray(coercedValue)) {
-                      validationError = `'${p.name}' must be an array.`;
-                    }
-                  } else {
-                    validationError = `'${p.name}' must be an array.`;
-                  }
-                } catch (e) {
-                  validationError = `'${p.name}' must be a valid array.`;
-                }
-              }
-              break;
-            case 'string':
-              if (typeof value !== 'string') validationError = `'${p.name}' must be a string.`;
-              break;
-            case 'object':
-              if (typeof value !== 'object' || Array.isArray(value)) validationError = `'${p.name}' must be an object.`;
-              break;
-          }
-  
-          if (validationError) {
-            return safeResponse(res, 400, { error: validationError });
-          }
-          params[p.name] = coercedValue;
-        }
-      }
-
-    // Validate parameters
+    // Custom validation
     const validationResult = (await config.validateParams?.(params, req)) || null;
     if (validationResult) {
-      return safeResponse(res, 400, validationResult);
+      return sendValidationError(res, {
+        error: "Invalid request parameters",
+        code: ValidationErrorCode.InvalidParameter,
+        field: null,
+        ...validationResult
+      });
     }
 
-    // Validate that all required parameters are present
-    for (const p of config.requiredParams || []) {
-      if (params[p.name] === undefined || params[p.name] === null) {
-        return safeResponse(res, 400, { error: `'${p.name}' is required` });
-      }
+    // Async job options (?async=true&callbackUrl=...)
+    const { options: jobOptions, error: jobError } = await Jobs.parseOptions(req);
+    if (jobError) {
+      return sendValidationError(res, jobError);
     }
 
     const clientId = params.clientId as string;
+    if (!canAccessClient(req, clientId)) {
+      return sendClientAccessError(res, clientId);
+    }
 
     // Get client instance
     const client = await ClientManager.getClient(clientId);
     if (!client) {
       return safeResponse(res, 404, { error: "Invalid client ID" });
     }
+    if (!ownsClient(req, client)) {
+      return safeResponse(res, 401, { error: "Invalid API key for this client ID" });
+    }
+    // Recorded in the usage history by trackApiUsage
+    res.locals.clientId = clientId;
+
+    // Fail fast instead of timing out when the world cannot handle the request
+    const capabilities = await ClientManager.getCapabilities(clientId);
+    const missing = capabilities && findMissingCapability(config, capabilities);
+    if (missing) {
+      return safeResponse(res, 501, {
+        ...validationError(missing.error, 'clientId', missing.howToUse, ValidationErrorCode.UnsupportedCapability),
+        clientId,
+        missing: { kind: missing.kind, name: missing.name },
+        capabilitiesUrl: `/clients/${clientId}/capabilities`
+      });
+    }
 
     try {
-      const requestId = `${config.type}_${Date.now()}`;
+      const requestId = `${config.type}_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+      const job = jobOptions.async ? await Jobs.create(req, config.type, clientId, requestId, jobOptions) : null;
+
+      // Requests that change the world are recorded once they are answered
+      AuditLog.track(req, res, config.type, params, job?.id);
 
       // Register pending request
       const pendingRequestData: PendingRequest = {
@@ -155,6 +158,8 @@ export function createApiRoute(config: ApiRouteConfig) {
         type: config.type,
         clientId,
         timestamp: Date.now(),
+        idempotencyKey: req.idempotencyKey,
+        jobId: job?.id,
         ...(config.buildPendingRequest ? config.buildPendingRequest(params) : {}),
       };
       pendingRequests.set(requestId, pendingRequestData);
@@ -185,14 +190,39 @@ export function createApiRoute(config: ApiRouteConfig) {
       // If sending fails, clean up and respond with an error
       if (!sent) {
         pendingRequests.delete(requestId);
+        if (job) {
+          await Jobs.fail(job.id, 500, "Failed to send request to Foundry client");
+        }
         return safeResponse(res, 500, { error: "Failed to send request to Foundry client" });
       }
 
+      // Async jobs are answered now and their result is stored when it arrives
+      if (job) {
+        setTimeout(async () => {
+          if (pendingRequests.delete(requestId)) {
+            const reconnecting = await ClientManager.withdrawRequest(clientId, requestId) !== null;
+            Jobs.fail(job.id, reconnecting ? 503 : 408, reconnecting ? "Client reconnecting" : "Request timed out").catch(error => {
+              log.error(`Error failing job ${job.id}: ${error}`);
+            });
+          }
+        }, Jobs.timeoutMs);
+        res.setHeader('Location', `/jobs/${job.id}`);
+        return safeResponse(res, 202, Jobs.acceptedResponse(job));
+      }
+
       // Set a timeout for the request
       const timeoutDuration = config.timeout || 10000;
-      setTimeout(() => {
-        if (pendingRequests.has(requestId)) {
+      setTimeout(async () => {
+        const pending = pendingRequests.get(requestId);
+        if (pending) {
           pendingRequests.delete(requestId);
+          // Callers retry requests of reconnecting clients, there is no late result to wait for
+          if (await sendClientReconnecting(res, clientId, requestId)) {
+            return;
+          }
+          if (pending.idempotencyKey) {
+            awaitLateResult(requestId, pending.idempotencyKey);
+          }
           safeResponse(res, 408, { error: "Request timed out" });
         }
       }, timeoutDuration);
@@ -201,4 +231,17 @@ export function createApiRoute(config: ApiRouteConfig) {
       safeResponse(res, 500, { error: `Internal server error during ${config.type} request` });
     }
   };
+
+  registerApiRoute({
+    method: config.method,
+    path: config.path,
+    summary: config.summary,
+    description: config.description,
+    requiredParams: config.requiredParams,
+    optionalParams: config.optionalParams,
+    type: config.type,
+    async: true,
+    handler
+  });
+  return handler;
 }
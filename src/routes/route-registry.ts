@@ -0,0 +1,106 @@
+import { RequestHandler } from 'express';
+import { ParamDef } from './validation';
+import { PendingRequestType } from './shared';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+/**
+ * A request header an API route reads, besides x-api-key.
+ */
+export interface HeaderDef {
+  name: string;
+  required?: boolean;
+  description: string;
+}
+
+/**
+ * Documentation of an authenticated API route, used to build the OpenAPI document.
+ * createApiRoute registers its routes, other routes are registered with documentApiRoute.
+ */
+export interface ApiRouteDoc {
+  method: HttpMethod;
+  /** Full path the route is mounted at, with Express parameters such as /jobs/:id */
+  path: string;
+  summary: string;
+  description?: string;
+  requiredParams?: ParamDef[];
+  optionalParams?: ParamDef[];
+  headers?: HeaderDef[];
+  /** Describes the raw binary body the route accepts besides JSON */
+  binaryBody?: string;
+  /** Whether the route accepts ?async=true and callbackUrl */
+  async?: boolean;
+}
+
+/**
+ * A registered route. Routes built with createApiRoute also carry the request type
+ * they send to the Foundry module, and their handler so /batch can run them.
+ */
+export interface RegisteredRoute extends ApiRouteDoc {
+  type?: PendingRequestType;
+  handler?: RequestHandler;
+}
+
+const registeredRoutes: RegisteredRoute[] = [];
+const routePatterns = new WeakMap<RegisteredRoute, { pattern: RegExp; names: string[] }>();
+
+function patternFor(route: RegisteredRoute): { pattern: RegExp; names: string[] } {
+  let compiled = routePatterns.get(route);
+  if (!compiled) {
+    const names: string[] = [];
+    const source = route.path.split('/').map(segment => {
+      if (!segment.startsWith(':')) return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      names.push(segment.slice(1));
+      return '([^/]+)';
+    }).join('/');
+    compiled = { pattern: new RegExp(`^${source}/?$`), names };
+    routePatterns.set(route, compiled);
+  }
+  return compiled;
+}
+
+export function registerApiRoute(route: RegisteredRoute): void {
+  registeredRoutes.push(route);
+}
+
+/**
+ * Register the documentation of a route that is not built with createApiRoute and
+ * return its handler unchanged.
+ */
+export function documentApiRoute<T extends RequestHandler>(doc: ApiRouteDoc, handler: T): T {
+  registerApiRoute(doc);
+  return handler;
+}
+
+/**
+ * The createApiRoute route that serves a method and path, with the values of its path
+ * parameters, or null if there is none.
+ */
+export function findApiRoute(method: string, path: string): { route: RegisteredRoute; params: Record<string, string> } | null {
+  const upperMethod = method.toUpperCase();
+  for (const route of registeredRoutes) {
+    if (!route.handler || route.method !== upperMethod) continue;
+    const { pattern, names } = patternFor(route);
+    const match = path.match(pattern);
+    if (!match) continue;
+
+    const params: Record<string, string> = {};
+    try {
+      names.forEach((name, i) => {
+        params[name] = decodeURIComponent(match[i + 1]);
+      });
+    } catch {
+      // Malformed percent-encoding, as Express would not route it either
+      return null;
+    }
+    return { route, params };
+  }
+  return null;
+}
+
+/**
+ * Every registered route, in the order the routers registered them.
+ */
+export function getRegisteredRoutes(): readonly RegisteredRoute[] {
+  return registeredRoutes;
+}
@@ -1,8 +1,10 @@
 import express, { Response } from 'express';
 import { log } from '../utils/logger';
+import { RangeRequest } from '../lib/httpRange';
+import { ClientManager } from '../core/ClientManager';
 
 // Extracted from api.ts
-function sanitizeResponse(response: any): any {
+export function sanitizeResponse(response: any): any {
     if (response === null || response === undefined) {
       return response;
     }
@@ -20,6 +22,11 @@ function sanitizeResponse(response: any): any {
       if (Array.isArray(obj)) {
         return obj.map(item => removeSensitiveKeys(item));
       }
+
+      // Leave dates for JSON serialisation, copying them would lose their value
+      if (obj instanceof Date) {
+        return obj;
+      }
       
       const newObj: any = {};
       for (const key in obj) {
@@ -42,6 +49,25 @@ export function safeResponse(res: Response, statusCode: number, data: any): void
     res.status(statusCode).json(sanitizedData);
 }
 
+/**
+ * Answer a timed-out request with 503 if its Foundry client is reconnecting, and stop holding
+ * the request for the client so it does not run after the caller was told to retry. Returns
+ * false if the client is not reconnecting, the caller then answers with its own timeout.
+ */
+export async function sendClientReconnecting(res: Response, clientId: string, requestId: string): Promise<boolean> {
+    const until = await ClientManager.withdrawRequest(clientId, requestId);
+    if (until === null) {
+      return false;
+    }
+
+    const retryAfter = Math.max(1, Math.ceil((until - Date.now()) / 1000));
+    if (!res.headersSent) {
+      res.setHeader('Retry-After', String(retryAfter));
+    }
+    safeResponse(res, 503, { error: "Client reconnecting", clientId, requestId, retryAfter });
+    return true;
+}
+
 export const PENDING_REQUEST_TYPES = [
     'search', 'entity', 'structure', 'contents', 'create', 'update', 'delete',
     'rolls', 'last-roll', 'roll', 'get-sheet', 'macro-execute', 'macros',
@@ -67,6 +93,14 @@ export interface PendingRequest {
     initialScale?: number | null;
     activeTab?: number | null;
     darkMode?: boolean;
+    idempotencyKey?: string;
+    jobId?: string;
+    /** Range header of a binary download */
+    range?: RangeRequest | null;
+    /** If-None-Match header of a binary download */
+    ifNoneMatch?: string;
+    /** An upload is still being streamed to the client, its timeout starts once it is sent */
+    transferring?: boolean;
 }
 
 export const pendingRequests = new Map<string, PendingRequest>();
@@ -1,14 +1,15 @@
 import express, { Request, Response } from 'express';
 import { stripe, SUBSCRIPTION_PRICES, isStripeDisabled } from '../config/stripe';
 import { User } from '../models/user';
-import { authMiddleware } from '../middleware/auth';
+import { accountSessionMiddleware } from '../middleware/accountSession';
+import { DEFAULT_PAID_PLAN } from '../core/Plans';
 import { log } from '../utils/logger';
 import path from 'path';
 
 const router = express.Router();
 
 // Get subscription status
-router.get('/status', authMiddleware, async (req: Request, res: Response) => {
+router.get('/status', accountSessionMiddleware, async (req: Request, res: Response) => {
   // If Stripe is disabled, return free tier status
   if (isStripeDisabled) {
     res.json({
@@ -19,8 +20,7 @@ router.get('/status', authMiddleware, async (req: Request, res: Response) => {
   }
   
   try {
-    const apiKey = req.headers['x-api-key'] as string;
-    const user = await User.findOne({ where: { apiKey } });
+    const user = await User.findOne({ where: { id: req.user.id } });
 
     if (!user) {
       res.status(404).json({ error: 'User not found' });
@@ -39,12 +39,18 @@ router.get('/status', authMiddleware, async (req: Request, res: Response) => {
   }
 });
 
-// Create checkout session
-router.post('/create-checkout-session', authMiddleware, async (req: Request, res: Response) => {
+// Create checkout session, for the plan in the body or the default paid plan
+router.post('/create-checkout-session', accountSessionMiddleware, async (req: Request, res: Response) => {
   try {
-    log.info('Creating checkout session');
-    const apiKey = req.headers['x-api-key'] as string;
-    const user = await User.findOne({ where: { apiKey } });
+    const plan = req.body?.plan || DEFAULT_PAID_PLAN;
+    const priceId = SUBSCRIPTION_PRICES[plan];
+    if (!priceId) {
+      res.status(400).json({ error: `Unknown plan: ${plan}`, plans: Object.keys(SUBSCRIPTION_PRICES) });
+      return;
+    }
+
+    log.info(`Creating checkout session for the ${plan} plan`);
+    const user = await User.findOne({ where: { id: req.user.id } });
 
     if (!user) {
       res.status(404).json({ error: 'User not found' });
@@ -72,14 +78,14 @@ router.post('/create-checkout-session', authMiddleware, async (req: Request, res
       payment_method_types: ['card'],
       line_items: [
         {
-          price: SUBSCRIPTION_PRICES.monthly,
+          price: priceId,
           quantity: 1
         }
       ],
       mode: 'subscription',
       success_url: `${process.env.FRONTEND_URL}/api/subscriptions/subscription-success?session_id={CHECKOUT_SESSION_ID}`,
       cancel_url: `${process.env.FRONTEND_URL}/api/subscriptions/subscription-cancel`,
-      metadata: { userId: user.dataValues.id.toString() }
+      metadata: { userId: user.dataValues.id.toString(), plan }
     });
 
     res.json({ url: session.url });
@@ -90,11 +96,10 @@ router.post('/create-checkout-session', authMiddleware, async (req: Request, res
 });
 
 // Update the create-portal-session route
-router.post('/create-portal-session', authMiddleware, async (req: Request, res: Response) => {
+router.post('/create-portal-session', accountSessionMiddleware, async (req: Request, res: Response) => {
   try {
     // You can still get user info if needed for analytics
-    const apiKey = req.headers['x-api-key'] as string;
-    const user = await User.findOne({ where: { apiKey } });
+    const user = await User.findOne({ where: { id: req.user.id } });
 
     if (!user) {
       res.status(404).json({ error: 'User not found' });
@@ -0,0 +1,265 @@
+import { Request, Response } from 'express';
+import { safeResponse } from './shared';
+
+export type ParamSource = 'body' | 'query' | 'params';
+export type ParamType = 'string' | 'number' | 'boolean' | 'array' | 'object';
+
+/**
+ * Defines a parameter to be extracted from request.
+ * Dotted names (e.g. "message.speaker") refer to a property nested inside an object parameter.
+ */
+export interface ParamDef {
+  name: string;
+  from: ParamSource | ParamSource[];
+  type?: ParamType;
+  /** Allowed values (checked against each element for arrays) */
+  enum?: readonly (string | number)[];
+  /** Minimum value for numbers, minimum length for strings and arrays */
+  min?: number;
+  /** Maximum value for numbers, maximum length for strings and arrays */
+  max?: number;
+  /** Numbers must be whole */
+  integer?: boolean;
+  /** Type every element of an array parameter must have */
+  items?: Exclude<ParamType, 'array'>;
+  /** Overrides the generated hint returned when the parameter is missing or invalid */
+  howToUse?: string;
+  /** Describes the parameter in the OpenAPI document */
+  description?: string;
+}
+
+/**
+ * Machine-readable codes returned in the `code` field of 400 responses, and of the 501
+ * response for requests the world of the client cannot handle.
+ */
+export enum ValidationErrorCode {
+  MissingParameter = 'missing_parameter',
+  InvalidType = 'invalid_type',
+  InvalidValue = 'invalid_value',
+  OutOfRange = 'out_of_range',
+  InvalidItem = 'invalid_item',
+  InvalidParameter = 'invalid_parameter',
+  UnsupportedCapability = 'unsupported_capability'
+}
+
+/**
+ * Body of every 400 response caused by invalid request parameters.
+ */
+export interface ValidationFailure {
+  error: string;
+  code: ValidationErrorCode;
+  field: string | null;
+  howToUse?: string;
+  [key: string]: any;
+}
+
+export type ParsedParams =
+  | { params: Record<string, any>; error: null }
+  | { params: null; error: ValidationFailure };
+
+// Read a possibly dotted path, preferring a literal key of the same name
+function getPath(source: any, path: string): any {
+  if (source === undefined || source === null) return undefined;
+  if (source[path] !== undefined) return source[path];
+
+  let value = source;
+  for (const part of path.split('.')) {
+    if (value === undefined || value === null || typeof value !== 'object') return undefined;
+    value = value[part];
+  }
+  return value;
+}
+
+// Write a dotted path, copying intermediate objects so the request itself is not modified
+function setPath(target: Record<string, any>, path: string, value: any): void {
+  const parts = path.split('.');
+  let obj = target;
+
+  for (let i = 0; i < parts.length - 1; i++) {
+    const next = obj[parts[i]];
+    obj[parts[i]] = next && typeof next === 'object' && !Array.isArray(next) ? { ...next } : {};
+    obj = obj[parts[i]];
+  }
+
+  obj[parts[parts.length - 1]] = value;
+}
+
+function sourcesOf(def: ParamDef): ParamSource[] {
+  return Array.isArray(def.from) ? def.from : [def.from];
+}
+
+function defaultHowToUse(def: ParamDef): string {
+  if (def.enum) {
+    return `Use one of: ${def.enum.join(', ')}`;
+  }
+
+  const hints = sourcesOf(def).map(source => {
+    switch (source) {
+      case 'query':
+        return def.name === 'clientId'
+          ? 'Add ?clientId=yourClientId to your request'
+          : `Add ?${def.name}=<${def.type || 'value'}> to your request`;
+      case 'params':
+        return `Include ${def.name} in the URL path`;
+      default:
+        return `Include ${def.name} (${def.type || 'value'}) in the JSON request body`;
+    }
+  });
+  return hints.join(', or ');
+}
+
+function failure(def: ParamDef, code: ValidationErrorCode, error: string): ValidationFailure {
+  return { error, code, field: def.name, howToUse: def.howToUse || defaultHowToUse(def) };
+}
+
+function matchesType(value: any, type: Exclude<ParamType, 'array'>): boolean {
+  if (type === 'object') return typeof value === 'object' && value !== null && !Array.isArray(value);
+  if (type === 'number') return typeof value === 'number' && !isNaN(value);
+  return typeof value === type;
+}
+
+/**
+ * Coerce a raw request value to the parameter's type and check its constraints.
+ * Query string values arrive as strings, so numbers, booleans and JSON arrays are parsed.
+ */
+export function validateParam(def: ParamDef, value: any): { value: any; error: null } | { value: null; error: ValidationFailure } {
+  let coerced = value;
+
+  switch (def.type) {
+    case 'number':
+      if (typeof value !== 'number') {
+        coerced = typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+      }
+      if (!Number.isFinite(coerced)) {
+        return { value: null, error: failure(def, ValidationErrorCode.InvalidType, `'${def.name}' must be a valid number.`) };
+      }
+      if (def.integer && !Number.isInteger(coerced)) {
+        return { value: null, error: failure(def, ValidationErrorCode.InvalidType, `'${def.name}' must be a whole number.`) };
+      }
+      break;
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        if (String(value).toLowerCase() === 'true') coerced = true;
+        else if (String(value).toLowerCase() === 'false') coerced = false;
+        else return { value: null, error: failure(def, ValidationErrorCode.InvalidType, `'${def.name}' must be a valid boolean.`) };
+      }
+      break;
+    case 'array':
+      if (!Array.isArray(value)) {
+        // Arrays in query params are sent as JSON strings
+        try {
+          coerced = typeof value === 'string' ? JSON.parse(value) : value;
+        } catch {
+          coerced = value;
+        }
+        if (!Array.isArray(coerced)) {
+          return { value: null, error: failure(def, ValidationErrorCode.InvalidType, `'${def.name}' must be a valid array.`) };
+        }
+      }
+      break;
+    case 'string':
+      if (typeof value !== 'string') {
+        return { value: null, error: failure(def, ValidationErrorCode.InvalidType, `'${def.name}' must be a string.`) };
+      }
+      break;
+    case 'object':
+      if (!matchesType(value, 'object')) {
+        return { value: null, error: failure(def, ValidationErrorCode.InvalidType, `'${def.name}' must be an object.`) };
+      }
+      break;
+  }
+
+  if (Array.isArray(coerced) && def.items) {
+    const index = coerced.findIndex(item => !matchesType(item, def.items!));
+    if (index !== -1) {
+      return {
+        value: null,
+        error: failure(def, ValidationErrorCode.InvalidItem, `'${def.name}[${index}]' must be a ${def.items}.`)
+      };
+    }
+  }
+
+  if (def.enum) {
+    const values = Array.isArray(coerced) ? coerced : [coerced];
+    const invalid = values.find(v => !def.enum!.includes(v));
+    if (invalid !== undefined) {
+      return {
+        value: null,
+        error: failure(def, ValidationErrorCode.InvalidValue, `'${def.name}' must be one of: ${def.enum.join(', ')}. Received '${invalid}'.`)
+      };
+    }
+  }
+
+  if (def.min !== undefined || def.max !== undefined) {
+    const isNumber = typeof coerced === 'number';
+    const size = isNumber ? coerced : (typeof coerced === 'string' || Array.isArray(coerced) ? coerced.length : null);
+    const what = isNumber ? '' : ' in length';
+
+    if (size !== null && def.min !== undefined && size < def.min) {
+      return { value: null, error: failure(def, ValidationErrorCode.OutOfRange, `'${def.name}' must be at least ${def.min}${what}.`) };
+    }
+    if (size !== null && def.max !== undefined && size > def.max) {
+      return { value: null, error: failure(def, ValidationErrorCode.OutOfRange, `'${def.name}' must be at most ${def.max}${what}.`) };
+    }
+  }
+
+  return { value: coerced, error: null };
+}
+
+/**
+ * Extract, coerce and validate parameters from the request body, query and path params.
+ * Dotted parameters are validated individually and written back into their parent object.
+ */
+export function parseParams(req: Request, requiredParams: ParamDef[] = [], optionalParams: ParamDef[] = []): ParsedParams {
+  const params: Record<string, any> = {};
+  const defs = [
+    ...requiredParams.map(def => ({ def, required: true })),
+    ...optionalParams.map(def => ({ def, required: false }))
+  ];
+
+  // Parents first, so nested values are written into the already validated object
+  defs.sort((a, b) => a.def.name.split('.').length - b.def.name.split('.').length);
+
+  for (const { def, required } of defs) {
+    let value: any;
+    for (const source of sourcesOf(def)) {
+      value = getPath(req[source], def.name);
+      if (value !== undefined) break;
+    }
+
+    if (value === undefined || value === null) {
+      if (required) {
+        return { params: null, error: failure(def, ValidationErrorCode.MissingParameter, `'${def.name}' is required`) };
+      }
+      if (!def.name.includes('.')) params[def.name] = value;
+      continue;
+    }
+
+    const result = validateParam(def, value);
+    if (result.error) {
+      return { params: null, error: result.error };
+    }
+
+    if (def.name.includes('.')) {
+      setPath(params, def.name, result.value);
+    } else {
+      params[def.name] = result.value;
+    }
+  }
+
+  return { params, error: null };
+}
+
+/**
+ * Wrap a free-form validation message in the standard error body.
+ */
+export function validationError(error: string, field: string | null = null, howToUse?: string, code = ValidationErrorCode.InvalidParameter): ValidationFailure {
+  return howToUse ? { error, code, field, howToUse } : { error, code, field };
+}
+
+/**
+ * Send a 400 response with a validation error body.
+ */
+export function sendValidationError(res: Response, error: ValidationFailure): void {
+  safeResponse(res, 400, error);
+}
@@ -1,5 +1,6 @@
 import express, { Request, Response } from 'express';
-import { stripe } from '../config/stripe';
+import { stripe, planForPrice } from '../config/stripe';
+import { DEFAULT_PAID_PLAN } from '../core/Plans';
 import { User } from '../models/user';
 import { log } from '../utils/logger';
 
@@ -56,13 +57,21 @@ async function handleSubscriptionUpdated(subscription: any) {
       return;
     }
 
+    // The subscription's price selects the plan, see SUBSCRIPTION_PRICES
+    const priceId = subscription.items?.data?.[0]?.price?.id;
+    const plan = planForPrice(priceId);
+    if (!plan) {
+      log.warn(`Price ${priceId} of subscription ${subscription.id} is not mapped to a plan, using the ${DEFAULT_PAID_PLAN} plan`);
+    }
+
     await user.update({
       subscriptionStatus: subscription.status,
       subscriptionId: subscription.id,
-      subscriptionEndsAt: new Date(subscription.current_period_end * 1000)
+      subscriptionEndsAt: new Date(subscription.current_period_end * 1000),
+      plan: plan || DEFAULT_PAID_PLAN
     });
 
-    log.info(`Updated subscription for user ${user.id} to status: ${subscription.status}`);
+    log.info(`Updated subscription for user ${user.id} to status: ${subscription.status}, plan: ${plan || DEFAULT_PAID_PLAN}`);
   } catch (error) {
     log.error(`Error updating subscription: ${error}`);
   }
@@ -81,7 +90,8 @@ async function handleSubscriptionDeleted(subscription: any) {
 
     await user.update({
       subscriptionStatus: 'canceled',
-      subscriptionEndsAt: new Date(subscription.canceled_at * 1000)
+      subscriptionEndsAt: new Date(subscription.canceled_at * 1000),
+      plan: null
     });
 
     log.info(`Subscription canceled for user ${user.id}`);
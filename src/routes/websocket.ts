@@ -1,13 +1,97 @@
 // src/routes/websocket.ts
-import { WebSocketServer, WebSocket } from "ws";
+import { ServerOptions, WebSocketServer, WebSocket } from "ws";
 import { log } from "../utils/logger";
 import { ClientManager } from "../core/ClientManager";
 import { validateHeadlessSession } from "../workers/headlessSessions";
+import { User, accountKeyFor } from "../models/user";
+import { WSCloseCodes } from "../lib/constants";
+import { Plans } from "../core/Plans";
+import { ClientProtocol } from "../core/Client";
+import {
+  ENVELOPE_PROTOCOL_VERSION, HELLO_MESSAGE, HelloPayload, LEGACY_PROTOCOL_VERSION, MIN_PROTOCOL_VERSION,
+  PROTOCOL_VERSION, RELAY_CAPABILITIES, WELCOME_MESSAGE, WelcomePayload, errorMessage, negotiateVersion, validateEnvelope, validateHello
+} from "../lib/protocol";
 
 // Read ping interval from environment variable, default to 20 seconds
 const WEBSOCKET_PING_INTERVAL_MS = parseInt(process.env.WEBSOCKET_PING_INTERVAL_MS || '20000', 10);
 // Read client cleanup interval from environment variable, default to 15 seconds
 const CLIENT_CLEANUP_INTERVAL_MS = parseInt(process.env.CLIENT_CLEANUP_INTERVAL_MS || '15000', 10);
+// How long a module that announced a handshake has to send its hello message
+const WS_HANDSHAKE_TIMEOUT_MS = parseInt(process.env.WS_HANDSHAKE_TIMEOUT_MS || '10000', 10);
+
+// Compress WebSocket messages with permessage-deflate when the module supports it
+const WS_PERMESSAGE_DEFLATE = process.env.WS_PERMESSAGE_DEFLATE !== 'false';
+// Messages smaller than this many bytes are sent uncompressed
+const WS_COMPRESSION_THRESHOLD = parseInt(process.env.WS_COMPRESSION_THRESHOLD || '1024', 10);
+
+/**
+ * Options for the relay's WebSocketServer. Binary chunk frames opt out of compression
+ * when they are sent, file contents are mostly compressed formats already.
+ */
+export const wsServerOptions: ServerOptions = {
+  perMessageDeflate: WS_PERMESSAGE_DEFLATE ? { threshold: WS_COMPRESSION_THRESHOLD } : false
+};
+
+// WebSocket close reasons are limited to 123 bytes
+const MAX_CLOSE_REASON_LENGTH = 123;
+
+type HandshakeResult = { hello: HelloPayload; problem?: undefined } | { hello?: undefined; problem: string };
+
+/**
+ * Check the API key a Foundry client connects with and return the account key its
+ * connection is grouped under with the account's user, or null if the key is not valid.
+ * Only primary keys are accepted, additional keys cannot connect worlds.
+ */
+async function authenticateClientToken(token: string): Promise<{ accountKey: string; user: any } | null> {
+  // Local development accepts any token, like the HTTP API
+  if (process.env.DB_TYPE === 'memory') {
+    return { accountKey: token, user: null };
+  }
+
+  const user = await User.findByApiKey(token);
+  return user ? { accountKey: accountKeyFor(user.getDataValue ? user.getDataValue('id') : user.id), user } : null;
+}
+
+/**
+ * Wait for the hello message of a module. Listens straight away, so a hello sent while
+ * the connection is still being authenticated is not lost. Never rejects.
+ */
+function awaitHello(ws: WebSocket): Promise<HandshakeResult> {
+  return new Promise(resolve => {
+    const finish = (result: HandshakeResult) => {
+      clearTimeout(timeout);
+      ws.off("message", onMessage);
+      ws.off("close", onClose);
+      resolve(result);
+    };
+    const onMessage = (data: Buffer) => {
+      let parsed: any;
+      try {
+        parsed = JSON.parse(data.toString());
+      } catch {
+        return finish({ problem: "Hello message is not valid JSON" });
+      }
+      const problem = validateEnvelope(parsed) || (parsed.type !== HELLO_MESSAGE ? `Expected a ${HELLO_MESSAGE} message, got ${parsed.type}` : validateHello(parsed.payload));
+      finish(problem ? { problem } : { hello: parsed.payload });
+    };
+    const onClose = () => finish({ problem: "Connection closed during the handshake" });
+    const timeout = setTimeout(() => finish({ problem: `No ${HELLO_MESSAGE} message within ${WS_HANDSHAKE_TIMEOUT_MS}ms` }), WS_HANDSHAKE_TIMEOUT_MS);
+
+    ws.on("message", onMessage);
+    ws.on("close", onClose);
+  });
+}
+
+/**
+ * Close a connection the relay cannot accept. Modules that handshake get an error message
+ * first, legacy modules only understand the close code.
+ */
+function rejectConnection(ws: WebSocket, handshake: boolean, code: WSCloseCodes, errorCode: string, reason: string, details?: unknown): void {
+  if (handshake && ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(errorMessage(errorCode, reason, undefined, details)));
+  }
+  ws.close(code, Buffer.from(reason).subarray(0, MAX_CLOSE_REASON_LENGTH).toString());
+}
 
 export const wsRoutes = (wss: WebSocketServer): void => {
   wss.on("connection", async (ws, req) => {
@@ -23,6 +107,9 @@ export const wsRoutes = (wss: WebSocketServer): void => {
       const systemTitle = url.searchParams.get("systemTitle");
       const systemVersion = url.searchParams.get("systemVersion");
       const customName = url.searchParams.get("customName");
+      // Modules of protocol version 2 and later announce their hello message in the URL
+      const handshake = url.searchParams.has("protocol");
+      const pendingHello = handshake ? awaitHello(ws) : null;
 
       if (!id || !token) {
         log.warn("Rejecting WebSocket connection: missing id or token");
@@ -30,17 +117,85 @@ export const wsRoutes = (wss: WebSocketServer): void => {
         return;
       }
 
+      // Clients connect with the account's API key, checked like the x-api-key header
+      const account = await authenticateClientToken(token);
+      if (!account) {
+        log.warn(`Rejecting WebSocket connection for client ${id}: invalid token`);
+        ws.close(WSCloseCodes.NoAuth, "Invalid token");
+        return;
+      }
+      const { accountKey } = account;
+
+      // Plans limit how many worlds an account can connect at once
+      if (account.user) {
+        const plan = await Plans.forUser(account.user);
+        if (!await Plans.canConnectWorld(plan, accountKey, id, worldId)) {
+          log.warn(`Rejecting WebSocket connection for client ${id}: world limit of the ${plan.name} plan reached`);
+          ws.close(WSCloseCodes.PlanLimitReached, `The ${plan.name} plan allows ${plan.maxConnectedWorlds} connected world(s)`);
+          return;
+        }
+      }
+
       // Validate headless session before accepting the connection
-      const isValid = await validateHeadlessSession(id, token);
+      const isValid = await validateHeadlessSession(id, accountKey);
       if (!isValid) {
         log.warn(`Rejecting invalid headless client: ${id}`);
         ws.close(1008, "Invalid headless session");
         return;
       }
 
-      // Register client
-      const client = await ClientManager.addClient(ws, id, token, worldId, worldTitle, foundryVersion, systemId, systemTitle, systemVersion, customName);
-      if (!client) return; // Connection already rejected
+      // Agree on a protocol version before the client can receive requests
+      let protocol: ClientProtocol = { version: LEGACY_PROTOCOL_VERSION, moduleVersion: null, capabilities: [] };
+      let hello: HelloPayload | undefined;
+      if (pendingHello) {
+        const result = await pendingHello;
+        hello = result.hello;
+        if (!hello) {
+          const problem = result.problem!;
+          log.warn(`Rejecting WebSocket connection for client ${id}: ${problem}`);
+          rejectConnection(ws, true, WSCloseCodes.HandshakeFailed, "invalid-handshake", problem);
+          return;
+        }
+
+        const version = negotiateVersion(hello.protocolVersion);
+        if (version === null) {
+          const supported = { min: Math.max(MIN_PROTOCOL_VERSION, ENVELOPE_PROTOCOL_VERSION), max: PROTOCOL_VERSION };
+          log.warn(`Rejecting WebSocket connection for client ${id}: unsupported protocol version ${hello.protocolVersion}`);
+          rejectConnection(ws, true, WSCloseCodes.IncompatibleProtocol, "incompatible-protocol",
+            `Protocol version ${hello.protocolVersion} is not supported, the relay supports ${supported.min} to ${supported.max}`, supported);
+          return;
+        }
+        protocol = {
+          version,
+          moduleVersion: hello.moduleVersion || null,
+          capabilities: hello.capabilities.filter(capability => RELAY_CAPABILITIES.includes(capability))
+        };
+      } else if (MIN_PROTOCOL_VERSION > LEGACY_PROTOCOL_VERSION) {
+        log.warn(`Rejecting WebSocket connection for client ${id}: module does not support protocol version ${MIN_PROTOCOL_VERSION}`);
+        rejectConnection(ws, false, WSCloseCodes.IncompatibleProtocol, "incompatible-protocol",
+          `Module is outdated, the relay requires protocol version ${MIN_PROTOCOL_VERSION} or later. Update the module.`);
+        return;
+      }
+
+      // Register client, or resume the session of a client that reconnected
+      const added = await ClientManager.addClient(ws, id, accountKey, worldId, worldTitle, foundryVersion, systemId, systemTitle, systemVersion, customName, protocol, hello?.resumeToken || null);
+      if (!added) return; // Connection already rejected
+      const { client, resumed } = added;
+
+      if (hello) {
+        client.reportCapabilities(hello);
+        const welcome: WelcomePayload = {
+          protocolVersion: protocol.version,
+          clientId: id,
+          capabilities: protocol.capabilities,
+          resumeToken: client.getResumeToken()!,
+          resumed
+        };
+        client.send({ type: WELCOME_MESSAGE, ...welcome });
+        if (resumed) {
+          log.info(`Delivered ${client.deliverPending()} pending request(s) to resumed client ${id}`);
+        }
+      }
 
       // Add protocol-level ping/pong to keep the TCP connection active
       const pingInterval = setInterval(() => {
@@ -50,10 +205,9 @@ export const wsRoutes = (wss: WebSocketServer): void => {
         }
       }, WEBSOCKET_PING_INTERVAL_MS); // Use configured interval
 
-      // Handle disconnection
+      // Handle disconnection, the client decides whether it waits for a resume or is removed
       ws.on("close", () => {
         clearInterval(pingInterval);
-        ClientManager.removeClient(id);
       });
 
       // Handle pong responses to update client activity
@@ -62,11 +216,10 @@ export const wsRoutes = (wss: WebSocketServer): void => {
         client.updateLastSeen();
       });
 
-      // Handle errors
+      // Handle errors, the socket is closed after them
       ws.on("error", (error) => {
         clearInterval(pingInterval);
         log.error(`WebSocket error for client ${id}: ${error}`);
-        ClientManager.removeClient(id);
       });
     } catch (error) {
       log.error(`WebSocket connection error: ${error}`);
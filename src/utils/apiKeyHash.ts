@@ -0,0 +1,29 @@
+import crypto from 'crypto';
+
+// Number of leading characters of a key stored in plain text to look it up
+export const API_KEY_PREFIX_LENGTH = 8;
+
+export function generateApiKey(): string {
+  return crypto.randomBytes(16).toString('hex');
+}
+
+/**
+ * Keys are random, so a fast hash is enough to make a leaked database useless.
+ */
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+export function apiKeyPrefix(key: string): string {
+  return key.slice(0, API_KEY_PREFIX_LENGTH);
+}
+
+/**
+ * Compare a presented key with a stored hash in constant time.
+ */
+export function matchesApiKeyHash(key: string, hash: string | null | undefined): boolean {
+  if (!key || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = Buffer.from(hashApiKey(key), 'hex');
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
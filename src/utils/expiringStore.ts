@@ -0,0 +1,108 @@
+import { getRedisClient } from '../config/redis';
+
+/**
+ * Small JSON key-value store with per-key expiry.
+ * Uses Redis when it is configured so records are shared between instances,
+ * and an in-process map otherwise.
+ */
+
+const memoryRecords = new Map<string, { value: string; expiresAt: number }>();
+
+let pruneInterval: NodeJS.Timeout | null = null;
+
+function startPruning(): void {
+  if (pruneInterval) return;
+  pruneInterval = setInterval(() => {
+    const now = Date.now();
+    for (const [key, entry] of memoryRecords) {
+      if (entry.expiresAt <= now) memoryRecords.delete(key);
+    }
+  }, 60000);
+  pruneInterval.unref();
+}
+
+export async function getRecord<T>(key: string): Promise<T | null> {
+  const redis = getRedisClient();
+  if (redis) {
+    const value = await redis.get(key);
+    return value ? JSON.parse(value) : null;
+  }
+
+  const entry = memoryRecords.get(key);
+  if (!entry || entry.expiresAt <= Date.now()) {
+    memoryRecords.delete(key);
+    return null;
+  }
+  return JSON.parse(entry.value);
+}
+
+/**
+ * Get a record and delete it in one step, so only one caller can take it.
+ */
+export async function takeRecord<T>(key: string): Promise<T | null> {
+  const redis = getRedisClient();
+  if (redis) {
+    const value = await redis.getDel(key);
+    return value ? JSON.parse(value) : null;
+  }
+
+  const entry = memoryRecords.get(key);
+  memoryRecords.delete(key);
+  return entry && entry.expiresAt > Date.now() ? JSON.parse(entry.value) : null;
+}
+
+/**
+ * Store a record for ttlSeconds. With onlyIfAbsent, an existing record is left untouched.
+ * Returns whether the record was stored.
+ */
+export async function setRecord<T>(key: string, value: T, ttlSeconds: number, options: { onlyIfAbsent?: boolean } = {}): Promise<boolean> {
+  const serialized = JSON.stringify(value);
+  const redis = getRedisClient();
+  if (redis) {
+    const result = options.onlyIfAbsent
+      ? await redis.set(key, serialized, { NX: true, EX: ttlSeconds })
+      : await redis.set(key, serialized, { EX: ttlSeconds });
+    return result === 'OK';
+  }
+
+  if (options.onlyIfAbsent && await getRecord(key)) {
+    return false;
+  }
+  memoryRecords.set(key, { value: serialized, expiresAt: Date.now() + ttlSeconds * 1000 });
+  startPruning();
+  return true;
+}
+
+/**
+ * Atomically increment a counter and return its new value. The counter expires
+ * ttlSeconds after it was created, later increments do not extend it.
+ */
+export async function incrementRecord(key: string, ttlSeconds: number): Promise<number> {
+  const redis = getRedisClient();
+  if (redis) {
+    const value = await redis.incr(key);
+    if (value === 1) {
+      await redis.expire(key, ttlSeconds);
+    }
+    return value;
+  }
+
+  const current = await getRecord<number>(key);
+  const entry = memoryRecords.get(key);
+  const value = (current || 0) + 1;
+  memoryRecords.set(key, {
+    value: JSON.stringify(value),
+    expiresAt: entry && current ? entry.expiresAt : Date.now() + ttlSeconds * 1000
+  });
+  startPruning();
+  return value;
+}
+
+export async function deleteRecord(key: string): Promise<void> {
+  const redis = getRedisClient();
+  if (redis) {
+    await redis.del(key);
+    return;
+  }
+  memoryRecords.delete(key);
+}
@@ -0,0 +1,51 @@
+import crypto from 'crypto';
+
+export interface JwtPayload {
+  iat: number;
+  exp: number;
+  [key: string]: any;
+}
+
+function base64url(input: Buffer | string): string {
+  return Buffer.from(input).toString('base64url');
+}
+
+function sign(data: string, secret: string): Buffer {
+  return crypto.createHmac('sha256', secret).update(data).digest();
+}
+
+/**
+ * Create an HS256 JSON Web Token that expires after ttlSeconds.
+ */
+export function signJwt(claims: Record<string, any>, secret: string, ttlSeconds: number): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const payload = base64url(JSON.stringify({ ...claims, iat: now, exp: now + ttlSeconds }));
+  return `${header}.${payload}.${base64url(sign(`${header}.${payload}`, secret))}`;
+}
+
+/**
+ * Verify an HS256 token's signature and expiry. Returns its payload, or null if it is not valid.
+ */
+export function verifyJwt(token: string, secret: string): JwtPayload | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+
+  const [header, payload, signature] = parts;
+  const expected = sign(`${header}.${payload}`, secret);
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  try {
+    const { alg } = JSON.parse(Buffer.from(header, 'base64url').toString());
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    if (alg !== 'HS256' || typeof claims.exp !== 'number' || claims.exp <= Math.floor(Date.now() / 1000)) {
+      return null;
+    }
+    return claims;
+  } catch {
+    return null;
+  }
+}
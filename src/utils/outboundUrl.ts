@@ -0,0 +1,98 @@
+import dns from 'dns';
+import net from 'net';
+
+/**
+ * Checks for URLs the relay POSTs to on behalf of users (webhook subscriptions and job
+ * callbacks), so they cannot be used to reach services on the relay's own network.
+ */
+
+// Allow webhook and callback URLs on loopback, private and link-local addresses, for local development
+const WEBHOOK_ALLOW_PRIVATE_URLS = process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true';
+
+const blockedAddresses = new net.BlockList();
+for (const [address, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as const) {
+  blockedAddresses.addSubnet(address, prefix, 'ipv4');
+}
+for (const [address, prefix] of [['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  blockedAddresses.addSubnet(address, prefix, 'ipv6');
+}
+
+/**
+ * The 16-bit groups of a valid IPv6 address, with a trailing dotted IPv4 part converted.
+ */
+function ipv6Groups(address: string): number[] {
+  let text = address.split('%')[0];
+  const dotted = text.match(/^(.*:)(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(2).map(Number);
+    text = `${dotted[1]}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const parse = (part: string) => part ? part.split(':').map(group => parseInt(group, 16)) : [];
+  if (!text.includes('::')) return parse(text);
+  const [head, tail] = text.split('::').map(parse);
+  return [...head, ...new Array(8 - head.length - tail.length).fill(0), ...tail];
+}
+
+/**
+ * The IPv4 address embedded in an IPv4-mapped (::ffff:0:0/96) or NAT64 (64:ff9b::/96)
+ * IPv6 address, in either notation, or null.
+ */
+function embeddedIPv4(address: string): string | null {
+  const groups = ipv6Groups(address);
+  const prefix = groups.slice(0, 6).map(group => group.toString(16)).join(':');
+  if (prefix !== '0:0:0:0:0:ffff' && prefix !== '64:ff9b:0:0:0:0') return null;
+  return [groups[6] >> 8, groups[6] & 255, groups[7] >> 8, groups[7] & 255].join('.');
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not publicly routable.
+ * IPv4 addresses embedded in IPv6 addresses are checked as IPv4.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  if (family === 6) {
+    const ipv4 = embeddedIPv4(address);
+    if (ipv4) return blockedAddresses.check(ipv4, 'ipv4');
+  }
+  return blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Check that a URL is http(s) and that its host does not resolve to a private address.
+ * Returns a description of the problem, or null if the relay may send requests to it.
+ */
+export async function checkOutboundUrl(url: string): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "not a valid URL";
+  }
+  if (!['http:', 'https:'].includes(parsed.protocol)) {
+    return "not an http(s) URL";
+  }
+  if (WEBHOOK_ALLOW_PRIVATE_URLS) {
+    return null;
+  }
+
+  // IPv6 hosts keep their brackets in URL.hostname
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(host)) {
+    return isPrivateAddress(host) ? `${host} is a private address` : null;
+  }
+
+  let addresses: string[];
+  try {
+    addresses = (await dns.promises.lookup(host, { all: true, verbatim: true })).map(entry => entry.address);
+  } catch {
+    return `host ${host} could not be resolved`;
+  }
+
+  const blocked = addresses.find(isPrivateAddress);
+  return blocked ? `host ${host} resolves to the private address ${blocked}` : null;
+}
@@ -15,7 +15,7 @@ export function getHeadlessClientId(userId: string): string {
 }
 
 // Track pending headless sessions
-export async function registerHeadlessSession(sessionId: string, userId: string, apiKey: string): Promise<void> {
+export async function registerHeadlessSession(sessionId: string, userId: string, accountKey: string): Promise<void> {
   const redis = getRedisClient();
   if (!redis) return;
   
@@ -26,7 +26,8 @@ export async function registerHeadlessSession(sessionId: string, userId: string,
     // Store the session mapping
     await redis.hSet(`headless_session:${sessionId}`, {
       clientId,
-      apiKey,
+      // Account key of the session's owner, see accountKeyFor
+      apiKey: accountKey,
       instanceId,
       created: Date.now()
     });
@@ -39,8 +40,8 @@ export async function registerHeadlessSession(sessionId: string, userId: string,
     await redis.expire(`headless_client:${clientId}`, 10800);
     
     // Store apiKey to instanceId mapping - CRITICAL FOR REQUEST FORWARDING
-    await redis.set(`apikey:${apiKey}:instance`, instanceId);
-    await redis.expire(`apikey:${apiKey}:instance`, 10800);
+    await redis.set(`apikey:${accountKey}:instance`, instanceId);
+    await redis.expire(`apikey:${accountKey}:instance`, 10800);
     
     // Also store client to instance mapping for socket lookups
     await redis.set(`client:${clientId}:instance`, instanceId);  
@@ -53,7 +54,7 @@ export async function registerHeadlessSession(sessionId: string, userId: string,
 }
 
 // Validate client connections - MODIFIED TO HANDLE INSTANCE MIGRATIONS
-export async function validateHeadlessSession(clientId: string, token: string): Promise<boolean> {
+export async function validateHeadlessSession(clientId: string, accountKey: string): Promise<boolean> {
   // Skip non-headless clients
   if (!isHeadlessClient(clientId)) {
     return true;
@@ -78,7 +79,7 @@ export async function validateHeadlessSession(clientId: string, token: string):
     }
     
     // Check if API key matches
-    if (sessionData.apiKey !== token) {
+    if (sessionData.apiKey !== accountKey) {
       log.warn(`API key mismatch for headless client ${clientId}`);
       return false; // Reject the connection
     }
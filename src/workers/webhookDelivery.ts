@@ -0,0 +1,163 @@
+import axios, { AxiosResponse } from 'axios';
+import crypto from 'crypto';
+import { log } from '../utils/logger';
+import { userIdFromAccountKey } from '../models/user';
+import { WebhookSubscription } from '../models/webhookSubscription';
+import { WorldEvents, WorldEvent } from '../core/WorldEvents';
+import { ClientHandle } from '../core/Client';
+import { checkOutboundUrl } from '../utils/outboundUrl';
+
+// Delivery attempts per event before it counts as a failure
+const WEBHOOK_MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '5', 10);
+// First retry delay, doubled on each further attempt
+const WEBHOOK_RETRY_BASE_DELAY_MS = parseInt(process.env.WEBHOOK_RETRY_BASE_DELAY_MS || '1000', 10);
+// Consecutive failed deliveries before a subscription is disabled
+const WEBHOOK_FAILURE_THRESHOLD = parseInt(process.env.WEBHOOK_FAILURE_THRESHOLD || '10', 10);
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+// Flag to check if we're using memory store
+const isMemoryStore = process.env.DB_TYPE === 'memory';
+
+let started = false;
+
+// Sign the timestamp and body so receivers can reject replayed or forged payloads
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+// Start delivering world events to webhook subscriptions
+export function startWebhookDelivery(): void {
+  if (started) return;
+  started = true;
+
+  WorldEvents.subscribeAll((event, client) => {
+    dispatchEvent(event, client).catch(error => {
+      log.error(`Error dispatching webhook event ${event.id}: ${error}`);
+    });
+  });
+
+  log.info('Webhook delivery worker started');
+}
+
+async function dispatchEvent(event: WorldEvent, client: ClientHandle): Promise<void> {
+  let userId: number;
+  if (isMemoryStore) {
+    // Memory store bypasses authentication, so every subscription belongs to the local dev user
+    userId = 1;
+  } else {
+    const ownerId = userIdFromAccountKey(client.getApiKey());
+    if (ownerId === null) return;
+    userId = ownerId;
+  }
+
+  const subscriptions = await WebhookSubscription.findAll({ where: { userId, active: true } });
+
+  for (const subscription of subscriptions) {
+    const events: string[] = subscription.getDataValue('events') || [];
+    const clientId = subscription.getDataValue('clientId');
+
+    if (!events.includes(event.type)) continue;
+    if (clientId && clientId !== event.clientId) continue;
+
+    deliver(subscription, event, 1);
+  }
+}
+
+/**
+ * POST a signed JSON body to a webhook URL. Resolves with the response for any status.
+ */
+export function sendSignedWebhook(url: string, secret: string, event: string, deliveryId: string, body: string): Promise<AxiosResponse> {
+  const timestamp = Date.now();
+  const signature = signWebhookPayload(secret, timestamp, body);
+
+  return axios.post(url, body, {
+    timeout: WEBHOOK_TIMEOUT_MS,
+    headers: {
+      'Content-Type': 'application/json',
+      'User-Agent': 'foundryvtt-rest-api-relay-webhooks',
+      'X-Relay-Event': event,
+      'X-Relay-Delivery': deliveryId,
+      'X-Relay-Timestamp': timestamp.toString(),
+      'X-Relay-Signature': `sha256=${signature}`
+    },
+    validateStatus: () => true,
+    // A redirect could lead to an address the URL was checked against
+    maxRedirects: 0
+  });
+}
+
+function deliver(subscription: any, event: WorldEvent, attempt: number): void {
+  const url = subscription.getDataValue('url');
+  const body = JSON.stringify({
+    id: event.id,
+    event: event.type,
+    clientId: event.clientId,
+    timestamp: event.timestamp,
+    data: event.data
+  });
+
+  // Checked again for each delivery, the host may resolve to a different address by now
+  checkOutboundUrl(url)
+    .then(problem => {
+      if (problem) {
+        log.warn(`Not delivering webhook ${event.id} to subscription ${subscription.getDataValue('id')}: ${problem}`);
+        return recordResult(subscription, null, `URL cannot receive webhooks: ${problem}`);
+      }
+
+      return sendSignedWebhook(url, subscription.getDataValue('secret'), event.type, event.id, body).then(
+        response => {
+          if (response.status >= 200 && response.status < 300) {
+            return recordResult(subscription, response.status, null);
+          }
+          return retryOrFail(subscription, event, attempt, response.status, `Endpoint responded with ${response.status}`);
+        },
+        error => {
+          const message = error instanceof Error ? error.message : String(error);
+          return retryOrFail(subscription, event, attempt, null, message);
+        }
+      );
+    })
+    .catch(error => {
+      log.error(`Error recording webhook delivery for subscription ${subscription.getDataValue('id')}: ${error}`);
+    });
+}
+
+async function retryOrFail(subscription: any, event: WorldEvent, attempt: number, status: number | null, error: string): Promise<void> {
+  const id = subscription.getDataValue('id');
+
+  if (attempt < WEBHOOK_MAX_ATTEMPTS) {
+    const delay = WEBHOOK_RETRY_BASE_DELAY_MS * Math.pow(2, attempt - 1);
+    log.warn(`Webhook delivery ${event.id} to subscription ${id} failed (attempt ${attempt}/${WEBHOOK_MAX_ATTEMPTS}), retrying in ${delay}ms: ${error}`);
+    // Retries are only scheduled in this process, deliveries still retrying when it stops are dropped
+    setTimeout(() => deliver(subscription, event, attempt + 1), delay);
+    return;
+  }
+
+  log.warn(`Webhook delivery ${event.id} to subscription ${id} failed after ${attempt} attempts: ${error}`);
+  await recordResult(subscription, status, error);
+}
+
+async function recordResult(subscription: any, status: number | null, error: string | null): Promise<void> {
+  const updates: Record<string, any> = {
+    lastStatus: status,
+    lastError: error,
+    lastDeliveryAt: new Date()
+  };
+
+  if (error) {
+    // Deliveries can fail at the same time, so the count is incremented in the database
+    await subscription.increment('consecutiveFailures');
+    await subscription.reload();
+    const failures = subscription.getDataValue('consecutiveFailures');
+
+    if (failures >= WEBHOOK_FAILURE_THRESHOLD && subscription.getDataValue('active')) {
+      updates.active = false;
+      updates.disabledAt = new Date();
+      log.warn(`Disabling webhook subscription ${subscription.getDataValue('id')} after ${failures} consecutive failed deliveries`);
+    }
+  } else {
+    updates.consecutiveFailures = 0;
+  }
+
+  await subscription.update(updates);
+}
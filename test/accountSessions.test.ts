@@ -0,0 +1,56 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Request, Response } from 'express';
+import { AccountSessions, REFRESH_COOKIE_NAME } from '../src/core/AccountSessions';
+import { User } from '../src/models/user';
+
+function fakeResponse() {
+  const res = {
+    cookies: {} as Record<string, string>,
+    cookie(name: string, value: string) { res.cookies[name] = value; return res; }
+  };
+  return res;
+}
+
+function requestWith(token: string): Request {
+  return { headers: { cookie: `${REFRESH_COOKIE_NAME}=${encodeURIComponent(token)}` } } as unknown as Request;
+}
+
+describe('AccountSessions.refresh', () => {
+  let user: any;
+
+  before(async () => {
+    user = await User.create({ email: 'sessions@example.com', password: 'correct horse battery' });
+  });
+
+  async function signIn(): Promise<string> {
+    const res = fakeResponse();
+    await AccountSessions.issue(user, res as unknown as Response);
+    return res.cookies[REFRESH_COOKIE_NAME];
+  }
+
+  it('replaces the refresh token', async () => {
+    const token = await signIn();
+    const res = fakeResponse();
+
+    assert.ok(await AccountSessions.refresh(requestWith(token), res as unknown as Response));
+    const replacement = res.cookies[REFRESH_COOKIE_NAME];
+    assert.ok(replacement && replacement !== token);
+    assert.ok(await AccountSessions.refresh(requestWith(replacement), fakeResponse() as unknown as Response));
+  });
+
+  it('lets only one of two concurrent refreshes use a token, and ends the session', async () => {
+    const token = await signIn();
+    const first = fakeResponse();
+    const second = fakeResponse();
+
+    const results = await Promise.all([
+      AccountSessions.refresh(requestWith(token), first as unknown as Response),
+      AccountSessions.refresh(requestWith(token), second as unknown as Response)
+    ]);
+
+    assert.equal(results.filter(Boolean).length, 1);
+    const replacement = first.cookies[REFRESH_COOKIE_NAME] || second.cookies[REFRESH_COOKIE_NAME];
+    assert.equal(await AccountSessions.refresh(requestWith(replacement), fakeResponse() as unknown as Response), null);
+  });
+});
@@ -0,0 +1,87 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'events';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express from 'express';
+import { WebSocket } from 'ws';
+// Loads the routers in the order the server does, they import each other
+import '../src/routes/api';
+import { ClientManager } from '../src/core/ClientManager';
+import { batchRouter } from '../src/routes/api/batch';
+import { searchRouter } from '../src/routes/api/search';
+import { structureRouter } from '../src/routes/api/structure';
+import { pendingRequests, safeResponse } from '../src/routes/shared';
+
+/**
+ * Stands in for the WebSocket of a Foundry module that answers every request right away.
+ */
+class FakeModuleSocket extends EventEmitter {
+  readyState: number = WebSocket.OPEN;
+  readonly requests: any[] = [];
+
+  send(data: string): void {
+    const message = JSON.parse(data);
+    this.requests.push(message);
+    setImmediate(() => {
+      const pending = pendingRequests.get(message.requestId);
+      if (!pending) return;
+      pendingRequests.delete(message.requestId);
+      safeResponse(pending.res, 200, { requestId: message.requestId, type: message.type, clientId: message.clientId });
+    });
+  }
+
+  ping(): void {}
+
+  close(): void {
+    this.readyState = WebSocket.CLOSED;
+  }
+}
+
+describe('POST /batch', () => {
+  const socket = new FakeModuleSocket();
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    await ClientManager.addClient(socket as unknown as WebSocket, 'batch-world', 'local-dev', 'world', 'World');
+    const app = express();
+    app.use(express.json());
+    app.use(batchRouter, searchRouter, structureRouter);
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await ClientManager.removeClient('batch-world');
+    server.closeAllConnections();
+    server.close();
+  });
+
+  async function batch(body: any) {
+    const response = await fetch(`${baseUrl}/batch?clientId=batch-world`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-api-key': 'test' },
+      body: JSON.stringify(body)
+    });
+    return { status: response.status, body: await response.json() };
+  }
+
+  it('runs every item through its route', async () => {
+    const { status, body } = await batch({
+      requests: [
+        { method: 'GET', path: '/search', query: { query: 'goblin' } },
+        { method: 'GET', path: '/structure' }
+      ]
+    });
+
+    assert.equal(status, 200);
+    assert.equal(body.succeeded, 2);
+    assert.deepEqual(body.results.map((result: any) => [result.status, result.body.type]), [[200, 'search'], [200, 'structure']]);
+  });
+
+  it('answers items without a batchable route with 404', async () => {
+    const { body } = await batch({ requests: [{ method: 'GET', path: '/batch-unknown' }] });
+    assert.equal(body.results[0].status, 404);
+  });
+});
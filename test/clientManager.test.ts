@@ -0,0 +1,83 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'events';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express from 'express';
+import { WebSocket } from 'ws';
+import { apiRoutes } from '../src/routes/api';
+import { ClientManager } from '../src/core/ClientManager';
+import { WSCloseCodes } from '../src/lib/constants';
+
+/**
+ * Stands in for the WebSocket of a Foundry module that never answers its requests.
+ */
+class SilentModuleSocket extends EventEmitter {
+  readyState: number = WebSocket.OPEN;
+  readonly requests: any[] = [];
+  closeCode?: number;
+
+  send(data: string): void {
+    this.requests.push(JSON.parse(data));
+  }
+
+  ping(): void {}
+
+  close(code?: number): void {
+    this.closeCode = code;
+    this.readyState = WebSocket.CLOSED;
+  }
+}
+
+describe('ClientManager.addClient', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  before(() => {
+    // Also registers the handler that answers interrupted requests
+    const app = express();
+    apiRoutes(app);
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await ClientManager.removeClient('reconnecting-world');
+    server.closeAllConnections();
+    server.close();
+  });
+
+  function connect(socket: SilentModuleSocket) {
+    return ClientManager.addClient(socket as unknown as WebSocket, 'reconnecting-world', 'local-dev', 'world', 'World');
+  }
+
+  it('keeps a connection that still answers and rejects the new one', async () => {
+    const live = new SilentModuleSocket();
+    const first = await connect(live);
+    const second = new SilentModuleSocket();
+
+    assert.equal(await connect(second), null);
+    assert.equal(second.closeCode, WSCloseCodes.DuplicateConnection);
+    assert.equal(live.closeCode, undefined);
+    assert.equal(ClientManager.getLocalClient('reconnecting-world'), first!.client);
+    await ClientManager.removeClient('reconnecting-world');
+  });
+
+  it('replaces a connection that stopped answering and fails its requests with 503', async () => {
+    const stale = new SilentModuleSocket();
+    await connect(stale);
+
+    const response = fetch(`${baseUrl}/search?clientId=reconnecting-world&query=goblin`);
+    while (stale.requests.length === 0) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    stale.readyState = WebSocket.CLOSING;
+
+    const fresh = await connect(new SilentModuleSocket());
+    assert.ok(fresh);
+    const answer = await response;
+    assert.equal(answer.status, 503);
+    assert.equal((await answer.json()).interrupted, true);
+    assert.equal(ClientManager.getLocalClient('reconnecting-world'), fresh.client);
+  });
+});
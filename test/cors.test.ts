@@ -0,0 +1,47 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express from 'express';
+import { corsMiddleware } from '../src/middleware/cors';
+
+describe('corsMiddleware', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  before(() => {
+    const app = express();
+    app.use('/listed', corsMiddleware({ origin: ['https://dashboard.example'] }));
+    app.use('/open', corsMiddleware({ origin: '*' }));
+    app.get(['/listed', '/open'], (_req, res) => { res.json({ ok: true }); });
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  it('echoes allow-listed origins with credentials', async () => {
+    const response = await fetch(`${baseUrl}/listed`, { headers: { Origin: 'https://dashboard.example' } });
+    assert.equal(response.headers.get('access-control-allow-origin'), 'https://dashboard.example');
+    assert.equal(response.headers.get('access-control-allow-credentials'), 'true');
+    assert.equal(response.headers.get('vary'), 'Origin');
+  });
+
+  it('lets other origins call the API without credentials', async () => {
+    for (const path of ['/listed', '/open']) {
+      const response = await fetch(`${baseUrl}${path}`, { headers: { Origin: 'https://elsewhere.example' } });
+      assert.equal(response.headers.get('access-control-allow-origin'), '*', path);
+      assert.equal(response.headers.get('access-control-allow-credentials'), null, path);
+    }
+  });
+
+  it('allows conditional and range request headers', async () => {
+    const response = await fetch(`${baseUrl}/open`, { method: 'OPTIONS' });
+    const allowed = response.headers.get('access-control-allow-headers')!.split(', ');
+    assert.ok(allowed.includes('If-None-Match'));
+    assert.ok(allowed.includes('Range'));
+  });
+});
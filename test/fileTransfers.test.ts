@@ -0,0 +1,61 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Client } from '../src/core/Client';
+import { ClientManager } from '../src/core/ClientManager';
+import { FileTransfers } from '../src/core/FileTransfers';
+import { TRANSFER_ACK_MESSAGE, describeTransfer } from '../src/lib/protocol';
+
+// Lets the send loop run until it waits for an acknowledgement
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+function fakeClient(id: string) {
+  const frames: Buffer[] = [];
+  const client = {
+    getId: () => id,
+    sendBinary: async (frame: Buffer) => {
+      frames.push(frame);
+      return true;
+    },
+    send: () => true
+  } as unknown as Client;
+  return { client, frames };
+}
+
+describe('FileTransfers window', () => {
+  FileTransfers.registerMessageHandlers();
+
+  it('sends at most a window of unacknowledged chunks', async () => {
+    const { client, frames } = fakeClient('window-client');
+    const chunks = FileTransfers.window + 3;
+    const descriptor = describeTransfer(Buffer.alloc(chunks * 4, 1), 4);
+    const sending = FileTransfers.send(client, descriptor, Buffer.alloc(chunks * 4, 1));
+
+    await settle();
+    assert.equal(frames.length, FileTransfers.window);
+
+    ClientManager.dispatchMessage(client, { type: TRANSFER_ACK_MESSAGE, transferId: descriptor.id, sequence: 1 });
+    await settle();
+    assert.equal(frames.length, FileTransfers.window + 2);
+
+    ClientManager.dispatchMessage(client, { type: TRANSFER_ACK_MESSAGE, transferId: descriptor.id, sequence: 2 });
+    await sending;
+    assert.equal(frames.length, chunks);
+  });
+
+  it('ignores acknowledgements from other clients', async () => {
+    const { client, frames } = fakeClient('owner-client');
+    const other = fakeClient('other-client').client;
+    const chunks = FileTransfers.window + 1;
+    const descriptor = describeTransfer(Buffer.alloc(chunks * 4), 4);
+    const sending = FileTransfers.send(client, descriptor, Buffer.alloc(chunks * 4));
+
+    await settle();
+    ClientManager.dispatchMessage(other, { type: TRANSFER_ACK_MESSAGE, transferId: descriptor.id, sequence: 0 });
+    await settle();
+    assert.equal(frames.length, FileTransfers.window);
+
+    ClientManager.dispatchMessage(client, { type: TRANSFER_ACK_MESSAGE, transferId: descriptor.id, sequence: 0 });
+    await sending;
+    assert.equal(frames.length, chunks);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseRangeHeader, resolveRange } from '../src/lib/httpRange';
+
+describe('parseRangeHeader', () => {
+  it('reads a range from start to end', () => {
+    assert.deepEqual(parseRangeHeader('bytes=0-99'), { start: 0, end: 99 });
+  });
+
+  it('reads an open-ended range', () => {
+    assert.deepEqual(parseRangeHeader('bytes=100-'), { start: 100, end: null });
+  });
+
+  it('reads a suffix range', () => {
+    assert.deepEqual(parseRangeHeader('bytes=-500'), { suffix: 500 });
+  });
+
+  it('ignores missing, malformed and multiple ranges', () => {
+    assert.equal(parseRangeHeader(undefined), null);
+    assert.equal(parseRangeHeader('bytes=-'), null);
+    assert.equal(parseRangeHeader('items=0-10'), null);
+    assert.equal(parseRangeHeader('bytes=0-10,20-30'), null);
+    assert.equal(parseRangeHeader('bytes=50-10'), null);
+  });
+});
+
+describe('resolveRange', () => {
+  it('clamps the end to the last byte of the file', () => {
+    assert.deepEqual(resolveRange({ start: 10, end: 5000 }, 100), { start: 10, end: 99, size: 100 });
+    assert.deepEqual(resolveRange({ start: 10, end: null }, 100), { start: 10, end: 99, size: 100 });
+  });
+
+  it('selects the last bytes for a suffix', () => {
+    assert.deepEqual(resolveRange({ suffix: 30 }, 100), { start: 70, end: 99, size: 100 });
+    assert.deepEqual(resolveRange({ suffix: 300 }, 100), { start: 0, end: 99, size: 100 });
+  });
+
+  it('selects nothing past the end of the file or from an empty one', () => {
+    assert.equal(resolveRange({ start: 100, end: null }, 100), null);
+    assert.equal(resolveRange({ suffix: 0 }, 100), null);
+    assert.equal(resolveRange({ suffix: 10 }, 0), null);
+  });
+});
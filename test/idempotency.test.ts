@@ -0,0 +1,59 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express, { Request, Response } from 'express';
+import { idempotencyMiddleware } from '../src/middleware/idempotency';
+
+describe('idempotencyMiddleware', () => {
+  let server: Server;
+  let baseUrl: string;
+  let calls = 0;
+
+  before(() => {
+    const app = express();
+    app.use((req: Request, _res: Response, next) => {
+      req.accountKey = 'idempotency-test';
+      next();
+    });
+    app.post('/json', express.json(), idempotencyMiddleware, (req: Request, res: Response) => {
+      res.json({ call: ++calls, body: req.body });
+    });
+    app.post('/upload', idempotencyMiddleware, (_req: Request, res: Response) => {
+      res.json({ call: ++calls });
+    });
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  function post(path: string, key: string, init: { body?: any; contentType?: string } = {}) {
+    const headers: Record<string, string> = { 'Idempotency-Key': key };
+    if (init.contentType) headers['Content-Type'] = init.contentType;
+    return fetch(`${baseUrl}${path}`, { method: 'POST', headers, body: init.body });
+  }
+
+  it('replays the first response for a key', async () => {
+    const first = await (await post('/json', 'replay', { body: '{"a":1}', contentType: 'application/json' })).json();
+    const retry = await post('/json', 'replay', { body: '{"a":1}', contentType: 'application/json' });
+
+    assert.equal(retry.headers.get('Idempotent-Replayed'), 'true');
+    assert.deepEqual(await retry.json(), first);
+  });
+
+  it('accepts requests without a body', async () => {
+    const first = await post('/upload', 'empty');
+    assert.equal(first.status, 200);
+    assert.equal((await post('/upload', 'empty')).headers.get('Idempotent-Replayed'), 'true');
+  });
+
+  it('refuses binary uploads, whose contents it cannot compare', async () => {
+    const response = await post('/upload', 'binary', { body: new Uint8Array([1, 2, 3]), contentType: 'application/octet-stream' });
+    assert.equal(response.status, 400);
+    assert.equal((await response.json()).field, 'Idempotency-Key');
+  });
+});
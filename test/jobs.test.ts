@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Request } from 'express';
+import { Jobs } from '../src/core/Jobs';
+
+function request(query: Record<string, any>, body: any = {}): Request {
+  return { query, body } as Request;
+}
+
+describe('Jobs.parseOptions', () => {
+  it('creates no job without options', async () => {
+    assert.deepEqual(await Jobs.parseOptions(request({})), { options: { async: false }, error: null });
+  });
+
+  it('reads async from the query string or the JSON body', async () => {
+    assert.deepEqual((await Jobs.parseOptions(request({ async: 'true' }))).options, { async: true });
+    assert.deepEqual((await Jobs.parseOptions(request({}, { async: true }))).options, { async: true });
+    assert.deepEqual((await Jobs.parseOptions(request({ async: 'FALSE' }))).options, { async: false });
+  });
+
+  it('rejects values of async that are not booleans', async () => {
+    const { error } = await Jobs.parseOptions(request({ async: 'yes' }));
+    assert.equal(error?.field, 'async');
+    assert.equal(error?.code, 'invalid_type');
+  });
+
+  it('accepts a public callback URL with async=true', async () => {
+    const { options, error } = await Jobs.parseOptions(request({ async: 'true', callbackUrl: 'https://8.8.8.8/callback' }));
+    assert.equal(error, null);
+    assert.deepEqual(options, { async: true, callbackUrl: 'https://8.8.8.8/callback' });
+  });
+
+  it('only accepts a callback URL with async=true', async () => {
+    const { error } = await Jobs.parseOptions(request({ callbackUrl: 'https://8.8.8.8/callback' }));
+    assert.equal(error?.field, 'callbackUrl');
+  });
+
+  it('rejects callback URLs that are not http(s)', async () => {
+    for (const callbackUrl of ['not a url', 'ftp://8.8.8.8/file', 42]) {
+      const { error } = await Jobs.parseOptions(request({}, { async: true, callbackUrl }));
+      assert.equal(error?.code, 'invalid_value', String(callbackUrl));
+    }
+  });
+
+  it('rejects callback URLs on private addresses', async () => {
+    for (const callbackUrl of ['http://127.0.0.1:8080/', 'http://10.0.0.5/', 'http://169.254.169.254/latest', 'http://[::1]/', 'http://[::ffff:7f00:1]/', 'http://[64:ff9b::a9fe:a9fe]/latest']) {
+      const { error } = await Jobs.parseOptions(request({ async: 'true', callbackUrl }));
+      assert.equal(error?.code, 'invalid_value', callbackUrl);
+      assert.match(error!.error, /private address/);
+    }
+  });
+});
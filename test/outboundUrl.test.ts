@@ -0,0 +1,39 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkOutboundUrl, isPrivateAddress } from '../src/utils/outboundUrl';
+
+describe('isPrivateAddress', () => {
+  it('blocks private, loopback and link-local addresses', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '::1', 'fd00::1', 'fe80::1']) {
+      assert.equal(isPrivateAddress(address), true, address);
+    }
+  });
+
+  it('allows public addresses', () => {
+    for (const address of ['8.8.8.8', '1.1.1.1', '2606:4700:4700::1111', '::ffff:8.8.8.8', '64:ff9b::808:808']) {
+      assert.equal(isPrivateAddress(address), false, address);
+    }
+  });
+
+  it('checks IPv4 addresses embedded in IPv6 addresses as IPv4', () => {
+    for (const address of [
+      '::ffff:127.0.0.1', '::ffff:7f00:1', '0:0:0:0:0:ffff:a9fe:a9fe', '::FFFF:C0A8:0101',
+      '64:ff9b::127.0.0.1', '64:ff9b::a00:1', '64:ff9b:0:0:0:0:a9fe:a9fe'
+    ]) {
+      assert.equal(isPrivateAddress(address), true, address);
+    }
+  });
+});
+
+describe('checkOutboundUrl', () => {
+  it('rejects URLs that are not http(s)', async () => {
+    assert.equal(await checkOutboundUrl('ftp://example.com/'), 'not an http(s) URL');
+    assert.equal(await checkOutboundUrl('not a url'), 'not a valid URL');
+  });
+
+  it('rejects private IPv6 literals, including embedded IPv4', async () => {
+    assert.match((await checkOutboundUrl('http://[::ffff:7f00:1]/hook'))!, /private address/);
+    assert.match((await checkOutboundUrl('http://[64:ff9b::a9fe:a9fe]/hook'))!, /private address/);
+    assert.equal(await checkOutboundUrl('https://[2606:4700:4700::1111]/hook'), null);
+  });
+});
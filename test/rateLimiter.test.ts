@@ -0,0 +1,46 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Request, Response } from 'express';
+import { RateLimiter } from '../src/core/RateLimiter';
+
+const plan = { keyRequestsPerSecond: 0, keyBurst: 0, clientRequestsPerSecond: 1, clientBurst: 1 };
+
+function fakeResponse() {
+  const res = {
+    statusCode: 200,
+    headers: {} as Record<string, string>,
+    body: undefined as any,
+    setHeader(name: string, value: string) { res.headers[name] = value; },
+    status(code: number) { res.statusCode = code; return res; },
+    json(body: any) { res.body = body; return res; }
+  };
+  return res;
+}
+
+describe('RateLimiter.consume', () => {
+  it('limits requests per Foundry client named in the query', async () => {
+    const req = { plan, query: { clientId: 'query-world' }, body: {} } as unknown as Request;
+    assert.equal(await RateLimiter.consume(req, fakeResponse() as unknown as Response, 1), true);
+
+    const res = fakeResponse();
+    assert.equal(await RateLimiter.consume(req, res as unknown as Response, 1), false);
+    assert.equal(res.statusCode, 429);
+    assert.equal(res.body.scope, 'client');
+  });
+
+  it('limits requests per Foundry client named in the body', async () => {
+    const req = { plan, query: {}, body: { clientId: 'body-world' } } as unknown as Request;
+    assert.equal(await RateLimiter.consume(req, fakeResponse() as unknown as Response, 1), true);
+
+    const res = fakeResponse();
+    assert.equal(await RateLimiter.consume(req, res as unknown as Response, 1), false);
+    assert.match(res.body.message, /Foundry client body-world/);
+  });
+
+  it('does not read a client from binary bodies', async () => {
+    const req = { plan, query: {}, body: Buffer.from('{"clientId":"x"}') } as unknown as Request;
+    const res = fakeResponse();
+    assert.equal(await RateLimiter.consume(req, res as unknown as Response, 1), true);
+    assert.equal(res.headers['X-RateLimit-Limit'], undefined);
+  });
+});
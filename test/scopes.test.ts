@@ -0,0 +1,49 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Request } from 'express';
+import { canAccessClient, requiredScope } from '../src/middleware/scopes';
+
+function requestWithClientIds(clientIds: string[] | null | undefined): Request {
+  if (clientIds === undefined) return {} as Request;
+  return { apiKeyScope: { id: 1, name: 'test', scopes: ['read'], clientIds } } as Request;
+}
+
+describe('requiredScope', () => {
+  it('needs read for GET requests and write for the rest', () => {
+    assert.equal(requiredScope('GET', '/search'), 'read');
+    assert.equal(requiredScope('post', '/create'), 'write');
+    assert.equal(requiredScope('DELETE', '/delete'), 'write');
+  });
+
+  it('needs the scope of endpoints with their own', () => {
+    assert.equal(requiredScope('POST', '/execute-js'), 'execute-js');
+    assert.equal(requiredScope('POST', '/roll'), 'roll');
+    assert.equal(requiredScope('GET', '/download'), 'files');
+    assert.equal(requiredScope('POST', '/upload'), 'files');
+    assert.equal(requiredScope('DELETE', '/end-session'), 'session');
+  });
+
+  it('only applies method-specific scopes to their methods', () => {
+    assert.equal(requiredScope('GET', '/roll'), 'read');
+  });
+
+  it('leaves endpoints that check access themselves to any key', () => {
+    assert.equal(requiredScope('POST', '/batch'), null);
+    assert.equal(requiredScope('DELETE', '/api-keys/3'), null);
+    assert.equal(requiredScope('GET', '/admin/users'), null);
+  });
+});
+
+describe('canAccessClient', () => {
+  it('allows every client to primary keys and keys without a client list', () => {
+    assert.equal(canAccessClient(requestWithClientIds(undefined), 'world-a'), true);
+    assert.equal(canAccessClient(requestWithClientIds(null), 'world-a'), true);
+    assert.equal(canAccessClient(requestWithClientIds([]), 'world-a'), true);
+  });
+
+  it('only allows the listed clients to restricted keys', () => {
+    const req = requestWithClientIds(['world-a']);
+    assert.equal(canAccessClient(req, 'world-a'), true);
+    assert.equal(canAccessClient(req, 'world-b'), false);
+  });
+});
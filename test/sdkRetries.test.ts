@@ -0,0 +1,102 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FoundryRelayClient, RelayClientReconnectingError, RelayError, RelayRateLimitError, RelayTimeoutError } from '../sdk/src';
+
+interface Call {
+  method: string;
+  headers: Record<string, string>;
+}
+
+/**
+ * A client whose fetch answers with the given responses in turn, recording the requests.
+ */
+function clientWithResponses(...responses: { status: number; body?: any }[]) {
+  const calls: Call[] = [];
+  const fetchImpl = async (_url: any, init: any) => {
+    calls.push({ method: init.method, headers: init.headers });
+    const next = responses[Math.min(calls.length, responses.length) - 1];
+    return new Response(next.body === undefined ? '{}' : JSON.stringify(next.body), { status: next.status });
+  };
+  const client = new FoundryRelayClient({
+    baseUrl: 'http://relay.test',
+    apiKey: 'key',
+    clientId: 'world',
+    retries: 2,
+    retryDelayMs: 0,
+    fetch: fetchImpl as typeof fetch
+  });
+  return { client, calls };
+}
+
+describe('SDK retries', () => {
+  it('retries timeouts of reads', async () => {
+    const { client, calls } = clientWithResponses({ status: 408 }, { status: 200, body: { ok: true } });
+    assert.deepEqual(await client.search({ query: 'goblin' }), { ok: true });
+    assert.equal(calls.length, 2);
+  });
+
+  it('retries timeouts of changes with the same Idempotency-Key', async () => {
+    const { client, calls } = clientWithResponses({ status: 504 }, { status: 200 });
+    await client.deleteEntity({ uuid: 'Actor.abc' });
+    assert.equal(calls.length, 2);
+    assert.ok(calls[0].headers['Idempotency-Key']);
+    assert.equal(calls[1].headers['Idempotency-Key'], calls[0].headers['Idempotency-Key']);
+  });
+
+  it('throws a RelayTimeoutError once the retries are used up', async () => {
+    const { client, calls } = clientWithResponses({ status: 408 });
+    await assert.rejects(client.search({ query: 'goblin' }), RelayTimeoutError);
+    assert.equal(calls.length, 3);
+  });
+
+  it('does not retry timeouts of uploads, which send no Idempotency-Key', async () => {
+    const { client, calls } = clientWithResponses({ status: 408 });
+    await assert.rejects(client.uploadFile({ path: 'maps', filename: 'map.png', data: new Uint8Array([1, 2]) }), RelayTimeoutError);
+    assert.equal(calls.length, 1);
+    assert.equal(calls[0].headers['Idempotency-Key'], undefined);
+  });
+
+  it('retries while the original request of an Idempotency-Key is pending', async () => {
+    const { client, calls } = clientWithResponses({ status: 409, body: { error: 'pending' } }, { status: 200 });
+    await client.deleteEntity({ uuid: 'Actor.abc' });
+    assert.equal(calls.length, 2);
+  });
+
+  it('retries requests for a reconnecting client', async () => {
+    const reconnecting = { error: 'Client reconnecting', requestId: 'delete_1', retryAfter: 5 };
+    const { client, calls } = clientWithResponses({ status: 503, body: reconnecting }, { status: 200 });
+    await client.deleteEntity({ uuid: 'Actor.abc' });
+    assert.equal(calls.length, 2);
+
+    const failing = clientWithResponses({ status: 503, body: reconnecting });
+    await assert.rejects(failing.client.deleteEntity({ uuid: 'Actor.abc' }), RelayClientReconnectingError);
+  });
+
+  it('only retries interrupted reads', async () => {
+    const interrupted = { error: 'Client reconnected before answering', requestId: 'delete_1', interrupted: true };
+    const change = clientWithResponses({ status: 503, body: interrupted }, { status: 200 });
+    const error = await change.client.deleteEntity({ uuid: 'Actor.abc' }).catch(caught => caught);
+    assert.ok(error instanceof RelayError && !(error instanceof RelayClientReconnectingError));
+    assert.equal(change.calls.length, 1);
+
+    const read = clientWithResponses({ status: 503, body: interrupted }, { status: 200 });
+    await read.client.search({ query: 'goblin' });
+    assert.equal(read.calls.length, 2);
+  });
+
+  it('retries per-second rate limits after retryAfter, not quotas', async () => {
+    const { client, calls } = clientWithResponses({ status: 429, body: { error: 'Rate limit', retryAfter: 0, scope: 'key' } }, { status: 200 });
+    await client.search({ query: 'goblin' });
+    assert.equal(calls.length, 2);
+
+    const quota = clientWithResponses({ status: 429, body: { error: 'Monthly limit reached', limit: 1000 } });
+    await assert.rejects(quota.client.search({ query: 'goblin' }), RelayRateLimitError);
+    assert.equal(quota.calls.length, 1);
+  });
+
+  it('does not retry other errors', async () => {
+    const { client, calls } = clientWithResponses({ status: 500, body: { error: 'Boom' } });
+    await assert.rejects(client.search({ query: 'goblin' }), (error: RelayError) => error.status === 500);
+    assert.equal(calls.length, 1);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ParamDef, validateParam } from '../src/routes/validation';
+
+const quantity: ParamDef = { name: 'quantity', from: 'body', type: 'number', integer: true, min: -10, max: 10 };
+
+describe('validateParam', () => {
+  it('coerces numbers from query strings', () => {
+    assert.deepEqual(validateParam(quantity, '-3'), { value: -3, error: null });
+  });
+
+  it('rejects values that are not finite numbers', () => {
+    for (const value of ['abc', '', 'Infinity', Number.NaN, '1e400']) {
+      assert.equal(validateParam(quantity, value).error?.code, 'invalid_type', String(value));
+    }
+  });
+
+  it('rejects fractions of whole-number parameters', () => {
+    const { error } = validateParam(quantity, 1.5);
+    assert.equal(error?.code, 'invalid_type');
+    assert.match(error!.error, /whole number/);
+    assert.equal(validateParam({ ...quantity, integer: undefined }, 1.5).error, null);
+  });
+
+  it('checks the range of numbers', () => {
+    assert.equal(validateParam(quantity, -10).error, null);
+    assert.equal(validateParam(quantity, 11).error?.code, 'out_of_range');
+    assert.equal(validateParam(quantity, -11).error?.code, 'out_of_range');
+  });
+
+  it('checks the length of strings and arrays', () => {
+    const name: ParamDef = { name: 'name', from: 'body', type: 'string', min: 1, max: 3 };
+    assert.equal(validateParam(name, '').error?.code, 'out_of_range');
+    assert.equal(validateParam(name, 'abcd').error?.code, 'out_of_range');
+    assert.equal(validateParam({ name: 'ids', from: 'body', type: 'array', items: 'string', max: 1 }, ['a', 'b']).error?.code, 'out_of_range');
+  });
+
+  it('checks the type of array items and allowed values', () => {
+    assert.equal(validateParam({ name: 'ids', from: 'query', type: 'array', items: 'string' }, '["a", 2]').error?.code, 'invalid_item');
+    assert.equal(validateParam({ name: 'mode', from: 'query', type: 'string', enum: ['a', 'b'] }, 'c').error?.code, 'invalid_value');
+  });
+});